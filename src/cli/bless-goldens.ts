@@ -0,0 +1,92 @@
+/// <reference types="node" />
+// Golden-run blesser
+// Usage: npm run golden:bless -- [--persona casual] [--data public/Data] [--out src/tests/golden]
+// Re-runs the fixed-seed golden simulations and overwrites the checked-in outcomes - review the diff before committing
+
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from 'node:fs'
+import { resolve, join } from 'node:path'
+import type { GoldenFile, GoldenPersonaId } from '@/utils/headless'
+
+interface BlessOptions {
+  dataDir: string
+  outDir: string
+  personas?: string[]
+}
+
+function parseArgs(argv: string[]): BlessOptions {
+  const options: BlessOptions = { dataDir: 'public/Data', outDir: 'src/tests/golden' }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    const value = argv[++i]
+    if (value === undefined) {
+      throw new Error(`Missing value for ${arg}`)
+    }
+
+    switch (arg) {
+      case '--data':
+        options.dataDir = value
+        break
+      case '--out':
+        options.outDir = value
+        break
+      case '--persona':
+        options.personas = value.split(',').map(persona => persona.trim()).filter(Boolean)
+        break
+      default:
+        throw new Error(`Unknown argument: ${arg}`)
+    }
+  }
+
+  return options
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2))
+
+  // The simulation modules log on every tick - only the blesser's own lines go to stderr
+  const originalLog = console.log
+  const originalWarn = console.warn
+  console.log = () => {}
+  console.warn = () => {}
+
+  try {
+    const { HeadlessGameDataStore, GOLDEN_PERSONAS, DEFAULT_GOLDEN_TOLERANCES, runGolden } = await import('@/utils/headless')
+
+    const personas = (options.personas ?? GOLDEN_PERSONAS) as GoldenPersonaId[]
+    const unknown = personas.filter(persona => !GOLDEN_PERSONAS.includes(persona))
+    if (unknown.length > 0) {
+      throw new Error(`Unknown golden persona(s): ${unknown.join(', ')} (expected ${GOLDEN_PERSONAS.join(', ')})`)
+    }
+
+    const { store, errors } = HeadlessGameDataStore.loadFromDirectory(resolve(options.dataDir))
+    if (store.allItems.length === 0) {
+      throw new Error(`No CSV items loaded from ${options.dataDir}: ${errors.join('; ')}`)
+    }
+
+    const outDir = resolve(options.outDir)
+    mkdirSync(outDir, { recursive: true })
+
+    for (const personaId of personas) {
+      const path = join(outDir, `${personaId}.json`)
+      // Hand-tuned tolerances survive a re-bless, tolerances added since come in at their defaults
+      const previous: GoldenFile | null = existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : null
+      const golden: GoldenFile = {
+        outcome: runGolden(personaId, store),
+        tolerances: { ...DEFAULT_GOLDEN_TOLERANCES, ...previous?.tolerances }
+      }
+      writeFileSync(path, JSON.stringify(golden, null, 2) + '\n')
+
+      const { outcome } = golden
+      console.error(`✨ ${personaId}: ${outcome.completionReason} on day ${outcome.finalDay}, level ${outcome.heroLevel}, ${outcome.farmPlots} plots, ${outcome.gold} gold, ${outcome.actions} actions`)
+    }
+  } finally {
+    console.log = originalLog
+    console.warn = originalWarn
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ ${error instanceof Error ? error.message : String(error)}`)
+  process.exit(1)
+})
@@ -0,0 +1,265 @@
+/// <reference types="node" />
+// Headless simulation CLI
+// Usage: npm run simulate -- --config sim.json [--script path.json] [--out result.json] [--data public/Data] [--max-days 35] [--seed 42] [--replicas 20] [--sensitivity a.b,c.d] [--verbose]
+
+import { readFileSync, writeFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { createPresetPersonas } from '@/stores/personas'
+import type { QuickSetup, SimulationConfig } from '@/types'
+
+interface CLIOptions {
+  configPath?: string
+  scriptPath?: string
+  outPath?: string
+  dataDir: string
+  maxDays?: number
+  seed?: number
+  replicas?: number
+  sensitivityPaths?: string[]
+  perturbation: number
+  verbose: boolean
+}
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+Options:
+  --config <file>    JSON file with a SimulationConfig (or just { quickSetup, parameterOverrides })
+  --script <file>    JSON array of ScriptStep - replay a hand-written player path instead of the AI
+  --out <file>       Write the SimulationResult (or BatchReport / SensitivityReport) JSON here (default: stdout)
+  --data <dir>       CSV data directory laid out like public/Data (default: public/Data)
+  --max-days <n>     Stop after this many game days (default: config maxDays or 35)
+  --seed <n>         PRNG seed - the same seed and config reproduce the same run (default: config seed or random)
+  --replicas <n>     Monte Carlo batch: run n replicas with seeds seed, seed+1, ... and write a BatchReport
+  --sensitivity <p>  Comma-separated parameter paths to rank by elasticity of completion days (writes a SensitivityReport)
+  --perturbation <f> Relative step either side of each base value for --sensitivity (default: 0.1)
+  --verbose          Keep the simulation's console logging
+  --help             Show this message`
+
+/**
+ * Parse argv into CLI options
+ */
+function parseArgs(argv: string[]): CLIOptions {
+  const options: CLIOptions = { dataDir: 'public/Data', perturbation: 0.1, verbose: false }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    const next = () => {
+      const value = argv[++i]
+      if (value === undefined) {
+        throw new Error(`Missing value for ${arg}`)
+      }
+      return value
+    }
+
+    switch (arg) {
+      case '--config':
+        options.configPath = next()
+        break
+      case '--script':
+        options.scriptPath = next()
+        break
+      case '--out':
+        options.outPath = next()
+        break
+      case '--data':
+        options.dataDir = next()
+        break
+      case '--max-days': {
+        const maxDays = Number(next())
+        if (!Number.isFinite(maxDays) || maxDays <= 0) {
+          throw new Error(`--max-days must be a positive number`)
+        }
+        options.maxDays = maxDays
+        break
+      }
+      case '--seed': {
+        const seed = Number(next())
+        if (!Number.isInteger(seed)) {
+          throw new Error(`--seed must be an integer`)
+        }
+        options.seed = seed
+        break
+      }
+      case '--replicas': {
+        const replicas = Number(next())
+        if (!Number.isInteger(replicas) || replicas < 1) {
+          throw new Error(`--replicas must be a positive integer`)
+        }
+        options.replicas = replicas
+        break
+      }
+      case '--sensitivity':
+        options.sensitivityPaths = next().split(',').map(path => path.trim()).filter(Boolean)
+        break
+      case '--perturbation': {
+        const perturbation = Number(next())
+        if (!(perturbation > 0 && perturbation < 1)) {
+          throw new Error(`--perturbation must be between 0 and 1`)
+        }
+        options.perturbation = perturbation
+        break
+      }
+      case '--verbose':
+        options.verbose = true
+        break
+      case '--help':
+        console.log(USAGE)
+        process.exit(0)
+      default:
+        throw new Error(`Unknown argument: ${arg}`)
+    }
+  }
+
+  return options
+}
+
+/**
+ * Build a full SimulationConfig from a (possibly partial) JSON config file
+ */
+function buildSimulationConfig(raw: any): SimulationConfig {
+  const now = new Date().toISOString()
+  const quickSetup: QuickSetup = {
+    name: 'Headless Simulation',
+    personaId: 'casual',
+    duration: { mode: 'completion' },
+    scheduling: 'calendar',
+    timeSkipping: true,
+    dataSource: 'current',
+    enableParameterOverrides: true,
+    generateDetailedLogs: false,
+    ...(raw.quickSetup || {})
+  }
+
+  // Overrides may arrive as a plain object or as [path, value] pairs
+  let parameterOverrides: Map<string, any> | undefined
+  if (Array.isArray(raw.parameterOverrides)) {
+    parameterOverrides = new Map(raw.parameterOverrides)
+  } else if (raw.parameterOverrides && typeof raw.parameterOverrides === 'object') {
+    parameterOverrides = new Map(Object.entries(raw.parameterOverrides))
+  }
+
+  return {
+    id: raw.id || `sim_${Date.now()}`,
+    createdAt: raw.createdAt || now,
+    lastModified: raw.lastModified || now,
+    quickSetup,
+    parameterOverrides,
+    seed: raw.seed,
+    persona: raw.persona || createPresetPersonas().get(quickSetup.personaId),
+    isValid: raw.isValid ?? true,
+    validationErrors: raw.validationErrors || []
+  }
+}
+
+/**
+ * JSON replacer that keeps Maps and Sets readable in the output file
+ */
+function jsonReplacer(_key: string, value: any): any {
+  if (value instanceof Map) {
+    return Object.fromEntries(value)
+  }
+  if (value instanceof Set) {
+    return Array.from(value)
+  }
+  return value
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2))
+  const rawConfig = options.configPath
+    ? JSON.parse(readFileSync(resolve(options.configPath), 'utf8'))
+    : {}
+  const config = buildSimulationConfig(rawConfig)
+  if (options.seed !== undefined) {
+    config.seed = options.seed
+  }
+  if (options.scriptPath) {
+    config.quickSetup.script = JSON.parse(readFileSync(resolve(options.scriptPath), 'utf8'))
+  }
+
+  // The simulation modules log on import and on every tick - keep stdout clean for the result JSON
+  const originalLog = console.log
+  const originalWarn = console.warn
+  if (!options.verbose) {
+    console.log = () => {}
+    console.warn = () => {}
+  }
+
+  let output: unknown
+  try {
+    const { HeadlessGameDataStore, HeadlessRunner, BatchRunner, ParameterSweepRunner } = await import('@/utils/headless')
+
+    const { store, loadedFiles, totalFiles, errors } = HeadlessGameDataStore.loadFromDirectory(resolve(options.dataDir))
+    if (store.allItems.length === 0) {
+      throw new Error(`No CSV items loaded from ${options.dataDir}: ${errors.join('; ')}`)
+    }
+    console.error(`📂 Loaded ${store.allItems.length} items from ${loadedFiles}/${totalFiles} CSV files`)
+    errors.forEach(error => console.error(`⚠️ ${error}`))
+
+    if (options.sensitivityPaths) {
+      const sweep = new ParameterSweepRunner(config, store)
+      const report = await sweep.runSensitivity(options.sensitivityPaths, options.perturbation, {
+        replicas: options.replicas,
+        runOptions: { maxDays: options.maxDays },
+        onPointComplete: progress => {
+          console.error(`📐 Point ${progress.completed}/${progress.total} ${JSON.stringify(progress.values)}`)
+        }
+      })
+      report.entries.forEach(entry => {
+        console.error(`📊 ${entry.path}: elasticity ${entry.elasticity.toFixed(3)} (${entry.lowDays.toFixed(1)} / ${entry.baseDays.toFixed(1)} / ${entry.highDays.toFixed(1)} days)`)
+      })
+      output = report
+    } else if (options.replicas !== undefined) {
+      const batch = new BatchRunner(config, store, {
+        replicas: options.replicas,
+        runOptions: { maxDays: options.maxDays },
+        onReplicaComplete: progress => {
+          console.error(`🎲 Replica ${progress.completed}/${progress.total} (seed ${progress.seed}): ${progress.completionReason}`)
+        }
+      })
+      const { batchReport } = await batch.run()
+      const days = batchReport.daysToCompletion
+      console.error(`🏁 ${batchReport.outcomes.victory}/${batchReport.replicaCount} completed` +
+        (days.count > 0 ? `, days p50 ${days.p50.toFixed(1)} (95% CI ${days.ci95.lower.toFixed(1)}-${days.ci95.upper.toFixed(1)})` : ''))
+      output = batchReport
+    } else {
+      const runner = new HeadlessRunner(config, store, {
+        maxDays: options.maxDays,
+        onProgress: progress => {
+          console.error(`⏱️ Day ${progress.day} - tick ${progress.tickCount}, gold ${progress.gold}, plots ${progress.farmPlots}, level ${progress.heroLevel}`)
+        },
+        progressIntervalTicks: 24 * 60
+      })
+      const result = runner.run()
+      const finalState = result.gameStateHistory[result.gameStateHistory.length - 1]
+      console.error(`🏁 ${result.completionReason} on day ${finalState?.time.day ?? '?'} (${result.actionHistory.length} actions, seed ${result.seed})`)
+      for (const victory of result.victoryConditions ?? []) {
+        console.error(`   ${victory.met ? '✅' : '⬜'} ${victory.label}${victory.met ? ` (day ${victory.metOnDay})` : ''}`)
+      }
+      if (result.stallDiagnosis) {
+        console.error(`🧱 ${result.stallDiagnosis.summary}`)
+      }
+      for (const scriptError of result.scriptErrors ?? []) {
+        console.error(`📜 Day ${scriptError.day} ${scriptError.time} ${scriptError.action}: ${scriptError.errors.join(', ')}`)
+      }
+      output = result
+    }
+  } finally {
+    console.log = originalLog
+    console.warn = originalWarn
+  }
+
+  const json = JSON.stringify(output, jsonReplacer, 2)
+  if (options.outPath) {
+    writeFileSync(resolve(options.outPath), json)
+    console.error(`💾 Wrote ${options.outPath}`)
+  } else {
+    process.stdout.write(json + '\n')
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ ${error instanceof Error ? error.message : String(error)}`)
+  console.error(USAGE)
+  process.exit(1)
+})
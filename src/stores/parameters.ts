@@ -142,11 +142,6 @@ const createDefaultParameters = (): AllParameters => ({
       defenseMultiplier: 1.0,
       weaponAdvantageBonus: 1.5,
       weaponDisadvantage: 0.5,
-      heroHP: {
-        baseHP: 100,
-        hpPerLevel: 20,
-        maxLevel: 50
-      },
       weaponSwitchTime: 2,
       combatSpeed: 1.0
     },
@@ -254,7 +249,6 @@ const createDefaultParameters = (): AllParameters => ({
     },
     depthManagement: {
       maxDepth: 1000,
-      shortcutCosts: [],
       autoReturnThreshold: 0.1,
       depthStrategy: 'efficient',
       targetDepths: []
@@ -415,6 +409,16 @@ const createDefaultParameters = (): AllParameters => ({
         actions: ['rest', 'pump-water', 'harvest']
       }
     },
+    sessions: {
+      timeBudget: false,
+      travelMinutes: new Map([
+        ['farm-tower', 1],
+        ['tower-town', 3],
+        ['town-forge', 1],
+        ['town-adventure', 3],
+        ['forge-mine', 2]
+      ])
+    },
     optimization: {
       primaryGoal: 'efficiency',
       subGoals: {
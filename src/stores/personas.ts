@@ -13,7 +13,7 @@ import type {
 } from '@/types'
 
 // Preset persona data
-const createPresetPersonas = (): Map<string, SimplePersona> => {
+export const createPresetPersonas = (): Map<string, SimplePersona> => {
   const speedrunner: SimplePersona = {
     id: 'speedrunner',
     name: 'Speedrunner Sam',
@@ -208,6 +208,16 @@ export const usePersonaStore = defineStore('personas', () => {
       })
     }
     
+    for (const [system, weight] of Object.entries(persona.systemPreferences ?? {})) {
+      if (weight < 0 || weight > 2) {
+        errors.push({ 
+          field: 'systemPreferences', 
+          message: `${system} preference must be between 0 and 2`, 
+          severity: 'error' 
+        })
+      }
+    }
+    
     // Uniqueness check for custom personas
     if (!persona.isPreset) {
       const exists = Array.from(custom.value.values()).some(p => 
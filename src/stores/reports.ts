@@ -6,6 +6,7 @@ import { ref, computed } from 'vue'
 import type { 
   SimulationResult, 
   AnalysisReport, 
+  BatchReport,
   ComparisonResult,
   ExportFormat,
   ExportOptions,
@@ -15,6 +16,10 @@ import type {
 } from '@/types/reports'
 import { ReportGenerator } from '@/utils/ReportGenerator'
 import { ExportService } from '@/utils/ExportService'
+import { BatchRunner, type BatchRunProgress } from '@/utils/headless/BatchRunner'
+import { SimulationPool } from '@/utils/SimulationPool'
+import { ActionValueModel } from '@/utils/ai/ActionValueModel'
+import type { SimulationConfig } from '@/types'
 import { useGameDataStore } from './gameData'
 
 export const useReportsStore = defineStore('reports', () => {
@@ -23,11 +28,13 @@ export const useReportsStore = defineStore('reports', () => {
   // Core data
   const simulationResults = ref<Map<string, SimulationResult>>(new Map())
   const analysisReports = ref<Map<string, AnalysisReport>>(new Map())
+  const batchReports = ref<Map<string, BatchReport>>(new Map())
   
   // UI state
   const isGenerating = ref(false)
   const generationError = ref<string | null>(null)
   const isLoading = ref(false)
+  const batchProgress = ref<BatchRunProgress | null>(null)
   
   // Library management
   const filters = ref<ReportFilters>({
@@ -140,6 +147,20 @@ export const useReportsStore = defineStore('reports', () => {
   
   const canCompare = computed(() => selectedReports.value.size >= 2)
   
+  const allBatchReports = computed(() =>
+    Array.from(batchReports.value.values())
+      .sort((a, b) => b.generatedAt.getTime() - a.generatedAt.getTime())
+  )
+  
+  // What actions really gained in the stored runs - an optional scoring table for new runs
+  const actionValueTable = computed(() =>
+    ActionValueModel.learn(Array.from(simulationResults.value.values()))
+  )
+  
+  const actionValueComparison = computed(() =>
+    ActionValueModel.compare(Array.from(simulationResults.value.values()), actionValueTable.value)
+  )
+  
   // ===== ACTIONS =====
   
   /**
@@ -170,6 +191,57 @@ export const useReportsStore = defineStore('reports', () => {
     }
   }
   
+  /**
+   * Run N seeded replicas of a configuration and store the aggregated batch report
+   */
+  async function runBatch(config: SimulationConfig, replicas: number): Promise<string | null> {
+    // Replicas run on the worker pool - this thread only aggregates them
+    const pool = new SimulationPool()
+    try {
+      isGenerating.value = true
+      generationError.value = null
+      batchProgress.value = { completed: 0, total: replicas, seed: config.seed ?? 0, completionReason: 'max_days' }
+      
+      const runner = new BatchRunner(config, gameDataStore, {
+        replicas,
+        execute: (configs, onResult) => pool.runForResults(configs, onResult),
+        onReplicaComplete: progress => {
+          batchProgress.value = progress
+        }
+      })
+      const { batchReport } = await runner.run()
+      batchReports.value.set(batchReport.id, batchReport)
+      
+      await saveToStorage()
+      
+      return batchReport.id
+    } catch (error) {
+      console.error('Failed to run batch:', error)
+      generationError.value = error instanceof Error ? error.message : 'Unknown error'
+      return null
+    } finally {
+      pool.terminate()
+      isGenerating.value = false
+      batchProgress.value = null
+    }
+  }
+  
+  /**
+   * Get a specific batch report by ID
+   */
+  function getBatchReport(id: string): BatchReport | null {
+    return batchReports.value.get(id) || null
+  }
+  
+  /**
+   * Delete a batch report
+   */
+  async function deleteBatchReport(id: string): Promise<void> {
+    if (batchReports.value.delete(id)) {
+      await saveToStorage()
+    }
+  }
+  
   /**
    * Load all reports from localStorage
    */
@@ -355,6 +427,13 @@ export const useReportsStore = defineStore('reports', () => {
             generatedAt: report.generatedAt.toISOString() // Serialize dates
           }
         ]),
+        batchReports: Array.from(batchReports.value.entries()).map(([id, report]) => [
+          id,
+          {
+            ...report,
+            generatedAt: report.generatedAt.toISOString()
+          }
+        ]),
         timestamp: Date.now()
       }
       
@@ -391,11 +470,22 @@ export const useReportsStore = defineStore('reports', () => {
         analysisReports.value = new Map(reportsArray)
       }
       
+      if (data.batchReports) {
+        batchReports.value = new Map(data.batchReports.map(([id, report]: [string, any]) => [
+          id,
+          {
+            ...report,
+            generatedAt: new Date(report.generatedAt)
+          }
+        ]))
+      }
+      
     } catch (error) {
       console.error('Failed to load reports from localStorage:', error)
       // Don't throw - just start with empty state
       simulationResults.value = new Map()
       analysisReports.value = new Map()
+      batchReports.value = new Map()
     }
   }
   
@@ -405,6 +495,7 @@ export const useReportsStore = defineStore('reports', () => {
   async function clearAllData(): Promise<void> {
     simulationResults.value.clear()
     analysisReports.value.clear()
+    batchReports.value.clear()
     selectedReports.value.clear()
     currentComparison.value = null
     clearFilters()
@@ -458,7 +549,9 @@ export const useReportsStore = defineStore('reports', () => {
     // State
     simulationResults,
     analysisReports,
+    batchReports,
     isGenerating,
+    batchProgress,
     generationError,
     isLoading,
     filters,
@@ -472,6 +565,9 @@ export const useReportsStore = defineStore('reports', () => {
     filteredReports,
     reportStats,
     canCompare,
+    allBatchReports,
+    actionValueTable,
+    actionValueComparison,
     availablePersonas,
     completionStatusDistribution,
     performanceTrends,
@@ -485,6 +581,9 @@ export const useReportsStore = defineStore('reports', () => {
     deleteReports,
     exportReports,
     compareReports,
+    runBatch,
+    getBatchReport,
+    deleteBatchReport,
     
     // Filter & Sort
     updateFilters,
@@ -4,12 +4,15 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import { compileConfiguration } from '@/utils/ConfigurationCompiler'
+import { VictoryConditionEvaluator } from '@/utils/orchestration/VictoryConditions'
+import { SeededRandom } from '@/utils/random'
 import type { 
   QuickSetup, 
   SimulationConfig, 
   SimulationPreset, 
   SimulationSetupState,
-  DurationModeOption
+  DurationModeOption,
+  VictoryCondition
 } from '@/types'
 
 // Generate auto name based on date, time, and persona
@@ -36,6 +39,9 @@ const createDefaultQuickSetup = (): QuickSetup => ({
   duration: {
     mode: 'completion'
   },
+  scheduling: 'calendar',
+  timeSkipping: true,
+  decisionEngine: 'greedy',
   dataSource: 'current',
   enableParameterOverrides: true,
   generateDetailedLogs: false
@@ -152,6 +158,11 @@ export const useSimulationStore = defineStore('simulation', () => {
       errors.push('Bottleneck threshold must be at least 1 day')
     }
     
+    for (const condition of currentConfig.value.duration.victoryConditions || []) {
+      const error = VictoryConditionEvaluator.validate(condition)
+      if (error) errors.push(error)
+    }
+    
     if (currentConfig.value.dataSource === 'saved' && !currentConfig.value.savedConfigId) {
       errors.push('Must select a saved configuration when using saved data source')
     }
@@ -208,6 +219,36 @@ export const useSimulationStore = defineStore('simulation', () => {
     validateCurrentConfig()
   }
 
+  // Editable copy of the victory conditions - the classic defaults until the user changes them
+  function editableVictoryConditions(): VictoryCondition[] {
+    return VictoryConditionEvaluator.resolve(currentConfig.value.duration).map(condition => ({ ...condition }))
+  }
+
+  function addVictoryCondition(condition: Omit<VictoryCondition, 'id'>) {
+    const current = editableVictoryConditions()
+    updateDuration({
+      victoryConditions: [...current, { ...condition, id: `victory_${Date.now()}_${current.length}` }]
+    })
+  }
+
+  function updateVictoryCondition(conditionId: string, updates: Partial<Omit<VictoryCondition, 'id'>>) {
+    updateDuration({
+      victoryConditions: editableVictoryConditions().map(condition =>
+        condition.id === conditionId ? { ...condition, ...updates } : condition
+      )
+    })
+  }
+
+  function removeVictoryCondition(conditionId: string) {
+    updateDuration({
+      victoryConditions: editableVictoryConditions().filter(condition => condition.id !== conditionId)
+    })
+  }
+
+  function resetVictoryConditions() {
+    updateDuration({ victoryConditions: undefined, victoryMatch: undefined })
+  }
+
   function resetConfig() {
     currentConfig.value = createDefaultQuickSetup()
     isDirty.value = false
@@ -306,6 +347,23 @@ export const useSimulationStore = defineStore('simulation', () => {
     return compiledConfig
   }
 
+  /**
+   * Compile the current setup once per persona, all on one seed so the runs compare like for like
+   */
+  function compileForPersonas(personaIds: QuickSetup['personaId'][]): SimulationConfig[] {
+    if (!isValid.value) return []
+
+    const seed = SeededRandom.generateSeed()
+    return personaIds
+      .map(personaId => compileConfiguration({
+        ...currentConfig.value,
+        personaId,
+        name: generateSimulationName(personaId)
+      }))
+      .filter((config): config is SimulationConfig => config !== null)
+      .map(config => ({ ...config, seed }))
+  }
+
   // Initialize
   loadSavedConfigs()
 
@@ -327,11 +385,16 @@ export const useSimulationStore = defineStore('simulation', () => {
     applyPreset,
     updateConfig,
     updateDuration,
+    addVictoryCondition,
+    updateVictoryCondition,
+    removeVictoryCondition,
+    resetVictoryConditions,
     resetConfig,
     saveConfig,
     loadConfig,
     deleteConfig,
     launchSimulation,
+    compileForPersonas,
     loadSavedConfigs
   }
 })
@@ -0,0 +1,69 @@
+// Test fixtures - Shared game data and game state for the unit tests
+// Tests that run the systems load the shipped tuning tables with beforeAll(() => BalanceTables.load(gameData))
+
+import { resolve } from 'node:path'
+import type { GameState } from '@/types'
+import { HeadlessGameDataStore } from '@/utils/headless/HeadlessGameDataStore'
+
+/** The shipped CSVs in public/Data, loaded once per test file */
+export const gameData = HeadlessGameDataStore.loadFromDirectory(resolve(__dirname, '../../public/Data')).store
+
+// Create minimal test game state
+export function createTestGameState(): GameState {
+  return {
+    time: {
+      totalMinutes: 0,
+      day: 1,
+      hour: 6,
+      minute: 0,
+      speed: 1
+    },
+    resources: {
+      energy: { current: 100, max: 100, regenerationRate: 1 },
+      gold: 100,
+      water: { current: 20, max: 20, autoGenRate: 0.5 },
+      materials: new Map(),
+      seeds: new Map([
+        ['carrot', 5],
+        ['radish', 3]
+      ])
+    },
+    progression: {
+      farmPlots: 10,
+      heroLevel: 3,
+      experience: 100,
+      farmStage: 'small_hold',
+      availablePlots: 10,
+      completedAdventures: [],
+      builtStructures: new Set(),
+      unlockedAreas: ['farm'],
+      unlockedUpgrades: [],
+      currentPhase: 'tutorial'
+    },
+    inventory: {
+      tools: new Map(),
+      weapons: new Map(),
+      armor: new Map(),
+      blueprints: new Map(),
+      capacity: 100,
+      currentWeight: 0
+    },
+    location: {
+      currentScreen: 'farm',
+      timeOnScreen: 60,
+      screenHistory: ['farm'],
+      navigationReason: 'manual'
+    },
+    processes: {
+      crafting: [],
+      adventures: [],
+      seedCatching: null
+    },
+    helpers: {
+      gnomes: [],
+      housingCapacity: 0,
+      availableRoles: ['farming', 'gathering'],
+      rescueQueue: []
+    }
+  }
+}
@@ -0,0 +1,54 @@
+// @vitest-environment node
+// Golden-run balance regression
+// Fixed-seed runs of each preset persona against public/Data must stay within tolerance of src/tests/golden/*.json
+// After an intended balance change, re-bless with: npm run golden:bless
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import { readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import {
+  HeadlessGameDataStore,
+  GOLDEN_PERSONAS,
+  runGolden,
+  compareGoldenOutcome,
+  type GoldenFile,
+  type GoldenOutcome
+} from '@/utils/headless'
+
+const DATA_DIR = resolve(__dirname, '../../public/Data')
+const GOLDEN_DIR = resolve(__dirname, 'golden')
+
+describe('Golden runs', () => {
+  const outcomes = new Map<string, GoldenOutcome>()
+
+  beforeAll(() => {
+    // Tick logging is far too chatty to keep in a spy
+    console.log = () => {}
+    console.warn = () => {}
+    const store = HeadlessGameDataStore.loadFromDirectory(DATA_DIR).store
+    for (const personaId of GOLDEN_PERSONAS) {
+      const golden: GoldenFile = JSON.parse(readFileSync(resolve(GOLDEN_DIR, `${personaId}.json`), 'utf8'))
+      outcomes.set(personaId, runGolden(personaId, store, golden.outcome.seed))
+    }
+  }, 60000)
+
+  for (const personaId of GOLDEN_PERSONAS) {
+    it(`${personaId} matches its golden outcome`, () => {
+      const golden: GoldenFile = JSON.parse(readFileSync(resolve(GOLDEN_DIR, `${personaId}.json`), 'utf8'))
+      const outcome = outcomes.get(personaId)!
+
+      // A golden of a hero who never acts, or who stalls before the goal, pins nothing
+      expect(outcome.actions).toBeGreaterThan(0)
+      expect(golden.outcome.completionReason).toBe('victory')
+      expect(compareGoldenOutcome(golden.outcome, outcome, golden.tolerances)).toEqual([])
+    })
+  }
+
+  it('plays each persona differently', () => {
+    const played = GOLDEN_PERSONAS.map(personaId => {
+      const { personaId: _, ...outcome } = outcomes.get(personaId)!
+      return JSON.stringify(outcome)
+    })
+    expect(new Set(played).size).toBe(GOLDEN_PERSONAS.length)
+  })
+})
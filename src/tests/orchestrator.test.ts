@@ -1,71 +1,16 @@
 // Phase 10H: Orchestrator Testing & Validation
 // Test SimulationOrchestrator functionality and verify critical bug fixes
 
-import { describe, it, expect, beforeEach } from 'vitest'
-import type { GameState, GameAction, SimulationConfig } from '@/types'
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest'
+import type { GameState, GameAction } from '@/types'
 import { TowerSystem } from '@/utils/systems/core/TowerSystem'
 import { AdventureSystem } from '@/utils/systems/core/AdventureSystem'
 import { HelperSystem } from '@/utils/systems/core/HelperSystem'
+import { BalanceTables } from '@/utils/systems/support/BalanceTables'
+import { gameData, createTestGameState } from '@/tests/fixtures'
 
-// Create minimal test game state
-function createTestGameState(): GameState {
-  return {
-    time: {
-      totalMinutes: 0,
-      day: 1,
-      hour: 6,
-      minute: 0,
-      speed: 1
-    },
-    resources: {
-      energy: { current: 100, max: 100, regenerationRate: 1 },
-      gold: 100,
-      water: { current: 20, max: 20, autoGenRate: 0.5 },
-      materials: new Map(),
-      seeds: new Map([
-        ['carrot', 5],
-        ['radish', 3]
-      ])
-    },
-    progression: {
-      farmPlots: 10,
-      heroLevel: 3,
-      experience: 100,
-      farmStage: 'small_hold',
-      availablePlots: 10,
-      completedAdventures: [],
-      builtStructures: new Set(),
-      unlockedAreas: ['farm'],
-      unlockedUpgrades: [],
-      currentPhase: 'tutorial'
-    },
-    inventory: {
-      tools: new Map(),
-      weapons: new Map(),
-      armor: new Map(),
-      blueprints: new Map(),
-      capacity: 100,
-      currentWeight: 0
-    },
-    location: {
-      currentScreen: 'farm',
-      timeOnScreen: 60,
-      screenHistory: ['farm'],
-      navigationReason: 'manual'
-    },
-    processes: {
-      crafting: [],
-      adventures: [],
-      seedCatching: null
-    },
-    helpers: {
-      gnomes: [],
-      housingCapacity: 0,
-      availableRoles: ['farming', 'gathering'],
-      rescueQueue: []
-    }
-  }
-}
+// Systems read their tuning tables from game data - load the shipped CSVs once
+beforeAll(() => BalanceTables.load(gameData))
 
 describe('TowerSystem - Seed Catching Bug Fix', () => {
   let gameState: GameState
@@ -33,6 +33,11 @@ export interface CSVGameDataRow {
   common_drop: string
   enemy_rolls: string
   depth_range: string
+  base_energy_per_min: string
+  raw_materials_per_30sec: string
+  shortcut_prerequisite: string
+  shortcut_gold: string
+  shortcut_energy: string
   effectPerLevel: string
   plots_added: string
   total_plots: string
@@ -54,12 +59,16 @@ export interface CSVFileMetadata {
 }
 
 export const CSV_FILE_LIST: CSVFileMetadata[] = [
-  // Farm (5 files)
+  // Farm (9 files)
   { filename: 'crops.csv', category: 'Data', gameFeature: 'Farm', displayName: 'Crops', description: 'Farmable crops and their properties', hasUnifiedSchema: true },
   { filename: 'farm_actions.csv', category: 'Actions', gameFeature: 'Farm', displayName: 'Farm Actions', description: 'Farm construction and expansion actions', hasUnifiedSchema: true },
   { filename: 'farm_stages.csv', category: 'Data', gameFeature: 'Farm', displayName: 'Farm Stages', description: 'Farm development stages', hasUnifiedSchema: true },
   { filename: 'helpers.csv', category: 'Data', gameFeature: 'Farm', displayName: 'Helpers', description: 'Individual helper characters', hasUnifiedSchema: true },
   { filename: 'helper_roles.csv', category: 'Data', gameFeature: 'Farm', displayName: 'Helper Roles', description: 'Gnome helper role definitions', hasUnifiedSchema: false },
+  { filename: 'gnome_housing.csv', category: 'Data', gameFeature: 'Farm', displayName: 'Gnome Housing', description: 'Gnome housing structures and capacity', hasUnifiedSchema: false },
+  { filename: 'water_retention.csv', category: 'Data', gameFeature: 'Farm', displayName: 'Water Retention', description: 'How long plots stay watered per retention upgrade', hasUnifiedSchema: false },
+  { filename: 'auto_pumps.csv', category: 'Data', gameFeature: 'Farm', displayName: 'Auto-Pumps', description: 'Passive water generation per pump tier', hasUnifiedSchema: false },
+  { filename: 'watering_tools.csv', category: 'Data', gameFeature: 'Farm', displayName: 'Watering Tools', description: 'Plots watered per action for each watering tool', hasUnifiedSchema: false },
   
   // Town (7 files)
   { filename: 'vendors.csv', category: 'Unlocks', gameFeature: 'Town', displayName: 'Vendors', description: 'Merchant and vendor unlocks', hasUnifiedSchema: true },
@@ -73,7 +82,7 @@ export const CSV_FILE_LIST: CSVFileMetadata[] = [
   // Adventure (1 file)
   { filename: 'adventures.csv', category: 'Data', gameFeature: 'Adventure', displayName: 'Adventures', description: 'Quest and adventure definitions', hasUnifiedSchema: true },
   
-  // Combat (9 files)
+  // Combat (10 files)
   { filename: 'weapons.csv', category: 'Data', gameFeature: 'Combat', displayName: 'Weapons', description: 'Combat weapons and stats', hasUnifiedSchema: true },
   { filename: 'xp_progression.csv', category: 'Data', gameFeature: 'Combat', displayName: 'XP Progression', description: 'Experience and level progression', hasUnifiedSchema: false },
   { filename: 'boss_materials.csv', category: 'Data', gameFeature: 'Combat', displayName: 'Boss Materials', description: 'Materials dropped by bosses', hasUnifiedSchema: false },
@@ -83,6 +92,7 @@ export const CSV_FILE_LIST: CSVFileMetadata[] = [
   { filename: 'route_loot_table.csv', category: 'Data', gameFeature: 'Combat', displayName: 'Route Loot', description: 'Loot tables for adventure routes', hasUnifiedSchema: false },
   { filename: 'enemy_types_damage.csv', category: 'Data', gameFeature: 'Combat', displayName: 'Enemy Types', description: 'Enemy types and damage values', hasUnifiedSchema: false },
   { filename: 'route_wave_composition.csv', category: 'Data', gameFeature: 'Combat', displayName: 'Wave Composition', description: 'Enemy wave compositions', hasUnifiedSchema: false },
+  { filename: 'boss_challenges.csv', category: 'Data', gameFeature: 'Combat', displayName: 'Boss Challenges', description: 'Boss penalties and the gear that counters them', hasUnifiedSchema: false },
   
   // Forge (2 files)
   { filename: 'forge_actions.csv', category: 'Actions', gameFeature: 'Forge', displayName: 'Forge Actions', description: 'Blacksmith and crafting actions', hasUnifiedSchema: true },
@@ -91,8 +101,10 @@ export const CSV_FILE_LIST: CSVFileMetadata[] = [
   // Mining (1 file)
   { filename: 'mining.csv', category: 'Data', gameFeature: 'Mining', displayName: 'Mining', description: 'Mining nodes and resources', hasUnifiedSchema: true },
   
-  // Tower (1 file)
+  // Tower (3 files)
   { filename: 'tower_actions.csv', category: 'Actions', gameFeature: 'Tower', displayName: 'Tower Actions', description: 'Tower building and upgrade actions', hasUnifiedSchema: true },
+  { filename: 'wind_levels.csv', category: 'Data', gameFeature: 'Tower', displayName: 'Wind Levels', description: 'Wind levels, reach and seed tiers', hasUnifiedSchema: false },
+  { filename: 'auto_catchers.csv', category: 'Data', gameFeature: 'Tower', displayName: 'Auto-Catchers', description: 'Passive seed catcher tiers', hasUnifiedSchema: false },
 
   // General (1 file)
   { filename: 'phase_transitions.csv', category: 'Data', gameFeature: 'General', displayName: 'Phase Transitions', description: 'Game phase progression rules', hasUnifiedSchema: false }
@@ -48,6 +48,13 @@ export interface GameDataItem {
   depthRange?: string
   effectPerLevel?: number
   
+  // Mining depth tiers
+  baseEnergyPerMin?: number
+  rawMaterialsPer30Sec?: string  // "Raw Copper x6-8;Raw Stone x4-6"
+  shortcutPrerequisite?: string
+  shortcutGold?: number
+  shortcutEnergy?: number
+  
   // Farm expansion
   plotsAdded?: number
   totalPlots?: number
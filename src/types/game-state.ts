@@ -155,6 +155,8 @@ export interface MiningState {
   energyDrain: number     // Per minute
   isActive: boolean
   timeAtDepth: number
+  deepestDepth?: number   // Deepest point of any run - shortcuts open once the hero has been there
+  shortcuts?: string[]    // mining.csv depth ids the hero can start a run at
 }
 
 /**
@@ -217,6 +219,8 @@ export interface LocationState {
   timeOnScreen: number     // Minutes spent on current screen
   screenHistory: GameScreen[]
   navigationReason: string // Why the AI moved to this screen
+  arrivesAt?: number       // totalMinutes the hero reaches currentScreen after travelling
+  activeUntil?: number     // totalMinutes the hero's last action ends - away from the screens after that
 }
 
 /**
@@ -276,7 +280,7 @@ export interface GameState {
  */
 export interface GameAction {
   id: string
-  type: 'move' | 'plant' | 'water' | 'pump' | 'harvest' | 'adventure' | 'craft' | 'purchase' | 'rescue' | 'mine' | 'wait' | 'catch_seeds' | 'train' | 'stoke' | 'assign_role' | 'train_helper' | 'cleanup' | 'build' | 'sell_material'
+  type: 'move' | 'plant' | 'water' | 'pump' | 'harvest' | 'adventure' | 'craft' | 'purchase' | 'rescue' | 'mine' | 'wait' | 'catch_seeds' | 'train' | 'stoke' | 'assign_role' | 'train_helper' | 'cleanup' | 'build' | 'sell_material' | 'buy_shortcut'
   screen: GameScreen
   target?: string          // Item ID, plot ID, etc.
   toScreen?: GameScreen    // Target screen for move actions
@@ -286,6 +290,8 @@ export interface GameAction {
   goldCost: number
   prerequisites: string[]
   materialCosts?: { [key: string]: number } // Material costs for some actions
+  role?: string            // assign_role - role for the target gnome
+  secondaryRole?: string   // assign_role - second role, needs the Master Academy
   expectedRewards: {
     experience?: number
     gold?: number
@@ -309,6 +315,86 @@ export interface TickResult {
   deltaTime: number        // Minutes that passed this tick
   isComplete: boolean      // Victory conditions met
   isStuck: boolean         // Bottleneck detected
+  stallDiagnosis?: StallDiagnosis  // Why, when isStuck came from the stall detector
+  pendingDecision?: PendingDecision // Manual mode - the run waits until a person decides
+}
+
+/**
+ * A check-in waiting on a person in manual mode
+ */
+export interface PendingDecision {
+  totalMinutes: number
+  day: number
+  candidates: GameAction[]   // Every valid action, best first
+  aiPicks: string[]          // Ids of the actions the AI would play
+  errors?: string[]          // Why the previous choice was refused
+}
+
+/**
+ * Progress metrics the stall detector watches
+ */
+export type ProgressMetric =
+  | 'farmPlots'
+  | 'heroLevel'
+  | 'gold'
+  | 'materials'
+  | 'helpers'
+  | 'gear'
+  | 'upgrades'
+  | 'adventures'
+
+export type ProgressVector = Record<ProgressMetric, number>
+
+/**
+ * An action the AI proposed but ActionFilter rejected
+ */
+export interface ActionRejection {
+  totalMinutes: number
+  actionType: string
+  target: string
+  reason: 'resources' | 'prerequisites' | 'requirements'
+  detail: string
+  resource?: string               // Set when reason is 'resources'
+  needed?: number                 // Amount of that resource the action needed
+  missingPrerequisites?: string[] // Set when reason is 'prerequisites'
+}
+
+/**
+ * Structured explanation of a stalled run
+ */
+export interface StallDiagnosis {
+  day: number
+  windowDays: number
+  progress: Array<{ metric: ProgressMetric; gained: number; threshold: number }>
+  starvedResources: Array<{ resource: string; available: number; needed: number; rejections: number }>
+  blockingPrerequisites: Array<{ itemId: string; missingPrerequisites: string[]; reasons: string[] }>
+  rejectedActions: Array<{ actionType: string; target: string; reason: ActionRejection['reason']; detail: string; count: number }>
+  summary: string
+}
+
+/**
+ * One action the AI considered at a check-in, and what became of it
+ */
+export interface TracedCandidate {
+  actionType: string
+  target: string
+  screen: string
+  rejection?: Pick<ActionRejection, 'reason' | 'detail'>  // Set when ActionFilter turned it down
+  score?: number                                          // Final score - only for actions that passed the filter
+  factors?: Array<{ name: string; value: number }>        // Every scoring factor, in the order they were applied
+  personaAdjustment?: number                              // Multiplier the persona put on the raw score
+  picked: boolean
+}
+
+/**
+ * Everything the AI weighed at one check-in - scored candidates best first, then rejected ones
+ */
+export interface DecisionTrace {
+  totalMinutes: number
+  day: number
+  screen: GameScreen
+  engine: 'greedy' | 'lookahead'
+  candidates: TracedCandidate[]
 }
 
 /**
@@ -19,12 +19,23 @@ export interface SimplePersona {
   weekendCheckIns: number  // Times per weekend day
   avgSessionLength: number // Minutes per check-in
   
+  // Optional per-system preference weights (1 = neutral, 0 = avoids, 2 = favours)
+  systemPreferences?: PersonaSystemPreferences
+  
   // Metadata
   isPreset: boolean
   createdAt?: string
   lastModified?: string
 }
 
+// Game systems a persona can favour or avoid
+export type PersonaSystem = 'farm' | 'tower' | 'town' | 'adventure' | 'forge' | 'mine' | 'helpers'
+
+export type PersonaSystemPreferences = Partial<Record<PersonaSystem, number>>
+
+// The part of a persona the session scheduler turns into play sessions
+export type PersonaSchedule = Pick<SimplePersona, 'weekdayCheckIns' | 'weekendCheckIns' | 'avgSessionLength'>
+
 export interface PersonaTemplate {
   id: string
   name: string
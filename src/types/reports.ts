@@ -1,9 +1,9 @@
 // Reports System Type Definitions
 // Comprehensive interfaces for simulation analysis and reporting
 
-import type { GameState, GameAction, GameEvent } from './game-state'
+import type { GameState, GameAction, GameEvent, StallDiagnosis, DecisionTrace } from './game-state'
 import type { SimplePersona } from './personas'
-import type { SimulationConfig } from './simulation'
+import type { SimulationConfig, VictoryCondition, ScriptStepError } from './simulation'
 
 // ===== CORE REPORT STRUCTURES =====
 
@@ -13,11 +13,18 @@ export interface SimulationResult {
   name: string
   timestamp: Date
   configuration: SimulationConfig
+  seed: number                           // PRNG seed the run used - replay with configuration to reproduce
   
   // Completion status
   completed: boolean
   completionDay: number | null
   completionReason: 'victory' | 'max_days' | 'bottleneck' | 'error'
+  victoryConditions?: VictoryConditionResult[]   // Which win conditions were met, and when
+  stallDiagnosis?: StallDiagnosis                // Why the run stalled, when completionReason is 'bottleneck'
+  learningCurve?: LearningCurvePoint[]           // Persona knowledge at the end of each played day
+  decisionTraces?: DecisionTrace[]               // What the AI weighed at each check-in (latest 1000)
+  scriptErrors?: ScriptStepError[]               // Script steps the game refused, when the run replayed a script
+  actionTimeline?: ActionTimelineEntry[]         // When each actionHistory action ran, same order - feeds ActionValueModel
   
   // Raw simulation data
   gameStateHistory: GameState[]          // Snapshots at key moments
@@ -30,6 +37,27 @@ export interface SimulationResult {
   reportGenerated?: boolean
 }
 
+/**
+ * When an action ran, and where gold and plots stood once it had
+ */
+export interface ActionTimelineEntry {
+  totalMinutes: number
+  gold: number
+  farmPlots: number
+}
+
+/**
+ * Hand-tuned future value next to what past runs measured, for one action key
+ */
+export interface ActionValueComparison {
+  key: string           // 'type:target', or 'type' for every target
+  samples: number
+  handTuned: number     // Mean ActionScorer future value over the samples
+  empirical: number     // ActionValueEstimate.value
+  gold: number
+  plots: number
+}
+
 export interface AnalysisReport {
   id: string
   simulationId: string
@@ -77,6 +105,16 @@ export interface ReportSummary {
   // Critical issues
   majorBottlenecks: string[]
   wastedResources: ResourceWaste[]
+  
+  // Win conditions the run was judged against
+  victoryConditions?: VictoryConditionResult[]
+}
+
+export interface VictoryConditionResult {
+  condition: VictoryCondition
+  label: string                  // Human-readable, e.g. "Hero level 10"
+  met: boolean
+  metOnDay: number | null
 }
 
 // ===== ANALYSIS STRUCTURES =====
@@ -90,6 +128,21 @@ export interface ProgressionAnalysis {
     trajectory: TimeSeriesData   // Progress over time
   }
   stuckPoints: StuckPoint[]      // Where progress stalled
+  levelUps: LevelReached[]       // From the run's level_up events
+  miningDepth: MiningDepthPoint[]  // One point per state snapshot
+}
+
+export interface LevelReached {
+  level: number
+  day: number
+  totalXp: number
+}
+
+export interface MiningDepthPoint {
+  day: number
+  depth: number                  // Where the current or last run stood
+  deepestDepth: number
+  shortcuts: number              // Shortcuts owned
 }
 
 export interface PhasePerformance {
@@ -256,6 +309,8 @@ export interface DecisionAnalysis {
     missedOpportunities: MissedOpportunity[]
     suggestions: OptimizationSuggestion[]
   }
+  
+  traces: DecisionTrace[]                // Per-check-in candidates, rejections and scores, for "why not" questions
 }
 
 export interface ActionSequence {
@@ -309,6 +364,23 @@ export interface PersonaAnalysis {
     strengths: string[]
     weaknesses: string[]
   }
+  
+  learningCurve: PersonaLearningCurve
+}
+
+export interface LearningCurvePoint {
+  day: number
+  knowledge: number            // 0-1, how close to optimal the persona's scoring is
+  experience: number           // Actions taken plus screens discovered
+}
+
+export interface PersonaLearningCurve {
+  learningRate: number
+  source: 'recorded' | 'estimated'   // Estimated from the action count when the run kept no curve
+  points: LearningCurvePoint[]
+  initialKnowledge: number
+  finalKnowledge: number
+  proficientOnDay: number | null     // First day knowledge reached 90%
 }
 
 export interface RiskEvent {
@@ -390,6 +462,93 @@ export interface ComparisonInsight {
   recommendations: string[]
 }
 
+// ===== BATCH (MONTE CARLO) SYSTEM =====
+
+export interface BatchReport {
+  id: string
+  name: string
+  generatedAt: Date
+  configuration: SimulationConfig
+  personaId: string
+  
+  // Replica bookkeeping - replica i ran with seeds[i]
+  replicaCount: number
+  seeds: number[]
+  outcomes: Record<SimulationResult['completionReason'], number>
+  completionRate: number          // 0-1, share of replicas that reached victory
+  
+  // Distributions across replicas
+  daysToCompletion: DistributionStats        // Completed replicas only
+  overallScore: DistributionStats
+  phaseTimings: Partial<Record<GamePhase, DistributionStats>>  // Days spent per phase
+  bottleneckFrequency: BottleneckFrequency[] // Most common first
+}
+
+export interface DistributionStats {
+  count: number
+  mean: number
+  stdDev: number
+  min: number
+  max: number
+  p10: number
+  p50: number
+  p90: number
+  ci95: { lower: number; upper: number }  // 95% confidence interval of the mean
+}
+
+export interface BottleneckFrequency {
+  type: Bottleneck['type']
+  cause: string
+  replicaCount: number    // Replicas where this bottleneck was detected
+  frequency: number       // replicaCount / total replicas
+  avgDaysLost: number     // Averaged over the replicas that hit it
+}
+
+// ===== PARAMETER SWEEP SYSTEM =====
+
+export interface SweepAxis {
+  path: string            // AllParameters dot path, e.g. 'farm.cropMechanics.growthTimeMultiplier'
+  min: number
+  max: number
+  step: number
+}
+
+export interface SweepPoint {
+  values: Record<string, number>     // Parameter path -> value at this grid point
+  daysToCompletion: DistributionStats  // Censored at the final day for replicas that did not finish
+  completionRate: number
+  overallScore: DistributionStats
+}
+
+export interface SweepResult {
+  id: string
+  generatedAt: Date
+  configuration: SimulationConfig
+  axes: SweepAxis[]                  // One axis = line chart, two axes = heatmap
+  replicas: number                   // Seeded replicas per grid point (same seeds at every point)
+  points: SweepPoint[]               // Row-major over axes[0] then axes[1]
+}
+
+export interface SensitivityEntry {
+  path: string
+  baseValue: number
+  lowValue: number
+  highValue: number
+  lowDays: number
+  baseDays: number
+  highDays: number
+  elasticity: number      // % change in completion days per % change in the parameter
+}
+
+export interface SensitivityReport {
+  id: string
+  generatedAt: Date
+  configuration: SimulationConfig
+  perturbation: number    // Relative step applied either side of each base value (0.1 = ±10%)
+  replicas: number
+  entries: SensitivityEntry[]  // Most sensitive first
+}
+
 // ===== EXPORT SYSTEM =====
 
 export interface ExportData {
@@ -1,6 +1,9 @@
 // Simulation Setup Types for Phase 5
 // Based on design specs from 05-simulation-setup-updated.md
 
+import type { ProgressMetric, GameAction } from './game-state'
+import type { SimplePersona } from './personas'
+
 export interface QuickSetup {
   // Basic identification
   name: string
@@ -13,9 +16,23 @@ export interface QuickSetup {
   duration: {
     mode: 'fixed' | 'completion' | 'bottleneck'
     maxDays?: number
-    bottleneckThreshold?: number // Days without progress
+    bottleneckThreshold?: number // Days without progress - the stall detector's window
+    stallThresholds?: Partial<Record<ProgressMetric, number>> // Minimum gain per window, per metric
+    victoryConditions?: VictoryCondition[] // Omitted = the classic "big farm" conditions
+    victoryMatch?: 'any' | 'all'           // Default 'any' - first condition met ends the run
   }
   
+  // Play schedule - 'calendar' plays the persona's check-ins as sessions on a weekly calendar
+  scheduling?: 'continuous' | 'calendar' // Omitted = continuous, the hero never logs off
+  startWeekday?: number                   // Weekday of day 1, 0 = Monday (default)
+  timeSkipping?: boolean                  // Idle ticks jump to the next completion or check-in
+  
+  // AI - 'lookahead' plans over a short horizon, an expert-player upper bound for the personas
+  decisionEngine?: 'greedy' | 'lookahead' // Omitted = greedy
+  goalTarget?: string                     // Greedy engine plans towards this node ('auto' = cheapest open milestone), omitted = no goal
+  script?: ScriptStep[]                   // Player replay - plays a hand-written path instead of the AI, which only plays 'ai' steps
+  actionValues?: ActionValueTable         // Greedy engine scores future value from past runs (ActionValueModel), omitted = hand-tuned
+  
   // Data source
   dataSource: 'current' | 'default' | 'saved'
   savedConfigId?: string
@@ -25,6 +42,65 @@ export interface QuickSetup {
   generateDetailedLogs: boolean
 }
 
+// Action values learned from past runs - what an action really gained within a window of game time
+export interface ActionValueEstimate {
+  samples: number   // Times the action was played with a full window after it
+  gold: number      // Mean gold gained over the window
+  plots: number     // Mean farm plots gained over the window
+  value: number     // The gains in ActionScorer's future-value points
+}
+
+// Keyed by 'type:target', with 'type' entries pooling every target
+export type ActionValueTable = Record<string, ActionValueEstimate>
+
+// Hand-written player paths - what a designer expects a player to do, and when
+export type ScriptedAction = Pick<GameAction, 'type'> & Partial<Omit<GameAction, 'type'>>
+
+export interface ScriptStep {
+  day: number
+  time: string                 // 'HH:MM' on that day
+  actions?: ScriptedAction[]   // Played one after another - costs default to the target's game data
+  ai?: boolean                 // The AI plays from here until the next step
+}
+
+// Manual mode - what a person chose at a check-in, recorded so the run can be replayed as a script
+export type DecisionChoice =
+  | { kind: 'pick'; actionId: string }        // One of the ranked candidates
+  | { kind: 'override'; action: ScriptedAction } // Something the AI did not offer
+  | { kind: 'wait' }                          // Do nothing this check-in
+  | { kind: 'ai' }                            // Play the AI's picks and hand control back
+
+export interface ManualChoiceRecord {
+  totalMinutes: number
+  choice: DecisionChoice['kind']
+  actions: ScriptedAction[]    // What was actually played
+}
+
+export interface ScriptStepError {
+  day: number
+  time: string
+  action: string               // e.g. 'purchase hoe'
+  errors: string[]             // Why ActionValidator refused it
+}
+
+// Declarative win conditions - what a designer is testing for
+export type VictoryConditionType =
+  | 'farm_plots'     // value: plot count
+  | 'gold'           // value: gold, minPlots: optional plot floor
+  | 'hero_level'     // value: level
+  | 'farm_stage'     // value: stage number (farm_stage_5 = 5)
+  | 'own_item'       // target: weapon/tool/armor/upgrade id
+  | 'defeat_boss'    // target: boss name from adventures.csv
+  | 'phase'          // target: phase name from phase_transitions.csv
+
+export interface VictoryCondition {
+  id: string
+  type: VictoryConditionType
+  value?: number
+  target?: string
+  minPlots?: number
+}
+
 export interface SimulationConfig {
   // Combined configuration for the simulation engine
   id: string
@@ -37,6 +113,12 @@ export interface SimulationConfig {
   // Parameter overrides (Phase 5B-5D)
   parameterOverrides?: Map<string, any>
   
+  // PRNG seed - same seed + same config = same run (generated when omitted)
+  seed?: number
+  
+  // Selected persona, resolved at compile time - its schedule drives calendar sessions
+  persona?: SimplePersona
+  
   // Validation state
   isValid: boolean
   validationErrors: string[]
@@ -215,12 +297,6 @@ export interface AdventureParameters {
     weaponAdvantageBonus: number
     weaponDisadvantage: number
     
-    heroHP: {
-      baseHP: number
-      hpPerLevel: number
-      maxLevel: number
-    }
-    
     weaponSwitchTime: number
     combatSpeed: number
   }
@@ -342,7 +418,6 @@ export interface MineParameters {
   
   depthManagement: {
     maxDepth: number
-    shortcutCosts: number[]
     autoReturnThreshold: number
     depthStrategy: 'shallow' | 'deep' | 'burst' | 'efficient'
     targetDepths: number[]
@@ -517,6 +592,11 @@ export interface DecisionParameters {
     }
   }
   
+  sessions: {
+    timeBudget: boolean                 // Plan each check-in as a route filling the persona's session length - off = top 3 actions
+    travelMinutes: Map<string, number>  // Walking time between neighbouring screens, keyed 'farm-tower'
+  }
+  
   optimization: {
     primaryGoal: 'speed' | 'efficiency' | 'completion' | 'exploration' | 'balanced'
     
@@ -5,10 +5,18 @@ import type {
   GameAction,
   GameEvent,
   TickResult,
-  SerializedGameState
+  SerializedGameState,
+  StallDiagnosis,
+  PendingDecision,
+  DecisionChoice,
+  ScriptStep
 } from '@/types'
 
 import type { SerializedSimulationConfig } from '@/utils/MapSerializer'
+import type { SimulationCheckpoint } from '@/utils/state/SimulationCheckpoint'
+import type { SnapshotIndexEntry } from '@/utils/state/SnapshotRingBuffer'
+import type { HeadlessRunProgress } from '@/utils/headless/HeadlessRunner'
+import type { SimulationResult } from './reports'
 
 /**
  * Messages sent FROM main thread TO worker
@@ -20,6 +28,11 @@ export type WorkerInputMessage =
   | SetSpeedMessage
   | StopMessage
   | GetStateMessage
+  | CheckpointMessage
+  | RestoreMessage
+  | GetSnapshotMessage
+  | SetManualModeMessage
+  | DecideMessage
 
 export interface InitializeMessage {
   type: 'initialize'
@@ -56,6 +69,38 @@ export interface GetStateMessage {
   type: 'getState'
 }
 
+export interface CheckpointMessage {
+  type: 'checkpoint'
+}
+
+export interface GetSnapshotMessage {
+  type: 'getSnapshot'
+  data: {
+    totalMinutes: number // Latest snapshot at or before this time
+  }
+}
+
+export interface RestoreMessage {
+  type: 'restore'
+  data: {
+    checkpoint: SimulationCheckpoint // Applied on top of the engine's current config
+  }
+}
+
+export interface SetManualModeMessage {
+  type: 'setManualMode'
+  data: {
+    enabled: boolean // A person decides at each check-in
+  }
+}
+
+export interface DecideMessage {
+  type: 'decide'
+  data: {
+    choice: DecisionChoice // Answer to the pending decisionRequest
+  }
+}
+
 /**
  * Messages sent FROM worker TO main thread
  */
@@ -66,6 +111,10 @@ export type WorkerOutputMessage =
   | CompleteMessage
   | ErrorMessage
   | StatsMessage
+  | CheckpointCreatedMessage
+  | RestoredMessage
+  | SnapshotMessage
+  | DecisionRequestMessage
 
 export interface ReadyMessage {
   type: 'ready'
@@ -85,6 +134,7 @@ export interface TickMessage {
     tickCount: number
     isComplete: boolean
     isStuck: boolean
+    snapshot?: SnapshotIndexEntry // Set when this tick added a time-travel snapshot
   }
 }
 
@@ -103,6 +153,10 @@ export interface CompleteMessage {
     finalState: SerializedGameState
     stats: SimulationStats
     summary: string
+    seed: number
+    snapshot?: SnapshotIndexEntry // Snapshot of the final state
+    stallDiagnosis?: StallDiagnosis // Why the run stalled, for bottleneck completions
+    replayScript?: ScriptStep[] // Every manual choice, when a person played
   }
 }
 
@@ -120,6 +174,83 @@ export interface StatsMessage {
   data: SimulationStats
 }
 
+export interface CheckpointCreatedMessage {
+  type: 'checkpoint'
+  data: {
+    checkpoint: SimulationCheckpoint
+  }
+}
+
+export interface RestoredMessage {
+  type: 'restored'
+  data: {
+    gameState: SerializedGameState
+    stats: SimulationStats
+    snapshots: SnapshotIndexEntry[] // History that survives the restore
+  }
+}
+
+export interface SnapshotMessage {
+  type: 'snapshot'
+  data: {
+    entry: SnapshotIndexEntry
+    gameState: SerializedGameState
+  }
+}
+
+export interface DecisionRequestMessage {
+  type: 'decisionRequest'
+  data: {
+    decision: PendingDecision // The loop is held until a decide message answers it
+  }
+}
+
+/**
+ * Messages sent FROM SimulationPool TO a pool worker
+ */
+export type PoolWorkerInputMessage = RunJobMessage
+
+export interface RunJobMessage {
+  type: 'runJob'
+  data: {
+    jobId: string
+    config: SerializedSimulationConfig
+    gameData: any // Same CSV data shape as InitializeMessage
+  }
+}
+
+/**
+ * Messages sent FROM a pool worker TO SimulationPool
+ */
+export type PoolWorkerOutputMessage =
+  | JobProgressMessage
+  | JobCompleteMessage
+  | JobErrorMessage
+
+export interface JobProgressMessage {
+  type: 'jobProgress'
+  data: {
+    jobId: string
+    progress: HeadlessRunProgress
+  }
+}
+
+export interface JobCompleteMessage {
+  type: 'jobComplete'
+  data: {
+    jobId: string
+    result: SimulationResult // Maps survive structured cloning
+  }
+}
+
+export interface JobErrorMessage {
+  type: 'jobError'
+  data: {
+    jobId: string
+    message: string
+  }
+}
+
 /**
  * Simulation statistics
  */
@@ -79,6 +79,7 @@ export class ActionRouter {
       
       // Mine actions
       ['mine', 'mine'],
+      ['buy_shortcut', 'mine'],
       
       // Forge actions
       ['craft', 'forge'],
@@ -161,6 +162,8 @@ export class ActionRouter {
     state.location.timeOnScreen = 0
     state.location.screenHistory.push(targetScreen as any)
     state.location.navigationReason = action.description || `Moved to ${targetScreen}`
+    // The hero is on the way for the move's duration - the travel time between the screens
+    state.location.arrivesAt = state.time.totalMinutes + action.duration
 
     return {
       success: true,
@@ -174,7 +177,8 @@ export class ActionRouter {
         data: { 
           from: previousScreen,
           to: targetScreen,
-          reason: action.description 
+          reason: action.description,
+          travelMinutes: action.duration
         }
       }]
     }
@@ -0,0 +1,69 @@
+// BatchAnalyzer tests
+// Distribution statistics and outcome counts over hand-checked replica samples
+
+import { describe, it, expect } from 'vitest'
+import type { SimulationConfig } from '@/types'
+import type { AnalysisReport, Bottleneck, PhasePerformance, SimulationResult } from '@/types/reports'
+import { BatchAnalyzer } from '@/utils/BatchAnalyzer'
+
+describe('BatchAnalyzer - Replica Statistics', () => {
+  it('describes a sample with interpolated percentiles and a t-table 95% interval', () => {
+    // Mean 5, sample variance 32 / 7
+    const stats = BatchAnalyzer.describe([9, 2, 4, 7, 4, 5, 4, 5])
+    expect(stats).toMatchObject({ count: 8, mean: 5, min: 2, max: 9 })
+    expect(stats.stdDev).toBeCloseTo(Math.sqrt(32 / 7), 10)
+    expect(stats.p10).toBeCloseTo(3.4, 10)   // Position 0.7 between 2 and 4
+    expect(stats.p50).toBeCloseTo(4.5, 10)   // Position 3.5 between 4 and 5
+    expect(stats.p90).toBeCloseTo(7.6, 10)   // Position 6.3 between 7 and 9
+
+    // 7 degrees of freedom - t = 2.365
+    const margin = 2.365 * Math.sqrt(32 / 7) / Math.sqrt(8)
+    expect(stats.ci95.lower).toBeCloseTo(5 - margin, 10)
+    expect(stats.ci95.upper).toBeCloseTo(5 + margin, 10)
+
+    // Past the table the normal 1.96 takes over, one value has no spread, none is all zeros
+    const large = BatchAnalyzer.describe(Array.from({ length: 40 }, (_, i) => i % 2))
+    expect(large.ci95.upper - large.mean).toBeCloseTo(1.96 * large.stdDev / Math.sqrt(40), 10)
+    expect(BatchAnalyzer.describe([3])).toMatchObject({ count: 1, mean: 3, stdDev: 0, p10: 3, p90: 3, ci95: { lower: 3, upper: 3 } })
+    expect(BatchAnalyzer.describe([])).toMatchObject({ count: 0, mean: 0, p50: 0, ci95: { lower: 0, upper: 0 } })
+    expect(BatchAnalyzer.percentile([10, 20], 0.25)).toBe(12.5)
+  })
+
+  it('counts outcomes, completion days, phase timings and bottlenecks per replica', () => {
+    const config = { id: 'batch_test', quickSetup: { name: 'Batch', personaId: 'casual' } } as SimulationConfig
+    const result = (seed: number, completionReason: SimulationResult['completionReason'], completionDay: number | null) =>
+      ({ seed, completionReason, completed: completionReason === 'victory', completionDay }) as SimulationResult
+    const bottleneck = (cause: string, daysLost: number) => ({ type: 'resource', cause, daysLost }) as Bottleneck
+    const report = (overallScore: number, tutorialDays: number, bottlenecks: Bottleneck[]) => ({
+      summary: { overallScore },
+      progressionAnalysis: { phaseTimings: new Map([['Tutorial', { daysSpent: tutorialDays } as PhasePerformance]]) },
+      bottleneckAnalysis: { detectedBottlenecks: bottlenecks }
+    }) as AnalysisReport
+
+    const batch = new BatchAnalyzer().analyze(
+      config,
+      [result(1, 'victory', 10), result(2, 'victory', 14), result(3, 'bottleneck', null), result(4, 'max_days', null)],
+      [
+        report(80, 2, [bottleneck('energy', 1), bottleneck('energy', 3)]),
+        report(70, 4, [bottleneck('energy', 1)]),
+        report(40, 6, [bottleneck('seeds', 5)]),
+        report(50, 8, [])
+      ]
+    )
+
+    expect(batch.outcomes).toEqual({ victory: 2, max_days: 1, bottleneck: 1, error: 0 })
+    expect(batch.completionRate).toBe(0.5)
+    expect(batch.seeds).toEqual([1, 2, 3, 4])
+    expect(batch.name).toBe('Batch (×4)')
+    expect(batch.daysToCompletion).toMatchObject({ count: 2, mean: 12, p50: 12 })
+    expect(batch.overallScore).toMatchObject({ count: 4, mean: 60 })
+    expect(batch.phaseTimings.Tutorial).toMatchObject({ count: 4, mean: 5, min: 2, max: 8 })
+
+    // Energy hit two replicas - the first one's worst delay counts once
+    expect(batch.bottleneckFrequency).toEqual([
+      { type: 'resource', cause: 'energy', replicaCount: 2, frequency: 0.5, avgDaysLost: 2 },
+      { type: 'resource', cause: 'seeds', replicaCount: 1, frequency: 0.25, avgDaysLost: 5 }
+    ])
+    expect(() => new BatchAnalyzer().analyze(config, [result(1, 'victory', 10)], [])).toThrow()
+  })
+})
@@ -0,0 +1,157 @@
+// BatchAnalyzer - Monte Carlo Aggregation of Replica Reports
+// Turns N seeded runs of one configuration into distributions with confidence intervals
+
+import type {
+  SimulationResult,
+  AnalysisReport,
+  BatchReport,
+  DistributionStats,
+  BottleneckFrequency,
+  GamePhase
+} from '@/types/reports'
+import type { SimulationConfig } from '@/types'
+
+// Two-sided 95% Student t critical values by degrees of freedom (1-30)
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042
+]
+
+export class BatchAnalyzer {
+
+  /**
+   * Aggregate replica results (and their analysis reports, same order) into a batch report
+   */
+  analyze(
+    configuration: SimulationConfig,
+    results: SimulationResult[],
+    reports: AnalysisReport[]
+  ): BatchReport {
+    if (results.length === 0 || results.length !== reports.length) {
+      throw new Error('Batch analysis needs one analysis report per replica result')
+    }
+
+    const outcomes: BatchReport['outcomes'] = { victory: 0, max_days: 0, bottleneck: 0, error: 0 }
+    results.forEach(result => outcomes[result.completionReason]++)
+
+    const completionDays = results
+      .filter(result => result.completed && result.completionDay !== null)
+      .map(result => result.completionDay as number)
+
+    return {
+      id: `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: `${configuration.quickSetup?.name || configuration.id} (×${results.length})`,
+      generatedAt: new Date(),
+      configuration,
+      personaId: configuration.quickSetup?.personaId || 'unknown',
+      replicaCount: results.length,
+      seeds: results.map(result => result.seed),
+      outcomes,
+      completionRate: outcomes.victory / results.length,
+      daysToCompletion: BatchAnalyzer.describe(completionDays),
+      overallScore: BatchAnalyzer.describe(reports.map(report => report.summary.overallScore)),
+      phaseTimings: this.aggregatePhaseTimings(reports),
+      bottleneckFrequency: this.aggregateBottlenecks(reports)
+    }
+  }
+
+  // ===== AGGREGATION =====
+
+  private aggregatePhaseTimings(reports: AnalysisReport[]): Partial<Record<GamePhase, DistributionStats>> {
+    const daysByPhase = new Map<GamePhase, number[]>()
+
+    reports.forEach(report => {
+      report.progressionAnalysis.phaseTimings.forEach((timing, phase) => {
+        if (!daysByPhase.has(phase)) daysByPhase.set(phase, [])
+        daysByPhase.get(phase)!.push(timing.daysSpent)
+      })
+    })
+
+    const timings: Partial<Record<GamePhase, DistributionStats>> = {}
+    daysByPhase.forEach((days, phase) => {
+      timings[phase] = BatchAnalyzer.describe(days)
+    })
+    return timings
+  }
+
+  private aggregateBottlenecks(reports: AnalysisReport[]): BottleneckFrequency[] {
+    const byCause = new Map<string, { type: BottleneckFrequency['type']; cause: string; replicas: number; daysLost: number }>()
+
+    reports.forEach(report => {
+      // Count each cause once per replica, keeping its worst delay
+      const seen = new Map<string, { type: BottleneckFrequency['type']; daysLost: number }>()
+      report.bottleneckAnalysis.detectedBottlenecks.forEach(bottleneck => {
+        const key = `${bottleneck.type}:${bottleneck.cause}`
+        const existing = seen.get(key)
+        if (!existing || bottleneck.daysLost > existing.daysLost) {
+          seen.set(key, { type: bottleneck.type, daysLost: bottleneck.daysLost })
+        }
+      })
+
+      seen.forEach(({ type, daysLost }, key) => {
+        const entry = byCause.get(key) || { type, cause: key.slice(type.length + 1), replicas: 0, daysLost: 0 }
+        entry.replicas++
+        entry.daysLost += daysLost
+        byCause.set(key, entry)
+      })
+    })
+
+    return Array.from(byCause.values())
+      .map(entry => ({
+        type: entry.type,
+        cause: entry.cause,
+        replicaCount: entry.replicas,
+        frequency: entry.replicas / reports.length,
+        avgDaysLost: entry.daysLost / entry.replicas
+      }))
+      .sort((a, b) => b.frequency - a.frequency || b.avgDaysLost - a.avgDaysLost)
+  }
+
+  // ===== STATISTICS =====
+
+  /**
+   * Summary statistics of a sample; all zeros for an empty sample
+   */
+  static describe(values: number[]): DistributionStats {
+    const count = values.length
+    if (count === 0) {
+      return { count: 0, mean: 0, stdDev: 0, min: 0, max: 0, p10: 0, p50: 0, p90: 0, ci95: { lower: 0, upper: 0 } }
+    }
+
+    const sorted = [...values].sort((a, b) => a - b)
+    const mean = sorted.reduce((sum, value) => sum + value, 0) / count
+    const variance = count > 1
+      ? sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (count - 1)
+      : 0
+    const stdDev = Math.sqrt(variance)
+    const margin = count > 1 ? BatchAnalyzer.tCritical(count - 1) * stdDev / Math.sqrt(count) : 0
+
+    return {
+      count,
+      mean,
+      stdDev,
+      min: sorted[0],
+      max: sorted[count - 1],
+      p10: BatchAnalyzer.percentile(sorted, 0.1),
+      p50: BatchAnalyzer.percentile(sorted, 0.5),
+      p90: BatchAnalyzer.percentile(sorted, 0.9),
+      ci95: { lower: mean - margin, upper: mean + margin }
+    }
+  }
+
+  /**
+   * Linear-interpolated percentile of an ascending sample (q in 0-1)
+   */
+  static percentile(sorted: number[], q: number): number {
+    if (sorted.length === 0) return 0
+    const position = (sorted.length - 1) * q
+    const lower = Math.floor(position)
+    const upper = Math.ceil(position)
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+  }
+
+  private static tCritical(degreesOfFreedom: number): number {
+    return T_CRITICAL_95[degreesOfFreedom - 1] ?? 1.96
+  }
+}
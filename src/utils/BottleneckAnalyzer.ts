@@ -57,6 +57,9 @@ export class BottleneckAnalyzer {
     // 4. Parameter configuration bottlenecks
     bottlenecks.push(...this.detectParameterBottlenecks(result))
     
+    // 5. The stall detector's diagnosis, when the run ended stuck
+    bottlenecks.push(...this.detectStallBottlenecks(result))
+    
     // Sort by severity and impact
     bottlenecks.sort((a, b) => (b.severity * b.daysLost) - (a.severity * a.daysLost))
     
@@ -560,6 +563,79 @@ export class BottleneckAnalyzer {
     return override?.value !== undefined ? override.value : defaultValue
   }
   
+  // ===== STALL DIAGNOSIS =====
+  
+  private detectStallBottlenecks(result: SimulationResult): Bottleneck[] {
+    const diagnosis = result.stallDiagnosis
+    if (!diagnosis) return []
+    
+    const bottlenecks: Bottleneck[] = []
+    const finalState = result.gameStateHistory[result.gameStateHistory.length - 1]
+    const startDay = Math.max(1, diagnosis.day - diagnosis.windowDays)
+    const shared = {
+      severity: 8,
+      startDay,
+      endDay: diagnosis.day,
+      daysLost: diagnosis.windowDays,
+      impact: `Run stopped: ${diagnosis.summary}`,
+      gameStateSnapshot: finalState,
+      relevantActions: [],
+      parameterSettings: result.configuration.parameterOverrides
+    }
+    
+    for (const starved of diagnosis.starvedResources) {
+      const resourceBottleneck: ResourceBottleneck = {
+        ...shared,
+        type: 'resource',
+        description: `${starved.resource} starvation stalled progress for ${diagnosis.windowDays} days`,
+        cause: `${starved.rejections} actions rejected for lack of ${starved.resource}`,
+        recommendation: `Raise ${starved.resource} income or lower the costs of the actions that need it`,
+        resource: starved.resource,
+        requiredAmount: starved.needed,
+        availableAmount: starved.available,
+        generationRate: 0,
+        consumptionRate: 0,
+        timeToResolve: diagnosis.windowDays
+      }
+      bottlenecks.push(resourceBottleneck)
+    }
+    
+    for (const block of diagnosis.blockingPrerequisites) {
+      const prerequisiteBottleneck: PrerequisiteBottleneck = {
+        ...shared,
+        type: 'prerequisite',
+        description: `${block.itemId} blocked by missing prerequisites`,
+        cause: block.reasons.length > 0 ? block.reasons.join('; ') : `Missing prerequisites: ${block.missingPrerequisites.join(', ')}`,
+        recommendation: `Focus on unlocking: ${block.missingPrerequisites.slice(0, 2).join(', ')}`,
+        blockedUpgrade: block.itemId,
+        missingPrerequisites: block.missingPrerequisites,
+        availableAlternatives: [],
+        costToUnblock: finalState
+          ? this.calculateUnblockingCost(block.missingPrerequisites, finalState)
+          : { gold: 0, energy: 0, materials: new Map() }
+      }
+      bottlenecks.push(prerequisiteBottleneck)
+    }
+    
+    for (const rejected of diagnosis.rejectedActions.filter(entry => entry.count >= this.thresholds.decisionStuckThreshold)) {
+      const decisionBottleneck: DecisionBottleneck = {
+        ...shared,
+        type: 'decision',
+        severity: Math.min(10, rejected.count / 2),
+        description: `AI kept proposing ${rejected.actionType} ${rejected.target} but it was rejected`,
+        cause: rejected.detail,
+        recommendation: `Check why ${rejected.actionType} ${rejected.target} is scored while its ${rejected.reason} are not met`,
+        repeatedAction: `${rejected.actionType}_${rejected.target}`,
+        timesAttempted: rejected.count,
+        averageScore: 0,
+        betterAlternatives: []
+      }
+      bottlenecks.push(decisionBottleneck)
+    }
+    
+    return bottlenecks
+  }
+  
   // ===== HELPER METHODS =====
   
   private getRelevantActions(result: SimulationResult, period: StarvationPeriod): ExecutedAction[] {
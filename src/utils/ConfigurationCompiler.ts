@@ -9,6 +9,7 @@ import type {
 } from '@/types'
 import { useParameterStore } from '@/stores/parameters'
 import { usePersonaStore } from '@/stores/personas'
+import { VictoryConditionEvaluator } from '@/utils/orchestration/VictoryConditions'
 
 /**
  * Compiles a complete simulation configuration from quick setup and parameter overrides
@@ -51,6 +52,7 @@ export class ConfigurationCompiler {
         lastModified: new Date().toISOString(),
         quickSetup,
         parameterOverrides: new Map(parameterStore.overrides.entries()),
+        persona: { ...persona },
         isValid: true,
         validationErrors: []
       }
@@ -93,6 +95,11 @@ export class ConfigurationCompiler {
       errors.push('Bottleneck threshold must be at least 1 day')
     }
     
+    for (const condition of quickSetup.duration.victoryConditions || []) {
+      const error = VictoryConditionEvaluator.validate(condition)
+      if (error) errors.push(error)
+    }
+    
     return errors
   }
   
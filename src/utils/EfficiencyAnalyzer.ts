@@ -256,7 +256,7 @@ export class EfficiencyAnalyzer {
     if (!persona) return 0.5
     
     const totalDays = result.completionDay || result.gameStateHistory.length
-    const expectedCheckIns = totalDays * (persona.schedule?.weekday?.checkIns || 2)
+    const expectedCheckIns = totalDays * (persona.weekdayCheckIns || 2)
     const actualActions = result.actionHistory.length
     
     // Rough efficiency calculation
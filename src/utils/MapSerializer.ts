@@ -17,6 +17,7 @@ export interface SerializedSimulationConfig {
   lastModified: string
   quickSetup: any // QuickSetup doesn't contain Maps
   parameterOverrides?: Array<[string, any]> // Map<string, any> → Array
+  seed?: number
   isValid: boolean
   validationErrors: string[]
   
@@ -60,6 +61,10 @@ export class MapSerializer {
       validationErrors: Array.isArray(config.validationErrors) ? [...config.validationErrors] : []
     }
 
+    if (config.seed !== undefined) {
+      serialized.seed = config.seed
+    }
+
     // Serialize parameterOverrides Map (handle both Map and plain object)
     if (config.parameterOverrides) {
       if (config.parameterOverrides instanceof Map) {
@@ -90,6 +95,10 @@ export class MapSerializer {
       validationErrors: [...data.validationErrors]
     }
 
+    if (data.seed !== undefined) {
+      config.seed = data.seed
+    }
+
     // Reconstruct parameterOverrides Map
     if (data.parameterOverrides) {
       config.parameterOverrides = new Map(data.parameterOverrides)
@@ -99,8 +108,8 @@ export class MapSerializer {
   }
 
   /**
-   * Recursively serializes all Maps in a nested object structure
-   * Used for AllParameters and other complex parameter objects
+   * Recursively serializes all Maps (and Sets) in a nested object structure
+   * Used for AllParameters, checkpoints and other complex objects
    */
   static serializeMapsInObject(obj: any): any {
     if (obj === null || obj === undefined) {
@@ -111,7 +120,15 @@ export class MapSerializer {
     if (isMap(obj)) {
       return {
         __isSerializedMap: true,
-        entries: Array.from(obj.entries())
+        entries: Array.from(obj.entries()).map(([key, value]) => [key, this.serializeMapsInObject(value)])
+      }
+    }
+
+    // Sets (GameState progression uses them) get the same treatment
+    if (obj instanceof Set) {
+      return {
+        __isSerializedSet: true,
+        values: Array.from(obj.values()).map(item => this.serializeMapsInObject(item))
       }
     }
 
@@ -144,7 +161,12 @@ export class MapSerializer {
 
     // Handle serialized Maps
     if (isPlainObject(obj) && obj.__isSerializedMap === true && Array.isArray(obj.entries)) {
-      return new Map(obj.entries)
+      return new Map(obj.entries.map(([key, value]: [any, any]) => [key, this.deserializeMapsInObject(value)]))
+    }
+
+    // Handle serialized Sets
+    if (isPlainObject(obj) && obj.__isSerializedSet === true && Array.isArray(obj.values)) {
+      return new Set(obj.values.map((item: any) => this.deserializeMapsInObject(item)))
     }
 
     // Handle Arrays
@@ -11,16 +11,22 @@ import type {
   BottleneckAnalysis,
   DecisionAnalysis,
   PersonaAnalysis,
+  PersonaLearningCurve,
+  LearningCurvePoint,
   Recommendation,
   PhasePerformance,
   ResourceUtilization,
   GamePhase,
   GameTime,
-  Bottleneck
+  Bottleneck,
+  LevelReached,
+  MiningDepthPoint
 } from '@/types/reports'
 import type { GameDataStore } from '@/stores/gameData'
 import { BottleneckAnalyzer } from './BottleneckAnalyzer'
 import { EfficiencyAnalyzer } from './EfficiencyAnalyzer'
+import { LearningModel } from './ai/LearningModel'
+import { SessionScheduler } from './orchestration/SessionScheduler'
 
 interface AnalysisConfig {
   enableBottleneckDetection: boolean
@@ -159,7 +165,8 @@ export class ReportGenerator {
       upgradesPurchased: this.countUpgradesPurchased(result),
       adventuresCompleted: this.countAdventuresCompleted(result),
       majorBottlenecks: this.identifyMajorBottlenecks(result),
-      wastedResources: this.calculateWastedResources(result)
+      wastedResources: this.calculateWastedResources(result),
+      victoryConditions: result.victoryConditions
     }
   }
   
@@ -283,13 +290,48 @@ export class ReportGenerator {
     const milestoneAchievements = this.extractMilestones(result)
     const progressionRate = this.calculateDetailedProgressionRate(result)
     const stuckPoints = this.identifyStuckPoints(result)
+    const levelUps = this.extractLevelUps(result)
+    const miningDepth = this.extractMiningDepth(result)
     
     return {
       phaseTimings,
       milestoneAchievements,
       progressionRate,
-      stuckPoints
+      stuckPoints,
+      levelUps,
+      miningDepth
+    }
+  }
+  
+  /**
+   * Mining depth at each state snapshot - empty when the hero never mined
+   */
+  private extractMiningDepth(result: SimulationResult): MiningDepthPoint[] {
+    return result.gameStateHistory.flatMap(state => {
+      const mining = state.processes?.mining
+      if (!mining) return []
+      return [{
+        day: SessionScheduler.dayOf(state.time.totalMinutes),
+        depth: mining.depth,
+        deepestDepth: mining.deepestDepth ?? mining.depth,
+        shortcuts: mining.shortcuts?.length ?? 0
+      }]
+    })
+  }
+  
+  /**
+   * Every level the hero reached - a jump of several levels at once counts for each of them
+   */
+  private extractLevelUps(result: SimulationResult): LevelReached[] {
+    const levelUps: LevelReached[] = []
+    for (const event of result.eventHistory ?? []) {
+      if (event.type !== 'level_up' || !event.data) continue
+      const day = SessionScheduler.dayOf(event.timestamp)
+      for (let level = event.data.oldLevel + 1; level <= event.data.newLevel; level++) {
+        levelUps.push({ level, day, totalXp: event.data.totalXp })
+      }
     }
+    return levelUps
   }
   
   private calculatePhaseTimings(result: SimulationResult): Map<GamePhase, PhasePerformance> {
@@ -509,7 +551,8 @@ export class ReportGenerator {
         inefficientActions: [],
         missedOpportunities: [],
         suggestions: []
-      }
+      },
+      traces: result.decisionTraces ?? []
     }
   }
   
@@ -519,7 +562,7 @@ export class ReportGenerator {
     if (!persona) return 1
     
     const totalDays = result.completionDay || result.gameStateHistory.length
-    return totalDays * (persona.schedule?.weekday?.checkIns || 2)
+    return totalDays * (persona.weekdayCheckIns || 2)
   }
   
   // ===== PERSONA ANALYSIS =====
@@ -535,12 +578,12 @@ export class ReportGenerator {
       personaName: persona.name,
       behaviorAlignment: {
         checkInFrequency: {
-          expected: persona.schedule?.weekday?.checkIns || 2,
+          expected: persona.weekdayCheckIns || 2,
           actual: this.calculateActualCheckIns(result),
           variance: 0  // Would calculate variance
         },
         riskTolerance: {
-          expected: persona.behavior?.riskTolerance || 0.5,
+          expected: persona.riskTolerance ?? 0.5,
           actual: this.calculateActualRiskTolerance(result),
           riskEvents: []
         },
@@ -555,7 +598,38 @@ export class ReportGenerator {
         comparisonToOthers: [],
         strengths: this.identifyPersonaStrengths(result, persona),
         weaknesses: this.identifyPersonaWeaknesses(result, persona)
-      }
+      },
+      learningCurve: this.analyzeLearningCurve(result, persona.learningRate ?? 0.5)
+    }
+  }
+  
+  /**
+   * Knowledge per day - the run's own curve when it kept one, else estimated from actions spread evenly over the days
+   */
+  private analyzeLearningCurve(result: SimulationResult, learningRate: number): PersonaLearningCurve {
+    let points: LearningCurvePoint[]
+    let source: PersonaLearningCurve['source'] = 'recorded'
+    
+    if (result.learningCurve?.length) {
+      points = result.learningCurve
+    } else {
+      source = 'estimated'
+      const totalDays = Math.max(1, result.completionDay || result.gameStateHistory.length)
+      const actionsPerDay = result.actionHistory.length / totalDays
+      const screens = new Set(result.actionHistory.map(action => action.screen).filter(Boolean)).size
+      points = Array.from({ length: totalDays }, (_, index) => {
+        const experience = Math.round(actionsPerDay * (index + 1)) + screens * LearningModel.SCREEN_EXPERIENCE
+        return { day: index + 1, knowledge: LearningModel.knowledgeFor(learningRate, experience), experience }
+      })
+    }
+    
+    return {
+      learningRate,
+      source,
+      points,
+      initialKnowledge: LearningModel.INITIAL_KNOWLEDGE,
+      finalKnowledge: points[points.length - 1]?.knowledge ?? LearningModel.INITIAL_KNOWLEDGE,
+      proficientOnDay: points.find(point => point.knowledge >= 0.9)?.day ?? null
     }
   }
   
@@ -777,6 +851,14 @@ export class ReportGenerator {
         comparisonToOthers: [],
         strengths: [],
         weaknesses: []
+      },
+      learningCurve: {
+        learningRate: 0.5,
+        source: 'estimated',
+        points: [],
+        initialKnowledge: LearningModel.INITIAL_KNOWLEDGE,
+        finalKnowledge: LearningModel.INITIAL_KNOWLEDGE,
+        proficientOnDay: null
       }
     }
   }
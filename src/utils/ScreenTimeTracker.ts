@@ -1,5 +1,6 @@
 // ScreenTimeTracker - Tracks cumulative time across all game screens
 // Provides aggregation, percentages, visit counts, and daily reset functionality
+// Only time the hero is active counts - travel between screens is kept apart and time away from the game is left out
 
 export type GameScreen = 'farm' | 'tower' | 'town' | 'adventure' | 'forge' | 'mine' | 'menu'
 
@@ -15,7 +16,8 @@ export interface ScreenStats {
 export interface ScreenTimeTrends {
   mostVisited: GameScreen
   timeDistribution: ScreenStats[]
-  sessionDuration: number  // Total session time in minutes
+  sessionDuration: number  // Total active time in minutes, travel included
+  travelTime: number       // Minutes spent walking between screens
   averageSessionLength: number
   screenSwitchFrequency: number // Switches per hour
 }
@@ -30,6 +32,8 @@ export class ScreenTimeTracker {
   private lastVisitTimes: Map<GameScreen, number> = new Map()
   private currentDay: number = 1
   private screenSwitchCount: number = 0
+  private travelTime: number = 0
+  private idleSince: number | null = null   // Hero away from the game since then - null while playing
   
   constructor(initialScreen: GameScreen = 'farm', currentTime: number = 0) {
     this.currentScreen = initialScreen
@@ -53,13 +57,13 @@ export class ScreenTimeTracker {
   }
   
   /**
-   * Change to a new screen, updating time tracking
+   * Change to a new screen, updating time tracking - the travel minutes count for neither screen
    */
-  changeScreen(newScreen: GameScreen, currentTime: number): void {
+  changeScreen(newScreen: GameScreen, currentTime: number, travelMinutes: number = 0): void {
     // Update time for previous screen
-    const timeOnScreen = currentTime - this.screenEnteredAt
-    const currentScreenTime = this.screenTimes.get(this.currentScreen) || 0
-    this.screenTimes.set(this.currentScreen, currentScreenTime + timeOnScreen)
+    this.closeCurrentScreen(currentTime)
+    this.idleSince = null
+    this.travelTime += travelMinutes
     
     // Check for day change and reset daily stats if needed
     const newDay = Math.floor(currentTime / (24 * 60)) + 1
@@ -82,15 +86,53 @@ export class ScreenTimeTracker {
     
     // Switch to new screen
     this.currentScreen = newScreen
-    this.screenEnteredAt = currentTime
+    this.screenEnteredAt = currentTime + travelMinutes
   }
   
   /**
    * Update current screen time without changing screens
+   * activeUntil is when the hero's last action ends - past it the hero is away, a later one means they are back
+   */
+  updateCurrentTime(currentTime: number, activeUntil?: number): void {
+    if (activeUntil === undefined) return
+    
+    if (this.idleSince === null && currentTime > activeUntil) {
+      this.goIdle(activeUntil)
+    } else if (this.idleSince !== null && activeUntil > this.idleSince) {
+      this.resume(Math.min(currentTime, activeUntil))
+    }
+  }
+  
+  /**
+   * The hero left the game - time stops counting for the current screen
+   */
+  goIdle(currentTime: number): void {
+    if (this.idleSince !== null) return
+    this.closeCurrentScreen(currentTime)
+    this.idleSince = currentTime
+  }
+  
+  /**
+   * The hero is back on the screen they left
    */
-  updateCurrentTime(currentTime: number): void {
-    // Just update the current screen entry time for accurate calculations
-    // Don't add time yet - that happens on screen change or when getting stats
+  resume(currentTime: number): void {
+    if (this.idleSince === null) return
+    this.idleSince = null
+    this.screenEnteredAt = currentTime
+  }
+  
+  // Add the open stretch on the current screen to its total
+  private closeCurrentScreen(currentTime: number): void {
+    if (this.idleSince !== null) return
+    const timeOnScreen = Math.max(currentTime - this.screenEnteredAt, 0)
+    const currentScreenTime = this.screenTimes.get(this.currentScreen) || 0
+    this.screenTimes.set(this.currentScreen, currentScreenTime + timeOnScreen)
+    this.screenEnteredAt = Math.max(currentTime, this.screenEnteredAt)
+  }
+  
+  // Time on the current screen not yet added to its total
+  private openScreenTime(currentTime: number): number {
+    return this.idleSince === null ? Math.max(currentTime - this.screenEnteredAt, 0) : 0
   }
   
   /**
@@ -100,7 +142,7 @@ export class ScreenTimeTracker {
     // Calculate current time including active session
     let screenTime = this.screenTimes.get(screen) || 0
     if (screen === this.currentScreen) {
-      screenTime += currentTime - this.screenEnteredAt
+      screenTime += this.openScreenTime(currentTime)
     }
     
     return {
@@ -130,17 +172,19 @@ export class ScreenTimeTracker {
     
     let screenTime = this.screenTimes.get(screen) || 0
     if (screen === this.currentScreen) {
-      screenTime += currentTime - this.screenEnteredAt
+      screenTime += this.openScreenTime(currentTime)
     }
     
     return Math.round((screenTime / totalTime) * 100 * 10) / 10 // Round to 1 decimal
   }
   
   /**
-   * Get total session time across all screens
+   * Get total active time across all screens, travel included
    */
   private getTotalSessionTime(currentTime: number): number {
-    return Math.max(currentTime - this.sessionStart, 0)
+    let total = this.travelTime + this.openScreenTime(currentTime)
+    this.screenTimes.forEach(time => { total += time })
+    return total
   }
   
   /**
@@ -162,6 +206,7 @@ export class ScreenTimeTracker {
       mostVisited,
       timeDistribution: allStats,
       sessionDuration,
+      travelTime: this.travelTime,
       averageSessionLength,
       screenSwitchFrequency
     }
@@ -189,7 +234,7 @@ export class ScreenTimeTracker {
    * Get time spent on current screen in this session
    */
   getCurrentScreenTime(currentTime: number): number {
-    return currentTime - this.screenEnteredAt
+    return this.openScreenTime(currentTime)
   }
   
   /**
@@ -205,7 +250,9 @@ export class ScreenTimeTracker {
       totalVisits: Array.from(this.totalVisits.entries()),
       lastVisitTimes: Array.from(this.lastVisitTimes.entries()),
       currentDay: this.currentDay,
-      screenSwitchCount: this.screenSwitchCount
+      screenSwitchCount: this.screenSwitchCount,
+      travelTime: this.travelTime,
+      idleSince: this.idleSince
     }
   }
   
@@ -240,5 +287,11 @@ export class ScreenTimeTracker {
     if (data.screenSwitchCount !== undefined) {
       this.screenSwitchCount = data.screenSwitchCount
     }
+    if (data.travelTime !== undefined) {
+      this.travelTime = data.travelTime
+    }
+    if (data.idleSince !== undefined) {
+      this.idleSince = data.idleSince
+    }
   }
 }
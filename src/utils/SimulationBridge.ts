@@ -1,18 +1,25 @@
 // SimulationBridge - Phase 6B
 // Main thread communication bridge to Web Worker
 
-import { MapSerializer } from '@/utils/MapSerializer'
+import { CSV_FILE_LIST } from '@/types/csv-data'
+import { MapSerializer, type SerializedSimulationConfig } from '@/utils/MapSerializer'
 import type { 
   SimulationConfig,
   GameState,
   GameAction,
-  GameEvent
+  GameEvent,
+  StallDiagnosis,
+  PendingDecision,
+  DecisionChoice,
+  ScriptStep
 } from '@/types'
 import type { 
   WorkerInputMessage,
   WorkerOutputMessage,
   SimulationStats
 } from '@/types/worker-messages'
+import type { SimulationCheckpoint } from '@/utils/state/SimulationCheckpoint'
+import type { SnapshotIndexEntry } from '@/utils/state/SnapshotRingBuffer'
 
 // Event handler types
 export type TickHandler = (data: {
@@ -23,6 +30,7 @@ export type TickHandler = (data: {
   tickCount: number
   isComplete: boolean
   isStuck: boolean
+  snapshot?: SnapshotIndexEntry
 }) => void
 
 export type CompleteHandler = (data: {
@@ -30,6 +38,9 @@ export type CompleteHandler = (data: {
   finalState: GameState
   stats: SimulationStats
   summary: string
+  snapshot?: SnapshotIndexEntry
+  stallDiagnosis?: StallDiagnosis
+  replayScript?: ScriptStep[]
 }) => void
 
 export type ErrorHandler = (data: {
@@ -40,6 +51,100 @@ export type ErrorHandler = (data: {
 
 export type StatsHandler = (stats: SimulationStats) => void
 
+export type DecisionRequestHandler = (decision: PendingDecision) => void
+
+/**
+ * Plain, postMessage-safe copy of a config - strips Maps and reactive proxies
+ */
+export function serializeConfigForWorker(config: SimulationConfig): SerializedSimulationConfig {
+  let plainConfig = { ...config }
+  
+  // Convert Map to plain object before JSON serialization
+  if (config.parameterOverrides instanceof Map) {
+    plainConfig.parameterOverrides = Object.fromEntries(config.parameterOverrides.entries())
+  }
+  
+  // Now safely convert to plain object
+  plainConfig = JSON.parse(JSON.stringify(plainConfig))
+  const serializedConfig = MapSerializer.serialize(plainConfig)
+  console.log('🔧 SimulationBridge: Configuration serialized:', serializedConfig)
+  return serializedConfig
+}
+
+/**
+ * CSV data from the game data store as plain objects for a worker - loads the CSVs first if needed
+ */
+export async function loadWorkerGameData(): Promise<any> {
+  try {
+    console.log('🔄 SimulationBridge: Accessing game data store...')
+    const { useGameDataStore } = await import('@/stores/gameData')
+    const gameDataStore = useGameDataStore()
+    
+    // Ensure CSV data is loaded before proceeding
+    if (gameDataStore.items.length === 0 && !gameDataStore.isLoading) {
+      console.log('🔄 SimulationBridge: CSV data not loaded, initiating load...')
+      await gameDataStore.loadGameData()
+      await gameDataStore.loadSpecializedData()
+      console.log('✅ SimulationBridge: CSV data loaded with', gameDataStore.items.length, 'items')
+    } else if (gameDataStore.isLoading) {
+      console.log('⏳ SimulationBridge: Waiting for CSV data to finish loading...')
+      // Wait for loading to complete
+      while (gameDataStore.isLoading) {
+        await new Promise(resolve => setTimeout(resolve, 100))
+      }
+      console.log('✅ SimulationBridge: CSV data loading completed with', gameDataStore.items.length, 'items')
+    } else {
+      console.log('✅ SimulationBridge: CSV data already loaded with', gameDataStore.items.length, 'items')
+    }
+    
+    // Specialized files (balance tables, phase transitions) load separately from the unified items
+    const specializedFiles = CSV_FILE_LIST.filter(file => !file.hasUnifiedSchema)
+    if (specializedFiles.every(file => gameDataStore.getSpecializedRowCount(file.filename) === 0)) {
+      await gameDataStore.loadSpecializedData()
+    }
+    
+    // Validate we have data
+    if (gameDataStore.items.length === 0) {
+      throw new Error('No CSV data loaded - simulation cannot proceed without game data')
+    }
+    
+    // Convert reactive objects to plain objects for serialization
+    const plainItems = JSON.parse(JSON.stringify(gameDataStore.items))
+    const plainItemsByGameFeature = JSON.parse(JSON.stringify(gameDataStore.itemsByGameFeature))
+    const plainItemsByCategory = JSON.parse(JSON.stringify(gameDataStore.itemsByCategory))
+    const plainSpecializedData = Object.fromEntries(
+      specializedFiles.map(file => [file.filename, JSON.parse(JSON.stringify(gameDataStore.getSpecializedDataByFile(file.filename)))])
+    )
+    
+    console.log('🔄 SimulationBridge: Serializing CSV data for worker...', {
+      totalItems: plainItems.length,
+      gameFeatures: Object.keys(plainItemsByGameFeature).length,
+      categories: Object.keys(plainItemsByCategory).length
+    })
+    
+    // Serialize the game data methods as data
+    const gameData = {
+      itemsByGameFeature: plainItemsByGameFeature,
+      itemsByCategory: plainItemsByCategory,
+      allItems: plainItems,
+      // Convert methods to data that can be serialized
+      itemsById: Object.fromEntries(
+        plainItems.map(item => [item.id, item])
+      ),
+      specializedData: plainSpecializedData
+    }
+    
+    console.log('✅ SimulationBridge: Game data serialized successfully', {
+      itemsById: Object.keys(gameData.itemsById).length,
+      sampleItems: Object.keys(gameData.itemsById).slice(0, 3)
+    })
+    return gameData
+  } catch (error) {
+    console.error('❌ SimulationBridge: Failed to access game data store:', error)
+    throw new Error(`CSV data loading failed: ${error}`)
+  }
+}
+
 /**
  * Bridge for communication with simulation Web Worker
  */
@@ -53,6 +158,7 @@ export class SimulationBridge {
   private completeHandlers: CompleteHandler[] = []
   private errorHandlers: ErrorHandler[] = []
   private statsHandlers: StatsHandler[] = []
+  private decisionRequestHandlers: DecisionRequestHandler[] = []
   
   constructor() {
     console.log('🌉 SimulationBridge: Initializing...')
@@ -85,81 +191,10 @@ export class SimulationBridge {
       // Wait for worker to be ready
       await this.waitForWorkerReady()
       
-      // Serialize configuration for worker - properly handle Maps
-      let plainConfig = { ...config }
-      
-      // Convert Map to plain object before JSON serialization
-      if (config.parameterOverrides instanceof Map) {
-        plainConfig.parameterOverrides = Object.fromEntries(config.parameterOverrides.entries())
-      }
-      
-      // Now safely convert to plain object
-      plainConfig = JSON.parse(JSON.stringify(plainConfig))
-      const serializedConfig = MapSerializer.serialize(plainConfig)
-      console.log('🔧 SimulationBridge: Configuration serialized:', serializedConfig)
+      // Serialize configuration and CSV data for worker
+      const serializedConfig = serializeConfigForWorker(config)
       console.log('🔧 SimulationBridge: Sending configuration to worker...')
-      
-      // Get game data from store (ensure it's loaded first)
-      let gameData = null
-      try {
-        console.log('🔄 SimulationBridge: Accessing game data store...')
-        // Try to import and use the game data store
-        const { useGameDataStore } = await import('@/stores/gameData')
-        const gameDataStore = useGameDataStore()
-        
-        // Ensure CSV data is loaded before proceeding
-        if (gameDataStore.items.length === 0 && !gameDataStore.isLoading) {
-          console.log('🔄 SimulationBridge: CSV data not loaded, initiating load...')
-          await gameDataStore.loadGameData()
-          await gameDataStore.loadSpecializedData()
-          console.log('✅ SimulationBridge: CSV data loaded with', gameDataStore.items.length, 'items')
-        } else if (gameDataStore.isLoading) {
-          console.log('⏳ SimulationBridge: Waiting for CSV data to finish loading...')
-          // Wait for loading to complete
-          while (gameDataStore.isLoading) {
-            await new Promise(resolve => setTimeout(resolve, 100))
-          }
-          console.log('✅ SimulationBridge: CSV data loading completed with', gameDataStore.items.length, 'items')
-        } else {
-          console.log('✅ SimulationBridge: CSV data already loaded with', gameDataStore.items.length, 'items')
-        }
-        
-        // Validate we have data
-        if (gameDataStore.items.length === 0) {
-          throw new Error('No CSV data loaded - simulation cannot proceed without game data')
-        }
-        
-        // Convert reactive objects to plain objects for serialization
-        const plainItems = JSON.parse(JSON.stringify(gameDataStore.items))
-        const plainItemsByGameFeature = JSON.parse(JSON.stringify(gameDataStore.itemsByGameFeature))
-        const plainItemsByCategory = JSON.parse(JSON.stringify(gameDataStore.itemsByCategory))
-        
-        console.log('🔄 SimulationBridge: Serializing CSV data for worker...', {
-          totalItems: plainItems.length,
-          gameFeatures: Object.keys(plainItemsByGameFeature).length,
-          categories: Object.keys(plainItemsByCategory).length
-        })
-        
-        // Serialize the game data methods as data
-        gameData = {
-          itemsByGameFeature: plainItemsByGameFeature,
-          itemsByCategory: plainItemsByCategory,
-          allItems: plainItems,
-          // Convert methods to data that can be serialized
-          itemsById: Object.fromEntries(
-            plainItems.map(item => [item.id, item])
-          ),
-          specializedData: {} // This would need to be populated if needed
-        }
-        
-        console.log('✅ SimulationBridge: Game data serialized successfully', {
-          itemsById: Object.keys(gameData.itemsById).length,
-          sampleItems: Object.keys(gameData.itemsById).slice(0, 3)
-        })
-      } catch (error) {
-        console.error('❌ SimulationBridge: Failed to access game data store:', error)
-        throw new Error(`CSV data loading failed: ${error}`)
-      }
+      const gameData = await loadWorkerGameData()
       
       // Prepare message for worker
       const message = {
@@ -253,6 +288,36 @@ export class SimulationBridge {
     this.isRunning = false
   }
 
+  /**
+   * Turns manual mode on or off - while on, the run holds at each check-in for decide()
+   */
+  setManualMode(enabled: boolean): void {
+    if (!this.isInitialized) {
+      throw new Error('Bridge not initialized')
+    }
+    
+    console.log(`🕹️ SimulationBridge: Manual mode ${enabled ? 'on' : 'off'}`)
+    
+    this.sendMessage({
+      type: 'setManualMode',
+      data: { enabled }
+    })
+  }
+
+  /**
+   * Answers the pending decision request
+   */
+  decide(choice: DecisionChoice): void {
+    if (!this.isInitialized) {
+      throw new Error('Bridge not initialized')
+    }
+    
+    this.sendMessage({
+      type: 'decide',
+      data: { choice }
+    })
+  }
+
   /**
    * Gets current simulation state
    */
@@ -284,6 +349,105 @@ export class SimulationBridge {
     })
   }
 
+  /**
+   * Captures a resumable checkpoint of the running simulation
+   */
+  async checkpoint(): Promise<SimulationCheckpoint> {
+    if (!this.isInitialized) {
+      throw new Error('Bridge not initialized')
+    }
+    
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error('Checkpoint request timeout'))
+      }, 5000)
+      
+      const handler = (event: MessageEvent<WorkerOutputMessage>) => {
+        if (event.data.type === 'checkpoint') {
+          clearTimeout(timeout)
+          this.worker?.removeEventListener('message', handler)
+          resolve(event.data.data.checkpoint)
+        }
+      }
+      
+      this.worker?.addEventListener('message', handler)
+      this.sendMessage({ type: 'checkpoint' })
+    })
+  }
+
+  /**
+   * Restores a checkpoint into the initialized engine
+   * The engine keeps the config it was initialized with, so initialize with new parameters first to fork
+   */
+  async restore(checkpoint: SimulationCheckpoint): Promise<{
+    gameState: GameState
+    stats: SimulationStats
+    snapshots: SnapshotIndexEntry[]
+  }> {
+    if (!this.isInitialized) {
+      throw new Error('Bridge not initialized')
+    }
+    
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error('Restore request timeout'))
+      }, 5000)
+      
+      const handler = (event: MessageEvent<WorkerOutputMessage>) => {
+        if (event.data.type === 'restored') {
+          clearTimeout(timeout)
+          this.worker?.removeEventListener('message', handler)
+          this.isRunning = false
+          resolve({
+            gameState: this.deserializeGameState(event.data.data.gameState),
+            stats: event.data.data.stats,
+            snapshots: event.data.data.snapshots
+          })
+        } else if (event.data.type === 'error') {
+          clearTimeout(timeout)
+          this.worker?.removeEventListener('message', handler)
+          reject(new Error(`Restore failed: ${event.data.data.message}`))
+        }
+      }
+      
+      this.worker?.addEventListener('message', handler)
+      this.sendMessage({ type: 'restore', data: { checkpoint } })
+    })
+  }
+
+  /**
+   * Fetches the time-travel snapshot taken at or before a point in game time
+   */
+  async getSnapshot(totalMinutes: number): Promise<{ entry: SnapshotIndexEntry; gameState: GameState }> {
+    if (!this.isInitialized) {
+      throw new Error('Bridge not initialized')
+    }
+    
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error('Snapshot request timeout'))
+      }, 5000)
+      
+      const handler = (event: MessageEvent<WorkerOutputMessage>) => {
+        if (event.data.type === 'snapshot') {
+          clearTimeout(timeout)
+          this.worker?.removeEventListener('message', handler)
+          resolve({
+            entry: event.data.data.entry,
+            gameState: this.deserializeGameState(event.data.data.gameState)
+          })
+        } else if (event.data.type === 'error' && !event.data.data.fatal) {
+          clearTimeout(timeout)
+          this.worker?.removeEventListener('message', handler)
+          reject(new Error(event.data.data.message))
+        }
+      }
+      
+      this.worker?.addEventListener('message', handler)
+      this.sendMessage({ type: 'getSnapshot', data: { totalMinutes } })
+    })
+  }
+
   /**
    * Terminates the worker and cleans up
    */
@@ -318,6 +482,10 @@ export class SimulationBridge {
     this.statsHandlers.push(handler)
   }
 
+  onDecisionRequest(handler: DecisionRequestHandler): void {
+    this.decisionRequestHandlers.push(handler)
+  }
+
   /**
    * Remove event handlers
    */
@@ -349,6 +517,13 @@ export class SimulationBridge {
     }
   }
 
+  removeDecisionRequestHandler(handler: DecisionRequestHandler): void {
+    const index = this.decisionRequestHandlers.indexOf(handler)
+    if (index > -1) {
+      this.decisionRequestHandlers.splice(index, 1)
+    }
+  }
+
   /**
    * Gets current status
    */
@@ -392,6 +567,12 @@ export class SimulationBridge {
         // State messages are handled by getState promise
         break
         
+      case 'checkpoint':
+      case 'restored':
+      case 'snapshot':
+        // Handled by the checkpoint/restore/getSnapshot promises
+        break
+        
       case 'complete':
         this.handleCompleteMessage(message.data)
         break
@@ -404,6 +585,10 @@ export class SimulationBridge {
         this.handleStatsMessage(message.data)
         break
         
+      case 'decisionRequest':
+        this.handleDecisionRequestMessage(message.data.decision)
+        break
+        
       default:
         console.warn('🤔 SimulationBridge: Unknown message type:', (message as any).type)
     }
@@ -451,7 +636,8 @@ export class SimulationBridge {
           deltaTime: data.deltaTime || 1,
           tickCount: data.tickCount || 0,
           isComplete: data.isComplete || false,
-          isStuck: data.isStuck || false
+          isStuck: data.isStuck || false,
+          snapshot: data.snapshot
         })
       } catch (error) {
         console.error('❌ SimulationBridge: Tick handler error:', error)
@@ -475,7 +661,10 @@ export class SimulationBridge {
           reason: data.reason,
           finalState,
           stats: data.stats,
-          summary: data.summary
+          summary: data.summary,
+          snapshot: data.snapshot,
+          stallDiagnosis: data.stallDiagnosis,
+          replayScript: data.replayScript
         })
       } catch (error) {
         console.error('❌ SimulationBridge: Complete handler error:', error)
@@ -513,6 +702,19 @@ export class SimulationBridge {
     }
   }
 
+  /**
+   * Handles decision requests from worker - manual mode is holding a check-in
+   */
+  private handleDecisionRequestMessage(decision: PendingDecision): void {
+    for (const handler of this.decisionRequestHandlers) {
+      try {
+        handler(decision)
+      } catch (error) {
+        console.error('❌ SimulationBridge: Decision request handler error:', error)
+      }
+    }
+  }
+
   /**
    * Handles worker errors
    */
@@ -0,0 +1,136 @@
+// SimulationPool tests
+// Dispatch, crash replacement and draining over a stand-in Worker that the test answers by hand
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { SimulationConfig } from '@/types'
+import type { SimulationResult } from '@/types/reports'
+import type { PoolWorkerInputMessage, PoolWorkerOutputMessage } from '@/types/worker-messages'
+import { SimulationPool, type PoolJob } from '@/utils/SimulationPool'
+
+vi.mock('@/utils/SimulationBridge', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/utils/SimulationBridge')>()),
+  loadWorkerGameData: async () => ({ items: [] })
+}))
+
+/**
+ * Records what the pool posts and lets the test reply as the worker would
+ */
+class FakeWorker {
+  static spawned: FakeWorker[] = []
+  messages: PoolWorkerInputMessage[] = []
+  terminated = false
+  private listeners = new Map<string, Array<(event: any) => void>>()
+
+  constructor() {
+    FakeWorker.spawned.push(this)
+  }
+
+  addEventListener(type: string, listener: (event: any) => void): void {
+    this.listeners.set(type, [...(this.listeners.get(type) || []), listener])
+  }
+
+  postMessage(message: PoolWorkerInputMessage): void {
+    this.messages.push(message)
+  }
+
+  terminate(): void {
+    this.terminated = true
+  }
+
+  get currentJobId(): string {
+    return this.messages[this.messages.length - 1].data.jobId
+  }
+
+  complete(): SimulationResult {
+    const result = { id: `result_${this.currentJobId}` } as SimulationResult
+    this.reply({ type: 'jobComplete', data: { jobId: this.currentJobId, result } })
+    return result
+  }
+
+  crash(message: string): void {
+    this.listeners.get('error')?.forEach(listener => listener({ message } as ErrorEvent))
+  }
+
+  reply(data: PoolWorkerOutputMessage): void {
+    this.listeners.get('message')?.forEach(listener => listener({ data } as MessageEvent))
+  }
+}
+
+const config = (name: string) => ({ id: name, quickSetup: { name } }) as SimulationConfig
+
+beforeEach(() => {
+  FakeWorker.spawned = []
+  vi.stubGlobal('Worker', FakeWorker)
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('SimulationPool - Workers', () => {
+  it('spreads jobs over the pool, refills freed workers and returns results in config order', async () => {
+    const pool = new SimulationPool(2)
+    const seen: SimulationResult[] = []
+    const running = pool.runForResults([config('a'), config('b'), config('c')], result => seen.push(result))
+
+    // Two workers for three jobs - the third waits for whichever frees up first
+    await vi.waitFor(() => expect(FakeWorker.spawned).toHaveLength(2))
+    const [first, second] = FakeWorker.spawned
+    expect(first.messages[0]).toMatchObject({ type: 'runJob', data: { jobId: 'job_1', config: { id: 'a' } } })
+    expect(second.messages[0]).toMatchObject({ type: 'runJob', data: { jobId: 'job_2', config: { id: 'b' } } })
+    expect(pool.getJobs().map(job => job.status)).toEqual(['running', 'running', 'queued'])
+
+    const b = second.complete()
+    expect(second.currentJobId).toBe('job_3')
+    const a = first.complete()
+    const c = second.complete()
+
+    expect(await running).toEqual([a, b, c])
+    expect(seen).toEqual([b, a, c])
+    expect(FakeWorker.spawned).toHaveLength(2)
+
+    // Collected jobs are dropped so repeated batches don't accumulate
+    expect(pool.getJobs()).toEqual([])
+  })
+
+  it('replaces a crashed worker, fails its job and carries on with the queue', async () => {
+    const pool = new SimulationPool(1)
+    const updates: PoolJob[] = []
+    pool.onJobUpdate(job => updates.push(job))
+    const running = pool.runForResults([config('a'), config('b')])
+
+    await vi.waitFor(() => expect(FakeWorker.spawned).toHaveLength(1))
+    const [crashed] = FakeWorker.spawned
+    crashed.crash('out of memory')
+
+    expect(crashed.terminated).toBe(true)
+    expect(FakeWorker.spawned).toHaveLength(2)
+    expect(FakeWorker.spawned[1].currentJobId).toBe('job_2')
+    expect(updates.find(job => job.id === 'job_1' && job.status === 'error')?.error).toBe('Worker error: out of memory')
+
+    FakeWorker.spawned[1].complete()
+    await expect(running).rejects.toThrow('Simulation a failed: Worker error: out of memory')
+    expect(pool.getJobs()).toEqual([])
+  })
+
+  it('resolves run() only once every job has finished', async () => {
+    const pool = new SimulationPool(2)
+    pool.enqueue(config('a'), 'a', false)
+    pool.enqueue(config('b'), 'b', false)
+
+    let drained = false
+    const running = pool.run().then(jobs => {
+      drained = true
+      return jobs
+    })
+
+    await vi.waitFor(() => expect(FakeWorker.spawned).toHaveLength(2))
+    FakeWorker.spawned[0].complete()
+    await Promise.resolve()
+    expect(drained).toBe(false)
+
+    FakeWorker.spawned[1].reply({ type: 'jobError', data: { jobId: 'job_2', message: 'bad config' } })
+    const jobs = await running
+    expect(jobs.map(job => [job.label, job.status, job.error])).toEqual([['a', 'complete', null], ['b', 'error', 'bad config']])
+  })
+})
@@ -0,0 +1,287 @@
+// SimulationPool - Parallel simulations across Web Workers
+// Queues SimulationConfigs, runs them headlessly on a pool of workers and files each result as a report
+
+import { serializeConfigForWorker, loadWorkerGameData } from '@/utils/SimulationBridge'
+import { useReportsStore } from '@/stores/reports'
+import type { SimulationConfig } from '@/types'
+import type { PoolWorkerInputMessage, PoolWorkerOutputMessage } from '@/types/worker-messages'
+import type { HeadlessRunProgress } from '@/utils/headless/HeadlessRunner'
+import type { SimulationResult } from '@/types/reports'
+
+export type PoolJobStatus = 'queued' | 'running' | 'complete' | 'error'
+
+/**
+ * One queued simulation and where it has got to
+ */
+export interface PoolJob {
+  id: string
+  label: string
+  config: SimulationConfig
+  status: PoolJobStatus
+  progress: HeadlessRunProgress | null
+  fileReport: boolean       // False = keep the raw result on the job instead of filing a report
+  reportId: string | null   // Analysis report generated from the result
+  result: SimulationResult | null
+  error: string | null
+}
+
+export type JobUpdateHandler = (job: PoolJob) => void
+
+/**
+ * Runs many simulations side by side, one per worker
+ */
+export class SimulationPool {
+  private readonly size: number
+  private workers: Worker[] = []
+  private idleWorkers: Worker[] = []
+  private running: Map<Worker, PoolJob> = new Map()
+  private queue: PoolJob[] = []
+  private jobs: Map<string, PoolJob> = new Map()
+  private pendingReports: Set<Promise<void>> = new Set()
+  private updateHandlers: JobUpdateHandler[] = []
+  private drainWaiters: Array<() => void> = []
+  private gameData: any = null
+  private nextJobId = 1
+
+  constructor(size: number = navigator.hardwareConcurrency || 4) {
+    this.size = Math.max(1, size)
+  }
+
+  /**
+   * Queue a config - it starts once run() is called and a worker is free
+   */
+  enqueue(config: SimulationConfig, label: string = config.quickSetup.name, fileReport: boolean = true): PoolJob {
+    const job: PoolJob = {
+      id: `job_${this.nextJobId++}`,
+      label,
+      config,
+      status: 'queued',
+      progress: null,
+      fileReport,
+      reportId: null,
+      result: null,
+      error: null
+    }
+    this.jobs.set(job.id, job)
+    this.queue.push(job)
+    this.notify(job)
+
+    if (this.gameData) {
+      this.dispatch()
+    }
+    return job
+  }
+
+  /**
+   * Run every queued job - resolves once all have finished and their reports are filed
+   */
+  async run(): Promise<PoolJob[]> {
+    if (!this.gameData) {
+      this.gameData = await loadWorkerGameData()
+    }
+
+    const drained = new Promise<void>(resolve => this.drainWaiters.push(resolve))
+    this.dispatch()
+    this.checkDrained()
+    await drained
+
+    return this.getJobs()
+  }
+
+  /**
+   * Run configs on the workers and resolve with their results in config order - nothing is filed as a report
+   * Batches and sweeps aggregate the results themselves; one failed run fails the lot
+   */
+  async runForResults(configs: SimulationConfig[], onResult?: (result: SimulationResult) => void): Promise<SimulationResult[]> {
+    const jobIds = configs.map(config => this.enqueue(config, config.quickSetup.name, false).id)
+    const handler: JobUpdateHandler = job => {
+      if (job.status === 'complete' && job.result && jobIds.includes(job.id)) {
+        onResult?.(job.result)
+      }
+    }
+    this.onJobUpdate(handler)
+
+    try {
+      await this.run()
+    } finally {
+      this.removeJobUpdateHandler(handler)
+    }
+
+    // The caller owns the results now - forget the jobs so long sweeps don't pile them up
+    const jobs = jobIds.map(id => this.jobs.get(id)!)
+    jobIds.forEach(id => this.jobs.delete(id))
+
+    return jobs.map(job => {
+      if (!job.result) {
+        throw new Error(`Simulation ${job.label} failed: ${job.error ?? 'no result'}`)
+      }
+      return job.result
+    })
+  }
+
+  getJobs(): PoolJob[] {
+    return Array.from(this.jobs.values()).map(job => ({ ...job }))
+  }
+
+  onJobUpdate(handler: JobUpdateHandler): void {
+    this.updateHandlers.push(handler)
+  }
+
+  removeJobUpdateHandler(handler: JobUpdateHandler): void {
+    const index = this.updateHandlers.indexOf(handler)
+    if (index > -1) {
+      this.updateHandlers.splice(index, 1)
+    }
+  }
+
+  /**
+   * Stop all workers - running jobs are marked as errors
+   */
+  terminate(): void {
+    for (const [worker, job] of this.running) {
+      this.failJob(job, 'Pool terminated')
+      worker.terminate()
+    }
+    this.workers.forEach(worker => worker.terminate())
+    this.workers = []
+    this.idleWorkers = []
+    this.running.clear()
+    this.queue = []
+    this.checkDrained()
+  }
+
+  // Private methods
+
+  /**
+   * Hand queued jobs to idle workers, spawning workers up to the pool size
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const worker = this.idleWorkers.pop() ?? this.spawnWorker()
+      if (!worker) return
+
+      const job = this.queue.shift()!
+      job.status = 'running'
+      this.running.set(worker, job)
+      this.notify(job)
+
+      const message: PoolWorkerInputMessage = {
+        type: 'runJob',
+        data: {
+          jobId: job.id,
+          config: serializeConfigForWorker(job.config),
+          gameData: this.gameData
+        }
+      }
+      worker.postMessage(message)
+    }
+  }
+
+  private spawnWorker(): Worker | null {
+    if (this.workers.length >= this.size) {
+      return null
+    }
+
+    const worker = new Worker(
+      new URL('../workers/pool.worker.ts', import.meta.url),
+      { type: 'module' }
+    )
+    worker.addEventListener('message', event => this.handleWorkerMessage(worker, event))
+    worker.addEventListener('error', event => this.handleWorkerError(worker, event))
+    this.workers.push(worker)
+    return worker
+  }
+
+  private handleWorkerMessage(worker: Worker, event: MessageEvent<PoolWorkerOutputMessage>): void {
+    const message = event.data
+    const job = this.jobs.get(message.data.jobId)
+    if (!job) return
+
+    switch (message.type) {
+      case 'jobProgress':
+        job.progress = message.data.progress
+        this.notify(job)
+        break
+
+      case 'jobComplete': {
+        this.releaseWorker(worker)
+        if (!job.fileReport) {
+          job.result = message.data.result
+          job.status = 'complete'
+          this.notify(job)
+          this.checkDrained()
+          break
+        }
+        const filing = this.fileReport(job, message.data.result)
+        this.pendingReports.add(filing)
+        filing.finally(() => {
+          this.pendingReports.delete(filing)
+          this.checkDrained()
+        })
+        break
+      }
+
+      case 'jobError':
+        this.releaseWorker(worker)
+        this.failJob(job, message.data.message)
+        this.checkDrained()
+        break
+    }
+  }
+
+  /**
+   * A worker that crashes is replaced - its job fails, the rest of the queue carries on
+   */
+  private handleWorkerError(worker: Worker, event: ErrorEvent): void {
+    console.error('❌ SimulationPool: Worker error:', event)
+    const job = this.running.get(worker)
+    this.running.delete(worker)
+    this.workers = this.workers.filter(other => other !== worker)
+    worker.terminate()
+
+    if (job) {
+      this.failJob(job, `Worker error: ${event.message}`)
+    }
+    this.dispatch()
+    this.checkDrained()
+  }
+
+  private releaseWorker(worker: Worker): void {
+    this.running.delete(worker)
+    this.idleWorkers.push(worker)
+    this.dispatch()
+  }
+
+  private async fileReport(job: PoolJob, result: SimulationResult): Promise<void> {
+    const reportsStore = useReportsStore()
+    job.reportId = await reportsStore.addSimulationResult(result)
+    job.status = job.reportId ? 'complete' : 'error'
+    job.error = job.reportId ? null : reportsStore.generationError
+    this.notify(job)
+  }
+
+  private failJob(job: PoolJob, error: string): void {
+    job.status = 'error'
+    job.error = error
+    this.notify(job)
+  }
+
+  private checkDrained(): void {
+    if (this.queue.length > 0 || this.running.size > 0 || this.pendingReports.size > 0) {
+      return
+    }
+    const waiters = this.drainWaiters
+    this.drainWaiters = []
+    waiters.forEach(resolve => resolve())
+  }
+
+  private notify(job: PoolJob): void {
+    for (const handler of this.updateHandlers) {
+      try {
+        handler({ ...job })
+      } catch (error) {
+        console.error('❌ SimulationPool: Job update handler error:', error)
+      }
+    }
+  }
+}
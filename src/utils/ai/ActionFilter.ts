@@ -1,7 +1,7 @@
 // ActionFilter - Action Validation and Filtering System
 // Phase 9D Implementation
 
-import type { GameState, GameAction } from '../../types'
+import type { GameState, GameAction, ActionRejection } from '../../types'
 import type { IActionFilter } from './types/DecisionTypes'
 
 /**
@@ -27,19 +27,94 @@ export class ActionFilter implements IActionFilter {
   isActionValid(action: GameAction, gameState: GameState, gameDataStore: any): boolean {
     console.log(`🔍 PREREQ CHECK: ${action.type} action (energy: ${gameState.resources.energy.current}/${action.energyCost || 0}, gold: ${gameState.resources.gold}/${action.goldCost || 0})`)
     
-    // Basic resource requirements
-    if (!this.checkResourceRequirements(action, gameState)) {
+    const rejection = this.findRejection(action, gameState, gameDataStore)
+    if (rejection) {
+      console.log(`❌ PREREQ FAILED: ${action.type} - ${rejection.detail}`)
       return false
     }
     
-    // CSV-based prerequisites
-    if (!this.checkPrerequisites(action, gameState, gameDataStore)) {
-      return false
+    console.log(`✅ PREREQ PASSED: ${action.type}`)
+    return true
+  }
+
+  /**
+   * Why isActionValid turned an action down - both come from findRejection, so the reason always matches the verdict
+   */
+  explainRejection(action: GameAction, gameState: GameState, gameDataStore: any): Omit<ActionRejection, 'totalMinutes'> {
+    // Actions that threw while filtering pass every check here
+    return this.findRejection(action, gameState, gameDataStore)
+      ?? { ...this.rejectionBase(action), reason: 'requirements', detail: `${action.type} could not be checked on ${gameState.location.currentScreen}` }
+  }
+
+  checkResourceRequirements(action: GameAction, gameState: GameState): boolean {
+    return this.findResourceShortfall(action, gameState) === null
+  }
+
+  checkPrerequisites(action: GameAction, gameState: GameState, gameDataStore: any): boolean {
+    return this.findMissingPrerequisites(action, gameState, gameDataStore).length === 0
+  }
+
+  /**
+   * First check the action fails - resources, then CSV prerequisites, then action-specific requirements - or null
+   */
+  private findRejection(action: GameAction, gameState: GameState, gameDataStore: any): Omit<ActionRejection, 'totalMinutes'> | null {
+    const base = this.rejectionBase(action)
+
+    const shortfall = this.findResourceShortfall(action, gameState)
+    if (shortfall) {
+      return {
+        ...base,
+        reason: 'resources',
+        resource: shortfall.resource,
+        needed: shortfall.needed,
+        detail: `Needs ${shortfall.needed} ${shortfall.resource}, has ${Math.floor(shortfall.available)}`
+      }
     }
-    
-    console.log(`✅ BASIC PREREQS PASSED: ${action.type} - proceeding to action-specific checks`)
-    
-    // Action-specific validation
+
+    const missing = this.findMissingPrerequisites(action, gameState, gameDataStore)
+    if (missing.length > 0) {
+      return { ...base, reason: 'prerequisites', missingPrerequisites: missing, detail: `Missing ${missing.join(', ')}` }
+    }
+
+    if (!this.meetsActionRequirements(action, gameState, gameDataStore)) {
+      return { ...base, reason: 'requirements', detail: `${action.type} requirements not met on ${gameState.location.currentScreen}` }
+    }
+
+    return null
+  }
+
+  private rejectionBase(action: GameAction): Pick<ActionRejection, 'actionType' | 'target'> {
+    // Generated ids end in a timestamp - drop it so repeated proposals group together
+    return { actionType: action.type, target: action.target || action.id.replace(/_\d+$/, '') }
+  }
+
+  private findResourceShortfall(action: GameAction, gameState: GameState): { resource: string; needed: number; available: number } | null {
+    const resources = gameState.resources
+
+    if (action.energyCost && action.energyCost > resources.energy.current) {
+      return { resource: 'energy', needed: action.energyCost, available: resources.energy.current }
+    }
+    if (action.goldCost && action.goldCost > resources.gold) {
+      return { resource: 'gold', needed: action.goldCost, available: resources.gold }
+    }
+    for (const [material, amount] of Object.entries(action.materialCosts || {})) {
+      const available = resources.materials.get(material.toLowerCase()) || 0
+      if (available < amount) {
+        return { resource: material.toLowerCase(), needed: amount, available }
+      }
+    }
+
+    return null
+  }
+
+  private findMissingPrerequisites(action: GameAction, gameState: GameState, gameDataStore: any): string[] {
+    return (action.prerequisites || []).filter(prereqId => !this.hasPrerequisite(prereqId, gameState, gameDataStore))
+  }
+
+  /**
+   * Action-specific checks - screen access, routes, recipes, tower reach
+   */
+  private meetsActionRequirements(action: GameAction, gameState: GameState, gameDataStore: any): boolean {
     switch (action.type) {
       case 'adventure':
         return this.checkAdventurePrerequisites(action, gameState, gameDataStore)
@@ -47,61 +122,17 @@ export class ActionFilter implements IActionFilter {
         return this.checkCraftingPrerequisites(action, gameState, gameDataStore)
       case 'catch_seeds':
         return this.checkTowerPrerequisites(action, gameState, gameDataStore)
-      case 'move':
-        const moveTarget = action.toScreen || action.target  
-        if (!moveTarget) {
-          console.log(`❌ MOVE PREREQ FAILED: No target screen specified`)
-          return false
-        }
-        return this.checkScreenAccessPrerequisites(moveTarget, gameState, gameDataStore)
+      case 'move': {
+        const moveTarget = action.toScreen || action.target
+        return !!moveTarget && this.checkScreenAccessPrerequisites(moveTarget, gameState, gameDataStore)
+      }
       case 'rescue':
         return this.checkHelperRescuePrerequisites(action, gameState, gameDataStore)
       default:
-        console.log(`✅ PREREQ PASSED: ${action.type} (no specific requirements)`)
         return true
     }
   }
 
-  checkResourceRequirements(action: GameAction, gameState: GameState): boolean {
-    // Energy requirements
-    if (action.energyCost && action.energyCost > gameState.resources.energy.current) {
-      console.log(`❌ PREREQ FAILED: Insufficient energy (${gameState.resources.energy.current} < ${action.energyCost})`)
-      return false
-    }
-    
-    // Gold requirements
-    if (action.goldCost && action.goldCost > gameState.resources.gold) {
-      console.log(`❌ PREREQ FAILED: Insufficient gold (${gameState.resources.gold} < ${action.goldCost})`)
-      return false
-    }
-    
-    // Material requirements
-    if (action.materialCosts) {
-      for (const [material, amount] of Object.entries(action.materialCosts)) {
-        const available = gameState.resources.materials.get(material.toLowerCase()) || 0
-        if (available < amount) {
-          console.log(`❌ PREREQ FAILED: Insufficient ${material} (${available} < ${amount})`)
-          return false
-        }
-      }
-    }
-    
-    return true
-  }
-
-  checkPrerequisites(action: GameAction, gameState: GameState, gameDataStore: any): boolean {
-    if (action.prerequisites && action.prerequisites.length > 0) {
-      for (const prereqId of action.prerequisites) {
-        if (!this.hasPrerequisite(prereqId, gameState, gameDataStore)) {
-          console.log(`❌ PREREQ FAILED: Missing prerequisite ${prereqId}`)
-          return false
-        }
-      }
-    }
-    
-    return true
-  }
-
   private hasPrerequisite(prereqId: string, gameState: GameState, gameDataStore: any): boolean {
     // Check unlocked upgrades
     if (gameState.progression.unlockedUpgrades.includes(prereqId)) {
@@ -1,14 +1,38 @@
 // ActionScorer - AI Action Scoring System
 // Phase 9D Implementation
 
-import type { GameState, GameAction, AllParameters } from '../../types'
+import type { GameState, GameAction, AllParameters, ActionValueTable } from '../../types'
 import type { IActionScorer, IPersonaStrategy, ScoredAction, ScoreFactor } from './types/DecisionTypes'
 import { SeedSystem } from '../systems/support/SeedSystem'
+import type { GoalPlanner } from './GoalPlanner'
+import { ActionValueModel } from './ActionValueModel'
 
 /**
  * Action scoring system with persona-based adjustments
  */
 export class ActionScorer implements IActionScorer {
+  /**
+   * Future-value points per unit of reward - ActionValueModel prices measured gains the same way
+   */
+  static readonly REWARD_WEIGHTS = { gold: 0.1, energy: 0.5, experience: 0.2, plots: 15 }
+
+  private goalPlanner: GoalPlanner | null = null
+  private valueTable: ActionValueTable | null = null
+
+  /**
+   * Boost actions on the planner's path to its goal - null turns goal planning off
+   */
+  setGoalPlanner(goalPlanner: GoalPlanner | null): void {
+    this.goalPlanner = goalPlanner
+  }
+
+  /**
+   * Score future value from what past runs measured - null goes back to the hand-tuned values
+   */
+  setValueTable(valueTable: ActionValueTable | null): void {
+    this.valueTable = valueTable
+  }
+
   scoreAction(action: GameAction, gameState: GameState, persona: IPersonaStrategy): ScoredAction {
     const baseScore = this.calculateBaseScore(action, gameState)
     const urgencyMultiplier = this.calculateUrgencyMultiplier(action, gameState)
@@ -26,6 +50,14 @@ export class ActionScorer implements IActionScorer {
       { name: 'Persona', value: totalScore / (baseScore * urgencyMultiplier + futureValue), reason: 'Persona-based adjustments' }
     ]
     
+    // Long-term goal - favour the next steps on the path
+    const goal = this.goalPlanner?.getPlan()
+    if (goal) {
+      const goalBoost = this.goalPlanner!.getBoost(action)
+      totalScore *= goalBoost
+      factors.push({ name: 'Goal', value: goalBoost, reason: `Working towards ${goal.goalId}` })
+    }
+    
     const reasoning = `${action.type} action scored ${Math.round(totalScore)} (base: ${Math.round(baseScore)}, urgency: ${urgencyMultiplier.toFixed(2)}x, future: ${Math.round(futureValue)})`
     
     return {
@@ -134,6 +166,17 @@ export class ActionScorer implements IActionScorer {
         score = action.score || 900 // Use pre-set score or default to 900
         break
         
+      case 'buy_shortcut':
+        // MineSystem scores shortcuts from the descent energy they save
+        score = action.score || 40
+        break
+        
+      case 'assign_role':
+      case 'train_helper':
+        // HelperSystem scores these from the bottleneck the gnome would work on
+        score = action.score || 50
+        break
+        
       case 'purchase':
         // Purchase scoring based on gold availability and item importance
         score = 50
@@ -303,15 +346,22 @@ export class ActionScorer implements IActionScorer {
   }
 
   calculateFutureValue(action: GameAction, gameState: GameState): number {
+    // Measured in past runs - only for actions played often enough
+    const learned = this.valueTable ? ActionValueModel.lookup(this.valueTable, action) : null
+    if (learned) {
+      return learned.value
+    }
+    
     let futureValue = 0
+    const weights = ActionScorer.REWARD_WEIGHTS
     
     // Expected rewards contribute to future value
     const rewards = action.expectedRewards
     if (rewards) {
-      futureValue += (rewards.gold || 0) * 0.1
-      futureValue += (rewards.energy || 0) * 0.5
-      futureValue += (rewards.experience || 0) * 0.2
-      futureValue += (rewards.plots || 0) * 15 // Plots are very valuable
+      futureValue += (rewards.gold || 0) * weights.gold
+      futureValue += (rewards.energy || 0) * weights.energy
+      futureValue += (rewards.experience || 0) * weights.experience
+      futureValue += (rewards.plots || 0) * weights.plots // Plots are very valuable
     }
     
     // Long-term progression value
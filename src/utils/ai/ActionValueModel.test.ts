@@ -0,0 +1,45 @@
+// ActionValueModel tests
+// Action values learned from stored runs in place of the hand-tuned future value
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import type { GameAction } from '@/types'
+import { ActionValueModel } from '@/utils/ai/ActionValueModel'
+import { ActionScorer } from '@/utils/ai/ActionScorer'
+import { BalanceTables } from '@/utils/systems/support/BalanceTables'
+import { gameData, createTestGameState } from '@/tests/fixtures'
+
+beforeAll(() => BalanceTables.load(gameData))
+
+describe('ActionValueModel - Empirical Action Values', () => {
+  it('learns the gains within a day of each action and stands in for the hand-tuned future value', () => {
+    const stateAt = (totalMinutes: number, gold: number, farmPlots: number) => {
+      const state = createTestGameState()
+      state.time.totalMinutes = totalMinutes
+      state.resources.gold = gold
+      state.progression.farmPlots = farmPlots
+      return state
+    }
+    const action = (type: GameAction['type'], target: string): GameAction =>
+      ({ id: `${type}_${target}`, type, target, screen: 'town', duration: 1, energyCost: 0, goldCost: 0, prerequisites: [], expectedRewards: {} })
+
+    // Hoes bought at 06:00 each day pay off 60 gold and a plot by the next morning - the last one has no full day left
+    const result: any = {
+      actionHistory: [action('purchase', 'blueprint_hoe'), action('purchase', 'blueprint_hoe'), action('purchase', 'blueprint_hoe'), action('purchase', 'blueprint_hoe')],
+      actionTimeline: [0, 1440, 2880, 4000].map(totalMinutes => ({ totalMinutes, gold: 100, farmPlots: 3 })),
+      gameStateHistory: [stateAt(1440, 160, 4), stateAt(2880, 160, 4), stateAt(4320, 160, 4)]
+    }
+
+    const table = ActionValueModel.learn([result])
+    expect(table['purchase:blueprint_hoe']).toEqual({ samples: 3, gold: 60, plots: 1, value: 21 })
+    expect(table.purchase.samples).toBe(3)
+    expect(ActionValueModel.lookup(table, { type: 'purchase', target: 'blueprint_axe' })).toBe(table.purchase)
+    expect(ActionValueModel.lookup(table, { type: 'craft', target: 'hoe' })).toBeNull()
+
+    const scorer = new ActionScorer()
+    expect(scorer.calculateFutureValue(action('purchase', 'blueprint_hoe'), createTestGameState())).toBe(30)
+    scorer.setValueTable(table)
+    expect(scorer.calculateFutureValue(action('purchase', 'blueprint_hoe'), createTestGameState())).toBe(21)
+
+    expect(ActionValueModel.compare([result], table)[0]).toMatchObject({ key: 'purchase:blueprint_hoe', handTuned: 30, empirical: 21 })
+  })
+})
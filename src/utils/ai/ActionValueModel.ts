@@ -0,0 +1,143 @@
+// ActionValueModel - Empirical action values from past runs
+// Measures the gold and plots each action type and target really led to within a window of game time, as an optional scoring table for ActionScorer
+
+import { ActionScorer } from './ActionScorer'
+import type { GameAction, GameState, ActionValueEstimate, ActionValueTable } from '../../types'
+import type { SimulationResult, ActionValueComparison } from '@/types/reports'
+
+/**
+ * Gold and plots at one point in a run
+ */
+interface TimelinePoint {
+  totalMinutes: number
+  gold: number
+  farmPlots: number
+}
+
+/**
+ * Learns and looks up ActionValueTables - pure functions of the stored results
+ */
+export class ActionValueModel {
+  static readonly WINDOW_MINUTES = 24 * 60
+  static readonly MIN_SAMPLES = 3   // Fewer and the hand-tuned value stands
+
+  /**
+   * Mean gains within the window after each action - actions too close to the end of their run are left out
+   */
+  static learn(results: SimulationResult[], windowMinutes: number = ActionValueModel.WINDOW_MINUTES): ActionValueTable {
+    const totals = new Map<string, { samples: number; gold: number; plots: number }>()
+
+    for (const result of results) {
+      const timeline = result.actionTimeline
+      if (!timeline || timeline.length !== result.actionHistory.length) continue
+
+      const points = ActionValueModel.pointsOf(result)
+      const runEnd = points[points.length - 1]?.totalMinutes ?? 0
+
+      timeline.forEach((entry, index) => {
+        if (entry.totalMinutes + windowMinutes > runEnd) return
+
+        const later = ActionValueModel.pointAt(points, entry.totalMinutes + windowMinutes)
+        const gold = later.gold - entry.gold
+        const plots = later.farmPlots - entry.farmPlots
+        for (const key of ActionValueModel.keysOf(result.actionHistory[index])) {
+          const total = totals.get(key) ?? { samples: 0, gold: 0, plots: 0 }
+          total.samples++
+          total.gold += gold
+          total.plots += plots
+          totals.set(key, total)
+        }
+      })
+    }
+
+    const table: ActionValueTable = {}
+    for (const [key, total] of totals) {
+      const gold = total.gold / total.samples
+      const plots = total.plots / total.samples
+      table[key] = { samples: total.samples, gold, plots, value: ActionValueModel.valueOf(gold, plots) }
+    }
+    return table
+  }
+
+  /**
+   * Estimate for an action - its target if played often enough, otherwise every target of its type
+   */
+  static lookup(table: ActionValueTable, action: Pick<GameAction, 'type' | 'target'>): ActionValueEstimate | null {
+    for (const key of ActionValueModel.keysOf(action)) {
+      const estimate = table[key]
+      if (estimate && estimate.samples >= ActionValueModel.MIN_SAMPLES) {
+        return estimate
+      }
+    }
+    return null
+  }
+
+  /**
+   * Hand-tuned against measured future value for every key with enough samples, biggest disagreement first
+   */
+  static compare(results: SimulationResult[], table: ActionValueTable = ActionValueModel.learn(results)): ActionValueComparison[] {
+    const scorer = new ActionScorer()
+    const handTuned = new Map<string, { total: number; count: number }>()
+
+    for (const result of results) {
+      const gameState = result.gameStateHistory[result.gameStateHistory.length - 1] as GameState | undefined
+      if (!gameState) continue
+
+      for (const action of result.actionHistory) {
+        const value = scorer.calculateFutureValue(action, gameState)
+        for (const key of ActionValueModel.keysOf(action)) {
+          const entry = handTuned.get(key) ?? { total: 0, count: 0 }
+          entry.total += value
+          entry.count++
+          handTuned.set(key, entry)
+        }
+      }
+    }
+
+    return Object.entries(table)
+      .filter(([, estimate]) => estimate.samples >= ActionValueModel.MIN_SAMPLES)
+      .map(([key, estimate]) => {
+        const entry = handTuned.get(key)
+        return {
+          key,
+          samples: estimate.samples,
+          handTuned: entry ? entry.total / entry.count : 0,
+          empirical: estimate.value,
+          gold: estimate.gold,
+          plots: estimate.plots
+        }
+      })
+      .sort((a, b) => Math.abs(b.empirical - b.handTuned) - Math.abs(a.empirical - a.handTuned))
+  }
+
+  /**
+   * Measured gains in ActionScorer's future-value points
+   */
+  static valueOf(gold: number, plots: number): number {
+    return gold * ActionScorer.REWARD_WEIGHTS.gold + plots * ActionScorer.REWARD_WEIGHTS.plots
+  }
+
+  private static keysOf(action: Pick<GameAction, 'type' | 'target'>): string[] {
+    return action.target ? [`${action.type}:${action.target}`, action.type] : [action.type]
+  }
+
+  // Action samples and state snapshots together, in time order
+  private static pointsOf(result: SimulationResult): TimelinePoint[] {
+    const snapshots = result.gameStateHistory.map(state => ({
+      totalMinutes: state.time.totalMinutes,
+      gold: state.resources.gold,
+      farmPlots: state.progression.farmPlots
+    }))
+    return [...(result.actionTimeline ?? []), ...snapshots].sort((a, b) => a.totalMinutes - b.totalMinutes)
+  }
+
+  // Latest point at or before a time
+  private static pointAt(points: TimelinePoint[], totalMinutes: number): TimelinePoint {
+    let found = points[0]
+    for (const point of points) {
+      if (point.totalMinutes > totalMinutes) break
+      found = point
+    }
+    return found
+  }
+}
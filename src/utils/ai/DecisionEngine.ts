@@ -1,19 +1,27 @@
 // DecisionEngine - AI Decision-Making Orchestrator
 // Phase 9D Implementation
 
-import type { GameState, GameAction, AllParameters, SimplePersona } from '../../types'
+import type { GameState, GameAction, GameScreen, AllParameters, SimplePersona, ActionRejection, DecisionTrace, ActionValueTable } from '../../types'
 import type { 
   IDecisionEngine, 
+  IPersonaStrategy,
   DecisionResult, 
   UrgencyLevel, 
   DecisionReasoning,
+  ScoredAction,
   SystemRegistry 
 } from './types/DecisionTypes'
 
 import { PersonaStrategyFactory } from './PersonaStrategy'
+import { LearningModel, type LearningState } from './LearningModel'
+import { GoalPlanner, type GoalPlan } from './GoalPlanner'
+import { DecisionTraceRecorder } from './DecisionTraceRecorder'
 import { ActionScorer } from './ActionScorer'
 import { ActionFilter } from './ActionFilter'
+import { SessionPlanner } from './SessionPlanner'
 import { SeedSystem } from '../systems/support/SeedSystem'
+import { SeededRandom } from '../random'
+import type { LearningCurvePoint } from '@/types/reports'
 
 // Import existing systems
 import { TowerSystem } from '../systems/core/TowerSystem'
@@ -21,23 +29,70 @@ import { TownSystem } from '../systems/core/TownSystem'
 import { AdventureSystem } from '../systems/core/AdventureSystem'
 import { ForgeSystem } from '../systems/core/ForgeSystem'
 import { HelperSystem } from '../systems/core/HelperSystem'
+import { MineSystem } from '../systems/core/MineSystem'
 
 /**
  * Core decision engine that orchestrates AI decision-making
  */
 export class DecisionEngine implements IDecisionEngine {
-  private actionScorer: ActionScorer
+  protected actionScorer: ActionScorer
   private actionFilter: ActionFilter
+  protected persona: SimplePersona
+  protected personaStrategy: IPersonaStrategy
+  private learningModel: LearningModel
+  private goalPlanner: GoalPlanner | null
+  protected readonly rng: SeededRandom
   private lastCheckinTime: number = 0
+  private rejections: ActionRejection[] = []   // Recent filter rejections, for stall diagnosis
+  private lastRejected: Array<{ action: GameAction; rejection: Omit<ActionRejection, 'totalMinutes'> }> = []
+  private readonly traceRecorder = new DecisionTraceRecorder()
+  private session: Array<{ at: number; action: GameAction }> = []   // Planned steps still to play, due at their time
 
-  constructor() {
+  private static readonly MAX_REJECTIONS = 500
+  private static readonly SESSION_SCREENS: GameScreen[] = ['farm', 'tower', 'town', 'adventure', 'forge', 'mine']
+
+  /**
+   * Used when the config carries no compiled persona
+   */
+  private static readonly DEFAULT_PERSONA: SimplePersona = {
+    id: 'casual',
+    name: 'Casual Casey',
+    description: 'Default casual player',
+    icon: 'fa-user',
+    color: '#10b981',
+    efficiency: 0.7,
+    riskTolerance: 0.3,
+    optimization: 0.6,
+    learningRate: 0.4,
+    weekdayCheckIns: 2,
+    weekendCheckIns: 2,
+    avgSessionLength: 15,
+    isPreset: true
+  }
+
+  /**
+   * @param goalTarget Node to plan towards ('auto' = cheapest open milestone) - omitted = no goal planning
+   * @param actionValues Future values learned from past runs - omitted = hand-tuned
+   */
+  constructor(persona?: SimplePersona, rng: SeededRandom = new SeededRandom(), goalTarget?: string, actionValues?: ActionValueTable) {
     this.actionScorer = new ActionScorer()
     this.actionFilter = new ActionFilter()
+    this.persona = persona ?? DecisionEngine.DEFAULT_PERSONA
+    this.personaStrategy = PersonaStrategyFactory.create(this.persona)
+    this.rng = rng
+    this.learningModel = new LearningModel(this.persona.learningRate, rng)
+    this.goalPlanner = goalTarget ? new GoalPlanner(goalTarget) : null
+    this.actionScorer.setGoalPlanner(this.goalPlanner)
+    this.actionScorer.setValueTable(actionValues ?? null)
   }
 
   getNextActions(gameState: GameState, parameters: AllParameters, gameDataStore: any): DecisionResult {
-    const persona = this.extractPersonaFromParameters(parameters)
-    const personaStrategy = PersonaStrategyFactory.create(persona)
+    const personaStrategy = this.personaStrategy
+
+    // A planned session plays out before the persona thinks about checking in again
+    if (this.session.length > 0) {
+      return this.playSessionStep(gameState, gameDataStore)
+    }
     
     // Check if hero should act now
     const shouldAct = this.shouldHeroActNow(gameState, this.lastCheckinTime)
@@ -56,48 +111,30 @@ export class DecisionEngine implements IDecisionEngine {
     // Update last checkin time
     this.lastCheckinTime = gameState.time.totalMinutes
 
-    console.log(`🎯 DECISION ENGINE: Starting evaluation for ${persona.name} persona`)
+    console.log(`🎯 DECISION ENGINE: Starting evaluation for ${this.persona.name} persona`)
     console.log(`🎯 DECISION ENGINE: Current location in gameState: ${gameState.location.currentScreen}`)
 
-    // 1. Evaluate emergency actions first
-    const emergencyActions = this.evaluateEmergencyActions(gameState, parameters, gameDataStore)
-    
-    // 2. Evaluate screen-specific actions
-    const screenActions = this.evaluateScreenActions(gameState, parameters, gameDataStore)
-    
-    // 3. Evaluate helper actions
-    const helperActions = this.evaluateHelperActions(gameState, parameters, gameDataStore)
-    
-    // 4. Evaluate navigation actions (only if no emergency navigation exists)
-    const hasEmergencyNav = emergencyActions.some(action => action.type === 'move')
-    const navigationActions = hasEmergencyNav ? [] : this.evaluateNavigationActions(gameState, parameters, gameDataStore)
-    
-    // Combine all actions
-    const allActions = [
-      ...emergencyActions,
-      ...screenActions,
-      ...helperActions,
-      ...navigationActions
-    ]
-
-    console.log(`🔍 DECISION ENGINE: ${allActions.length} total actions before filtering:`)
-    for (const action of allActions) {
-      console.log(`   - ${action.type} (${action.target || action.id}) at ${action.screen || 'no screen'}`)
-    }
+    // Re-plan towards the long-term goal - picks the next one when it has been reached
+    this.goalPlanner?.update(gameState, gameDataStore)
 
-    // 5. Filter valid actions
-    const validActions = this.actionFilter.filterValidActions(allActions, gameState, gameDataStore)
+    const validActions = this.generateCandidates(gameState, parameters, gameDataStore)
     
-    // 6. Score and prioritize actions
+    // 2. Score and prioritize actions
+    // A player still learning the game misjudges scores and overlooks upgrades
     const scoredActions = validActions.map(action => 
-      this.actionScorer.scoreAction(action, gameState, personaStrategy)
+      this.learningModel.adjust(this.actionScorer.scoreAction(action, gameState, personaStrategy))
     )
     
     // Sort by score and select top actions
     scoredActions.sort((a, b) => b.score - a.score)
     
-    // Return top 3 actions (don't overwhelm the system)
-    const topActions = scoredActions.slice(0, 3)
+    // Session budget: plan the whole visit and play its first step now - otherwise the top 3 actions
+    const budgeted = parameters.decisions?.sessions?.timeBudget === true
+    const planned = budgeted ? this.planSession(gameState, parameters, gameDataStore, scoredActions) : []
+    const topActions = budgeted
+      ? planned.filter(action => 'score' in action) as ScoredAction[]
+      : scoredActions.slice(0, 3)
+    this.recordTrace(gameState, 'greedy', scoredActions, budgeted ? planned : topActions)
     
     // Calculate urgency level
     const urgency = this.calculateUrgencyLevel(topActions, gameState)
@@ -110,26 +147,148 @@ export class DecisionEngine implements IDecisionEngine {
       factors: action.factors.map(f => `${f.name}: ${f.reason}`)
     }))
 
-    console.log(`🎯 DECISION ENGINE RESULTS: ${validActions.length} valid actions, top 3:`)
+    console.log(`🎯 DECISION ENGINE RESULTS: ${validActions.length} valid actions, ${budgeted ? 'session plan' : 'top 3'}:`)
     for (let i = 0; i < topActions.length; i++) {
       const action = topActions[i]
       console.log(`   ${i + 1}. ${action.type} (${action.target || action.id}) - Score: ${action.score}`)
     }
 
     return {
-      actions: topActions,
+      actions: budgeted ? this.takeSessionStep() : topActions,
       urgency,
       reasoning,
-      shouldAct: true
+      shouldAct: true,
+      ranked: scoredActions as GameAction[]
     }
   }
 
-  shouldHeroActNow(gameState: GameState, lastCheckinTime: number): boolean {
-    const persona = this.extractPersonaFromState(gameState)
-    const personaStrategy = PersonaStrategyFactory.create(persona)
+  /**
+   * Route through the screens for this check-in, queued as timed steps - returns every planned action in order
+   */
+  private planSession(gameState: GameState, parameters: AllParameters, gameDataStore: any, scoredHere: ScoredAction[]): GameAction[] {
+    const start = gameState.location.currentScreen
+    const candidates = new Map<GameScreen, ScoredAction[]>([[start, scoredHere]])
+
+    // What each other screen the hero may enter would offer if they stood there now
+    for (const screen of DecisionEngine.SESSION_SCREENS) {
+      const travel = SessionPlanner.travelMinutes(start, screen, parameters)
+      if (screen === start || !Number.isFinite(travel)) continue
+      if (!this.actionFilter.isActionValid(SessionPlanner.moveAction(start, screen, travel), gameState, gameDataStore)) continue
+      const there: GameState = { ...gameState, location: { ...gameState.location, currentScreen: screen } }
+      const scored = this.generateCandidates(there, parameters, gameDataStore, false)
+        .map(action => this.learningModel.adjust(this.actionScorer.scoreAction(action, there, this.personaStrategy)))
+        .sort((a, b) => b.score - a.score)
+      candidates.set(screen, scored)
+    }
+
+    const plan = SessionPlanner.plan(start, this.persona.avgSessionLength, candidates, parameters)
+    const now = gameState.time.totalMinutes
+    this.session = plan.steps.map(step => ({ at: now + step.offset, action: step.action }))
+    console.log(`🗺️ SESSION: ${plan.route.join(' → ')} - ${plan.steps.length} steps in ${plan.minutes}/${this.persona.avgSessionLength} minutes`)
+    return plan.steps.map(step => step.action)
+  }
+
+  /**
+   * Next step of the session in progress once it is due - steps the game no longer allows are dropped
+   */
+  private playSessionStep(gameState: GameState, gameDataStore: any): DecisionResult {
+    const now = gameState.time.totalMinutes
+    if (this.session[0].at > now) {
+      return { actions: [], urgency: 'low', reasoning: [], shouldAct: false, nextCheckinTime: this.session[0].at }
+    }
+
+    // One step per tick, so each is checked against the state the previous one left
+    while (this.session.length > 0 && this.session[0].at <= now) {
+      const action = this.session[0].action
+      if (this.actionFilter.filterValidActions([action], gameState, gameDataStore).length > 0) {
+        const [step] = this.takeSessionStep()
+        return {
+          actions: [step],
+          urgency: 'normal',
+          reasoning: [{ action: `${step.type} (${step.target || step.id})`, score: step.score ?? 0, reason: 'Next step of the session', factors: [] }],
+          shouldAct: true
+        }
+      }
+      console.log(`🗺️ SESSION: Dropping ${action.type} (${action.target || action.id}) - no longer possible`)
+      this.session.shift()
+    }
+
+    return this.session.length > 0
+      ? { actions: [], urgency: 'low', reasoning: [], shouldAct: false, nextCheckinTime: this.session[0].at }
+      : { actions: [], urgency: 'low', reasoning: [], shouldAct: false }
+  }
+
+  private takeSessionStep(): GameAction[] {
+    const step = this.session.shift()
+    return step ? [step.action] : []
+  }
+
+  /**
+   * Drop the rest of the planned session - someone else decides now (manual play, checkpoint restore)
+   */
+  endSession(): void {
+    this.session = []
+  }
+
+  /**
+   * Every valid action open to the hero right now - planners pass recordRejections false for hypothetical states
+   */
+  protected generateCandidates(gameState: GameState, parameters: AllParameters, gameDataStore: any, recordRejections: boolean = true): GameAction[] {
+    // 1. Evaluate emergency actions first
+    const emergencyActions = this.evaluateEmergencyActions(gameState, parameters, gameDataStore)
     
+    // 2. Evaluate screen-specific actions
+    const screenActions = this.evaluateScreenActions(gameState, parameters, gameDataStore)
+    
+    // 3. Evaluate helper actions
+    const helperActions = this.evaluateHelperActions(gameState, parameters, gameDataStore)
+    
+    // 4. Evaluate navigation actions (only if no emergency navigation exists)
+    const hasEmergencyNav = emergencyActions.some(action => action.type === 'move')
+    const navigationActions = hasEmergencyNav ? [] : this.evaluateNavigationActions(gameState, parameters, gameDataStore)
+    
+    // Combine all actions
+    const allActions = [
+      ...emergencyActions,
+      ...screenActions,
+      ...helperActions,
+      ...navigationActions
+    ]
+
+    console.log(`🔍 DECISION ENGINE: ${allActions.length} total actions before filtering:`)
+    for (const action of allActions) {
+      console.log(`   - ${action.type} (${action.target || action.id}) at ${action.screen || 'no screen'}`)
+    }
+
+    // 5. Filter valid actions
+    const validActions = this.actionFilter.filterValidActions(allActions, gameState, gameDataStore)
+    if (recordRejections) {
+      this.recordRejections(allActions.filter(action => !validActions.includes(action)), gameState, gameDataStore)
+    }
+    return validActions
+  }
+
+  shouldHeroActNow(gameState: GameState, lastCheckinTime: number): boolean {
     const currentTime = gameState.time.totalMinutes
-    return personaStrategy.shouldCheckIn(currentTime, lastCheckinTime, gameState)
+    return this.personaStrategy.shouldCheckIn(currentTime, lastCheckinTime, gameState)
+  }
+
+  /**
+   * First minute after now, within the horizon, at which the persona would check in - null if none
+   */
+  getNextCheckinTime(gameState: GameState, horizon: number): number | null {
+    const currentTime = gameState.time.totalMinutes
+    if (this.session.length > 0) {
+      const due = Math.max(this.session[0].at, currentTime + 1)
+      return due - currentTime <= horizon ? due : null
+    }
+    
+    for (let minute = 1; minute <= horizon; minute++) {
+      if (this.personaStrategy.shouldCheckIn(currentTime + minute, this.lastCheckinTime, gameState)) {
+        return currentTime + minute
+      }
+    }
+    return null
   }
 
   updateLastCheckin(gameState: GameState): number {
@@ -137,6 +296,79 @@ export class DecisionEngine implements IDecisionEngine {
     return this.lastCheckinTime
   }
 
+  getLastCheckinTime(): number {
+    return this.lastCheckinTime
+  }
+
+  /**
+   * Actions ActionFilter rejected at or after a point in time, oldest first
+   */
+  getRejectionsSince(totalMinutes: number): ActionRejection[] {
+    return this.rejections.filter(rejection => rejection.totalMinutes >= totalMinutes)
+  }
+
+  /**
+   * Every check-in's candidates, filter rejections, score factors and picks, oldest first
+   */
+  getDecisionTraces(): DecisionTrace[] {
+    return this.traceRecorder.getTraces()
+  }
+
+  /**
+   * Trace the check-in - rejections come from the last generateCandidates call that recorded them
+   */
+  protected recordTrace(gameState: GameState, engine: DecisionTrace['engine'], scored: ScoredAction[], picked: Array<{ id: string }>): void {
+    this.traceRecorder.record(gameState, engine, scored, this.lastRejected, picked)
+    this.lastRejected = []
+  }
+
+  private recordRejections(rejected: GameAction[], gameState: GameState, gameDataStore: any): void {
+    this.lastRejected = rejected.map(action => ({
+      action,
+      rejection: this.actionFilter.explainRejection(action, gameState, gameDataStore)
+    }))
+    for (const { rejection } of this.lastRejected) {
+      this.rejections.push({ totalMinutes: gameState.time.totalMinutes, ...rejection })
+    }
+    if (this.rejections.length > DecisionEngine.MAX_REJECTIONS) {
+      this.rejections.splice(0, this.rejections.length - DecisionEngine.MAX_REJECTIONS)
+    }
+  }
+
+  /**
+   * Resume the check-in cadence saved in a checkpoint
+   */
+  restoreLastCheckin(totalMinutes: number): void {
+    this.lastCheckinTime = totalMinutes
+    this.endSession()
+  }
+
+  /**
+   * Grow the persona's knowledge from the actions that were actually executed
+   */
+  recordExperience(executedActions: GameAction[], gameState: GameState): void {
+    this.learningModel.recordExperience(executedActions, gameState)
+  }
+
+  /**
+   * Current path to the goal - null without goal planning or once every goal is reached
+   */
+  getGoalPlan(): GoalPlan | null {
+    return this.goalPlanner?.getPlan() ?? null
+  }
+
+  getLearningCurve(): LearningCurvePoint[] {
+    return this.learningModel.getCurve()
+  }
+
+  getLearningState(): LearningState {
+    return this.learningModel.getState()
+  }
+
+  restoreLearningState(state: LearningState): void {
+    this.learningModel.restoreState(state)
+  }
+
   private evaluateEmergencyActions(gameState: GameState, parameters: AllParameters, gameDataStore: any): GameAction[] {
     const actions: GameAction[] = []
     
@@ -151,16 +383,17 @@ export class DecisionEngine implements IDecisionEngine {
       if (seedMetrics.totalSeeds < criticalThreshold) {
         console.log(`🚨 EMERGENCY: Critical seed shortage (${seedMetrics.totalSeeds} < ${criticalThreshold})`)
         
-        // Emergency navigation to tower if not there
+        // Emergency navigation to tower if not there - unless no route reaches it
         if (gameState.location.currentScreen !== 'tower') {
-          actions.push({
+          const towerTravel = SessionPlanner.travelMinutes(gameState.location.currentScreen, 'tower', parameters)
+          if (Number.isFinite(towerTravel)) actions.push({
             id: `emergency_tower_nav_${Date.now()}`,
             type: 'move',
             screen: gameState.location.currentScreen,
             target: 'tower',
             toScreen: 'tower',
             description: 'Emergency navigation to tower for seed collection',
-            duration: 1,
+            duration: towerTravel,
             energyCost: 0,
             goldCost: 0,
             prerequisites: [],
@@ -217,14 +450,16 @@ export class DecisionEngine implements IDecisionEngine {
               expectedRewards: { energy: 5, items: [readyToHarvest[0].cropId] }
             })
           } else {
-            actions.push({
+            // No route to the farm - nothing to do until the hero can walk there
+            const farmTravel = SessionPlanner.travelMinutes(gameState.location.currentScreen, 'farm', parameters)
+            if (Number.isFinite(farmTravel)) actions.push({
               id: `emergency_farm_nav_${Date.now()}`,
               type: 'move',
               screen: gameState.location.currentScreen,
               target: 'farm',
               toScreen: 'farm',
               description: 'Emergency navigation to farm for harvest',
-              duration: 1,
+              duration: farmTravel,
               energyCost: 0,
               goldCost: 0,
               prerequisites: [],
@@ -261,16 +496,14 @@ export class DecisionEngine implements IDecisionEngine {
       case 'forge':
         return ForgeSystem.evaluateActions(gameState, parameters, gameDataStore)
       case 'mine':
-        return this.evaluateMineActions(gameState, parameters, gameDataStore)
+        return MineSystem.evaluateActions(gameState, parameters, gameDataStore)
       default:
         return []
     }
   }
 
   private evaluateHelperActions(gameState: GameState, parameters: AllParameters, gameDataStore: any): GameAction[] {
-    // For now, return empty array - helpers will be implemented later
-    // TODO: Implement helper action evaluation when HelperSystem.evaluateActions is available
-    return []
+    return HelperSystem.evaluateActions(gameState, parameters, gameDataStore, this.persona)
   }
 
   private evaluateNavigationActions(gameState: GameState, parameters: AllParameters, gameDataStore: any): GameAction[] {
@@ -290,8 +523,9 @@ export class DecisionEngine implements IDecisionEngine {
     for (const priority of priorities) {
       if (priority.screen !== currentScreen) {
         const navigationReason = this.getNavigationReason(priority.screen, gameState)
+        const travel = SessionPlanner.travelMinutes(currentScreen, priority.screen, parameters)
         
-        if (navigationReason.score > 0) {
+        if (navigationReason.score > 0 && Number.isFinite(travel)) {
           actions.push({
             id: `nav_${priority.screen}_${Date.now()}`,
             type: 'move',
@@ -299,7 +533,7 @@ export class DecisionEngine implements IDecisionEngine {
             target: priority.screen,
             toScreen: priority.screen as any, // TODO: Fix GameScreen type
             description: navigationReason.reason,
-            duration: 1,
+            duration: travel,
             energyCost: 0,
             goldCost: 0,
             prerequisites: [],
@@ -392,30 +626,6 @@ export class DecisionEngine implements IDecisionEngine {
     return actions
   }
 
-  private evaluateMineActions(gameState: GameState, parameters: AllParameters, gameDataStore: any): GameAction[] {
-    const actions: GameAction[] = []
-    
-    // Basic mining action if we need materials
-    const materials = gameState.resources.materials
-    const commonMaterials = ['stone', 'copper', 'iron']
-    const hasLowMaterials = commonMaterials.some(mat => (materials.get(mat) || 0) < 10)
-    
-    if (hasLowMaterials && gameState.resources.energy.current > 30) {
-      actions.push({
-        id: `mine_${Date.now()}`,
-        type: 'mine',
-        screen: 'mine',
-        duration: 5,
-        energyCost: 15,
-        goldCost: 0,
-        prerequisites: [],
-        expectedRewards: { materials: { stone: 3, copper: 2 } }
-      })
-    }
-    
-    return actions
-  }
-
   private selectCropToPlant(gameState: GameState, gameDataStore: any): string | null {
     // Simple crop selection - prefer crops we have seeds for
     const seeds = gameState.resources.seeds
@@ -480,44 +690,4 @@ export class DecisionEngine implements IDecisionEngine {
     const interval = personaStrategy.getMinCheckinInterval(gameState)
     return currentTime + interval
   }
-
-  private extractPersonaFromParameters(parameters: AllParameters): SimplePersona {
-    // Extract persona from parameters - fallback to casual if not found
-    // TODO: Add persona to AllParameters type
-    return (parameters as any).persona || {
-      id: 'casual',
-      name: 'Casual Casey',
-      description: 'Default casual player',
-      icon: 'fa-user',
-      color: '#10b981',
-      efficiency: 0.7,
-      riskTolerance: 0.3,
-      optimization: 0.6,
-      learningRate: 0.4,
-      weekdayCheckIns: 2,
-      weekendCheckIns: 2,
-      avgSessionLength: 15,
-      isPreset: true
-    }
-  }
-
-  private extractPersonaFromState(gameState: GameState): SimplePersona {
-    // For now, extract from game state or use default
-    // TODO: Store persona config in game state
-    return {
-      id: 'casual',
-      name: 'Casual Casey',
-      description: 'Default casual player',
-      icon: 'fa-user',
-      color: '#10b981',
-      efficiency: 0.7,
-      riskTolerance: 0.3,
-      optimization: 0.6,
-      learningRate: 0.4,
-      weekdayCheckIns: 2,
-      weekendCheckIns: 2,
-      avgSessionLength: 15,
-      isPreset: true
-    }
-  }
 }
@@ -0,0 +1,41 @@
+// DecisionTraceRecorder tests
+// Per-check-in traces and the answers to why a target was not picked
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import type { GameAction } from '@/types'
+import { DecisionTraceRecorder } from '@/utils/ai/DecisionTraceRecorder'
+import { BalanceTables } from '@/utils/systems/support/BalanceTables'
+import { gameData, createTestGameState } from '@/tests/fixtures'
+
+beforeAll(() => BalanceTables.load(gameData))
+
+describe('DecisionTraceRecorder - Why Not', () => {
+  it('traces picks, scores and rejections and explains why a target was not bought', () => {
+    const gameState = createTestGameState()
+    const scored = (target: string, score: number) => ({
+      id: `${target}_1`, type: 'purchase', screen: 'town', target, duration: 1, energyCost: 0, goldCost: 0,
+      prerequisites: [], expectedRewards: {}, score, reasoning: '',
+      factors: [{ name: 'Base Score', value: score, reason: '' }, { name: 'Persona', value: 1.2, reason: '' }]
+    })
+    const hoe = { id: 'buy_hoe', type: 'purchase', screen: 'town', target: 'hoe' } as GameAction
+    const recorder = new DecisionTraceRecorder()
+
+    // Check-in 1: too poor for the hoe; check-in 2: affordable but outranked; check-in 3: bought
+    gameState.time.totalMinutes = 60
+    recorder.record(gameState, 'greedy', [scored('seeds', 80)], [
+      { action: hoe, rejection: { actionType: 'purchase', target: 'hoe', reason: 'resources', detail: 'Needs 100 gold, has 40' } }
+    ], [{ id: 'seeds_1' }])
+    gameState.time.totalMinutes = 120
+    recorder.record(gameState, 'greedy', [scored('hoe', 70), scored('seeds', 80)], [], [{ id: 'seeds_1' }])
+    gameState.time.totalMinutes = 180
+    const trace = recorder.record(gameState, 'greedy', [scored('hoe', 90)], [], [{ id: 'hoe_1' }])
+
+    expect(trace.candidates[0]).toMatchObject({ target: 'hoe', score: 90, personaAdjustment: 1.2, picked: true })
+    expect(DecisionTraceRecorder.explainMissing(recorder.getTraces(), 'hoe').map(entry => [entry.outcome, entry.detail])).toEqual([
+      ['rejected', 'purchase hoe rejected - Needs 100 gold, has 40'],
+      ['outranked', 'purchase hoe scored 70, lost to purchase seeds (80)'],
+      ['picked', 'purchase hoe picked (score 90)']
+    ])
+    expect(DecisionTraceRecorder.explainMissing(recorder.getTraces(), 'hoe', 2)).toEqual([])
+  })
+})
@@ -0,0 +1,127 @@
+// DecisionTraceRecorder - Per-check-in decision traces
+// Keeps what the AI weighed at each check-in and answers "why did the hero not do X?" from it
+
+import type { GameState, GameAction, ActionRejection, DecisionTrace, TracedCandidate } from '../../types'
+import type { ScoredAction } from './types/DecisionTypes'
+
+/**
+ * What became of a target across a run of check-ins with the same outcome
+ */
+export interface WhyNotEntry {
+  day: number
+  fromMinutes: number
+  toMinutes: number
+  checkIns: number
+  outcome: 'picked' | 'rejected' | 'outranked' | 'not_proposed'
+  detail: string
+}
+
+/**
+ * Capped trace buffer - the oldest check-ins are dropped first
+ */
+export class DecisionTraceRecorder {
+  static readonly MAX_TRACES = 1000
+
+  private traces: DecisionTrace[] = []
+
+  record(
+    gameState: GameState,
+    engine: DecisionTrace['engine'],
+    scored: ScoredAction[],
+    rejected: Array<{ action: GameAction; rejection: Omit<ActionRejection, 'totalMinutes'> }>,
+    picked: Array<{ id: string }>
+  ): DecisionTrace {
+    const pickedIds = new Set(picked.map(action => action.id))
+    const candidates: TracedCandidate[] = [
+      ...[...scored].sort((a, b) => b.score - a.score).map(action => ({
+        actionType: action.type,
+        target: DecisionTraceRecorder.targetOf(action),
+        screen: action.screen,
+        score: action.score,
+        factors: action.factors.map(factor => ({ name: factor.name, value: factor.value })),
+        personaAdjustment: action.factors.find(factor => factor.name === 'Persona')?.value,
+        picked: pickedIds.has(action.id)
+      })),
+      ...rejected.map(({ action, rejection }) => ({
+        actionType: action.type,
+        target: rejection.target,
+        screen: action.screen,
+        rejection: { reason: rejection.reason, detail: rejection.detail },
+        picked: false
+      }))
+    ]
+
+    const trace: DecisionTrace = {
+      totalMinutes: gameState.time.totalMinutes,
+      day: gameState.time.day,
+      screen: gameState.location.currentScreen,
+      engine,
+      candidates
+    }
+    this.traces.push(trace)
+    if (this.traces.length > DecisionTraceRecorder.MAX_TRACES) {
+      this.traces.splice(0, this.traces.length - DecisionTraceRecorder.MAX_TRACES)
+    }
+    return trace
+  }
+
+  getTraces(): DecisionTrace[] {
+    return this.traces
+  }
+
+  /**
+   * Why a target was or wasn't acted on - matches targets and action types containing the query, optionally on one day
+   */
+  static explainMissing(traces: DecisionTrace[], query: string, day?: number): WhyNotEntry[] {
+    const needle = query.trim().toLowerCase()
+    const entries: WhyNotEntry[] = []
+    if (!needle) return entries
+
+    for (const trace of traces) {
+      if (day !== undefined && trace.day !== day) continue
+
+      const matches = trace.candidates.filter(candidate =>
+        candidate.target.toLowerCase().includes(needle) || candidate.actionType.toLowerCase() === needle
+      )
+      const { outcome, detail } = DecisionTraceRecorder.describe(trace, matches)
+
+      // Merge back-to-back check-ins that ended the same way
+      const last = entries[entries.length - 1]
+      if (last && last.day === trace.day && last.outcome === outcome && last.detail === detail) {
+        last.toMinutes = trace.totalMinutes
+        last.checkIns++
+      } else {
+        entries.push({ day: trace.day, fromMinutes: trace.totalMinutes, toMinutes: trace.totalMinutes, checkIns: 1, outcome, detail })
+      }
+    }
+    return entries
+  }
+
+  private static describe(trace: DecisionTrace, matches: TracedCandidate[]): Pick<WhyNotEntry, 'outcome' | 'detail'> {
+    const picked = matches.find(candidate => candidate.picked)
+    if (picked) {
+      return { outcome: 'picked', detail: `${picked.actionType} ${picked.target} picked (score ${picked.score})` }
+    }
+
+    const scored = matches.find(candidate => candidate.score !== undefined)
+    if (scored) {
+      const winners = trace.candidates.filter(candidate => candidate.picked)
+      const beatenBy = winners.length > 0
+        ? winners.map(candidate => `${candidate.actionType} ${candidate.target} (${candidate.score})`).join(', ')
+        : 'waiting'
+      return { outcome: 'outranked', detail: `${scored.actionType} ${scored.target} scored ${scored.score}, lost to ${beatenBy}` }
+    }
+
+    const rejected = matches.find(candidate => candidate.rejection)
+    if (rejected) {
+      return { outcome: 'rejected', detail: `${rejected.actionType} ${rejected.target} rejected - ${rejected.rejection!.detail}` }
+    }
+
+    return { outcome: 'not_proposed', detail: `Not among the ${trace.candidates.length} candidates on the ${trace.screen} screen` }
+  }
+
+  // Generated ids end in a timestamp - drop it so repeated proposals match
+  private static targetOf(action: { id: string; target?: string }): string {
+    return action.target || action.id.replace(/_\d+$/, '')
+  }
+}
@@ -0,0 +1,43 @@
+// GoalPlanner tests
+// The cheapest dependency path to a goal and the boosts along it
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import type { GameAction } from '@/types'
+import { GoalPlanner } from '@/utils/ai/GoalPlanner'
+import { BalanceTables } from '@/utils/systems/support/BalanceTables'
+import { gameData, createTestGameState } from '@/tests/fixtures'
+
+beforeAll(() => BalanceTables.load(gameData))
+
+describe('GoalPlanner - Long-term Goals', () => {
+  it('orders the cheapest path to the goal, boosts its ready steps and re-targets once reached', () => {
+    const item = (id: string, prerequisites: string[], type: string, sourceFile: string, goldCost: number) =>
+      ({ id, name: id, prerequisites, type, categories: [], goldCost, sourceFile, category: 'Unlocks' }) as any
+    const gameDataStore = {
+      allItems: [
+        item('blueprint_spear_1', [], 'blueprint', 'town_blacksmith.csv', 50),
+        item('craft_spear_1', ['blueprint_spear_1'], 'weapon', 'forge_actions.csv', 0),
+        item('blueprint_anvil', [], 'blueprint', 'town_blacksmith.csv', 500),
+        item('craft_spear_2', ['craft_spear_1', 'blueprint_anvil'], 'weapon', 'forge_actions.csv', 0),
+        item('homestead_deed', ['blueprint_anvil'], 'deed', 'town_land_steward.csv', 1500)
+      ]
+    }
+    const gameState = createTestGameState()
+    gameState.progression.completedCleanups = new Set()
+    const move = (target: string) => ({ id: `move_${target}`, type: 'move', target } as GameAction)
+
+    const planner = new GoalPlanner('craft_spear_2')
+    const plan = planner.update(gameState, gameDataStore)!
+    expect(plan.steps.map(step => step.id)).toEqual(['blueprint_spear_1', 'craft_spear_1', 'blueprint_anvil', 'craft_spear_2'])
+    expect(plan.totalCost).toBe(550)
+    expect(plan.steps.filter(step => step.ready).map(step => step.id)).toEqual(['blueprint_spear_1', 'blueprint_anvil'])
+    expect(planner.getBoost({ id: 'buy', type: 'purchase', target: 'blueprint_anvil' } as GameAction)).toBe(GoalPlanner.STEP_BOOST)
+    expect(planner.getBoost(move('town'))).toBe(GoalPlanner.NAVIGATION_BOOST)
+    expect(planner.getBoost(move('forge'))).toBe(1)
+
+    // Goal reached - falls back to the cheapest open milestone
+    gameState.inventory.weapons.set('spear_1', { level: 1 } as any)
+    gameState.inventory.weapons.set('spear_2', { level: 1 } as any)
+    expect(planner.update(gameState, gameDataStore)!.steps.map(step => step.id)).toEqual(['blueprint_anvil', 'homestead_deed'])
+  })
+})
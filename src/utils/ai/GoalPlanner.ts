@@ -0,0 +1,214 @@
+// GoalPlanner - Long-term targets from the upgrade dependency graph
+// Picks a target node, lays out the cheapest ordered path of purchases, crafts, adventures and cleanups to it, and re-targets once it is reached
+
+import { DependencyGraph } from '../validation/DependencyGraph'
+import { prerequisiteService } from '../validation/PrerequisiteService'
+import type { GameState, GameAction, GameDataItem, GameScreen } from '../../types'
+
+export type GoalStepKind = 'purchase' | 'craft' | 'adventure' | 'cleanup' | 'build' | 'requirement'
+
+/**
+ * One node still to clear on the way to the goal
+ */
+export interface GoalStep {
+  id: string
+  name: string
+  kind: GoalStepKind
+  screen: GameScreen | null   // Where the hero acts on it - null for requirements like hero_level_3
+  cost: number                // Gold equivalent of its gold, energy and material costs
+  ready: boolean              // Every prerequisite is already met
+}
+
+/**
+ * Ordered path to a goal - prerequisites always come before the nodes that need them
+ */
+export interface GoalPlan {
+  goalId: string
+  steps: GoalStep[]
+  totalCost: number
+}
+
+/**
+ * Where each CSV file's nodes are acted on
+ */
+const FILE_STEPS: Record<string, { kind: GoalStepKind; screen: GameScreen }> = {
+  'town_agronomist.csv': { kind: 'purchase', screen: 'town' },
+  'town_blacksmith.csv': { kind: 'purchase', screen: 'town' },
+  'town_carpenter.csv': { kind: 'purchase', screen: 'town' },
+  'town_land_steward.csv': { kind: 'purchase', screen: 'town' },
+  'town_skills_trainer.csv': { kind: 'purchase', screen: 'town' },
+  'town_material_trader.csv': { kind: 'purchase', screen: 'town' },
+  'vendors.csv': { kind: 'purchase', screen: 'town' },
+  'forge_actions.csv': { kind: 'craft', screen: 'forge' },
+  'adventures.csv': { kind: 'adventure', screen: 'adventure' },
+  'tower_actions.csv': { kind: 'build', screen: 'tower' },
+  'farm_actions.csv': { kind: 'build', screen: 'farm' }
+}
+
+/**
+ * Plans towards one target node at a time
+ */
+export class GoalPlanner {
+  static readonly AUTO = 'auto'
+  static readonly MILESTONE_TYPES = ['deed', 'weapon']   // Node types 'auto' chooses between
+  static readonly MATERIAL_VALUE = 5                     // Gold per unit of material, as LookaheadPlanner values them
+  static readonly STEP_BOOST = 2                         // Score multiplier for acting on a ready step
+  static readonly NAVIGATION_BOOST = 1.5                 // Score multiplier for moving to a ready step's screen
+
+  private readonly target: string
+  private readonly graph = new DependencyGraph()
+  private items: Map<string, GameDataItem> = new Map()
+  private builtFrom: GameDataItem[] | null = null
+  private plan: GoalPlan | null = null
+
+  /**
+   * @param target Node id to plan towards, or 'auto' for the cheapest open milestone
+   */
+  constructor(target: string = GoalPlanner.AUTO) {
+    this.target = target
+  }
+
+  /**
+   * Re-plan from the current state - switches to the next milestone once the goal is reached
+   */
+  update(gameState: GameState, gameDataStore: any): GoalPlan | null {
+    this.buildGraph(gameDataStore)
+    const previousGoal = this.plan?.goalId
+
+    this.plan = this.target !== GoalPlanner.AUTO && !this.isComplete(this.target, gameState, gameDataStore)
+      ? this.planPath(this.target, gameState, gameDataStore)
+      : this.chooseMilestone(gameState, gameDataStore)
+
+    if (this.plan && this.plan.goalId !== previousGoal) {
+      if (previousGoal) {
+        console.log(`🏁 GOAL: ${previousGoal} reached, re-targeting`)
+      }
+      console.log(`🏁 GOAL: ${this.plan.goalId} via ${this.plan.steps.length} steps (cost ${Math.round(this.plan.totalCost)})`)
+    }
+    return this.plan
+  }
+
+  /**
+   * Nodes 'auto' chooses between - deeds and weapon crafts the hero can act on
+   */
+  static getMilestones(allItems: GameDataItem[]): GameDataItem[] {
+    return allItems.filter(item => GoalPlanner.MILESTONE_TYPES.includes(item.type) && FILE_STEPS[item.sourceFile])
+  }
+
+  getPlan(): GoalPlan | null {
+    return this.plan
+  }
+
+  /**
+   * Cheapest ordered path to a node - null when it is unknown or already reached
+   */
+  planPath(goalId: string, gameState: GameState, gameDataStore: any): GoalPlan | null {
+    this.buildGraph(gameDataStore)
+    if (!this.graph.hasItem(goalId) || this.isComplete(goalId, gameState, gameDataStore)) {
+      return null
+    }
+
+    // Cost of clearing each open node together with everything it still needs
+    const open = new Set(
+      [...this.graph.getAllPrerequisites(goalId), goalId].filter(id => !this.isComplete(id, gameState, gameDataStore))
+    )
+    const subtreeCost = new Map<string, number>()
+    for (const id of open) {
+      subtreeCost.set(id, [...this.graph.getAllPrerequisites(id), id]
+        .filter(prereq => open.has(prereq))
+        .reduce((sum, prereq) => sum + this.stepCost(prereq), 0))
+    }
+
+    // Depth-first, cheapest prerequisite branch first, so affordable steps come early
+    const ordered: string[] = []
+    const visit = (id: string) => {
+      if (!open.has(id) || ordered.includes(id)) return
+      const prereqs = this.graph.getPrerequisites(id)
+        .sort((a, b) => (subtreeCost.get(a) ?? 0) - (subtreeCost.get(b) ?? 0))
+      for (const prereq of prereqs) {
+        visit(prereq)
+      }
+      ordered.push(id)
+    }
+    visit(goalId)
+
+    const steps = ordered.map(id => this.createStep(id, open))
+    return {
+      goalId,
+      steps,
+      totalCost: steps.reduce((sum, step) => sum + step.cost, 0)
+    }
+  }
+
+  /**
+   * Score multiplier for an action - acting on a ready step, or heading to where one is acted on
+   */
+  getBoost(action: GameAction): number {
+    const readySteps = this.plan?.steps.filter(step => step.ready) ?? []
+    if (readySteps.length === 0) return 1
+
+    if (action.type === 'move') {
+      const screen = action.toScreen ?? action.target
+      return readySteps.some(step => step.screen === screen) ? GoalPlanner.NAVIGATION_BOOST : 1
+    }
+    return readySteps.some(step => GoalPlanner.matchesStep(action, step)) ? GoalPlanner.STEP_BOOST : 1
+  }
+
+  /**
+   * Whether a node is already behind the hero - adventures count once completed
+   */
+  isComplete(id: string, gameState: GameState, gameDataStore: any): boolean {
+    if (this.items.get(id)?.sourceFile === 'adventures.csv') {
+      return gameState.progression.completedAdventures.includes(id)
+    }
+    return prerequisiteService.hasPrerequisite(id, gameState, gameDataStore).satisfied
+  }
+
+  private static matchesStep(action: GameAction, step: GoalStep): boolean {
+    if (!action.target) return false
+    // Adventure actions carry the route plus a duration suffix
+    return action.target === step.id || (step.kind === 'adventure' && action.target.startsWith(`${step.id}_`))
+  }
+
+  private chooseMilestone(gameState: GameState, gameDataStore: any): GoalPlan | null {
+    let best: GoalPlan | null = null
+    for (const item of GoalPlanner.getMilestones(this.builtFrom ?? [])) {
+      const plan = this.planPath(item.id, gameState, gameDataStore)
+      if (plan && (!best || plan.totalCost < best.totalCost)) {
+        best = plan
+      }
+    }
+    return best
+  }
+
+  private buildGraph(gameDataStore: any): void {
+    const allItems: GameDataItem[] = gameDataStore?.allItems ?? []
+    if (allItems === this.builtFrom) return
+
+    this.graph.buildFromGameData(allItems)
+    this.items = new Map(allItems.map(item => [item.id, item]))
+    this.builtFrom = allItems
+  }
+
+  private createStep(id: string, open: Set<string>): GoalStep {
+    const item = this.items.get(id)
+    const placement = item ? FILE_STEPS[item.sourceFile] : undefined
+    const isCleanup = item?.type === 'cleanup' || item?.type === 'clean_up'
+
+    return {
+      id,
+      name: item?.name || id,
+      kind: placement ? (isCleanup ? 'cleanup' : placement.kind) : 'requirement',
+      screen: placement?.screen ?? null,
+      cost: this.stepCost(id),
+      ready: this.graph.getPrerequisites(id).every(prereq => !open.has(prereq))
+    }
+  }
+
+  private stepCost(id: string): number {
+    const item = this.items.get(id)
+    if (!item) return 0
+    const materials = Object.values(item.materialsCost ?? {}).reduce((sum, amount) => sum + amount, 0)
+    return (item.goldCost ?? 0) + (item.energyCost ?? 0) + materials * GoalPlanner.MATERIAL_VALUE
+  }
+}
@@ -0,0 +1,31 @@
+// LearningModel tests
+// Knowledge grows with experience at the persona's learning rate
+
+import { describe, it, expect } from 'vitest'
+import type { GameAction } from '@/types'
+import { SeededRandom } from '@/utils/random'
+import { LearningModel } from '@/utils/ai/LearningModel'
+import { createTestGameState } from '@/tests/fixtures'
+
+describe('LearningModel - Persona Learning', () => {
+  it('grows knowledge with experience at the persona learning rate', () => {
+    const gameState = createTestGameState()
+    const action = { id: 'h', type: 'harvest', screen: 'farm', duration: 1, energyCost: 0, goldCost: 0, prerequisites: [], expectedRewards: {} } as GameAction
+    const fast = new LearningModel(0.9, new SeededRandom(1))
+    const slow = new LearningModel(0.1, new SeededRandom(1))
+
+    expect(fast.getKnowledge()).toBe(LearningModel.INITIAL_KNOWLEDGE)
+    for (let i = 0; i < 50; i++) {
+      fast.recordExperience([action], gameState)
+      slow.recordExperience([action], gameState)
+    }
+    expect(fast.getKnowledge()).toBeGreaterThan(slow.getKnowledge())
+    expect(slow.getKnowledge()).toBeGreaterThan(LearningModel.INITIAL_KNOWLEDGE)
+    expect(fast.getCurve()).toEqual([{ day: 1, knowledge: fast.getKnowledge(), experience: 60 }])
+
+    // Checkpointed experience carries over
+    const restored = new LearningModel(0.9, new SeededRandom(1))
+    restored.restoreState(fast.getState())
+    expect(restored.getKnowledge()).toBe(fast.getKnowledge())
+  })
+})
@@ -0,0 +1,137 @@
+// LearningModel - Persona skill growth over a run
+// A new player scores actions noisily and only half-knows the upgrade tree; experience closes the gap at the persona's learningRate
+
+import { SeededRandom } from '../random'
+import type { GameAction, GameScreen, GameState } from '../../types'
+import type { LearningCurvePoint } from '@/types/reports'
+import type { ScoredAction } from './types/DecisionTypes'
+
+/**
+ * Everything the model has learned so far - saved in checkpoints
+ */
+export interface LearningState {
+  actionsTaken: number
+  screensVisited: GameScreen[]
+  curve: LearningCurvePoint[]
+}
+
+/**
+ * Tracks experience and turns it into knowledge (0-1) that sharpens the AI's scoring
+ */
+export class LearningModel {
+  static readonly INITIAL_KNOWLEDGE = 0.25
+  static readonly SCREEN_EXPERIENCE = 10      // A newly visited screen teaches as much as 10 actions
+  static readonly EXPERIENCE_SCALE = 100      // Experience for ~63% of the gap at learningRate 1
+  static readonly MAX_NOISE = 0.5             // ±50% score noise at zero knowledge
+  static readonly UNKNOWN_UPGRADE_DISCOUNT = 0.4
+
+  private readonly learningRate: number
+  private readonly rng: SeededRandom
+  private actionsTaken = 0
+  private screensVisited: Set<GameScreen> = new Set()
+  private curve: LearningCurvePoint[] = []
+
+  constructor(learningRate: number, rng: SeededRandom) {
+    this.learningRate = Math.max(0, Math.min(1, learningRate))
+    this.rng = rng
+  }
+
+  /**
+   * Knowledge after a given amount of experience - exponential approach to 1
+   */
+  static knowledgeFor(learningRate: number, experience: number): number {
+    const gap = 1 - LearningModel.INITIAL_KNOWLEDGE
+    return 1 - gap * Math.exp(-learningRate * experience / LearningModel.EXPERIENCE_SCALE)
+  }
+
+  getExperience(): number {
+    return this.actionsTaken + this.screensVisited.size * LearningModel.SCREEN_EXPERIENCE
+  }
+
+  getKnowledge(): number {
+    return LearningModel.knowledgeFor(this.learningRate, this.getExperience())
+  }
+
+  /**
+   * Blur a scored action by what the player doesn't know yet
+   */
+  adjust(action: ScoredAction): ScoredAction {
+    const knowledge = this.getKnowledge()
+    const noise = (this.rng.next() * 2 - 1) * LearningModel.MAX_NOISE * (1 - knowledge)
+    let multiplier = 1 + noise
+
+    if (this.isUpgrade(action) && !this.knowsUpgrade(action, knowledge)) {
+      multiplier *= LearningModel.UNKNOWN_UPGRADE_DISCOUNT
+    }
+
+    return {
+      ...action,
+      score: Math.round(action.score * multiplier),
+      factors: [
+        ...action.factors,
+        { name: 'Learning', value: multiplier, reason: `Knowledge ${Math.round(knowledge * 100)}%` }
+      ]
+    }
+  }
+
+  /**
+   * Learn from the actions the hero actually carried out
+   */
+  recordExperience(actions: GameAction[], gameState: GameState): void {
+    this.screensVisited.add(gameState.location.currentScreen)
+    for (const action of actions) {
+      this.actionsTaken++
+      this.screensVisited.add(action.screen)
+      if (action.toScreen) {
+        this.screensVisited.add(action.toScreen)
+      }
+    }
+
+    // One point per day, holding that day's latest knowledge
+    const point: LearningCurvePoint = {
+      day: gameState.time.day,
+      knowledge: this.getKnowledge(),
+      experience: this.getExperience()
+    }
+    const last = this.curve[this.curve.length - 1]
+    if (last?.day === point.day) {
+      this.curve[this.curve.length - 1] = point
+    } else {
+      this.curve.push(point)
+    }
+  }
+
+  getCurve(): LearningCurvePoint[] {
+    return this.curve.map(point => ({ ...point }))
+  }
+
+  getState(): LearningState {
+    return {
+      actionsTaken: this.actionsTaken,
+      screensVisited: Array.from(this.screensVisited),
+      curve: this.getCurve()
+    }
+  }
+
+  restoreState(state: LearningState): void {
+    this.actionsTaken = state.actionsTaken
+    this.screensVisited = new Set(state.screensVisited)
+    this.curve = state.curve.map(point => ({ ...point }))
+  }
+
+  private isUpgrade(action: ScoredAction): boolean {
+    return action.type === 'build' || action.type === 'purchase' || action.type === 'craft'
+  }
+
+  /**
+   * Upgrades come into view in a fixed order - each target has a knowledge threshold from its name
+   */
+  private knowsUpgrade(action: ScoredAction, knowledge: number): boolean {
+    const target = action.target || action.id
+    let hash = 0
+    for (let i = 0; i < target.length; i++) {
+      hash = (hash * 31 + target.charCodeAt(i)) >>> 0
+    }
+    return (hash % 1000) / 1000 < knowledge
+  }
+}
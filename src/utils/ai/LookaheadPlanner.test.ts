@@ -0,0 +1,49 @@
+// LookaheadPlanner tests
+// The expert engine's value in gold and the plans it searches at each check-in
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import { SeededRandom } from '@/utils/random'
+import { LookaheadPlanner } from '@/utils/ai/LookaheadPlanner'
+import { ConfigurationManager } from '@/utils/orchestration/ConfigurationManager'
+import { BalanceTables } from '@/utils/systems/support/BalanceTables'
+import { gameData, createTestGameState } from '@/tests/fixtures'
+
+beforeAll(() => BalanceTables.load(gameData))
+
+describe('LookaheadPlanner - Expert Engine', () => {
+  it('values progress in gold and only plans when the persona checks in', () => {
+    const gameState = createTestGameState()
+    gameState.processes.crops = []
+    gameState.progression.completedCleanups = new Set()
+    const base = LookaheadPlanner.evaluate(gameState)
+
+    // Gold spent on plots is not lost value
+    gameState.resources.gold -= 50
+    gameState.progression.farmPlots += 1
+    expect(LookaheadPlanner.evaluate(gameState)).toBe(base)
+
+    // Just checked in - no new check-in, no planning
+    const planner = new LookaheadPlanner(undefined, new SeededRandom(1))
+    gameState.time.totalMinutes = 7 * 60
+    planner.updateLastCheckin(gameState)
+    gameState.time.totalMinutes += 1
+    const result = planner.getNextActions(gameState, {} as any, {})
+    expect(result.shouldAct).toBe(false)
+    expect(result.actions).toEqual([])
+  })
+
+  it('lets crops grow inside a plan so planting and harvesting beats waiting', () => {
+    const gameState = ConfigurationManager.initializeGameState()
+    gameState.resources.energy.current = 100
+    gameState.resources.water.current = 20
+    gameState.resources.seeds = new Map([['carrot', 1]])
+    gameState.time.totalMinutes = 7 * 60
+
+    const planner = new LookaheadPlanner(undefined, new SeededRandom(1))
+    const result = planner.getNextActions(gameState, ConfigurationManager.createDefaultParameters(), gameData)
+
+    expect(result.actions[0]?.type).toBe('plant')
+    expect(result.reasoning[0].factors.some(step => step.startsWith('harvest'))).toBe(true)
+    expect(result.reasoning[0].score).toBeGreaterThan(LookaheadPlanner.evaluate(gameState))
+  })
+})
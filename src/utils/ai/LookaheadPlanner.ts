@@ -0,0 +1,200 @@
+// LookaheadPlanner - Beam search decision engine
+// Plays candidate action sequences forward on cloned game states and commits to the best first move
+
+import { DecisionEngine } from './DecisionEngine'
+import { ActionRouter } from '../ActionRouter'
+import { StateManager } from '../state'
+import { SystemTicker } from '../systems/SystemTicker'
+import { SupportSystemManager } from '../systems/support/SupportSystemManager'
+import { AdventureSystem } from '../systems/core/AdventureSystem'
+import { SeededRandom } from '../random'
+import type { GameState, GameAction, AllParameters, SimplePersona } from '../../types'
+import type { DecisionResult, IDecisionEngine } from './types/DecisionTypes'
+
+/**
+ * Search budget for one decision
+ */
+export interface LookaheadOptions {
+  horizon: number       // Actions deep each plan goes
+  beamWidth: number     // Plans kept after each step
+  branchFactor: number  // Best-scoring candidates expanded per plan
+  stepMinutes: number   // Game time that passes after each planned action
+}
+
+export const DEFAULT_LOOKAHEAD_OPTIONS: LookaheadOptions = {
+  horizon: 3,
+  beamWidth: 4,
+  branchFactor: 4,
+  stepMinutes: 15
+}
+
+/**
+ * One partial plan in the beam
+ */
+interface PlanNode {
+  state: GameState
+  firstAction: GameAction | null   // null = the plan starts by waiting
+  steps: string[]
+  invested: number                 // Gold turned into upgrades along the way
+  value: number
+}
+
+// Spending gold on an upgrade is worth more than keeping it - the premium is what makes a plan buy at all
+const UPGRADE_PREMIUM = 1.25
+const UPGRADE_ACTIONS = new Set<GameAction['type']>(['purchase', 'build', 'craft', 'train', 'train_helper', 'buy_shortcut'])
+
+/**
+ * Expert-player engine - same check-ins, candidates and filters as the greedy engine, but plans before acting
+ */
+export class LookaheadPlanner extends DecisionEngine implements IDecisionEngine {
+  private readonly options: LookaheadOptions
+  private readonly router = new ActionRouter()
+
+  constructor(persona?: SimplePersona, rng: SeededRandom = new SeededRandom(), options: Partial<LookaheadOptions> = {}) {
+    super(persona, rng)
+    this.options = { ...DEFAULT_LOOKAHEAD_OPTIONS, ...options }
+  }
+
+  getNextActions(gameState: GameState, parameters: AllParameters, gameDataStore: any): DecisionResult {
+    if (!this.shouldHeroActNow(gameState, this.getLastCheckinTime())) {
+      return { actions: [], urgency: 'low', reasoning: [], shouldAct: false }
+    }
+    this.updateLastCheckin(gameState)
+
+    const candidates = this.generateCandidates(gameState, parameters, gameDataStore)
+    if (candidates.length === 0) {
+      this.recordTrace(gameState, 'lookahead', [], [])
+      return { actions: [], urgency: 'low', reasoning: [], shouldAct: true }
+    }
+
+    // Forward simulation rolls dice and touches AdventureSystem's enemy rolls - put both back afterwards
+    const rngState = this.rng.getState()
+    const enemyRolls = new Map(AdventureSystem.getActiveEnemyRolls())
+    let best: PlanNode | null
+    try {
+      best = this.search(gameState, candidates, parameters, gameDataStore)
+    } finally {
+      this.rng.setState(rngState)
+      AdventureSystem.restoreEnemyRolls(enemyRolls)
+    }
+
+    // Traced with their heuristic scores - the plan value decides, but these say how each candidate looked
+    const heuristicScores = candidates.map(action => this.actionScorer.scoreAction(action, gameState, this.personaStrategy))
+    this.recordTrace(gameState, 'lookahead', heuristicScores, best?.firstAction ? [best.firstAction] : [])
+
+    if (!best?.firstAction) {
+      console.log(`🔭 LOOKAHEAD: Waiting is the best plan (${best?.steps.join(' → ') || 'no plan'})`)
+      return { actions: [], urgency: 'low', reasoning: [], shouldAct: true }
+    }
+
+    const action = best.firstAction
+    console.log(`🔭 LOOKAHEAD: ${best.steps.join(' → ')} (value ${Math.round(best.value)})`)
+    return {
+      actions: [action],
+      urgency: 'normal',
+      reasoning: [{
+        action: `${action.type} (${action.target || action.id})`,
+        score: Math.round(best.value),
+        reason: `Best of ${this.options.beamWidth} plans over ${this.options.horizon} steps`,
+        factors: best.steps
+      }],
+      shouldAct: true
+    }
+  }
+
+  /**
+   * Beam search - expand every plan by its best candidates (and by waiting), keep the most valuable
+   */
+  private search(gameState: GameState, rootCandidates: GameAction[], parameters: AllParameters, gameDataStore: any): PlanNode | null {
+    const root: PlanNode = { state: gameState, firstAction: null, steps: [], invested: 0, value: 0 }
+    let beam: PlanNode[] = [root]
+
+    for (let depth = 0; depth < this.options.horizon; depth++) {
+      const expanded: PlanNode[] = []
+
+      for (const node of beam) {
+        const candidates = depth === 0
+          ? rootCandidates
+          : this.generateCandidates(node.state, parameters, gameDataStore, false)
+
+        for (const action of this.pickBranches(node.state, candidates)) {
+          const child = this.simulate(node, action, depth === 0, gameDataStore)
+          if (child) expanded.push(child)
+        }
+        expanded.push(this.simulate(node, null, depth === 0, gameDataStore)!)
+      }
+
+      expanded.sort((a, b) => b.value - a.value)
+      beam = expanded.slice(0, this.options.beamWidth)
+    }
+
+    return beam[0] ?? null
+  }
+
+  /**
+   * Candidates worth simulating - the heuristic scorer's top picks
+   */
+  private pickBranches(gameState: GameState, candidates: GameAction[]): GameAction[] {
+    return candidates
+      .map(action => this.actionScorer.scoreAction(action, gameState, this.personaStrategy))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.options.branchFactor)
+      .map(scored => candidates.find(action => action.id === scored.id)!)
+  }
+
+  /**
+   * Apply an action (or a wait, when null) to a copy of the plan's state and let time pass
+   * Crops grow, crafts finish and the mine drains energy exactly as they would in the run
+   */
+  private simulate(node: PlanNode, action: GameAction | null, isFirst: boolean, gameDataStore: any): PlanNode | null {
+    const state = structuredClone(node.state) as GameState
+    let invested = node.invested
+
+    if (action) {
+      if (!SupportSystemManager.validateAction(action, state).valid) return null
+      const goldBefore = state.resources.gold
+      const result = this.router.route(action, state)
+      if (!result.success) return null
+      if (UPGRADE_ACTIONS.has(action.type)) {
+        invested += Math.max(0, goldBefore - state.resources.gold) * UPGRADE_PREMIUM
+      }
+    }
+
+    const deltaTime = Math.max(this.options.stepMinutes, action?.duration ?? 0)
+    const stateManager = new StateManager(state)
+    stateManager.updateTime(deltaTime)
+    stateManager.addLocationTime(deltaTime)
+    SystemTicker.tick(state, deltaTime, gameDataStore)
+
+    return {
+      state,
+      firstAction: isFirst ? action : node.firstAction,
+      steps: [...node.steps, action ? `${action.type} ${action.target || action.id}` : 'wait'],
+      invested,
+      value: LookaheadPlanner.evaluate(state) + invested
+    }
+  }
+
+  /**
+   * Progress measured in gold - what the expert is trying to maximise
+   */
+  static evaluate(state: GameState): number {
+    const progression = state.progression
+    const sum = (values: Iterable<number>) => Array.from(values).reduce((total, value) => total + value, 0)
+    const growingCrops = state.processes.crops.filter(crop => crop.cropId && !crop.isWithered)
+
+    return state.resources.gold
+      + progression.farmPlots * 50
+      + progression.heroLevel * 200 + progression.experience
+      + progression.completedCleanups.size * 20
+      + progression.completedAdventures.length * 50
+      + progression.builtStructures.size * 150
+      + progression.unlockedUpgrades.length * 100
+      + (state.inventory.tools.size + state.inventory.weapons.size + state.inventory.blueprints.size) * 100
+      + sum(state.resources.seeds.values()) * 2
+      + sum(state.resources.materials.values()) * 5
+      + growingCrops.length * 10 + growingCrops.filter(crop => crop.readyToHarvest).length * 5
+      + state.resources.energy.current * 0.5
+      + state.resources.water.current * 0.1
+  }
+}
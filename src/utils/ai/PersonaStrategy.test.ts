@@ -0,0 +1,36 @@
+// PersonaStrategy tests
+// Custom personas turn their fields into check-in cadence and action scores
+
+import { describe, it, expect } from 'vitest'
+import type { GameAction, SimplePersona } from '@/types'
+import { PersonaStrategyFactory, ParametricPersonaStrategy } from '@/utils/ai/PersonaStrategy'
+import { createTestGameState } from '@/tests/fixtures'
+
+describe('ParametricPersonaStrategy - Custom Personas', () => {
+  it('derives check-in cadence and action scores from the persona fields', () => {
+    const base: SimplePersona = {
+      id: 'custom-1', name: 'Miner', description: '', icon: 'fa-user', color: '#6b7280',
+      efficiency: 0.9, riskTolerance: 0.5, optimization: 0.9, learningRate: 0.5,
+      weekdayCheckIns: 3, weekendCheckIns: 3, avgSessionLength: 30, isPreset: false,
+      systemPreferences: { mine: 2, farm: 0.5 }
+    }
+    const dawdler: SimplePersona = { ...base, id: 'custom-2', efficiency: 0.2, optimization: 0.2, systemPreferences: { farm: 2 } }
+
+    const miner = PersonaStrategyFactory.create(base)
+    const other = PersonaStrategyFactory.create(dawdler)
+    expect(miner).toBeInstanceOf(ParametricPersonaStrategy)
+
+    // Efficient min-maxers fit more actions into a session
+    const gameState = createTestGameState()
+    expect(miner.getMinCheckinInterval(gameState)).toBeLessThan(other.getMinCheckinInterval(gameState))
+
+    const mine = { id: 'm', type: 'mine', screen: 'mine', duration: 10, energyCost: 0, goldCost: 0, prerequisites: [], expectedRewards: {} } as GameAction
+    const plant = { ...mine, id: 'p', type: 'plant', screen: 'farm' } as GameAction
+    const toMine = { ...mine, id: 'mv', type: 'move', screen: 'farm', toScreen: 'mine' } as GameAction
+
+    expect(miner.adjustActionScore(mine, 100, gameState)).toBeGreaterThan(miner.adjustActionScore(plant, 100, gameState))
+    expect(other.adjustActionScore(plant, 100, gameState)).toBeGreaterThan(other.adjustActionScore(mine, 100, gameState))
+    // Heading for a favoured screen counts too
+    expect((miner as ParametricPersonaStrategy).getSystemWeight(toMine)).toBe(2)
+  })
+})
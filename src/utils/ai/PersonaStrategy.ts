@@ -1,10 +1,44 @@
 // PersonaStrategy - Persona-based AI Behavior Patterns
 // Phase 9D Implementation
 
-import type { GameState, SimplePersona } from '../../types'
+import type { GameState, SimplePersona, PersonaSystem } from '../../types'
 import type { ActionDecision, IPersonaStrategy } from './types/DecisionTypes'
 import type { GameAction } from '../../types'
 
+/**
+ * Which game system each action type belongs to - moves count towards the screen they head for
+ */
+const ACTION_SYSTEMS: Partial<Record<GameAction['type'], PersonaSystem>> = {
+  plant: 'farm',
+  water: 'farm',
+  pump: 'farm',
+  harvest: 'farm',
+  cleanup: 'farm',
+  catch_seeds: 'tower',
+  purchase: 'town',
+  build: 'town',
+  sell_material: 'town',
+  adventure: 'adventure',
+  craft: 'forge',
+  stoke: 'forge',
+  mine: 'mine',
+  buy_shortcut: 'mine',
+  rescue: 'helpers',
+  train: 'helpers',
+  assign_role: 'helpers',
+  train_helper: 'helpers'
+}
+
+/**
+ * System an action counts towards - null for waits and menu moves
+ */
+export function getActionSystem(action: GameAction): PersonaSystem | null {
+  if (action.type === 'move') {
+    return action.toScreen && action.toScreen !== 'menu' ? action.toScreen : null
+  }
+  return ACTION_SYSTEMS[action.type] ?? null
+}
+
 /**
  * Base persona strategy with common behavior
  */
@@ -279,6 +313,66 @@ export class WeekendWarriorStrategy extends BasePersonaStrategy {
   }
 }
 
+/**
+ * Parametric strategy - driven entirely by the persona's fields, so custom personas differ from each other
+ */
+export class ParametricPersonaStrategy extends BasePersonaStrategy {
+  shouldCheckIn(currentTime: number, lastCheckIn: number, gameState: GameState): boolean {
+    if (!this.checkBaseConditions(currentTime, lastCheckIn, gameState)) {
+      return false
+    }
+
+    const timeSinceLastCheckin = currentTime - lastCheckIn
+    
+    // Efficient players notice emergencies sooner
+    const emergencyInterval = this.getEmergencyInterval(gameState) * (2 - this.persona.efficiency)
+    if (timeSinceLastCheckin >= emergencyInterval) {
+      return true
+    }
+
+    return timeSinceLastCheckin >= this.getMinCheckinInterval(gameState)
+  }
+
+  getMinCheckinInterval(gameState: GameState): number {
+    // A session's length split across the actions the player fits into it - 2 for a dawdler, 10 for a min-maxer
+    const actionsPerSession = 2 + 8 * (this.persona.efficiency + this.persona.optimization) / 2
+    const sessionLength = Math.max(1, this.persona.avgSessionLength)
+    
+    // Busier days mean shorter gaps - scaled against the persona's own average day
+    const dailyCheckIns = this.getDailyCheckIns(gameState)
+    const averageCheckIns = (this.persona.weekdayCheckIns * 5 + this.persona.weekendCheckIns * 2) / 7
+    const busyness = averageCheckIns > 0 ? dailyCheckIns / averageCheckIns : 1
+    
+    return Math.max(1, Math.round(sessionLength / actionsPerSession / Math.max(busyness, 0.25)))
+  }
+
+  adjustActionScore(action: GameAction, baseScore: number, gameState: GameState): number {
+    let adjustedScore = super.adjustActionScore(action, baseScore, gameState)
+    
+    // Min-maxers invest in automation and upgrades, others put them off
+    if (action.type === 'assign_role' || action.type === 'train_helper' || action.type === 'build' || action.target?.includes('pump')) {
+      adjustedScore *= 0.8 + this.persona.optimization * 0.5
+    }
+    
+    return adjustedScore * this.getSystemWeight(action)
+  }
+
+  /**
+   * Preference weight for the system an action belongs to - 1 when unset
+   */
+  getSystemWeight(action: GameAction): number {
+    const system = getActionSystem(action)
+    const weight = system ? this.persona.systemPreferences?.[system] : undefined
+    return weight === undefined ? 1 : Math.max(0, Math.min(2, weight))
+  }
+
+  private getDailyCheckIns(gameState: GameState): number {
+    // Day 1 is a Monday, as in the session scheduler's default calendar
+    const isWeekend = (gameState.time.day - 1) % 7 >= 5
+    return isWeekend ? this.persona.weekendCheckIns : this.persona.weekdayCheckIns
+  }
+}
+
 /**
  * Factory for creating persona strategies
  */
@@ -292,8 +386,8 @@ export class PersonaStrategyFactory {
       case 'weekend-warrior':
         return new WeekendWarriorStrategy(persona)
       default:
-        // Default to casual for unknown personas
-        return new CasualPlayerStrategy(persona)
+        // Custom personas from the PersonaBuilder
+        return new ParametricPersonaStrategy(persona)
     }
   }
 }
@@ -0,0 +1,97 @@
+// ScriptedPlayer tests
+// Replay scripts play their due steps and report the ones the game refuses
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import { ScriptedPlayer } from '@/utils/ai/ScriptedPlayer'
+import { SimulationOrchestrator } from '@/utils/orchestration/SimulationOrchestrator'
+import { buildGoldenConfig } from '@/utils/headless/GoldenRun'
+import { BalanceTables } from '@/utils/systems/support/BalanceTables'
+import { gameData, createTestGameState } from '@/tests/fixtures'
+
+beforeAll(() => BalanceTables.load(gameData))
+
+describe('ScriptedPlayer - Player Replay', () => {
+  it('plays due steps one action per tick and reports the ones the game refuses', () => {
+    const items: Record<string, any> = { blueprint_hoe: { id: 'blueprint_hoe', goldCost: 100, prerequisites: [] } }
+    const gameDataStore = { getItemById: (id: string) => items[id] ?? null }
+    const gameState = createTestGameState()
+    gameState.resources.gold = 75
+    const player = new ScriptedPlayer([
+      { day: 2, time: '08:00', ai: true },
+      { day: 1, time: '06:30', actions: [{ type: 'move', target: 'town' }, { type: 'purchase', target: 'blueprint_hoe' }] }
+    ])
+
+    expect(ScriptedPlayer.timeOf({ day: 2, time: '08:00' })).toBe(1560)
+    expect(() => ScriptedPlayer.timeOf({ day: 1, time: '8am' })).toThrow()
+
+    gameState.time.totalMinutes = 30
+    const move = player.getNextActions(gameState, {} as any, gameDataStore)
+    expect(move.actions.map(action => [action.type, action.toScreen])).toEqual([['move', 'town']])
+
+    // The move went through - the purchase is checked against the town, and the hero cannot afford it
+    gameState.location.currentScreen = 'town'
+    gameState.time.totalMinutes = 31
+    const purchase = player.getNextActions(gameState, {} as any, gameDataStore)
+    expect(purchase.actions).toEqual([])
+    expect(purchase.shouldAct).toBe(false)
+    expect(player.getErrors()).toEqual([
+      { day: 1, time: '06:30', action: 'purchase blueprint_hoe', errors: ['Insufficient gold: need 100, have 75'] }
+    ])
+    expect(player.getNextCheckinTime(gameState, 24 * 60 * 2)).toBe(1560)
+  })
+
+  it('plays each step at its own time in a calendar run, outside the persona\'s sessions', () => {
+    const config = buildGoldenConfig('casual')
+    config.quickSetup.script = [
+      { day: 1, time: '08:00', actions: [{ type: 'move', target: 'town' }] },
+      { day: 1, time: '09:00', actions: [{ type: 'move', target: 'farm' }] }
+    ]
+    const orchestrator = new SimulationOrchestrator(config, gameData)
+
+    // The casual persona's first session starts after both steps
+    const played: Array<[string | undefined, number]> = []
+    while (orchestrator.getGameState().time.totalMinutes < 240) {
+      const tick = orchestrator.tick()
+      played.push(...tick.executedActions.map(action => [action.toScreen, tick.gameState.time.totalMinutes] as [string | undefined, number]))
+    }
+
+    expect(played).toEqual([['town', ScriptedPlayer.timeOf({ day: 1, time: '08:00' })], ['farm', ScriptedPlayer.timeOf({ day: 1, time: '09:00' })]])
+    expect(orchestrator.getScriptErrors()).toEqual([])
+  })
+
+  it('resumes a checkpointed replay where it stopped, queued actions included', () => {
+    const script = [
+      { day: 1, time: '08:00', actions: [{ type: 'move' as const, target: 'town' }] },
+      { day: 1, time: '09:00', actions: [{ type: 'move' as const, target: 'farm' }, { type: 'move' as const, target: 'tower' }] }
+    ]
+    const config = buildGoldenConfig('casual')
+    config.quickSetup.script = script
+    const source = new SimulationOrchestrator(config, gameData)
+    while (source.tick().executedActions.length === 0) { /* play up to the first step */ }
+
+    const checkpoint = JSON.parse(JSON.stringify(source.createCheckpoint()))
+    expect(checkpoint.script).toMatchObject({ nextStep: 1, queue: [], aiActive: false })
+    const resumed = new SimulationOrchestrator(config, gameData)
+    resumed.restoreCheckpoint(checkpoint)
+    const played: Array<string | undefined> = []
+    while (resumed.getGameState().time.totalMinutes < 180) {
+      played.push(...resumed.tick().executedActions.map(action => action.toScreen))
+    }
+    expect(played).toEqual(['farm'])
+
+    // The tower move is still queued behind the walk to the farm
+    const player = new ScriptedPlayer(script)
+    player.restoreCursor(JSON.parse(JSON.stringify(resumed.createCheckpoint().script)))
+    expect(player.getCursor()).toMatchObject({ nextStep: 2, queue: [{ step: 1, action: { type: 'move', target: 'tower' } }] })
+
+    // ...and plays once the hero reaches the farm
+    const arrivesAt = resumed.getGameState().location.arrivesAt!
+    expect(arrivesAt).toBeGreaterThan(181)
+    while (resumed.getGameState().time.totalMinutes < arrivesAt + 5) {
+      played.push(...resumed.tick().executedActions.map(action => action.toScreen))
+    }
+    expect(played).toEqual(['farm', 'tower'])
+    expect(resumed.getScriptErrors()).toEqual([])
+  })
+})
+
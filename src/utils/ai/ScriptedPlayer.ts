@@ -0,0 +1,180 @@
+// ScriptedPlayer - Player replay decision engine
+// Plays a designer's hand-written path of timestamped actions and reports the steps the game would not allow
+
+import { DecisionEngine } from './DecisionEngine'
+import { ActionValidator } from '../execution/ActionValidator'
+import { SessionPlanner } from './SessionPlanner'
+import { SessionScheduler } from '../orchestration/SessionScheduler'
+import { SeededRandom } from '../random'
+import type { GameState, GameAction, AllParameters, SimplePersona, ScriptStep, ScriptedAction, ScriptStepError } from '../../types'
+import type { DecisionResult, IDecisionEngine } from './types/DecisionTypes'
+
+/**
+ * Script step resolved to a point in time
+ */
+interface TimedStep extends ScriptStep {
+  at: number
+}
+
+/**
+ * Replay position, saved in checkpoints - queued actions point at their step by its index in time order
+ */
+export interface ScriptCursor {
+  nextStep: number
+  queue: Array<{ step: number; action: ScriptedAction }>
+  aiActive: boolean
+  errors: ScriptStepError[]
+}
+
+/**
+ * Replays a script - steps play once their time comes, 'ai' steps hand over to the greedy engine until the next step
+ */
+export class ScriptedPlayer extends DecisionEngine implements IDecisionEngine {
+  private readonly steps: TimedStep[]
+  private readonly validator = new ActionValidator()
+  private readonly errors: ScriptStepError[] = []
+  private queue: Array<{ step: TimedStep; action: ScriptedAction }> = []
+  private nextStep = 0
+  private aiActive = false
+
+  constructor(script: ScriptStep[], persona?: SimplePersona, rng: SeededRandom = new SeededRandom()) {
+    super(persona, rng)
+    // Stable sort - steps at the same time keep their written order
+    this.steps = script
+      .map(step => ({ ...step, at: ScriptedPlayer.timeOf(step) }))
+      .sort((a, b) => a.at - b.at)
+  }
+
+  /**
+   * Point in time a step is due - throws on a malformed clock time
+   */
+  static timeOf(step: ScriptStep): number {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(step.time ?? '')
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59 || !(step.day >= 1)) {
+      throw new Error(`Invalid script step time: day ${step.day} '${step.time}' (expected day >= 1 and HH:MM)`)
+    }
+    return SessionScheduler.minuteOf(step.day, Number(match[1]) * 60 + Number(match[2]))
+  }
+
+  getNextActions(gameState: GameState, parameters: AllParameters, gameDataStore: any): DecisionResult {
+    const now = gameState.time.totalMinutes
+    while (this.nextStep < this.steps.length && this.steps[this.nextStep].at <= now) {
+      const step = this.steps[this.nextStep++]
+      this.aiActive = step.ai === true
+      this.queue.push(...(step.actions ?? []).map(action => ({ step, action })))
+      console.log(`📜 SCRIPT: Day ${step.day} ${step.time} - ${step.actions?.length ?? 0} actions${step.ai ? ', then the AI plays' : ''}`)
+    }
+
+    // A hero on the road acts once they arrive - the queue waits for them
+    if (this.queue.length > 0 && (gameState.location.arrivesAt ?? 0) > now) {
+      return { actions: [], urgency: 'normal', reasoning: [], shouldAct: false }
+    }
+
+    // One scripted action per tick, so each is validated against the state the previous one left
+    while (this.queue.length > 0) {
+      const { step, action: scripted } = this.queue.shift()!
+      const action = ScriptedPlayer.buildAction(scripted, gameState, gameDataStore, parameters)
+      const label = `${action.type} ${action.target ?? action.toScreen ?? ''}`.trim()
+      const validation = this.validator.validate(action, { gameState, parameters, gameDataStore, timestamp: now })
+
+      if (!validation.isValid) {
+        console.warn(`📜 SCRIPT: Day ${step.day} ${step.time} ${label} is invalid - ${validation.errors.join(', ')}`)
+        this.errors.push({ day: step.day, time: step.time, action: label, errors: validation.errors })
+        continue
+      }
+      return {
+        actions: [action],
+        urgency: 'normal',
+        reasoning: [{ action: label, score: 0, reason: `Scripted for day ${step.day} ${step.time}`, factors: [] }],
+        shouldAct: true
+      }
+    }
+
+    if (this.aiActive) {
+      return super.getNextActions(gameState, parameters, gameDataStore)
+    }
+    return { actions: [], urgency: 'low', reasoning: [], shouldAct: false }
+  }
+
+  /**
+   * Arrival for queued actions, the next scripted step within the horizon, or the AI's next check-in while it has control
+   */
+  getNextCheckinTime(gameState: GameState, horizon: number): number | null {
+    const now = gameState.time.totalMinutes
+    if (this.queue.length > 0) {
+      return Math.max(gameState.location.arrivesAt ?? 0, now + 1)
+    }
+    const step = this.steps[this.nextStep]
+    const scripted = step && step.at - now <= horizon ? Math.max(step.at, now + 1) : null
+    const ai = this.aiActive ? super.getNextCheckinTime(gameState, horizon) : null
+
+    if (scripted === null) return ai
+    return ai === null ? scripted : Math.min(scripted, ai)
+  }
+
+  /**
+   * A step is due or its actions are still queued - calendar runs play it even outside the persona's sessions
+   */
+  hasDueStep(now: number): boolean {
+    return this.queue.length > 0 || (this.nextStep < this.steps.length && this.steps[this.nextStep].at <= now)
+  }
+
+  /**
+   * Time the next unplayed step is due - null once the script is played through
+   */
+  getNextStepTime(): number | null {
+    return this.steps[this.nextStep]?.at ?? null
+  }
+
+  /**
+   * Where the replay stands - for checkpoints
+   */
+  getCursor(): ScriptCursor {
+    return {
+      nextStep: this.nextStep,
+      queue: this.queue.map(({ step, action }) => ({ step: this.steps.indexOf(step), action: { ...action } })),
+      aiActive: this.aiActive,
+      errors: this.errors.map(error => ({ ...error }))
+    }
+  }
+
+  /**
+   * Continue the replay from a checkpoint taken with the same script
+   */
+  restoreCursor(cursor: ScriptCursor): void {
+    this.nextStep = cursor.nextStep
+    this.queue = cursor.queue.map(({ step, action }) => ({ step: this.steps[step], action: { ...action } }))
+    this.aiActive = cursor.aiActive
+    this.errors.splice(0, this.errors.length, ...cursor.errors)
+  }
+
+  /**
+   * Steps the game refused, in the order they came up
+   */
+  getErrors(): ScriptStepError[] {
+    return this.errors
+  }
+
+  /**
+   * Fill in what the script left out - the hero acts where they stand, costs come from the target's game data
+   * Moves take the travel time between the screens when the parameters are known
+   */
+  static buildAction(scripted: ScriptedAction, gameState: GameState, gameDataStore: any, parameters?: AllParameters): GameAction {
+    const item = scripted.target ? gameDataStore.getItemById?.(scripted.target) : null
+    const toScreen = scripted.type === 'move' ? (scripted.toScreen ?? scripted.target as GameAction['toScreen']) : scripted.toScreen
+    const travel = toScreen && parameters ? SessionPlanner.travelMinutes(gameState.location.currentScreen, toScreen, parameters) : 1
+
+    return {
+      id: `script_${scripted.type}_${scripted.target ?? toScreen ?? 'none'}_${gameState.time.totalMinutes}`,
+      screen: gameState.location.currentScreen,
+      duration: scripted.type === 'move' && Number.isFinite(travel) ? travel : 1,
+      energyCost: item?.energyCost ?? 0,
+      goldCost: item?.goldCost ?? 0,
+      materialCosts: item?.materialsCost,
+      prerequisites: item?.prerequisites ?? [],
+      expectedRewards: {},
+      ...scripted,
+      toScreen
+    }
+  }
+}
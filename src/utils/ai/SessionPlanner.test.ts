@@ -0,0 +1,69 @@
+// SessionPlanner tests
+// Session routes within the persona's budget, travel time and arriving before acting
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import type { GameState, GameAction } from '@/types'
+import { SimulationOrchestrator } from '@/utils/orchestration/SimulationOrchestrator'
+import { buildGoldenConfig } from '@/utils/headless/GoldenRun'
+import { SessionPlanner } from '@/utils/ai/SessionPlanner'
+import { ScreenTimeTracker } from '@/utils/ScreenTimeTracker'
+import { BalanceTables } from '@/utils/systems/support/BalanceTables'
+import { gameData } from '@/tests/fixtures'
+
+beforeAll(() => BalanceTables.load(gameData))
+
+describe('SessionPlanner - Session Time Budget', () => {
+  it('routes a session through the screens within the persona budget and counts only active screen time', () => {
+    const parameters: any = {
+      decisions: { sessions: { timeBudget: true, travelMinutes: new Map([['farm-tower', 1], ['tower-town', 3], ['town-forge', 1], ['town-adventure', 3], ['forge-mine', 2]]) } }
+    }
+    const scored = (type: GameAction['type'], screen: GameAction['screen'], duration: number, score: number): any =>
+      ({ id: `${type}_${screen}`, type, screen, duration, energyCost: 0, goldCost: 0, prerequisites: [], expectedRewards: {}, score, factors: [], reasoning: '' })
+
+    expect(SessionPlanner.travelMinutes('farm', 'forge', parameters)).toBe(5)
+    expect(SessionPlanner.travelMinutes('mine', 'tower', parameters)).toBe(6)
+    expect(SessionPlanner.heroMinutes(scored('craft', 'forge', 30, 1))).toBe(1)
+
+    const candidates = new Map<any, any[]>([
+      ['farm', [scored('harvest', 'farm', 2, 50), scored('water', 'farm', 1, 10)]],
+      ['tower', [scored('catch_seeds', 'tower', 5, 80)]],
+      ['town', [scored('purchase', 'town', 1, 120)]],
+      ['forge', [scored('craft', 'forge', 30, 40)]]
+    ])
+    const plan = SessionPlanner.plan('farm', 15, candidates, parameters)
+    expect(plan.route).toEqual(['farm', 'tower', 'town', 'forge'])
+    expect(plan.steps.map(step => [step.offset, step.action.type, step.action.duration])).toEqual([
+      [0, 'harvest', 2], [2, 'water', 1], [3, 'move', 1], [4, 'catch_seeds', 5],
+      [9, 'move', 3], [12, 'purchase', 1], [13, 'move', 1], [14, 'craft', 30]
+    ])
+    expect(plan.minutes).toBe(15)
+    expect(SessionPlanner.plan('farm', 5, candidates, parameters).route).toEqual(['farm'])
+
+    // Play the plan - travel counts for no screen, and nothing counts while the hero is away
+    const tracker = new ScreenTimeTracker('farm', 0)
+    tracker.changeScreen('tower', 3, 1)
+    tracker.changeScreen('town', 9, 3)
+    tracker.changeScreen('forge', 13, 1)
+    tracker.updateCurrentTime(40, 15)
+    tracker.updateCurrentTime(100, 105)
+
+    expect(tracker.getAllScreenStats(103).map(stats => stats.currentTime)).toEqual([3, 5, 1, 0, 4, 0, 0])
+    expect(tracker.getTrends(103)).toMatchObject({ sessionDuration: 18, travelTime: 5 })
+    expect(tracker.getScreenStats('farm', 103).percentage).toBe(16.7)
+  })
+
+  it('holds the hero\'s actions until a move has arrived', () => {
+    const orchestrator = new SimulationOrchestrator(buildGoldenConfig('casual', 1), gameData)
+    const gameState = orchestrator.getGameState() as GameState
+    const now = gameState.time.totalMinutes
+    const move = SessionPlanner.moveAction('farm', 'tower', 3)
+    const wait: GameAction = { id: 'wait_1', type: 'wait', screen: 'tower', duration: 1, energyCost: 0, goldCost: 0, prerequisites: [], expectedRewards: {} }
+
+    const { executedActions } = (orchestrator as any).executeActions([move, wait])
+    expect(executedActions.map((action: GameAction) => action.type)).toEqual(['move'])
+    expect(gameState.location.arrivesAt).toBe(now + 3)
+
+    gameState.time.totalMinutes = now + 3
+    expect((orchestrator as any).executeActions([wait]).executedActions).toHaveLength(1)
+  })
+})
@@ -0,0 +1,172 @@
+// SessionPlanner - Check-ins as a time budget
+// Routes the hero through the screens worth visiting and fills each stop with its best actions until the persona's session length is used up
+
+import type { GameAction, GameScreen, AllParameters } from '../../types'
+import type { ScoredAction } from './types/DecisionTypes'
+
+/**
+ * One planned step - offset is minutes after the session starts
+ */
+export interface SessionStep {
+  offset: number
+  action: GameAction
+}
+
+export interface SessionPlan {
+  steps: SessionStep[]
+  route: GameScreen[]   // Screens in the order visited, the starting screen first
+  minutes: number       // Hero time used, travel included
+  score: number
+}
+
+/**
+ * Route search and travel times - pure functions of the candidates and the parameters
+ */
+export class SessionPlanner {
+  static readonly MAX_STOPS = 3          // Screens visited after the starting one
+  static readonly ROUTE_CANDIDATES = 4   // Most promising screens the route is chosen from
+
+  /**
+   * Processes that run without the hero - starting one takes a minute, then the hero moves on
+   */
+  static readonly UNATTENDED_ACTIONS: ReadonlySet<GameAction['type']> = new Set(['adventure', 'craft', 'mine', 'train', 'train_helper'])
+
+  /**
+   * Minutes between two screens - the shortest walk over the configured routes, Infinity if none connects them
+   * Without configured routes every screen is a minute away
+   */
+  static travelMinutes(from: string, to: string, parameters: AllParameters): number {
+    if (from === to) return 0
+    const edges = SessionPlanner.edgesOf(parameters)
+    if (edges.length === 0) return 1
+
+    const distance = new Map<string, number>([[from, 0]])
+    const open = new Set<string>([from])
+    while (open.size > 0) {
+      const screen = [...open].reduce((a, b) => distance.get(a)! <= distance.get(b)! ? a : b)
+      open.delete(screen)
+      if (screen === to) return distance.get(screen)!
+
+      for (const [a, b, minutes] of edges) {
+        const next = a === screen ? b : b === screen ? a : null
+        if (next === null) continue
+        const via = distance.get(screen)! + minutes
+        if (via < (distance.get(next) ?? Infinity)) {
+          distance.set(next, via)
+          open.add(next)
+        }
+      }
+    }
+    return Infinity
+  }
+
+  /**
+   * Minutes of the hero's session an action takes up
+   */
+  static heroMinutes(action: Pick<GameAction, 'type' | 'duration'>): number {
+    if (action.type === 'move') return Math.max(0, action.duration)
+    if (SessionPlanner.UNATTENDED_ACTIONS.has(action.type)) return 1
+    return Math.max(1, action.duration)
+  }
+
+  /**
+   * Best route within the budget - candidates holds each reachable screen's scored actions, best first
+   * A session never comes out empty while the starting screen has something to do
+   */
+  static plan(start: GameScreen, budget: number, candidates: Map<GameScreen, ScoredAction[]>, parameters: AllParameters): SessionPlan {
+    const stops = [...candidates.entries()]
+      .filter(([screen, actions]) => screen !== start && actions.length > 0 && Number.isFinite(SessionPlanner.travelMinutes(start, screen, parameters)))
+      .sort((a, b) => b[1][0].score - a[1][0].score)
+      .slice(0, SessionPlanner.ROUTE_CANDIDATES)
+      .map(([screen]) => screen)
+
+    // Shorter routes come first, so a tie keeps the hero walking less
+    let best = SessionPlanner.walk(start, [], budget, candidates, parameters)
+    for (const route of SessionPlanner.orderings(stops, SessionPlanner.MAX_STOPS)) {
+      const plan = SessionPlanner.walk(start, route, budget, candidates, parameters)
+      if (plan.score > best.score) best = plan
+    }
+
+    const first = candidates.get(start)?.[0]
+    if (best.steps.length === 0 && first) {
+      return { steps: [{ offset: 0, action: first as GameAction }], route: [start], minutes: SessionPlanner.heroMinutes(first as GameAction), score: first.score }
+    }
+    return best
+  }
+
+  /**
+   * Walk from one screen to another - takes the travel time
+   */
+  static moveAction(from: GameScreen, to: GameScreen, minutes: number): GameAction {
+    return {
+      id: `session_move_${to}_${Date.now()}`,
+      type: 'move',
+      screen: from,
+      target: to,
+      toScreen: to,
+      description: `Session route to ${to}`,
+      duration: minutes,
+      energyCost: 0,
+      goldCost: 0,
+      prerequisites: [],
+      expectedRewards: {}
+    }
+  }
+
+  // Play a route - travel between stops, then each stop's best actions that still fit
+  private static walk(start: GameScreen, route: GameScreen[], budget: number, candidates: Map<GameScreen, ScoredAction[]>, parameters: AllParameters): SessionPlan {
+    const plan: SessionPlan = { steps: [], route: [start], minutes: 0, score: 0 }
+    const planned = new Set<string>()   // Helper and emergency actions come up on every screen - play them once
+    let here = start
+
+    for (const stop of [start, ...route]) {
+      if (stop !== here) {
+        const travel = SessionPlanner.travelMinutes(here, stop, parameters)
+        if (plan.minutes + travel >= budget) break
+        plan.steps.push({ offset: plan.minutes, action: SessionPlanner.moveAction(here, stop, travel) })
+        plan.route.push(stop)
+        plan.minutes += travel
+        here = stop
+      }
+
+      for (const action of candidates.get(stop) ?? []) {
+        const key = `${action.type}:${action.target ?? ''}`
+        const minutes = SessionPlanner.heroMinutes(action as GameAction)
+        if (action.type === 'move' || action.score <= 0 || planned.has(key) || plan.minutes + minutes > budget) continue
+
+        planned.add(key)
+        plan.steps.push({ offset: plan.minutes, action: action as GameAction })
+        plan.minutes += minutes
+        plan.score += action.score
+      }
+    }
+    return plan
+  }
+
+  // Every ordered selection of 1..maxLength screens
+  private static orderings(screens: GameScreen[], maxLength: number): GameScreen[][] {
+    const result: GameScreen[][] = []
+    const extend = (prefix: GameScreen[]) => {
+      if (prefix.length > 0) result.push(prefix)
+      if (prefix.length === maxLength) return
+      for (const screen of screens) {
+        if (!prefix.includes(screen)) extend([...prefix, screen])
+      }
+    }
+    extend([])
+    return result.sort((a, b) => a.length - b.length)
+  }
+
+  // Configured routes as [screen, screen, minutes] - overrides read from JSON hold a plain object
+  private static edgesOf(parameters: AllParameters): Array<[string, string, number]> {
+    const travelMinutes = parameters.decisions?.sessions?.travelMinutes
+    if (!travelMinutes) return []
+    const entries = travelMinutes instanceof Map ? [...travelMinutes.entries()] : Object.entries(travelMinutes as Record<string, number>)
+    return entries
+      .filter(([, minutes]) => Number.isFinite(minutes) && minutes >= 0)
+      .map(([key, minutes]) => {
+        const [a, b] = key.split('-')
+        return [a, b, minutes] as [string, string, number]
+      })
+  }
+}
@@ -2,9 +2,21 @@
 // Exports for the extracted AI decision-making system
 
 export { DecisionEngine } from './DecisionEngine'
-export { PersonaStrategyFactory, SpeedrunnerStrategy, CasualPlayerStrategy, WeekendWarriorStrategy } from './PersonaStrategy'
+export { LookaheadPlanner, DEFAULT_LOOKAHEAD_OPTIONS } from './LookaheadPlanner'
+export type { LookaheadOptions } from './LookaheadPlanner'
+export { PersonaStrategyFactory, SpeedrunnerStrategy, CasualPlayerStrategy, WeekendWarriorStrategy, ParametricPersonaStrategy, getActionSystem } from './PersonaStrategy'
 export { ActionScorer } from './ActionScorer'
 export { ActionFilter } from './ActionFilter'
+export { LearningModel } from './LearningModel'
+export { GoalPlanner } from './GoalPlanner'
+export { DecisionTraceRecorder } from './DecisionTraceRecorder'
+export { ScriptedPlayer } from './ScriptedPlayer'
+export { ActionValueModel } from './ActionValueModel'
+export { SessionPlanner } from './SessionPlanner'
+export type { SessionPlan, SessionStep } from './SessionPlanner'
+export type { WhyNotEntry } from './DecisionTraceRecorder'
+export type { GoalPlan, GoalStep, GoalStepKind } from './GoalPlanner'
+export type { LearningState } from './LearningModel'
 
 // Export types
 export type {
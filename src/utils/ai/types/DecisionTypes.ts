@@ -32,6 +32,7 @@ export interface DecisionResult {
   reasoning: DecisionReasoning[]
   shouldAct: boolean
   nextCheckinTime?: number
+  ranked?: GameAction[]     // Every valid candidate, best first - actions is its head
 }
 
 /**
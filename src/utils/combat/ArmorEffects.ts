@@ -1,6 +1,9 @@
 // ArmorEffects - Phase 8M Simple Armor Effect Implementation
 // Handles armor special effects with straightforward trigger mechanics
 
+import { SeededRandom } from '../random'
+import { BalanceTables } from '../systems/support/BalanceTables'
+
 // Local type definitions for combat-related types
 export type ArmorEffect = 
   | 'none'
@@ -20,6 +23,9 @@ export interface Enemy {
   type?: string
 }
 
+/**
+ * Proc numbers for one armor effect - armor_effects.csv, read through BalanceTables
+ */
 export interface ArmorEffectData {
   chance?: number           // Proc chance (0-1)
   healAmount?: number       // HP to heal
@@ -29,52 +35,6 @@ export interface ArmorEffectData {
   maxTriggersPerWave?: number // Max effects per wave
 }
 
-/**
- * Armor effect configurations with simple implementations
- */
-export const ARMOR_EFFECTS: Record<ArmorEffect, ArmorEffectData> = {
-  'none': {},
-  
-  'Reflection': {
-    chance: 0.15,              // 15% chance
-    reflectPercent: 0.30,      // Reflect 30% damage back
-    damageReduction: 0.30      // Take 70% damage when reflecting
-  },
-  
-  'Evasion': {
-    chance: 0.10,              // 10% chance
-    damageReduction: 1.0       // Complete dodge (0% damage taken)
-  },
-  
-  'Gold Magnet': {
-    goldMultiplier: 1.25       // +25% gold from adventure
-  },
-  
-  'Regeneration': {
-    healAmount: 3              // Heal 3 HP between waves
-  },
-  
-  'Type Resist': {
-    chance: 0.25,              // 25% of enemies (simplified)
-    damageReduction: 0.40      // 40% less damage from type
-  },
-  
-  'Speed Boost': {
-    // +20% attack speed after taking damage (effect applied in next combat)
-    // Simplified: just track that it was triggered
-  },
-  
-  'Critical Shield': {
-    chance: 0.20,              // 20% chance (simplified from "first hit per wave")
-    damageReduction: 1.0       // Absorb attack completely
-  },
-  
-  'Vampiric': {
-    healAmount: 1,             // Heal 1 HP per kill
-    maxTriggersPerWave: 5      // Max 5 HP per wave
-  }
-}
-
 export interface ArmorEffectResult {
   damageReduction: number    // How much to reduce incoming damage (0-1)
   healAmount: number         // HP to heal
@@ -87,6 +47,16 @@ export interface ArmorEffectResult {
  * Handler for armor special effects
  */
 export class ArmorEffectHandler {
+  /** Source for effect proc rolls (set by AdventureSystem.setRandom) */
+  private static rng: SeededRandom = new SeededRandom()
+
+  /**
+   * Use a seeded PRNG for proc chances
+   */
+  static setRandom(rng: SeededRandom): void {
+    ArmorEffectHandler.rng = rng
+  }
+
   /**
    * Apply armor effect during combat (when taking damage)
    * @param armorEffect Type of armor effect
@@ -106,11 +76,11 @@ export class ArmorEffectHandler {
       effectTriggered: ''
     }
 
-    const effectData = ARMOR_EFFECTS[armorEffect]
+    const effectData = BalanceTables.armorEffects[armorEffect]
     if (!effectData) return result
 
     // Check if effect triggers (random chance)
-    const shouldTrigger = !effectData.chance || Math.random() < effectData.chance
+    const shouldTrigger = !effectData.chance || ArmorEffectHandler.rng.next() < effectData.chance
 
     if (!shouldTrigger) return result
 
@@ -160,7 +130,7 @@ export class ArmorEffectHandler {
     }
 
     if (armorEffect === 'Regeneration') {
-      const effectData = ARMOR_EFFECTS['Regeneration']
+      const effectData = BalanceTables.armorEffects['Regeneration']
       result.healAmount = effectData.healAmount || 0
       result.effectTriggered = `💚 Regeneration: +${result.healAmount} HP between waves`
     }
@@ -183,7 +153,7 @@ export class ArmorEffectHandler {
     }
 
     if (armorEffect === 'Vampiric') {
-      const effectData = ARMOR_EFFECTS['Vampiric']
+      const effectData = BalanceTables.armorEffects['Vampiric']
       const maxHealing = effectData.maxTriggersPerWave || 5
 
       if (killsThisWave < maxHealing) {
@@ -210,7 +180,7 @@ export class ArmorEffectHandler {
     }
 
     if (armorEffect === 'Gold Magnet') {
-      const effectData = ARMOR_EFFECTS['Gold Magnet']
+      const effectData = BalanceTables.armorEffects['Gold Magnet']
       const multiplier = effectData.goldMultiplier || 1
       result.goldBonus = Math.floor(baseGold * (multiplier - 1))
       result.effectTriggered = `💰 Gold Magnet: +${result.goldBonus} bonus gold`
@@ -1,6 +1,8 @@
 // BossQuirks - Phase 8M Simplified Boss Challenge System
 // Implements straightforward penalties/bonuses instead of complex combat simulations
 
+import { BalanceTables } from '../systems/support/BalanceTables'
+
 // Local type definitions for combat-related types
 export type WeaponType = 'sword' | 'axe' | 'bow' | 'staff' | 'dagger' | 'spear' | 'wand'
 export type BossType = 
@@ -17,10 +19,19 @@ export interface ArmorData {
   effect?: string
 }
 
+/**
+ * One boss's challenge - boss_challenges.csv, read through BalanceTables
+ * Penalties are shares of the hero's max HP and apply unless the counter weapon or armor effect is brought
+ */
 export interface BossChallenge {
   description: string
   implementation: string
   encourages: string
+  bonusDamage: number          // Extra damage to deal (share of max HP)
+  durationMultiplier: number   // Combat duration multiplier
+  unavoidableDamage: number    // Direct HP loss (share of max HP)
+  counterWeapon?: string       // Weapon that removes the penalties
+  counterArmor?: string        // Armor effect that removes the penalties
 }
 
 export interface BossPenalties {
@@ -29,53 +40,6 @@ export interface BossPenalties {
   unavoidableDamage: number // Direct HP loss (as % of max HP)
 }
 
-/**
- * Simplified boss challenges that encourage specific gear choices
- */
-export const BOSS_CHALLENGES: Record<BossType, BossChallenge> = {
-  'Giant Slime': {
-    description: 'Splits into minions at 50% HP',
-    implementation: 'Add 50% more total damage to deal',
-    encourages: 'High defense armor'
-  },
-  
-  'Beetle Lord': {
-    description: 'Hard shell reduces non-weakness damage',
-    implementation: 'Takes 2x normal time without spear',
-    encourages: 'Spear weapon requirement'
-  },
-  
-  'Alpha Wolf': {
-    description: 'Summons wolf cubs during fight',
-    implementation: 'Add 30% more incoming damage',
-    encourages: 'Reflection armor or high DPS'
-  },
-  
-  'Sky Serpent': {
-    description: 'Goes aerial periodically',
-    implementation: 'Without bow, take 20% unavoidable damage',
-    encourages: 'Bow weapon requirement'
-  },
-  
-  'Crystal Spider': {
-    description: 'Web traps disable weapons',
-    implementation: 'Add 15% combat duration penalty',
-    encourages: 'High defense to survive disabled periods'
-  },
-  
-  'Frost Wyrm': {
-    description: 'Gains armor at low HP',
-    implementation: 'Last 50% HP takes 2x longer without wand',
-    encourages: 'Wand for late phase'
-  },
-  
-  'Lava Titan': {
-    description: 'Constant burn damage',
-    implementation: 'Fixed 10% HP loss over adventure',
-    encourages: 'Regeneration armor'
-  }
-}
-
 /**
  * Calculate boss-specific penalties based on equipment
  */
@@ -100,50 +64,13 @@ export class BossQuirkHandler {
       unavoidableDamage: 0
     }
 
-    switch (bossType) {
-      case 'Giant Slime':
-        // Add 50% more total damage to deal
-        penalties.bonusDamage = maxHP * 0.5
-        break
+    const challenge = BalanceTables.bossChallenges[bossType]
+    const hasCounterGear = !!(challenge?.counterWeapon || challenge?.counterArmor) && this.hasCounter(bossType, weapons, armor)
+    if (!challenge || hasCounterGear) return penalties
 
-      case 'Beetle Lord':
-        // Takes 2x normal time without spear
-        if (!weapons.has('spear')) {
-          penalties.durationMultiplier = 2.0
-        }
-        break
-
-      case 'Alpha Wolf':
-        // Add 30% more incoming damage
-        penalties.bonusDamage = maxHP * 0.3
-        break
-
-      case 'Sky Serpent':
-        // Without bow, take 20% unavoidable damage
-        if (!weapons.has('bow')) {
-          penalties.unavoidableDamage = maxHP * 0.2
-        }
-        break
-
-      case 'Crystal Spider':
-        // Add 15% combat duration penalty
-        penalties.durationMultiplier = 1.15
-        break
-
-      case 'Frost Wyrm':
-        // Last 50% HP takes 2x longer without wand
-        if (!weapons.has('wand')) {
-          penalties.durationMultiplier = 1.5 // Simplified to overall duration increase
-        }
-        break
-
-      case 'Lava Titan':
-        // Fixed 10% HP loss without regeneration armor
-        if (armor?.effect !== 'Regeneration') {
-          penalties.unavoidableDamage = maxHP * 0.1
-        }
-        break
-    }
+    penalties.bonusDamage = maxHP * challenge.bonusDamage
+    penalties.durationMultiplier = challenge.durationMultiplier
+    penalties.unavoidableDamage = maxHP * challenge.unavoidableDamage
 
     return penalties
   }
@@ -152,7 +79,7 @@ export class BossQuirkHandler {
    * Get human-readable description of boss challenge and counter-strategy
    */
   static getChallenge(bossType: BossType): BossChallenge {
-    return BOSS_CHALLENGES[bossType]
+    return BalanceTables.bossChallenges[bossType]
   }
 
   /**
@@ -163,29 +90,17 @@ export class BossQuirkHandler {
     weapons: Map<WeaponType, any>, 
     armor: ArmorData | null
   ): boolean {
-    switch (bossType) {
-      case 'Beetle Lord':
-        return weapons.has('spear')
-      case 'Sky Serpent':
-        return weapons.has('bow')
-      case 'Frost Wyrm':
-        return weapons.has('wand')
-      case 'Lava Titan':
-        return armor?.effect === 'Regeneration'
-      case 'Giant Slime':
-      case 'Alpha Wolf':
-      case 'Crystal Spider':
-        return true // No specific weapon requirement, defense/armor dependent
-      default:
-        return true
-    }
+    const challenge = BalanceTables.bossChallenges[bossType]
+    if (challenge?.counterWeapon) return weapons.has(challenge.counterWeapon as WeaponType)
+    if (challenge?.counterArmor) return armor?.effect === challenge.counterArmor
+    return true // No specific weapon requirement, defense/armor dependent
   }
 
   /**
    * Get recommendation for handling specific boss
    */
   static getRecommendation(bossType: BossType): string {
-    const challenge = BOSS_CHALLENGES[bossType]
+    const challenge = BalanceTables.bossChallenges[bossType]
     return `${challenge.description} - ${challenge.encourages}`
   }
 }
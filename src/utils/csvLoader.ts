@@ -20,7 +20,7 @@ export interface CSVLoadProgress {
 /**
  * Parse materials string format like "Stone x5" or "Wood x20;Iron x5"
  */
-function parseMaterials(materialsStr: string): MaterialCost | undefined {
+export function parseMaterials(materialsStr: string): MaterialCost | undefined {
   if (!materialsStr || materialsStr.trim() === '') return undefined
   
   const materials: MaterialCost = {}
@@ -43,7 +43,7 @@ function parseMaterials(materialsStr: string): MaterialCost | undefined {
 /**
  * Parse prerequisites string (semicolon-separated)
  */
-function parsePrerequisites(prereqStr: string): string[] {
+export function parsePrerequisites(prereqStr: string): string[] {
   if (!prereqStr || prereqStr.trim() === '') return []
   return prereqStr.split(';').map(p => p.trim()).filter(p => p.length > 0)
 }
@@ -68,7 +68,7 @@ function parseBoolean(boolStr: string): boolean | undefined {
 /**
  * Parse numeric string with fallback to undefined
  */
-function parseNumber(numStr: string): number | undefined {
+export function parseNumber(numStr: string): number | undefined {
   if (!numStr || numStr.trim() === '') return undefined
   const num = Number(numStr.trim())
   return isNaN(num) ? undefined : num
@@ -121,6 +121,12 @@ function processCSVRow(row: CSVGameDataRow, fileMetadata: CSVFileMetadata): Game
     depthRange: row.depth_range || undefined,
     effectPerLevel: parseNumber(row.effectPerLevel),
     
+    baseEnergyPerMin: parseNumber(row.base_energy_per_min),
+    rawMaterialsPer30Sec: row.raw_materials_per_30sec || undefined,
+    shortcutPrerequisite: row.shortcut_prerequisite || undefined,
+    shortcutGold: parseNumber(row.shortcut_gold),
+    shortcutEnergy: parseNumber(row.shortcut_energy),
+    
     plotsAdded: parseNumber(row.plots_added),
     totalPlots: parseNumber(row.total_plots),
     toolRequired: row.tool_required || undefined,
@@ -132,6 +138,51 @@ function processCSVRow(row: CSVGameDataRow, fileMetadata: CSVFileMetadata): Game
   return item
 }
 
+/**
+ * Parse unified-schema CSV text into GameDataItems
+ * Shared by the browser fetch loader and the headless disk loader
+ */
+export function parseCSVText(csvText: string, fileMetadata: CSVFileMetadata): CSVLoadResult {
+  // Parse CSV
+  const parseResult = Papa.parse<CSVGameDataRow>(csvText, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => header.trim()
+  })
+  
+  if (parseResult.errors.length > 0) {
+    return {
+      success: false,
+      data: [],
+      errors: parseResult.errors.map(err => `Parse error in ${fileMetadata.filename}: ${err.message}`),
+      filename: fileMetadata.filename
+    }
+  }
+  
+  // Process rows into GameDataItems
+  const items: GameDataItem[] = []
+  const errors: string[] = []
+  
+  for (let i = 0; i < parseResult.data.length; i++) {
+    const row = parseResult.data[i]
+    try {
+      const item = processCSVRow(row, fileMetadata)
+      if (item) {
+        items.push(item)
+      }
+    } catch (error) {
+      errors.push(`Error processing row ${i + 1} in ${fileMetadata.filename}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+  
+  return {
+    success: true,
+    data: items,
+    errors,
+    filename: fileMetadata.filename
+  }
+}
+
 /**
  * Load and parse a single CSV file
  */
@@ -153,45 +204,7 @@ export async function loadCSVFile(fileMetadata: CSVFileMetadata): Promise<CSVLoa
     }
     
     const csvText = await response.text()
-    
-    // Parse CSV
-    const parseResult = Papa.parse<CSVGameDataRow>(csvText, {
-      header: true,
-      skipEmptyLines: true,
-      transformHeader: (header) => header.trim()
-    })
-    
-    if (parseResult.errors.length > 0) {
-      return {
-        success: false,
-        data: [],
-        errors: parseResult.errors.map(err => `Parse error in ${fileMetadata.filename}: ${err.message}`),
-        filename: fileMetadata.filename
-      }
-    }
-    
-    // Process rows into GameDataItems
-    const items: GameDataItem[] = []
-    const errors: string[] = []
-    
-    for (let i = 0; i < parseResult.data.length; i++) {
-      const row = parseResult.data[i]
-      try {
-        const item = processCSVRow(row, fileMetadata)
-        if (item) {
-          items.push(item)
-        }
-      } catch (error) {
-        errors.push(`Error processing row ${i + 1} in ${fileMetadata.filename}: ${error instanceof Error ? error.message : String(error)}`)
-      }
-    }
-    
-    return {
-      success: true,
-      data: items,
-      errors,
-      filename: fileMetadata.filename
-    }
+    return parseCSVText(csvText, fileMetadata)
     
   } catch (error) {
     return {
@@ -284,6 +297,41 @@ export interface SpecializedCSVResult {
   rowCount: number
 }
 
+/**
+ * Parse specialized CSV text into raw row records
+ * Shared by the browser fetch loader and the headless disk loader
+ */
+export function parseSpecializedCSVText(csvText: string, fileMetadata: CSVFileMetadata): SpecializedCSVResult {
+  // Parse CSV with PapaParse
+  const parseResult = Papa.parse(csvText, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header: string) => header.trim(),
+    transform: (value: string) => value.trim()
+  })
+  
+  if (parseResult.errors.length > 0) {
+    console.warn(`Parse warnings for ${fileMetadata.filename}:`, parseResult.errors)
+  }
+  
+  const rawData = parseResult.data as Record<string, any>[]
+  
+  // Filter out completely empty rows and clean up data
+  const cleanData = rawData.filter(row => {
+    const hasData = Object.values(row).some(value => 
+      value !== null && value !== undefined && String(value).trim() !== ''
+    )
+    return hasData
+  })
+  
+  return {
+    success: true,
+    filename: fileMetadata.filename,
+    data: cleanData,
+    rowCount: cleanData.length
+  }
+}
+
 export async function loadSpecializedCSVFile(fileMetadata: CSVFileMetadata): Promise<SpecializedCSVResult> {
   try {
     // Determine the full path based on category
@@ -303,35 +351,7 @@ export async function loadSpecializedCSVFile(fileMetadata: CSVFileMetadata): Pro
     }
     
     const csvText = await response.text()
-    
-    // Parse CSV with PapaParse
-    const parseResult = Papa.parse(csvText, {
-      header: true,
-      skipEmptyLines: true,
-      transformHeader: (header: string) => header.trim(),
-      transform: (value: string) => value.trim()
-    })
-    
-    if (parseResult.errors.length > 0) {
-      console.warn(`Parse warnings for ${fileMetadata.filename}:`, parseResult.errors)
-    }
-    
-    const rawData = parseResult.data as Record<string, any>[]
-    
-    // Filter out completely empty rows and clean up data
-    const cleanData = rawData.filter(row => {
-      const hasData = Object.values(row).some(value => 
-        value !== null && value !== undefined && String(value).trim() !== ''
-      )
-      return hasData
-    })
-    
-    return {
-      success: true,
-      filename: fileMetadata.filename,
-      data: cleanData,
-      rowCount: cleanData.length
-    }
+    return parseSpecializedCSVText(csvText, fileMetadata)
   } catch (error) {
     return {
       success: false,
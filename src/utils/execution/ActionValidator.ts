@@ -4,6 +4,7 @@
 import type { GameAction, GameState } from '../../types'
 import type { ValidationResult, ExecutionContext } from './types/ActionResult'
 import { PrerequisiteSystem } from '../systems/support/PrerequisiteSystem'
+import { MineSystem } from '../systems/core/MineSystem'
 import { validationService } from '../validation'
 import { CSVDataParser } from '../CSVDataParser'
 
@@ -99,6 +100,9 @@ export class ActionValidator {
       case 'mine':
         this.validateMineAction(action, context, errors, warnings)
         break
+      case 'buy_shortcut':
+        this.validateShortcutAction(action, context, errors, warnings)
+        break
       case 'assign_role':
         this.validateAssignHelperAction(action, context, errors, warnings)
         break
@@ -398,6 +402,17 @@ export class ActionValidator {
     }
   }
 
+  private validateShortcutAction(action: GameAction, context: ExecutionContext, errors: string[], warnings: string[]): void {
+    if (context.gameState.location.currentScreen !== 'mine') {
+      errors.push('Must be at mine to buy a shortcut')
+    }
+
+    const blocker = MineSystem.getShortcutBlocker(context.gameState, action.target ?? '')
+    if (blocker) {
+      errors.push(blocker)
+    }
+  }
+
   private validateAssignHelperAction(action: GameAction, context: ExecutionContext, errors: string[], warnings: string[]): void {
     if (!action.target) {
       errors.push('Assign helper action requires helper ID and role')
@@ -0,0 +1,115 @@
+// BatchRunner - Monte Carlo batch of seeded HeadlessRunner replicas
+// Runs one SimulationConfig N times with consecutive seeds and aggregates the reports
+
+import { HeadlessRunner, type HeadlessRunOptions } from './HeadlessRunner'
+import { ReportGenerator } from '../ReportGenerator'
+import { BatchAnalyzer } from '../BatchAnalyzer'
+import { SeededRandom } from '../random'
+import type { SimulationConfig } from '@/types'
+import type { SimulationResult, AnalysisReport, BatchReport } from '@/types/reports'
+
+/**
+ * Runs replica configs to results, in config order - calls onResult as each one finishes
+ */
+export type ReplicaExecutor = (
+  configs: SimulationConfig[],
+  onResult: (result: SimulationResult) => void
+) => Promise<SimulationResult[]>
+
+/**
+ * Options for a batch run
+ */
+export interface BatchRunOptions {
+  replicas: number
+  baseSeed?: number               // Replica i uses baseSeed + i (default: config seed, else random)
+  runOptions?: HeadlessRunOptions // Passed to every replica's HeadlessRunner when run inline
+  execute?: ReplicaExecutor       // Default runs the replicas inline - the UI hands them to SimulationPool workers
+  onReplicaComplete?: (progress: BatchRunProgress) => void
+}
+
+/**
+ * Progress report emitted after each replica finishes
+ */
+export interface BatchRunProgress {
+  completed: number
+  total: number
+  seed: number
+  completionReason: SimulationResult['completionReason']
+}
+
+/**
+ * Everything a batch produced - the raw replicas plus their aggregate
+ */
+export interface BatchRunResult {
+  results: SimulationResult[]
+  reports: AnalysisReport[]
+  batchReport: BatchReport
+}
+
+/**
+ * Runs N seeded replicas of one configuration and aggregates them
+ */
+export class BatchRunner {
+  private config: SimulationConfig
+  private gameDataStore: any
+  private options: BatchRunOptions
+
+  constructor(config: SimulationConfig, gameDataStore: any, options: BatchRunOptions) {
+    if (!Number.isInteger(options.replicas) || options.replicas < 1) {
+      throw new Error('BatchRunner needs at least one replica')
+    }
+    this.config = config
+    this.gameDataStore = gameDataStore
+    this.options = options
+  }
+
+  /**
+   * Run every replica and aggregate them into a batch report
+   */
+  async run(): Promise<BatchRunResult> {
+    const baseSeed = this.options.baseSeed ?? this.config.seed ?? SeededRandom.generateSeed()
+    const configs = Array.from({ length: this.options.replicas }, (_, replica): SimulationConfig => ({
+      ...this.config,
+      id: `${this.config.id}_r${replica + 1}`,
+      seed: SeededRandom.normalizeSeed(baseSeed + replica)
+    }))
+
+    let completed = 0
+    const execute = this.options.execute ?? ((replicaConfigs, onResult) => this.runInline(replicaConfigs, onResult))
+    const results = await execute(configs, result => {
+      completed++
+      this.options.onReplicaComplete?.({
+        completed,
+        total: this.options.replicas,
+        seed: result.seed,
+        completionReason: result.completionReason
+      })
+    })
+
+    const reportGenerator = new ReportGenerator(this.gameDataStore)
+    const reports: AnalysisReport[] = []
+    for (const result of results) {
+      reports.push(await reportGenerator.generateReport(result))
+    }
+
+    return {
+      results,
+      reports,
+      batchReport: new BatchAnalyzer().analyze({ ...this.config, seed: baseSeed }, results, reports)
+    }
+  }
+
+  /**
+   * Run the replicas back to back on this thread, yielding between runs
+   */
+  private async runInline(configs: SimulationConfig[], onResult: (result: SimulationResult) => void): Promise<SimulationResult[]> {
+    const results: SimulationResult[] = []
+    for (const config of configs) {
+      const result = new HeadlessRunner(config, this.gameDataStore, this.options.runOptions).run()
+      results.push(result)
+      onResult(result)
+      await new Promise(resolve => setTimeout(resolve, 0))
+    }
+    return results
+  }
+}
@@ -0,0 +1,180 @@
+// GoldenRun - Fixed-seed balance regression runs
+// Runs each preset persona on a pinned config and compares key outcomes against stored golden files
+
+import { HeadlessRunner } from './HeadlessRunner'
+import { createPresetPersonas } from '@/stores/personas'
+import type { QuickSetup, SimulationConfig } from '@/types'
+import type { SimulationResult } from '@/types/reports'
+
+export type GoldenPersonaId = Exclude<QuickSetup['personaId'], 'custom'>
+
+export const GOLDEN_PERSONAS: GoldenPersonaId[] = ['speedrunner', 'casual', 'weekend-warrior']
+export const GOLDEN_SEED = 1234
+export const GOLDEN_MAX_DAYS = 35
+
+/**
+ * How far a fresh run may drift from its golden before the regression fails
+ */
+export interface GoldenTolerances {
+  days: number        // Completion, final and phase transition days
+  heroLevel: number
+  farmPlots: number
+  goldRatio: number   // Relative, e.g. 0.1 = ±10%
+  goldMin: number     // Absolute floor so tiny balances don't fail on a few coins
+  actionsRatio: number  // Relative, at least one action either way
+}
+
+export const DEFAULT_GOLDEN_TOLERANCES: GoldenTolerances = {
+  days: 1,
+  heroLevel: 1,
+  farmPlots: 2,
+  goldRatio: 0.1,
+  goldMin: 50,
+  actionsRatio: 0.1
+}
+
+/**
+ * Key outcomes of one golden run - what gets checked in as JSON
+ */
+export interface GoldenOutcome {
+  personaId: GoldenPersonaId
+  seed: number
+  maxDays: number
+  completionReason: SimulationResult['completionReason']
+  completionDay: number | null
+  finalDay: number
+  phaseTransitionDays: Record<string, number>   // Phase name -> first day it was reached
+  heroLevel: number
+  farmPlots: number
+  gold: number
+  actions: number      // Actions the hero carried out
+}
+
+export interface GoldenFile {
+  outcome: GoldenOutcome
+  tolerances: GoldenTolerances
+}
+
+/**
+ * Pinned config for a persona - independent of CLI and UI defaults so those can change freely
+ */
+export function buildGoldenConfig(personaId: GoldenPersonaId, seed: number = GOLDEN_SEED): SimulationConfig {
+  const createdAt = '2025-01-01T00:00:00.000Z'
+  return {
+    id: `golden_${personaId}`,
+    createdAt,
+    lastModified: createdAt,
+    quickSetup: {
+      name: `Golden ${personaId}`,
+      personaId,
+      // The first level-up is the furthest a hero gets on the starting energy - harvests give none back yet
+      // A two-week stall window lets the once-a-day personas get there
+      duration: {
+        mode: 'fixed',
+        maxDays: GOLDEN_MAX_DAYS,
+        bottleneckThreshold: 14,
+        victoryConditions: [{ id: 'golden_first_level', type: 'hero_level', value: 2 }]
+      },
+      scheduling: 'calendar',
+      startWeekday: 0,
+      timeSkipping: true,
+      dataSource: 'current',
+      enableParameterOverrides: false,
+      generateDetailedLogs: false
+    },
+    seed,
+    // Past the tutorial start - with no water and 3 energy the hero cannot pump, so nothing would ever happen
+    parameterOverrides: new Map<string, any>([
+      ['farm.initialState.water', 20],
+      ['farm.initialState.energy', 100],
+      ['farm.initialState.unlockedLandStages', ['farm', 'tower', 'town']]
+    ]),
+    persona: createPresetPersonas().get(personaId),
+    isValid: true,
+    validationErrors: []
+  }
+}
+
+/**
+ * Run one persona's golden config against a loaded game data store
+ */
+export function runGolden(personaId: GoldenPersonaId, gameDataStore: any, seed: number = GOLDEN_SEED): GoldenOutcome {
+  const result = new HeadlessRunner(buildGoldenConfig(personaId, seed), gameDataStore, {
+    maxDays: GOLDEN_MAX_DAYS
+  }).run()
+  return summarizeGoldenOutcome(personaId, result)
+}
+
+/**
+ * Reduce a full result to the outcomes a balance change should move
+ */
+export function summarizeGoldenOutcome(personaId: GoldenPersonaId, result: SimulationResult): GoldenOutcome {
+  const history = result.gameStateHistory
+  const finalState = history[history.length - 1]
+
+  const phaseTransitionDays: Record<string, number> = {}
+  for (const state of history) {
+    const phase = state.progression.currentPhase
+    if (phaseTransitionDays[phase] === undefined) {
+      phaseTransitionDays[phase] = state.time.day
+    }
+  }
+
+  return {
+    personaId,
+    seed: result.seed,
+    maxDays: GOLDEN_MAX_DAYS,
+    completionReason: result.completionReason,
+    completionDay: result.completionDay,
+    finalDay: finalState?.time.day ?? 0,
+    phaseTransitionDays,
+    heroLevel: finalState?.progression.heroLevel ?? 0,
+    farmPlots: finalState?.progression.farmPlots ?? 0,
+    gold: Math.round(finalState?.resources.gold ?? 0),
+    actions: result.actionHistory.length
+  }
+}
+
+/**
+ * Every way a fresh outcome falls outside its golden - empty when the run still matches
+ */
+export function compareGoldenOutcome(
+  golden: GoldenOutcome,
+  actual: GoldenOutcome,
+  tolerances: GoldenTolerances = DEFAULT_GOLDEN_TOLERANCES
+): string[] {
+  const mismatches: string[] = []
+  const within = (label: string, expected: number, value: number, tolerance: number) => {
+    if (Math.abs(value - expected) > tolerance) {
+      mismatches.push(`${label}: expected ${expected} ±${tolerance}, got ${value}`)
+    }
+  }
+
+  if (actual.completionReason !== golden.completionReason) {
+    mismatches.push(`completionReason: expected ${golden.completionReason}, got ${actual.completionReason}`)
+  }
+  if ((golden.completionDay === null) !== (actual.completionDay === null)) {
+    mismatches.push(`completionDay: expected ${golden.completionDay}, got ${actual.completionDay}`)
+  } else if (golden.completionDay !== null && actual.completionDay !== null) {
+    within('completionDay', golden.completionDay, actual.completionDay, tolerances.days)
+  }
+  within('finalDay', golden.finalDay, actual.finalDay, tolerances.days)
+
+  const phases = new Set([...Object.keys(golden.phaseTransitionDays), ...Object.keys(actual.phaseTransitionDays)])
+  for (const phase of phases) {
+    const expected = golden.phaseTransitionDays[phase]
+    const value = actual.phaseTransitionDays[phase]
+    if (expected === undefined || value === undefined) {
+      mismatches.push(`phase ${phase}: expected ${expected ?? 'never reached'}, got ${value ?? 'never reached'}`)
+    } else {
+      within(`phase ${phase}`, expected, value, tolerances.days)
+    }
+  }
+
+  within('heroLevel', golden.heroLevel, actual.heroLevel, tolerances.heroLevel)
+  within('farmPlots', golden.farmPlots, actual.farmPlots, tolerances.farmPlots)
+  within('gold', golden.gold, actual.gold, Math.max(tolerances.goldMin, Math.round(golden.gold * tolerances.goldRatio)))
+  within('actions', golden.actions, actual.actions, Math.max(1, Math.round(golden.actions * tolerances.actionsRatio)))
+
+  return mismatches
+}
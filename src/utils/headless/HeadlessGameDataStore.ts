@@ -0,0 +1,143 @@
+// HeadlessGameDataStore - Headless stand-in for useGameDataStore
+// Loads the CSVs under public/Data from disk so the orchestrator can run without a browser
+
+import { readFileSync, existsSync } from 'node:fs'
+import { join } from 'node:path'
+import { CSV_FILE_LIST } from '@/types/csv-data'
+import type { CSVFileMetadata } from '@/types/csv-data'
+import type { GameDataItem } from '@/types/game-data'
+import { parseCSVText, parseSpecializedCSVText } from '@/utils/csvLoader'
+
+/**
+ * Result of loading the CSV data directory from disk
+ */
+export interface HeadlessDataLoadResult {
+  store: HeadlessGameDataStore
+  loadedFiles: number
+  totalFiles: number
+  errors: string[]
+}
+
+/**
+ * Read-only game data store with the same lookup surface the simulation
+ * systems use from the Pinia store (and the worker's plain-object copy)
+ */
+export class HeadlessGameDataStore {
+  readonly items: GameDataItem[]
+  readonly allItems: GameDataItem[]
+  readonly itemsByGameFeature: Record<string, GameDataItem[]>
+  readonly itemsByCategory: Record<string, GameDataItem[]>
+  readonly itemsByType: Record<string, GameDataItem[]>
+  readonly itemsByFile: Record<string, GameDataItem[]>
+  private readonly itemsById: Map<string, GameDataItem>
+  private readonly specializedData: Record<string, Record<string, any>[]>
+
+  constructor(items: GameDataItem[], specializedData: Record<string, Record<string, any>[]> = {}) {
+    this.items = items
+    this.allItems = items
+    this.specializedData = specializedData
+    this.itemsById = new Map(items.map(item => [item.id, item]))
+    this.itemsByCategory = HeadlessGameDataStore.groupBy(items, item => item.category)
+    this.itemsByType = HeadlessGameDataStore.groupBy(items, item => item.type || 'unknown')
+    this.itemsByFile = HeadlessGameDataStore.groupBy(items, item => item.sourceFile)
+
+    // Initialize all game features to ensure every feature key exists, like the Pinia store
+    this.itemsByGameFeature = {}
+    for (const fileMetadata of CSV_FILE_LIST) {
+      this.itemsByGameFeature[fileMetadata.gameFeature] ??= []
+    }
+    for (const item of items) {
+      const fileMetadata = CSV_FILE_LIST.find(f => f.filename === item.sourceFile)
+      if (fileMetadata) {
+        this.itemsByGameFeature[fileMetadata.gameFeature].push(item)
+      }
+    }
+  }
+
+  /**
+   * Load every file in CSV_FILE_LIST from a data directory laid out like public/Data
+   */
+  static loadFromDirectory(dataDir: string): HeadlessDataLoadResult {
+    const items: GameDataItem[] = []
+    const specializedData: Record<string, Record<string, any>[]> = {}
+    const errors: string[] = []
+    let loadedFiles = 0
+
+    for (const fileMetadata of CSV_FILE_LIST) {
+      const csvText = HeadlessGameDataStore.readCSVFile(dataDir, fileMetadata, errors)
+      if (csvText === null) continue
+
+      if (fileMetadata.hasUnifiedSchema) {
+        const result = parseCSVText(csvText, fileMetadata)
+        items.push(...result.data)
+        errors.push(...result.errors)
+        if (result.success) loadedFiles++
+      } else {
+        const result = parseSpecializedCSVText(csvText, fileMetadata)
+        if (result.success) {
+          specializedData[fileMetadata.filename] = result.data
+          loadedFiles++
+        } else {
+          errors.push(`Failed to parse ${fileMetadata.filename}: ${result.error}`)
+        }
+      }
+    }
+
+    return {
+      store: new HeadlessGameDataStore(items, specializedData),
+      loadedFiles,
+      totalFiles: CSV_FILE_LIST.length,
+      errors
+    }
+  }
+
+  getItemById(id: string): GameDataItem | null {
+    return this.itemsById.get(id) || null
+  }
+
+  getItemsByIds(ids: string[]): GameDataItem[] {
+    return ids.map(id => this.itemsById.get(id)).filter((item): item is GameDataItem => !!item)
+  }
+
+  /**
+   * Items of one type - same lookup as useGameData's getItemsByType
+   */
+  getItemsByType(type: string): GameDataItem[] {
+    return this.itemsByType[type] || []
+  }
+
+  getSpecializedDataByFile(filename: string): Record<string, any>[] {
+    return this.specializedData[filename] || []
+  }
+
+  getSpecializedRowCount(filename: string): number {
+    return this.getSpecializedDataByFile(filename).length
+  }
+
+  private static readCSVFile(dataDir: string, fileMetadata: CSVFileMetadata, errors: string[]): string | null {
+    const fullPath = join(dataDir, fileMetadata.category, fileMetadata.filename)
+    if (!existsSync(fullPath)) {
+      errors.push(`Missing CSV file: ${fullPath}`)
+      return null
+    }
+
+    try {
+      return readFileSync(fullPath, 'utf8')
+    } catch (error) {
+      errors.push(`Failed to read ${fullPath}: ${error instanceof Error ? error.message : String(error)}`)
+      return null
+    }
+  }
+
+  private static groupBy(items: GameDataItem[], keyOf: (item: GameDataItem) => string): Record<string, GameDataItem[]> {
+    const groups: Record<string, GameDataItem[]> = {}
+    for (const item of items) {
+      const key = keyOf(item)
+      if (!groups[key]) {
+        groups[key] = []
+      }
+      groups[key].push(item)
+    }
+    return groups
+  }
+}
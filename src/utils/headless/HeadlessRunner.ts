@@ -0,0 +1,244 @@
+// HeadlessRunner - Drives SimulationOrchestrator to completion without a browser or worker
+// Mirrors the worker loop (tick until victory/bottleneck) and collects a SimulationResult
+
+import { SimulationOrchestrator } from '../orchestration/SimulationOrchestrator'
+import { SeededRandom } from '../random'
+import type { SimulationConfig, GameState, GameAction, GameEvent, StallDiagnosis, DecisionTrace, ScriptStepError } from '@/types'
+import type { SimulationResult, VictoryConditionResult, LearningCurvePoint, ActionTimelineEntry } from '@/types/reports'
+
+/**
+ * Default day cap for runs that are not in 'fixed' duration mode
+ * Matches the 'fixed' duration default in the simulation setup store
+ */
+export const DEFAULT_HEADLESS_MAX_DAYS = 35
+
+/**
+ * Options for a headless run
+ */
+export interface HeadlessRunOptions {
+  maxDays?: number                // Overrides quickSetup.duration.maxDays
+  maxTicks?: number               // Hard safety cap on orchestrator ticks
+  snapshotIntervalMinutes?: number // How often to record gameStateHistory (default: once per game day)
+  onProgress?: (progress: HeadlessRunProgress) => void
+  progressIntervalTicks?: number  // How often onProgress fires (default: every 1000 ticks)
+}
+
+/**
+ * Progress report emitted while a headless run is in flight
+ */
+export interface HeadlessRunProgress {
+  tickCount: number
+  day: number
+  totalMinutes: number
+  gold: number
+  farmPlots: number
+  heroLevel: number
+}
+
+/**
+ * Runs one SimulationConfig to completion against a game data store
+ */
+export class HeadlessRunner {
+  private config: SimulationConfig
+  private gameDataStore: any
+  private options: HeadlessRunOptions
+
+  constructor(config: SimulationConfig, gameDataStore: any, options: HeadlessRunOptions = {}) {
+    // Pin the seed up front so the result's configuration replays exactly
+    this.config = { ...config, seed: config.seed ?? SeededRandom.generateSeed() }
+    this.gameDataStore = gameDataStore
+    this.options = options
+  }
+
+  /**
+   * Tick the orchestrator until victory, bottleneck, error or the day cap
+   */
+  run(): SimulationResult {
+    const startedAt = Date.now()
+    const maxDays = this.resolveMaxDays()
+    const maxTicks = this.options.maxTicks ?? maxDays * 24 * 60 * 2
+    const snapshotInterval = this.options.snapshotIntervalMinutes ?? 24 * 60
+    const progressInterval = this.options.progressIntervalTicks ?? 1000
+
+    const gameStateHistory: GameState[] = []
+    const actionHistory: GameAction[] = []
+    const actionTimeline: ActionTimelineEntry[] = []
+    const eventHistory: GameEvent[] = []
+    const errors: string[] = []
+
+    let completionReason: SimulationResult['completionReason'] = 'max_days'
+    let completionDay: number | null = null
+    let stallDiagnosis: StallDiagnosis | undefined
+    let nextSnapshotAt = 0
+    let tickCount = 0
+
+    let orchestrator: SimulationOrchestrator
+    try {
+      orchestrator = new SimulationOrchestrator(this.config, this.gameDataStore)
+    } catch (error) {
+      return this.buildResult({
+        completionReason: 'error',
+        completionDay: null,
+        gameStateHistory,
+        actionHistory,
+        actionTimeline,
+        eventHistory,
+        errors: [error instanceof Error ? error.message : String(error)],
+        tickCount,
+        startedAt
+      })
+    }
+
+    gameStateHistory.push(this.snapshot(orchestrator.getGameState()))
+    nextSnapshotAt = snapshotInterval
+
+    while (tickCount < maxTicks) {
+      const tickResult = orchestrator.tick()
+      tickCount++
+
+      const state = tickResult.gameState
+      actionHistory.push(...tickResult.executedActions)
+      actionTimeline.push(...tickResult.executedActions.map(() => ({
+        totalMinutes: state.time.totalMinutes,
+        gold: state.resources.gold,
+        farmPlots: state.progression.farmPlots
+      })))
+      eventHistory.push(...tickResult.events.filter(event => event.importance !== 'low'))
+
+      if (state.time.totalMinutes >= nextSnapshotAt) {
+        gameStateHistory.push(this.snapshot(state))
+        nextSnapshotAt += snapshotInterval
+      }
+
+      if (this.options.onProgress && tickCount % progressInterval === 0) {
+        this.options.onProgress({
+          tickCount,
+          day: state.time.day,
+          totalMinutes: state.time.totalMinutes,
+          gold: state.resources.gold,
+          farmPlots: state.progression.farmPlots,
+          heroLevel: state.progression.heroLevel
+        })
+      }
+
+      if (tickResult.isComplete) {
+        completionReason = 'victory'
+        completionDay = state.time.day
+        break
+      }
+
+      if (state.time.day > maxDays) {
+        completionReason = 'max_days'
+        break
+      }
+
+      if (tickResult.isStuck) {
+        const errorEvent = tickResult.events.find(event => event.type === 'error')
+        if (errorEvent) {
+          completionReason = 'error'
+          errors.push(errorEvent.description)
+        } else {
+          completionReason = 'bottleneck'
+          stallDiagnosis = tickResult.stallDiagnosis
+        }
+        break
+      }
+    }
+
+    const finalState = orchestrator.getGameState()
+    gameStateHistory.push(this.snapshot(finalState))
+    const victoryConditions = orchestrator.getVictoryResults()
+    const learningCurve = orchestrator.getLearningCurve()
+    const decisionTraces = orchestrator.getDecisionTraces()
+    const scriptErrors = this.config.quickSetup?.script ? orchestrator.getScriptErrors() : undefined
+    orchestrator.destroy()
+
+    return this.buildResult({
+      completionReason,
+      completionDay,
+      gameStateHistory,
+      actionHistory,
+      actionTimeline,
+      eventHistory,
+      errors,
+      tickCount,
+      startedAt,
+      victoryConditions,
+      stallDiagnosis,
+      learningCurve,
+      decisionTraces,
+      scriptErrors
+    })
+  }
+
+  /**
+   * Resolve the day cap from options, then the config's fixed duration, then the default
+   */
+  private resolveMaxDays(): number {
+    if (this.options.maxDays !== undefined) {
+      return this.options.maxDays
+    }
+
+    const duration = this.config.quickSetup?.duration
+    if (duration?.mode === 'fixed' && duration.maxDays) {
+      return duration.maxDays
+    }
+
+    return duration?.maxDays ?? DEFAULT_HEADLESS_MAX_DAYS
+  }
+
+  /**
+   * Deep copy of the live state - Maps and Sets survive structuredClone
+   */
+  private snapshot(gameState: Readonly<GameState>): GameState {
+    return structuredClone(gameState) as GameState
+  }
+
+  private buildResult(data: {
+    completionReason: SimulationResult['completionReason']
+    completionDay: number | null
+    gameStateHistory: GameState[]
+    actionHistory: GameAction[]
+    actionTimeline: ActionTimelineEntry[]
+    eventHistory: GameEvent[]
+    errors: string[]
+    tickCount: number
+    startedAt: number
+    victoryConditions?: VictoryConditionResult[]
+    stallDiagnosis?: StallDiagnosis
+    learningCurve?: LearningCurvePoint[]
+    decisionTraces?: DecisionTrace[]
+    scriptErrors?: ScriptStepError[]
+  }): SimulationResult {
+    const elapsedMs = Math.max(Date.now() - data.startedAt, 1)
+    const nodeProcess = (globalThis as any).process
+
+    return {
+      id: `headless_${this.config.id}_${data.startedAt}`,
+      name: this.config.quickSetup?.name || this.config.id,
+      timestamp: new Date(data.startedAt),
+      configuration: this.config,
+      seed: this.config.seed!,
+      completed: data.completionReason === 'victory',
+      completionDay: data.completionDay,
+      completionReason: data.completionReason,
+      victoryConditions: data.victoryConditions,
+      stallDiagnosis: data.stallDiagnosis,
+      learningCurve: data.learningCurve,
+      decisionTraces: data.decisionTraces,
+      scriptErrors: data.scriptErrors,
+      gameStateHistory: data.gameStateHistory,
+      actionHistory: data.actionHistory,
+      actionTimeline: data.actionTimeline,
+      eventHistory: data.eventHistory,
+      performanceMetrics: {
+        avgTicksPerSecond: data.tickCount / (elapsedMs / 1000),
+        memoryUsage: nodeProcess?.memoryUsage ? nodeProcess.memoryUsage().heapUsed / 1024 / 1024 : 0,
+        cpuUsage: 0,
+        frameDrops: 0,
+        errors: data.errors
+      },
+      processedAt: new Date()
+    }
+  }
+}
@@ -0,0 +1,88 @@
+// ParameterSweepRunner tests
+// Sensitivity points, elasticities and ranking over a stubbed replica executor with known days-to-victory
+
+import { describe, it, expect } from 'vitest'
+import type { SimulationConfig } from '@/types'
+import type { PerformanceData, SimulationResult } from '@/types/reports'
+import { ParameterSweepRunner, type SweepRunProgress } from '@/utils/headless/ParameterSweepRunner'
+import type { ReplicaExecutor } from '@/utils/headless/BatchRunner'
+import { gameData, createTestGameState } from '@/tests/fixtures'
+
+const GROWTH = 'farm.cropMechanics.growthTimeMultiplier'   // Overridden to 2 below
+const CATCH = 'tower.catchMechanics.manualCatchRate'       // Default 0.8
+const WATER = 'farm.initialState.water'                    // Default 0 - no relative step
+
+describe('ParameterSweepRunner - Sensitivity', () => {
+  it('runs a low and high point per path and ranks paths by elasticity', async () => {
+    const config = {
+      id: 'sensitivity_test',
+      seed: 7,
+      quickSetup: { name: 'Sensitivity', personaId: 'casual' },
+      parameterOverrides: new Map<string, any>([[GROWTH, 2]])
+    } as SimulationConfig
+
+    // Days = 20 + 10 × growth - 5 × catch / 0.8, one day either side per replica so the point mean is exact
+    const points: Array<Map<string, any>> = []
+    const execute: ReplicaExecutor = async (configs, onResult) => {
+      points.push(configs[0].parameterOverrides!)
+      return configs.map((replica, index) => {
+        const growth = replica.parameterOverrides!.get(GROWTH) as number
+        const catchRate = (replica.parameterOverrides!.get(CATCH) as number | undefined) ?? 0.8
+        const result = {
+          id: replica.id,
+          name: replica.id,
+          timestamp: new Date(),
+          configuration: replica,
+          seed: replica.seed!,
+          completed: true,
+          completionDay: 20 + 10 * growth - 5 * catchRate / 0.8 + (index === 0 ? 1 : -1),
+          completionReason: 'victory',
+          gameStateHistory: [createTestGameState()],
+          actionHistory: [],
+          eventHistory: [],
+          performanceMetrics: { avgTicksPerSecond: 0, memoryUsage: 0, cpuUsage: 0, frameDrops: 0, errors: [] } as PerformanceData
+        } as SimulationResult
+        onResult(result)
+        return result
+      })
+    }
+
+    const progress: SweepRunProgress[] = []
+    const report = await new ParameterSweepRunner(config, gameData).runSensitivity([CATCH, GROWTH, WATER], 0.1, {
+      replicas: 2,
+      execute,
+      onPointComplete: update => progress.push(update)
+    })
+
+    // Baseline, then 10% either side of each non-zero base - the override is the base, not the default
+    expect(points).toHaveLength(5)
+    expect(points[0].has(CATCH)).toBe(false)
+    expect(points[1].get(CATCH)).toBeCloseTo(0.72, 10)
+    expect(points[2].get(CATCH)).toBeCloseTo(0.88, 10)
+    expect(points[3].get(GROWTH)).toBeCloseTo(1.8, 10)
+    expect(points[4].get(GROWTH)).toBeCloseTo(2.2, 10)
+    expect(points.every(point => !point.has(WATER))).toBe(true)
+
+    // The skipped zero-base path still counts towards progress
+    expect(progress.map(update => update.completed)).toEqual([1, 2, 3, 4, 5])
+    expect(progress.every(update => update.total === 7)).toBe(true)
+
+    // Elasticity = (Δdays / baseDays) / (Δvalue / baseValue), largest magnitude first
+    expect(report.replicas).toBe(2)
+    expect(report.entries.map(entry => entry.path)).toEqual([GROWTH, CATCH])
+    const [growth, catchRate] = report.entries
+    expect(growth).toMatchObject({ baseValue: 2, baseDays: 35 })
+    expect(growth.lowDays).toBeCloseTo(33, 10)
+    expect(growth.highDays).toBeCloseTo(37, 10)
+    expect(growth.elasticity).toBeCloseTo((4 / 35) / 0.2, 10)
+    expect(catchRate).toMatchObject({ baseValue: 0.8, baseDays: 35 })
+    expect(catchRate.lowDays).toBeCloseTo(35.5, 10)
+    expect(catchRate.highDays).toBeCloseTo(34.5, 10)
+    expect(catchRate.elasticity).toBeCloseTo((-1 / 35) / 0.2, 10)
+  })
+
+  it('refuses an empty path list', async () => {
+    const runner = new ParameterSweepRunner({ id: 'empty' } as SimulationConfig, gameData)
+    await expect(runner.runSensitivity([])).rejects.toThrow('at least one parameter path')
+  })
+})
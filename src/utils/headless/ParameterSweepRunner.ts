@@ -0,0 +1,279 @@
+// ParameterSweepRunner - Grid sweeps and one-at-a-time sensitivity over AllParameters paths
+// Each grid point is a seeded BatchRunner batch; every point reuses the same seeds so differences come from the parameter
+
+import { BatchRunner, type ReplicaExecutor } from './BatchRunner'
+import type { HeadlessRunOptions } from './HeadlessRunner'
+import { BatchAnalyzer } from '../BatchAnalyzer'
+import { ConfigurationManager } from '../orchestration/ConfigurationManager'
+import { SeededRandom } from '../random'
+import type { SimulationConfig } from '@/types'
+import type {
+  SimulationResult,
+  SweepAxis,
+  SweepPoint,
+  SweepResult,
+  SensitivityEntry,
+  SensitivityReport
+} from '@/types/reports'
+
+// Guard against accidental million-run grids from a tiny step
+const MAX_GRID_POINTS = 400
+
+/**
+ * Options shared by sweeps and sensitivity runs
+ */
+export interface SweepRunOptions {
+  replicas?: number               // Seeded replicas per point (default: 3)
+  baseSeed?: number
+  runOptions?: HeadlessRunOptions
+  execute?: ReplicaExecutor       // Runs each point's replicas - default inline, the UI uses SimulationPool workers
+  onPointComplete?: (progress: SweepRunProgress) => void
+}
+
+/**
+ * Progress report emitted after each grid point finishes
+ */
+export interface SweepRunProgress {
+  completed: number
+  total: number
+  values: Record<string, number>
+}
+
+/**
+ * Runs a configuration across parameter grids
+ */
+export class ParameterSweepRunner {
+  private config: SimulationConfig
+  private gameDataStore: any
+
+  constructor(config: SimulationConfig, gameDataStore: any) {
+    this.config = config
+    this.gameDataStore = gameDataStore
+  }
+
+  /**
+   * Run every point of a one- or two-axis grid
+   */
+  async runGrid(axes: SweepAxis[], options: SweepRunOptions = {}): Promise<SweepResult> {
+    if (axes.length < 1 || axes.length > 2) {
+      throw new Error('A sweep needs one or two axes')
+    }
+    axes.forEach(axis => ParameterSweepRunner.getBaseValue(axis.path))
+
+    const grid = ParameterSweepRunner.buildGrid(axes)
+    if (grid.length > MAX_GRID_POINTS) {
+      throw new Error(`Sweep grid has ${grid.length} points (max ${MAX_GRID_POINTS}) - increase the step`)
+    }
+
+    const replicas = options.replicas ?? 3
+    const baseSeed = options.baseSeed ?? this.config.seed ?? SeededRandom.generateSeed()
+    const points: SweepPoint[] = []
+
+    for (const values of grid) {
+      const results = await this.runPoint(values, replicas, baseSeed, options)
+      points.push(ParameterSweepRunner.summarizePoint(values, results.results, results.scores))
+      options.onPointComplete?.({ completed: points.length, total: grid.length, values })
+    }
+
+    return {
+      id: `sweep_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      generatedAt: new Date(),
+      configuration: { ...this.config, seed: baseSeed },
+      axes,
+      replicas,
+      points
+    }
+  }
+
+  /**
+   * One-at-a-time elasticity of completion days for each path, ranked most sensitive first
+   */
+  async runSensitivity(paths: string[], perturbation = 0.1, options: SweepRunOptions = {}): Promise<SensitivityReport> {
+    if (paths.length === 0) {
+      throw new Error('Sensitivity analysis needs at least one parameter path')
+    }
+
+    const replicas = options.replicas ?? 3
+    const baseSeed = options.baseSeed ?? this.config.seed ?? SeededRandom.generateSeed()
+    const total = 1 + paths.length * 2
+    let completed = 0
+    const report = (values: Record<string, number>) => {
+      completed++
+      options.onPointComplete?.({ completed, total, values })
+    }
+
+    const baseline = await this.runPoint({}, replicas, baseSeed, options)
+    const baseDays = ParameterSweepRunner.meanDays(baseline.results)
+    report({})
+
+    const entries: SensitivityEntry[] = []
+    for (const path of paths) {
+      const baseValue = this.getConfiguredValue(path)
+      if (baseValue === 0) {
+        // Elasticity is relative - a zero base has no meaningful percentage step
+        completed += 2
+        continue
+      }
+
+      const { lowValue, highValue } = ParameterSweepRunner.perturb(baseValue, perturbation)
+      const low = await this.runPoint({ [path]: lowValue }, replicas, baseSeed, options)
+      report({ [path]: lowValue })
+      const high = await this.runPoint({ [path]: highValue }, replicas, baseSeed, options)
+      report({ [path]: highValue })
+
+      const lowDays = ParameterSweepRunner.meanDays(low.results)
+      const highDays = ParameterSweepRunner.meanDays(high.results)
+      const relativeDays = baseDays > 0 ? (highDays - lowDays) / baseDays : 0
+      const relativeParam = (highValue - lowValue) / baseValue
+
+      entries.push({
+        path,
+        baseValue,
+        lowValue,
+        highValue,
+        lowDays,
+        baseDays,
+        highDays,
+        elasticity: relativeDays / relativeParam
+      })
+    }
+
+    entries.sort((a, b) => Math.abs(b.elasticity) - Math.abs(a.elasticity))
+
+    return {
+      id: `sensitivity_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      generatedAt: new Date(),
+      configuration: { ...this.config, seed: baseSeed },
+      perturbation,
+      replicas,
+      entries
+    }
+  }
+
+  // ===== GRID HELPERS =====
+
+  /**
+   * Every numeric leaf path of the default AllParameters - the candidates for sweeping
+   */
+  static listNumericPaths(): string[] {
+    const paths: string[] = []
+    const walk = (node: any, prefix: string) => {
+      for (const [key, value] of Object.entries(node)) {
+        const path = prefix ? `${prefix}.${key}` : key
+        if (typeof value === 'number') {
+          paths.push(path)
+        } else if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Map)) {
+          walk(value, path)
+        }
+      }
+    }
+    walk(ConfigurationManager.createDefaultParameters(), '')
+    return paths
+  }
+
+  /**
+   * Default value of a numeric parameter path; throws for unknown or non-numeric paths
+   */
+  static getBaseValue(path: string): number {
+    const value = ConfigurationManager.getParameterByPath(ConfigurationManager.createDefaultParameters(), path)
+    if (typeof value !== 'number') {
+      throw new Error(`Parameter path is not numeric: ${path}`)
+    }
+    return value
+  }
+
+  /**
+   * Value a path runs at under this configuration - its override if set, else the default
+   */
+  getConfiguredValue(path: string): number {
+    const base = ParameterSweepRunner.getBaseValue(path)
+    const override = this.config.parameterOverrides?.get(path)
+    const value = override && typeof override === 'object' && 'value' in override ? override.value : override
+    return typeof value === 'number' ? value : base
+  }
+
+  /**
+   * Values from min to max inclusive in step increments
+   */
+  static expandAxis(axis: SweepAxis): number[] {
+    if (!(axis.step > 0) || axis.max < axis.min) {
+      throw new Error(`Invalid sweep range for ${axis.path}: ${axis.min}..${axis.max} step ${axis.step}`)
+    }
+    const values: number[] = []
+    const count = Math.floor((axis.max - axis.min) / axis.step + 1e-9)
+    for (let i = 0; i <= count; i++) {
+      // Round away float drift (0.1 + 0.2) so values label cleanly
+      values.push(Number((axis.min + i * axis.step).toPrecision(12)))
+    }
+    return values
+  }
+
+  /**
+   * Cartesian product of the axes, first axis outermost
+   */
+  static buildGrid(axes: SweepAxis[]): Array<Record<string, number>> {
+    return axes.reduce<Array<Record<string, number>>>((grid, axis) => {
+      const values = ParameterSweepRunner.expandAxis(axis)
+      return grid.flatMap(point => values.map(value => ({ ...point, [axis.path]: value })))
+    }, [{}])
+  }
+
+  // ===== EXECUTION =====
+
+  private async runPoint(
+    values: Record<string, number>,
+    replicas: number,
+    baseSeed: number,
+    options: SweepRunOptions
+  ): Promise<{ results: SimulationResult[]; scores: number[] }> {
+    // Overrides flow through ConfigurationManager.applyParameterOverrides inside the orchestrator
+    const parameterOverrides = new Map(this.config.parameterOverrides || [])
+    Object.entries(values).forEach(([path, value]) => parameterOverrides.set(path, value))
+
+    const pointConfig: SimulationConfig = { ...this.config, parameterOverrides }
+    const batch = await new BatchRunner(pointConfig, this.gameDataStore, {
+      replicas,
+      baseSeed,
+      runOptions: options.runOptions,
+      execute: options.execute
+    }).run()
+
+    return {
+      results: batch.results,
+      scores: batch.reports.map(report => report.summary.overallScore)
+    }
+  }
+
+  private static summarizePoint(values: Record<string, number>, results: SimulationResult[], scores: number[]): SweepPoint {
+    return {
+      values,
+      daysToCompletion: BatchAnalyzer.describe(results.map(ParameterSweepRunner.daysOf)),
+      completionRate: results.filter(result => result.completed).length / results.length,
+      overallScore: BatchAnalyzer.describe(scores)
+    }
+  }
+
+  /**
+   * Completion day, or the last simulated day for runs that never finished
+   */
+  private static daysOf(result: SimulationResult): number {
+    if (result.completionDay !== null) return result.completionDay
+    const finalState = result.gameStateHistory[result.gameStateHistory.length - 1]
+    return finalState?.time.day ?? 0
+  }
+
+  private static meanDays(results: SimulationResult[]): number {
+    return BatchAnalyzer.describe(results.map(ParameterSweepRunner.daysOf)).mean
+  }
+
+  /**
+   * Low/high values a relative step either side of base
+   * Whole-number parameters are perturbed continuously too - 1.0 multipliers are indistinguishable from counts
+   */
+  private static perturb(baseValue: number, perturbation: number): { lowValue: number; highValue: number } {
+    return {
+      lowValue: baseValue * (1 - perturbation),
+      highValue: baseValue * (1 + perturbation)
+    }
+  }
+}
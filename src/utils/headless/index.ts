@@ -0,0 +1,27 @@
+// Headless Barrel Export
+// Entry points for running simulations without a worker
+// HeadlessGameDataStore reads from disk (Node only) - browser code imports the runners directly
+
+export { HeadlessGameDataStore } from './HeadlessGameDataStore'
+export type { HeadlessDataLoadResult } from './HeadlessGameDataStore'
+
+export { HeadlessRunner, DEFAULT_HEADLESS_MAX_DAYS } from './HeadlessRunner'
+export type { HeadlessRunOptions, HeadlessRunProgress } from './HeadlessRunner'
+
+export { BatchRunner } from './BatchRunner'
+export type { BatchRunOptions, BatchRunProgress, BatchRunResult, ReplicaExecutor } from './BatchRunner'
+
+export { ParameterSweepRunner } from './ParameterSweepRunner'
+export type { SweepRunOptions, SweepRunProgress } from './ParameterSweepRunner'
+
+export {
+  GOLDEN_PERSONAS,
+  GOLDEN_SEED,
+  GOLDEN_MAX_DAYS,
+  DEFAULT_GOLDEN_TOLERANCES,
+  buildGoldenConfig,
+  runGolden,
+  summarizeGoldenOutcome,
+  compareGoldenOutcome
+} from './GoldenRun'
+export type { GoldenPersonaId, GoldenTolerances, GoldenOutcome, GoldenFile } from './GoldenRun'
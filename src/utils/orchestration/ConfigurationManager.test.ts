@@ -0,0 +1,28 @@
+// ConfigurationManager tests
+// The starting game state follows the farm's initial state parameters, and the defaults keep the classic tutorial start
+
+import { describe, it, expect } from 'vitest'
+import { ConfigurationManager } from '@/utils/orchestration/ConfigurationManager'
+
+describe('ConfigurationManager - Starting State', () => {
+  it('starts from farm.initialState and always opens the farm', () => {
+    const classic = ConfigurationManager.initializeGameState()
+    const defaults = ConfigurationManager.initializeGameState(ConfigurationManager.createDefaultParameters())
+    for (const gameState of [classic, defaults]) {
+      expect(gameState.resources.energy.current).toBe(3)
+      expect(gameState.resources.water.current).toBe(0)
+      expect(gameState.progression).toMatchObject({ farmPlots: 3, availablePlots: 3, unlockedAreas: ['farm'] })
+    }
+
+    const parameters = ConfigurationManager.applyParameterOverrides(ConfigurationManager.createDefaultParameters(), new Map<string, any>([
+      ['farm.initialState.plots', 5],
+      ['farm.initialState.water', 20],
+      ['farm.initialState.energy', 100],
+      ['farm.initialState.unlockedLandStages', ['tower', 'town']]
+    ]))
+    const gameState = ConfigurationManager.initializeGameState(parameters)
+    expect(gameState.resources.energy.current).toBe(100)
+    expect(gameState.resources.water.current).toBe(20)
+    expect(gameState.progression).toMatchObject({ farmPlots: 5, availablePlots: 5, unlockedAreas: ['farm', 'tower', 'town'] })
+  })
+})
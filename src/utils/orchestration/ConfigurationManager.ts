@@ -4,6 +4,7 @@
 import type { 
   SimulationConfig, 
   AllParameters,
+  FarmParameters,
   GameState,
   TimeState,
   ResourceState,
@@ -64,7 +65,7 @@ export class ConfigurationManager {
         materialTrading: { enableTrading: true, tradeThreshold: 50, emergencyBuying: true, woodBuyingThreshold: 10 }
       },
       adventure: {
-        combatMechanics: { damageMultiplier: 1.0, defenseMultiplier: 1.0, weaponAdvantageBonus: 0.2, weaponDisadvantage: 0.2, heroHP: { baseHP: 100, hpPerLevel: 10, maxLevel: 20 } },
+        combatMechanics: { damageMultiplier: 1.0, defenseMultiplier: 1.0, weaponAdvantageBonus: 0.2, weaponDisadvantage: 0.2 },
         routeSelection: { difficultyPreference: 'short', riskTolerance: 0.5, explorationBias: 0.3, repeatRoutes: true, routePriorities: ['short'] },
         lootEvaluation: { valueWeights: new Map(), inventoryManagement: 'optimal', sellThreshold: 0.8 },
         offlineLogic: { enableOfflineAdventures: true, offlineSuccessRate: 0.7, maxOfflineHours: 8 }
@@ -94,6 +95,7 @@ export class ConfigurationManager {
         screenPriorities: { weights: new Map(), dynamicAdjustment: true, adjustmentFactors: { energyLow: new Map(), seedsLow: new Map(), goldHigh: new Map(), newUnlock: new Map() } },
         actionEvaluation: { immediateValueWeight: 0.6, futureValueWeight: 0.4, riskWeight: 0.2, valueCalculation: 'logarithmic', actionCooldowns: new Map() },
         interrupts: { enabled: true, emergencyMode: { threshold: 0.9, actions: ['rest'] } },
+        sessions: { timeBudget: false, travelMinutes: new Map([['farm-tower', 1], ['tower-town', 3], ['town-forge', 1], ['town-adventure', 3], ['forge-mine', 2]]) },
         optimization: { primaryGoal: 'balanced', subGoals: { minimizeDays: 0.3, maximizeEfficiency: 0.4, exploreContent: 0.2, minimizeRisk: 0.1 } }
       }
     }
@@ -103,9 +105,14 @@ export class ConfigurationManager {
    * Apply parameter overrides
    */
   static applyParameterOverrides(baseParameters: AllParameters, overrides: Map<string, any>): AllParameters {
-    const result = JSON.parse(JSON.stringify(baseParameters))
+    // structuredClone keeps the Map-valued parameters (screen weights, travel minutes) intact
+    const result = structuredClone(baseParameters)
     
-    for (const [path, value] of overrides) {
+    for (const [path, override] of overrides) {
+      // The setup compiler stores ParameterOverride records; sweeps and the CLI store raw values
+      const value = override && typeof override === 'object' && 'path' in override && 'value' in override
+        ? override.value
+        : override
       ConfigurationManager.setParameterByPath(result, path, value)
     }
     
@@ -130,6 +137,13 @@ export class ConfigurationManager {
     current[keys[keys.length - 1]] = value
   }
 
+  /**
+   * Get parameter by dot notation path (undefined if any segment is missing)
+   */
+  static getParameterByPath(obj: any, path: string): any {
+    return path.split('.').reduce((current, key) => current?.[key], obj)
+  }
+
   /**
    * Merge parameters from serialized data
    */
@@ -153,13 +167,14 @@ export class ConfigurationManager {
   }
 
   /**
-   * Initialize complete game state
+   * Initialize complete game state - the farm's initial state parameters set the starting plots, water, energy and areas
    */
-  static initializeGameState(): GameState {
+  static initializeGameState(parameters?: AllParameters): GameState {
+    const initial = parameters?.farm?.initialState
     return {
       time: ConfigurationManager.initializeTimeState(),
-      resources: ConfigurationManager.initializeResourceState(),
-      progression: ConfigurationManager.initializeProgressionState(),
+      resources: ConfigurationManager.initializeResourceState(initial),
+      progression: ConfigurationManager.initializeProgressionState(initial),
       inventory: ConfigurationManager.initializeInventoryState(),
       processes: ConfigurationManager.initializeProcessState(),
       helpers: ConfigurationManager.initializeHelperState(),
@@ -185,10 +200,10 @@ export class ConfigurationManager {
   /**
    * Initialize resource state
    */
-  static initializeResourceState(): ResourceState {
+  static initializeResourceState(initial?: FarmParameters['initialState']): ResourceState {
     return {
-      energy: { current: 3, max: 100, regenerationRate: 0 },
-      water: { current: 0, max: 20, autoGenRate: 0 },
+      energy: { current: initial?.energy ?? 3, max: 100, regenerationRate: 0 },
+      water: { current: initial?.water ?? 0, max: 20, autoGenRate: 0 },
       gold: 75,
       seeds: ConfigurationManager.initializeSeeds(),
       materials: ConfigurationManager.initializeMaterials()
@@ -198,18 +213,20 @@ export class ConfigurationManager {
   /**
    * Initialize progression state
    */
-  static initializeProgressionState(): ProgressionState {
+  static initializeProgressionState(initial?: FarmParameters['initialState']): ProgressionState {
+    const plots = initial?.plots ?? 3
     return {
       heroLevel: 1,
       experience: 0,
       farmStage: 1,
-      farmPlots: 3,
-      availablePlots: 3,
+      farmPlots: plots,
+      availablePlots: plots,
       currentPhase: 'Tutorial',
       completedAdventures: [],
       completedCleanups: new Set(),
       unlockedUpgrades: [],
-      unlockedAreas: ['farm'],
+      // The farm is always open
+      unlockedAreas: [...new Set(['farm', ...(initial?.unlockedLandStages ?? [])])],
       builtStructures: new Set(['farm']),
       victoryConditionsMet: false
     }
@@ -0,0 +1,47 @@
+// ManualControl tests
+// Check-ins held for a person, validated choices and the replay script they leave
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import { ScriptedPlayer } from '@/utils/ai/ScriptedPlayer'
+import { ManualControl } from '@/utils/orchestration/ManualControl'
+import { BalanceTables } from '@/utils/systems/support/BalanceTables'
+import { gameData, createTestGameState } from '@/tests/fixtures'
+
+beforeAll(() => BalanceTables.load(gameData))
+
+describe('ManualControl - Play the Sim', () => {
+  it('holds check-ins for a person, refuses invalid choices and records a replay script', () => {
+    const items: Record<string, any> = { blueprint_hoe: { id: 'blueprint_hoe', goldCost: 100, prerequisites: [] } }
+    const gameDataStore = { getItemById: (id: string) => items[id] ?? null }
+    const gameState = createTestGameState()
+    gameState.resources.gold = 75
+    gameState.time.totalMinutes = 30
+    const purchase = ScriptedPlayer.buildAction({ type: 'purchase', target: 'blueprint_hoe' }, gameState, gameDataStore)
+    const move = ScriptedPlayer.buildAction({ type: 'move', target: 'town' }, gameState, gameDataStore)
+    const decision = { actions: [move], ranked: [move, purchase], urgency: 'normal' as const, reasoning: [], shouldAct: true }
+    const control = new ManualControl()
+
+    expect(control.request(gameState, decision)).toBeNull()
+    control.setEnabled(true, gameState)
+    expect(control.request(gameState, decision)).toMatchObject({ day: 1, candidates: [move, purchase], aiPicks: [move.id] })
+
+    // The hero is on the farm and cannot afford the hoe - the check-in stays pending with the validator's reasons
+    const refused = ['Insufficient gold: need 100, have 75', 'Must be at town to make purchases']
+    expect(control.resolve({ kind: 'pick', actionId: purchase.id }, gameState, {} as any, gameDataStore)).toEqual({ errors: refused })
+    expect(control.getPending()?.errors).toEqual(refused)
+
+    expect(control.resolve({ kind: 'pick', actionId: move.id }, gameState, {} as any, gameDataStore)).toEqual({ actions: [move] })
+    expect(control.getPending()).toBeNull()
+
+    gameState.time.totalMinutes = 90
+    control.request(gameState, decision)
+    expect(control.resolve({ kind: 'ai' }, gameState, {} as any, gameDataStore)).toEqual({ actions: [move] })
+    expect(control.isEnabled()).toBe(false)
+
+    expect(control.toScript()).toEqual([
+      { day: 1, time: '06:00', ai: true },
+      { day: 1, time: '06:30', actions: [{ type: 'move', target: 'town', toScreen: 'town' }] },
+      { day: 1, time: '07:30', actions: [{ type: 'move', target: 'town', toScreen: 'town' }], ai: true }
+    ])
+  })
+})
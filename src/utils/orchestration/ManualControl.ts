@@ -0,0 +1,156 @@
+// ManualControl - Human-in-the-loop check-ins
+// Holds the run at each check-in until a person picks, overrides, waits or hands back to the AI, and records every choice as a replay script
+
+import { ActionValidator } from '../execution/ActionValidator'
+import { ScriptedPlayer } from '../ai/ScriptedPlayer'
+import { SessionScheduler } from './SessionScheduler'
+import type {
+  GameState,
+  GameAction,
+  AllParameters,
+  PendingDecision,
+  DecisionChoice,
+  ManualChoiceRecord,
+  ScriptedAction,
+  ScriptStep
+} from '@/types'
+import type { DecisionResult } from '../ai/types/DecisionTypes'
+
+/**
+ * What to play once a person has decided - errors means the choice was refused and the check-in is still pending
+ */
+export type ManualResolution =
+  | { actions: GameAction[] }
+  | { errors: string[] }
+
+/**
+ * Manual mode state for one run
+ */
+export class ManualControl {
+  private enabled = false
+  private pending: PendingDecision | null = null
+  private aiActions: GameAction[] = []
+  private readonly records: ManualChoiceRecord[] = []
+  private readonly validator = new ActionValidator()
+
+  isEnabled(): boolean {
+    return this.enabled
+  }
+
+  /**
+   * Switch manual mode - the hand-overs are recorded, so the replay knows when the AI played
+   */
+  setEnabled(enabled: boolean, gameState: GameState): void {
+    if (enabled === this.enabled) return
+    this.enabled = enabled
+
+    if (enabled && this.records.length === 0 && gameState.time.totalMinutes > 0) {
+      // The AI played the run up to now
+      this.records.push({ totalMinutes: 0, choice: 'ai', actions: [] })
+    }
+    if (!enabled) {
+      this.pending = null
+      this.records.push({ totalMinutes: gameState.time.totalMinutes, choice: 'ai', actions: [] })
+    }
+    console.log(`🕹️ MANUAL: ${enabled ? 'A person plays the hero' : 'The AI plays the hero'}`)
+  }
+
+  /**
+   * Hold the check-in for a person - null when manual mode is off or there is nothing to choose from
+   */
+  request(gameState: GameState, decision: DecisionResult): PendingDecision | null {
+    const candidates = decision.ranked ?? decision.actions
+    if (!this.enabled || candidates.length === 0) return null
+
+    this.aiActions = decision.actions
+    this.pending = {
+      totalMinutes: gameState.time.totalMinutes,
+      day: gameState.time.day,
+      candidates,
+      aiPicks: decision.actions.map(action => action.id)
+    }
+    return this.pending
+  }
+
+  getPending(): PendingDecision | null {
+    return this.pending
+  }
+
+  /**
+   * Drop the pending check-in without recording a choice - the run moved elsewhere (checkpoint restore)
+   */
+  cancel(): void {
+    this.pending = null
+  }
+
+  /**
+   * Apply a person's choice to the pending check-in - picks and overrides go through ActionValidator first
+   */
+  resolve(choice: DecisionChoice, gameState: GameState, parameters: AllParameters, gameDataStore: any): ManualResolution {
+    const pending = this.pending
+    if (!pending) {
+      return { errors: ['No check-in is waiting for a decision'] }
+    }
+
+    let actions: GameAction[] = []
+    if (choice.kind === 'pick' || choice.kind === 'override') {
+      const action = choice.kind === 'pick'
+        ? pending.candidates.find(candidate => candidate.id === choice.actionId)
+        : ScriptedPlayer.buildAction(choice.action, gameState, gameDataStore, parameters)
+      if (!action) {
+        return this.refuse([`Unknown candidate ${choice.kind === 'pick' ? choice.actionId : ''}`.trim()])
+      }
+
+      const validation = this.validator.validate(action, { gameState, parameters, gameDataStore, timestamp: gameState.time.totalMinutes })
+      if (!validation.isValid) {
+        return this.refuse(validation.errors)
+      }
+      actions = [action]
+    } else if (choice.kind === 'ai') {
+      actions = this.aiActions
+    }
+
+    this.records.push({ totalMinutes: pending.totalMinutes, choice: choice.kind, actions: actions.map(ManualControl.toScripted) })
+    this.pending = null
+    if (choice.kind === 'ai') {
+      // Already recorded as the hand-over
+      this.enabled = false
+      console.log('🕹️ MANUAL: The AI plays the hero')
+    }
+    return { actions }
+  }
+
+  getRecords(): ManualChoiceRecord[] {
+    return this.records
+  }
+
+  /**
+   * The choices as a script - the same moves at the same times, not a faithful replay
+   * A hand-over step keeps the AI's first picks as fixed actions and the RNG is drawn in a different order, so outcomes can drift
+   */
+  toScript(): ScriptStep[] {
+    return this.records.map(record => {
+      const step: ScriptStep = { day: SessionScheduler.dayOf(record.totalMinutes), time: SessionScheduler.clockOf(record.totalMinutes) }
+      // Waits keep an empty step, so the AI stays out of the replay until the next hand-over
+      if (record.actions.length > 0 || record.choice === 'wait') step.actions = record.actions
+      if (record.choice === 'ai') step.ai = true
+      return step
+    })
+  }
+
+  private refuse(errors: string[]): ManualResolution {
+    this.pending = { ...this.pending!, errors }
+    console.warn(`🕹️ MANUAL: Choice refused - ${errors.join(', ')}`)
+    return { errors }
+  }
+
+  // Only what the script needs - costs are looked up again on replay
+  private static toScripted(action: GameAction): ScriptedAction {
+    const scripted: ScriptedAction = { type: action.type }
+    if (action.target !== undefined) scripted.target = action.target
+    if (action.toScreen !== undefined) scripted.toScreen = action.toScreen
+    if (action.role !== undefined) scripted.role = action.role
+    if (action.secondaryRole !== undefined) scripted.secondaryRole = action.secondaryRole
+    return scripted
+  }
+}
@@ -0,0 +1,46 @@
+// NextEventScheduler tests
+// Idle ticks skip to the earliest completion, never further than the cap
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import type { CraftingState, CropState } from '@/types'
+import { ProcessManager } from '@/utils/processes'
+import { NextEventScheduler, MAX_TIME_SKIP_MINUTES } from '@/utils/orchestration/NextEventScheduler'
+import { BalanceTables } from '@/utils/systems/support/BalanceTables'
+import { gameData, createTestGameState } from '@/tests/fixtures'
+
+beforeAll(() => BalanceTables.load(gameData))
+
+describe('NextEventScheduler - Time Skipping', () => {
+  it('should find the earliest completion and cap long skips', () => {
+    const gameState = createTestGameState()
+    const carrot: CropState = {
+      plotId: 'plot_1',
+      cropId: 'carrot',
+      plantedAt: 0,
+      growthTimeRequired: 6,
+      waterLevel: 1.0,
+      isWithered: false,
+      readyToHarvest: false,
+      growthProgress: 0.5,
+      growthStage: 1,
+      maxStages: 3,
+      droughtTime: 0
+    }
+    gameState.processes.crops = [carrot]
+
+    // Half-grown watered carrot (6 minutes in crops.csv) is ready in 3 minutes
+    expect(NextEventScheduler.findNextCompletion(gameState, new ProcessManager(), gameData))
+      .toEqual({ time: 3, source: 'crop' })
+
+    // A craft finishing sooner wins
+    const hoe: CraftingState = { itemId: 'hoe', startedAt: 0, duration: 2, progress: 0, heat: 0, isComplete: false }
+    gameState.processes.crafting = [hoe]
+    const next = NextEventScheduler.findNextCompletion(gameState, new ProcessManager(), gameData)
+    expect(next).toEqual({ time: 2, source: 'crafting' })
+    expect(NextEventScheduler.planSkip(0, [next, { time: 12, source: 'checkin' }])).toEqual(next)
+
+    // Nothing pending, or only far-off events - jump at most the cap
+    expect(NextEventScheduler.planSkip(0, [null])).toEqual({ time: MAX_TIME_SKIP_MINUTES, source: 'max_skip' })
+    expect(NextEventScheduler.planSkip(0, [{ time: 500, source: 'crop' }]).source).toBe('max_skip')
+  })
+})
@@ -0,0 +1,61 @@
+// NextEventScheduler - Event-driven time skipping
+// Finds the next moment anything can change so idle ticks jump straight to it
+
+import { FarmSystem } from '../systems/core/FarmSystem'
+import { ForgeSystem } from '../systems/core/ForgeSystem'
+import { MineSystem } from '../systems/core/MineSystem'
+import type { ProcessManager } from '../processes'
+import type { GameState } from '@/types'
+
+/**
+ * Longest single jump - bounds drift from continuous effects like auto-pumps and helpers
+ */
+export const MAX_TIME_SKIP_MINUTES = 60
+
+export type NextEventSource = 'process' | 'crop' | 'crafting' | 'mining' | 'checkin' | 'session_end' | 'max_skip'
+
+export interface NextEvent {
+  time: number             // Total minutes
+  source: NextEventSource
+}
+
+/**
+ * Asks each time-driven system when it next completes something
+ */
+export class NextEventScheduler {
+  /**
+   * Earliest completion across processes, crops, the forge and the mine - null when nothing is running
+   */
+  static findNextCompletion(gameState: GameState, processManager: ProcessManager, gameDataStore: any): NextEvent | null {
+    const candidates: Array<NextEvent | null> = [
+      this.event(processManager.getNextCompletionTime(gameState), 'process'),
+      this.event(FarmSystem.getNextCropEventTime(gameState, gameDataStore), 'crop'),
+      this.event(ForgeSystem.getNextCraftCompletionTime(gameState), 'crafting'),
+      this.event(MineSystem.getNextMiningEventTime(gameState), 'mining')
+    ]
+
+    return this.earliest(candidates)
+  }
+
+  /**
+   * Earliest of the candidates, never more than MAX_TIME_SKIP_MINUTES ahead
+   */
+  static planSkip(now: number, candidates: Array<NextEvent | null>, maxSkip: number = MAX_TIME_SKIP_MINUTES): NextEvent {
+    const next = this.earliest(candidates)
+    if (!next || next.time - now > maxSkip) {
+      return { time: now + maxSkip, source: 'max_skip' }
+    }
+    return next
+  }
+
+  private static event(time: number | null, source: NextEventSource): NextEvent | null {
+    return time === null ? null : { time, source }
+  }
+
+  private static earliest(candidates: Array<NextEvent | null>): NextEvent | null {
+    return candidates.reduce<NextEvent | null>(
+      (best, candidate) => candidate && (!best || candidate.time < best.time) ? candidate : best,
+      null
+    )
+  }
+}
@@ -0,0 +1,42 @@
+// SessionScheduler tests
+// Weekday and weekend session windows on the run's calendar, and what carries on while the orchestrator skips between them
+
+import { describe, it, expect } from 'vitest'
+import { SessionScheduler } from '@/utils/orchestration/SessionScheduler'
+import { SimulationOrchestrator } from '@/utils/orchestration/SimulationOrchestrator'
+import { buildGoldenConfig } from '@/utils/headless/GoldenRun'
+import { gameData } from '@/tests/fixtures'
+
+describe('SessionScheduler - Calendar Sessions', () => {
+  it('should place weekday and weekend sessions and find the next one', () => {
+    // Weekend warrior, day 1 on a Friday
+    const scheduler = new SessionScheduler({ weekdayCheckIns: 1, weekendCheckIns: 8, avgSessionLength: 45 }, 4)
+
+    expect(scheduler.getWeeklyPlayMinutes()).toEqual([45, 45, 45, 45, 45, 360, 360])
+    expect(scheduler.isWeekend(1)).toBe(false)
+    expect(scheduler.isWeekend(2)).toBe(true)
+
+    // The run starts at 06:00, the Friday session is mid-afternoon
+    expect(scheduler.getCurrentSession(0)).toBeNull()
+    const friday = scheduler.getNextSession(0)!
+    expect(friday).toMatchObject({ day: 1, index: 0, start: 518, end: 563 })
+    expect(scheduler.getCurrentSession(520)).toEqual(friday)
+
+    // After it ends, the next session is Saturday's first
+    const saturday = scheduler.getNextSession(friday.end)!
+    expect(saturday).toMatchObject({ day: 2, weekday: 5, index: 0, start: 1538 })
+    expect(scheduler.getSessions(2)).toHaveLength(8)
+  })
+
+  it('should keep the mine digging while the orchestrator skips to the next session', () => {
+    const orchestrator = new SimulationOrchestrator(buildGoldenConfig('casual'), gameData)
+    const gameState = orchestrator.getGameState()
+    gameState.processes.mining = { depth: 0, energyDrain: 0, isActive: true, timeAtDepth: 0 }
+
+    const skip = orchestrator.tick()
+    expect(skip.events[0].type).toBe('session_start')
+    expect(skip.deltaTime).toBeGreaterThan(60)
+    expect(gameState.processes.mining.depth).toBeGreaterThan(0)
+    expect(gameState.resources.energy.current).toBeLessThan(100)
+  })
+})
@@ -0,0 +1,149 @@
+// SessionScheduler - Real-time calendar for persona play sessions
+// Turns a persona's weekday/weekend check-ins into concrete session windows on each game day
+
+import type { PersonaSchedule, SimulationConfig } from '@/types'
+
+export const WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+/**
+ * Used when a calendar run has no compiled persona - the casual preset's schedule
+ */
+export const DEFAULT_PERSONA_SCHEDULE: PersonaSchedule = {
+  weekdayCheckIns: 2,
+  weekendCheckIns: 2,
+  avgSessionLength: 15
+}
+
+/**
+ * One play session - start and end are in totalMinutes
+ */
+export interface SessionWindow {
+  day: number
+  weekday: number   // 0 = Monday
+  index: number     // Session number within the day
+  start: number
+  end: number
+}
+
+const MINUTES_PER_DAY = 24 * 60
+const RUN_START_MINUTE = 6 * 60   // Day 1 begins at 06:00 with totalMinutes 0
+
+/**
+ * Places check-ins evenly across the waking day - pure function of the schedule and the clock
+ */
+export class SessionScheduler {
+  static readonly WAKE_MINUTE = 7 * 60
+  static readonly SLEEP_MINUTE = 23 * 60
+
+  private readonly schedule: PersonaSchedule
+  private readonly startWeekday: number
+  private readonly offsets: Map<number, Array<{ start: number, end: number }>> = new Map()
+
+  constructor(schedule: PersonaSchedule, startWeekday: number = 0) {
+    this.schedule = schedule
+    this.startWeekday = ((Math.floor(startWeekday) % 7) + 7) % 7
+  }
+
+  /**
+   * Scheduler for a calendar run, or null when the hero plays continuously
+   */
+  static fromConfig(config: SimulationConfig): SessionScheduler | null {
+    if (config.quickSetup?.scheduling !== 'calendar') {
+      return null
+    }
+    if (!config.persona) {
+      console.warn('📅 SessionScheduler: No persona in config, using the default schedule')
+    }
+    return new SessionScheduler(config.persona ?? DEFAULT_PERSONA_SCHEDULE, config.quickSetup.startWeekday)
+  }
+
+  /**
+   * Game day containing a point in time
+   */
+  static dayOf(totalMinutes: number): number {
+    return Math.floor((totalMinutes + RUN_START_MINUTE) / MINUTES_PER_DAY) + 1
+  }
+
+  /**
+   * Point in time for a clock minute (0 = midnight) on a game day
+   */
+  static minuteOf(day: number, clockMinute: number): number {
+    return (day - 1) * MINUTES_PER_DAY - RUN_START_MINUTE + clockMinute
+  }
+
+  /**
+   * Wall-clock time of a point in time, as 'HH:MM'
+   */
+  static clockOf(totalMinutes: number): string {
+    const minuteOfDay = Math.floor(((totalMinutes + RUN_START_MINUTE) % MINUTES_PER_DAY + MINUTES_PER_DAY) % MINUTES_PER_DAY)
+    const pad = (value: number) => String(value).padStart(2, '0')
+    return `${pad(Math.floor(minuteOfDay / 60))}:${pad(minuteOfDay % 60)}`
+  }
+
+  weekdayOf(day: number): number {
+    return (this.startWeekday + day - 1) % 7
+  }
+
+  isWeekend(day: number): boolean {
+    return this.weekdayOf(day) >= 5
+  }
+
+  /**
+   * Session windows on a game day, in order
+   */
+  getSessions(day: number): SessionWindow[] {
+    const weekday = this.weekdayOf(day)
+    const dayStart = (day - 1) * MINUTES_PER_DAY - RUN_START_MINUTE
+
+    return this.getOffsets(weekday)
+      .map((offset, index) => ({ day, weekday, index, start: dayStart + offset.start, end: dayStart + offset.end }))
+  }
+
+  /**
+   * Session in progress at a point in time, if any
+   */
+  getCurrentSession(totalMinutes: number): SessionWindow | null {
+    const day = SessionScheduler.dayOf(totalMinutes)
+    return this.getSessions(day).find(session => session.start <= totalMinutes && totalMinutes < session.end) ?? null
+  }
+
+  /**
+   * The session in progress, or the next one to start - null if the schedule has no sessions at all
+   */
+  getNextSession(totalMinutes: number): SessionWindow | null {
+    const day = SessionScheduler.dayOf(totalMinutes)
+    for (let offset = 0; offset <= 7; offset++) {
+      const session = this.getSessions(day + offset).find(window => window.end > totalMinutes)
+      if (session) return session
+    }
+    return null
+  }
+
+  /**
+   * Minutes of play per day of the week, Monday first
+   */
+  getWeeklyPlayMinutes(): number[] {
+    return WEEKDAY_NAMES.map((_, weekday) =>
+      this.getOffsets(weekday).reduce((sum, offset) => sum + offset.end - offset.start, 0)
+    )
+  }
+
+  /**
+   * Session start/end as minutes after midnight - each check-in centred in an equal slice of the waking day
+   */
+  private getOffsets(weekday: number): Array<{ start: number, end: number }> {
+    const cached = this.offsets.get(weekday)
+    if (cached) return cached
+
+    const count = Math.max(0, Math.floor(weekday >= 5 ? this.schedule.weekendCheckIns : this.schedule.weekdayCheckIns))
+    const slot = (SessionScheduler.SLEEP_MINUTE - SessionScheduler.WAKE_MINUTE) / Math.max(1, count)
+    const length = Math.max(1, Math.min(Math.round(this.schedule.avgSessionLength), Math.floor(slot)))
+
+    const offsets = Array.from({ length: count }, (_, index) => {
+      const start = SessionScheduler.WAKE_MINUTE + Math.round(index * slot + (slot - length) / 2)
+      return { start, end: start + length }
+    })
+    this.offsets.set(weekday, offsets)
+    return offsets
+  }
+}
@@ -1,15 +1,29 @@
 // SimulationOrchestrator - Phase 10G Implementation
-// Pure orchestration layer under 500 lines - ONLY coordination logic
+// Pure orchestration layer - ONLY coordination logic, game rules live in the systems and decisions in the AI modules
 
 import { ConfigurationManager } from './ConfigurationManager'
+import { VictoryConditionEvaluator } from './VictoryConditions'
+import { StallDetector } from './StallDetector'
+import { ManualControl } from './ManualControl'
+import { SessionScheduler, type SessionWindow } from './SessionScheduler'
+import { NextEventScheduler, MAX_TIME_SKIP_MINUTES, type NextEvent } from './NextEventScheduler'
 import { ActionRouter } from '../ActionRouter'
 import { StateManager } from '../state'
 import { DecisionEngine } from '../ai/DecisionEngine'
+import { LookaheadPlanner } from '../ai/LookaheadPlanner'
+import { ScriptedPlayer } from '../ai/ScriptedPlayer'
+import { SessionPlanner } from '../ai/SessionPlanner'
 import { ProcessManager } from '../processes'
 import { SupportSystemManager } from '../systems/support/SupportSystemManager'
-import { FarmSystem } from '../systems/core/FarmSystem'
-import { TowerSystem } from '../systems/core/TowerSystem'
-import { SeedSystem } from '../systems/support/SeedSystem'
+import { BalanceTables } from '../systems/support/BalanceTables'
+import { HeroProgression } from '../systems/support/HeroProgression'
+import { AdventureSystem, type EnemyRoll } from '../systems/core/AdventureSystem'
+import { SystemTicker } from '../systems/SystemTicker'
+import { OfflineProgressionSystem } from '../systems/support/OfflineProgressionSystem'
+import { setSystemsRandom } from '../systems/systemRegistry'
+import { SeededRandom } from '../random'
+import { MapSerializer } from '../MapSerializer'
+import { CheckpointSerializer, CHECKPOINT_VERSION, type SimulationCheckpoint } from '../state/SimulationCheckpoint'
 import { eventBus, type IEventBus } from '../events'
 import { validationService } from '../validation'
 import type { 
@@ -18,8 +32,16 @@ import type {
   GameState, 
   GameAction, 
   TickResult,
-  GameEvent
+  GameEvent,
+  VictoryCondition,
+  StallDiagnosis,
+  DecisionTrace,
+  ScriptStepError,
+  ScriptStep,
+  PendingDecision,
+  DecisionChoice
 } from '@/types'
+import type { VictoryConditionResult, LearningCurvePoint } from '@/types/reports'
 
 /**
  * SimulationOrchestrator - Pure orchestration under 500 lines
@@ -34,6 +56,8 @@ export class SimulationOrchestrator {
   private parameters: AllParameters
   private gameDataStore: any
   private persona: any
+  private rng: SeededRandom
+  private enemyRolls: Map<string, EnemyRoll> = new Map()   // This run's rolls while another orchestrator ticks
   
   // System coordinators
   private actionRouter!: ActionRouter
@@ -45,13 +69,21 @@ export class SimulationOrchestrator {
   // Runtime tracking
   private isRunning: boolean = false
   private tickCount: number = 0
-  private lastProgressCheck?: {
-    day: number
-    plots: number
-    level: number
-    gold: number
-    lastProgressDay: number
-  }
+  private stallDetector: StallDetector
+  private stallDiagnosis: StallDiagnosis | null = null
+  private sessionScheduler: SessionScheduler | null   // Null = continuous play
+  
+  // Event-driven time skipping - idle ticks jump to the next interesting moment
+  private timeSkipping: boolean
+  private lastTickIdle: boolean = false
+  private aiWaiting: boolean = false
+
+  // Manual mode - a person makes the decisions at each check-in
+  private manualControl = new ManualControl()
+  
+  // Victory conditions from the config, and the day each was first met
+  private victoryConditions: VictoryCondition[]
+  private victoryMetOnDay: Map<string, number> = new Map()
 
   // =============================================================================
   // CONSTRUCTOR & INITIALIZATION (~50 lines)
@@ -64,10 +96,17 @@ export class SimulationOrchestrator {
     }
     this.gameDataStore = gameDataStore
 
+    // Every random roll in the run comes from this PRNG
+    this.rng = new SeededRandom(config.seed ?? SeededRandom.generateSeed())
+
     // Initialize using ConfigurationManager
     this.parameters = ConfigurationManager.extractParametersFromConfig(config)
     this.persona = ConfigurationManager.extractPersonaFromConfig(config)
-    this.gameState = ConfigurationManager.initializeGameState()
+    this.gameState = ConfigurationManager.initializeGameState(this.parameters)
+    this.victoryConditions = VictoryConditionEvaluator.resolve(config.quickSetup?.duration)
+    this.stallDetector = new StallDetector(config.quickSetup?.duration)
+    this.sessionScheduler = SessionScheduler.fromConfig(config)
+    this.timeSkipping = config.quickSetup?.timeSkipping ?? false
     
     // Initialize core modules
     this.initializeModules()
@@ -76,7 +115,7 @@ export class SimulationOrchestrator {
     this.setupEventCoordination()
     
     // Handle offline time
-    this.handleOfflineProgression()
+    this.withOwnSystems(() => this.handleOfflineProgression())
   }
 
   /**
@@ -85,10 +124,24 @@ export class SimulationOrchestrator {
   private initializeModules(): void {
     this.actionRouter = new ActionRouter()
     this.stateManager = new StateManager(this.gameState)
-    this.decisionEngine = new DecisionEngine()
+    const quickSetup = this.config.quickSetup
+    if (quickSetup?.script) {
+      this.decisionEngine = new ScriptedPlayer(quickSetup.script, this.config.persona, this.rng)
+    } else {
+      this.decisionEngine = quickSetup?.decisionEngine === 'lookahead'
+        ? new LookaheadPlanner(this.config.persona, this.rng)
+        : new DecisionEngine(this.config.persona, this.rng, quickSetup?.goalTarget, quickSetup?.actionValues)
+    }
     this.processManager = new ProcessManager()
     this.eventBus = eventBus
     
+    // Hand the run's PRNG to every system that rolls dice
+    setSystemsRandom(this.rng)
+    AdventureSystem.resetEnemyRolls()
+    
+    // Tuning tables come from the run's game data, so Configuration view edits reach the systems
+    BalanceTables.load(this.gameDataStore)
+    
     // Initialize validation service
     validationService.initialize(this.gameDataStore)
   }
@@ -131,6 +184,24 @@ export class SimulationOrchestrator {
    * Main simulation tick - Pure orchestration
    */
   tick(): TickResult {
+    return this.withOwnSystems(() => this.advance())
+  }
+
+  /**
+   * Systems keep their PRNG and enemy rolls in statics - install this run's before it touches them
+   * and take the rolls back after, so orchestrators interleaved on one thread stay reproducible
+   */
+  private withOwnSystems<T>(run: () => T): T {
+    setSystemsRandom(this.rng)
+    AdventureSystem.restoreEnemyRolls(this.enemyRolls)
+    try {
+      return run()
+    } finally {
+      this.enemyRolls = AdventureSystem.getActiveEnemyRolls()
+    }
+  }
+
+  private advance(): TickResult {
     // Set running state on first tick
     if (!this.isRunning) {
       this.isRunning = true
@@ -140,6 +211,22 @@ export class SimulationOrchestrator {
     const state = this.stateManager.getState()
     console.log('⏰ SimulationOrchestrator: tick() called, tickCount:', this.tickCount, 'totalMinutes:', state.time.totalMinutes)
     
+    // Calendar runs only play inside the persona's sessions - a replay script's steps are check-ins of their own
+    const now = state.time.totalMinutes
+    const script = this.decisionEngine instanceof ScriptedPlayer ? this.decisionEngine : null
+    if (this.sessionScheduler && !this.sessionScheduler.getCurrentSession(now) && !script?.hasDueStep(now)) {
+      const nextSession = this.sessionScheduler.getNextSession(now)
+      const nextStep = script?.getNextStepTime() ?? null
+      if (nextStep !== null && (!nextSession || nextStep < nextSession.start)) {
+        // Land a minute early - the next tick moves the clock onto the step and plays it
+        if (nextStep - 1 > now) {
+          return this.skipToSession(null, nextStep - 1)
+        }
+      } else if (nextSession) {
+        return this.skipToSession(nextSession, nextSession.start)
+      }
+    }
+    
     const deltaTime = this.calculateDeltaTime()
     
     try {
@@ -154,10 +241,17 @@ export class SimulationOrchestrator {
       
       // 4. Get AI decisions
       const decisionResult = this.decisionEngine.getNextActions(this.stateManager.getState(), this.parameters, this.gameDataStore)
-      const decisions = decisionResult.actions
+      const pendingDecision = decisionResult.shouldAct ? this.manualControl.request(this.gameState, decisionResult) : null
+      const decisions = pendingDecision ? [] : decisionResult.actions
       
       // 5. Execute actions through routing
       const { executedActions, actionEvents } = this.executeActions(decisions)
+      const levelEvents = this.applyLevelUps()
+      this.decisionEngine.recordExperience(executedActions, this.stateManager.getState())
+      
+      // Nothing happened - the next tick may skip ahead
+      this.lastTickIdle = executedActions.length === 0 && decisions.length === 0 && !pendingDecision
+      this.aiWaiting = !decisionResult.shouldAct
       
       // 6. Check game status
       const isComplete = this.checkVictoryConditions()
@@ -171,10 +265,12 @@ export class SimulationOrchestrator {
       return {
         gameState: this.gameState,
         executedActions,
-        events: [...processResult.events.map(this.convertProcessEventToGameEvent), ...actionEvents],
+        events: [...processResult.events.map(this.convertProcessEventToGameEvent), ...actionEvents, ...levelEvents],
         deltaTime,
         isComplete,
-        isStuck
+        isStuck,
+        stallDiagnosis: isStuck ? this.stallDiagnosis ?? undefined : undefined,
+        pendingDecision: pendingDecision ?? undefined
       }
     } catch (error) {
       console.error('Critical error in simulation tick:', error)
@@ -182,6 +278,53 @@ export class SimulationOrchestrator {
     }
   }
 
+  /**
+   * The player is away - jump to the next session, or a script step due before it, in one step
+   * Offline progression covers passive generation and the mine, crafts finish from the clock on the next tick, the AI does not act
+   */
+  private skipToSession(session: SessionWindow | null, until: number): TickResult {
+    const deltaTime = until - this.gameState.time.totalMinutes
+    this.lastTickIdle = false
+    
+    try {
+      this.updateTime(deltaTime)
+      const offline = OfflineProgressionSystem.applyBetweenSessions(this.gameState, deltaTime)
+      const processResult = this.processManager.tick(deltaTime, this.gameState, this.gameDataStore)
+      const levelEvents = this.applyLevelUps()
+      
+      const isComplete = this.checkVictoryConditions()
+      const isStuck = this.checkBottleneckConditions()
+      
+      this.tickCount++
+      const hoursAway = Math.round(deltaTime / 60 * 10) / 10
+      const description = session
+        ? `Session ${session.index + 1} of day ${session.day} after ${hoursAway}h away`
+        : `Back on day ${this.gameState.time.day} for the script step at ${SessionScheduler.clockOf(until + 1)} after ${hoursAway}h away`
+      console.log(`📅 ${description}`)
+      
+      const sessionEvent: GameEvent = {
+        timestamp: until,
+        type: 'session_start',
+        description,
+        data: { session, offlineMinutes: deltaTime, offlineActions: offline.totalActions },
+        importance: 'low'
+      }
+      
+      return {
+        gameState: this.gameState,
+        executedActions: [],
+        events: [sessionEvent, ...processResult.events.map(this.convertProcessEventToGameEvent), ...levelEvents],
+        deltaTime,
+        isComplete,
+        isStuck,
+        stallDiagnosis: isStuck ? this.stallDiagnosis ?? undefined : undefined
+      }
+    } catch (error) {
+      console.error('Critical error skipping to next session:', error)
+      return this.createErrorTickResult(deltaTime, error)
+    }
+  }
+
   // =============================================================================
   // SYSTEM COORDINATION (~50 lines)
   // =============================================================================
@@ -198,34 +341,7 @@ export class SimulationOrchestrator {
    * Coordinate system updates - delegates to individual systems
    */
   private updateGameSystems(deltaTime: number): void {
-    try {
-      // Apply all support system effects
-      SupportSystemManager.applyEffects(this.gameState, deltaTime)
-    } catch (error) {
-      console.error('Error in SupportSystemManager.applyEffects:', error)
-    }
-
-    try {
-      // Farm system auto-pump generation
-      FarmSystem.processAutoPumpGeneration(this.gameState, deltaTime)
-    } catch (error) {
-      console.error('Error in FarmSystem.processAutoPumpGeneration:', error)
-    }
-
-    try {
-      // Tower system tick - CRITICAL: Process manual seed catching
-      TowerSystem.tick(deltaTime, this.gameState)
-    } catch (error) {
-      console.error('Error in TowerSystem.tick:', error)
-    }
-
-    try {
-      // Tower and seed system coordination - Auto-catcher processing
-      const towerReach = TowerSystem.getCurrentTowerReach(this.gameState)
-      SeedSystem.processAutoCatcher(this.gameState, deltaTime, towerReach)
-    } catch (error) {
-      console.error('Error in SeedSystem.processAutoCatcher:', error)
-    }
+    SystemTicker.tick(this.gameState, deltaTime, this.gameDataStore)
   }
 
   /**
@@ -259,6 +375,13 @@ export class SimulationOrchestrator {
     const actionEvents: GameEvent[] = []
     
     for (const action of decisions) {
+      // A hero on the road acts once they arrive - the rest waits for a later tick
+      const arrivesAt = this.gameState.location.arrivesAt ?? 0
+      if (arrivesAt > this.gameState.time.totalMinutes) {
+        console.log(`🚶 Travelling until minute ${arrivesAt} - ${action.type} waits`)
+        break
+      }
+
       try {
         // Validate action through support systems first
         const validation = SupportSystemManager.validateAction(action, this.gameState)
@@ -271,6 +394,7 @@ export class SimulationOrchestrator {
         const result = this.actionRouter.route(action, this.gameState)
         if (result.success) {
           executedActions.push(action)
+          this.extendActiveTime(action)
           if (result.events) {
             actionEvents.push(...result.events.map(event => this.convertToGameEvent(event)))
           }
@@ -290,56 +414,53 @@ export class SimulationOrchestrator {
     return { executedActions, actionEvents }
   }
 
+  /**
+   * The hero is busy on the screens until the executed actions are through - per-screen time counts only that
+   */
+  private extendActiveTime(action: GameAction): void {
+    const location = this.gameState.location
+    const now = this.gameState.time.totalMinutes
+    location.activeUntil = Math.max(location.activeUntil ?? now, now) + SessionPlanner.heroMinutes(action)
+  }
+
   // =============================================================================
   // STATUS CHECKING (~50 lines)
   // =============================================================================
   
   /**
-   * Check victory conditions
+   * Check victory conditions - any (default) or all of the configured list
    */
   private checkVictoryConditions(): boolean {
     const state = this.stateManager.getState()
-    return state.progression.farmPlots >= 90 || 
-           (state.resources.gold >= 10000 && state.progression.farmPlots >= 50)
+    
+    for (const condition of this.victoryConditions) {
+      if (!this.victoryMetOnDay.has(condition.id) &&
+          VictoryConditionEvaluator.isMet(condition, state, this.gameDataStore)) {
+        this.victoryMetOnDay.set(condition.id, state.time.day)
+        console.log(`🏆 SimulationOrchestrator: Victory condition met - ${VictoryConditionEvaluator.describe(condition)}`)
+      }
+    }
+    
+    const match = this.config.quickSetup?.duration?.victoryMatch ?? 'any'
+    return match === 'all'
+      ? this.victoryConditions.every(condition => this.victoryMetOnDay.has(condition.id))
+      : this.victoryConditions.some(condition => this.victoryMetOnDay.has(condition.id))
   }
 
   /**
-   * Check bottleneck conditions
+   * Check bottleneck conditions - the stall detector keeps its diagnosis for the tick result
    */
   private checkBottleneckConditions(): boolean {
-    const state = this.stateManager.getState()
+    this.stallDiagnosis = this.stallDetector.check(
+      this.stateManager.getState(),
+      totalMinutes => this.decisionEngine.getRejectionsSince(totalMinutes),
+      this.gameDataStore
+    )
     
-    if (!this.lastProgressCheck) {
-      this.lastProgressCheck = {
-        day: state.time.day,
-        plots: state.progression.farmPlots,
-        level: state.progression.heroLevel,
-        gold: state.resources.gold,
-        lastProgressDay: state.time.day
-      }
-      return false
+    if (this.stallDiagnosis) {
+      console.log(`🧱 SimulationOrchestrator: ${this.stallDiagnosis.summary}`)
     }
-
-    const daysSinceLastCheck = state.time.day - this.lastProgressCheck.lastProgressDay
-    
-    if (daysSinceLastCheck >= 3) {
-      const plotsGained = state.progression.farmPlots - this.lastProgressCheck.plots
-      const goldGained = state.resources.gold - this.lastProgressCheck.gold
-      
-      if (plotsGained < 2 && goldGained < 100) {
-        return true
-      }
-
-      this.lastProgressCheck = {
-        day: state.time.day,
-        plots: state.progression.farmPlots,
-        level: state.progression.heroLevel,
-        gold: state.resources.gold,
-        lastProgressDay: state.time.day
-      }
-    }
-
-    return false
+    return this.stallDiagnosis !== null
   }
 
   // =============================================================================
@@ -365,6 +486,137 @@ export class SimulationOrchestrator {
     }
   }
 
+  /**
+   * Seed of this run's PRNG - replaying it with the same config reproduces the run
+   */
+  getSeed(): number {
+    return this.rng.seed
+  }
+
+  /**
+   * Capture everything needed to resume this run later - or fork it under different parameters
+   */
+  createCheckpoint(): SimulationCheckpoint {
+    return {
+      version: CHECKPOINT_VERSION,
+      createdAt: new Date().toISOString(),
+      day: this.gameState.time.day,
+      config: MapSerializer.serialize(this.config),
+      tickCount: this.tickCount,
+      gameState: MapSerializer.serializeMapsInObject(this.gameState),
+      rngState: this.rng.getState(),
+      processes: MapSerializer.serializeMapsInObject(this.processManager.getCheckpointState()),
+      enemyRolls: Array.from(this.enemyRolls.entries()),
+      lastCheckinTime: this.decisionEngine.getLastCheckinTime(),
+      stallBaseline: this.stallDetector.getBaseline(),
+      victoryMetOnDay: Array.from(this.victoryMetOnDay.entries()),
+      learning: this.decisionEngine.getLearningState(),
+      script: this.decisionEngine instanceof ScriptedPlayer ? this.decisionEngine.getCursor() : undefined
+    }
+  }
+
+  /**
+   * Continue from a checkpoint - this orchestrator's own config (and parameters) stay in effect
+   */
+  restoreCheckpoint(checkpoint: SimulationCheckpoint): void {
+    const restoredState: GameState = MapSerializer.deserializeMapsInObject(checkpoint.gameState)
+
+    // StateManager and ResourceManager hold this object - replace its contents, not the reference
+    Object.assign(this.gameState, restoredState)
+
+    this.rng.setState(checkpoint.rngState)
+    this.processManager.restoreCheckpointState(CheckpointSerializer.deserializeProcesses(checkpoint))
+    this.enemyRolls = new Map(checkpoint.enemyRolls)
+    AdventureSystem.restoreEnemyRolls(this.enemyRolls)
+    this.decisionEngine.restoreLastCheckin(checkpoint.lastCheckinTime)
+    this.tickCount = checkpoint.tickCount
+    this.stallDetector.restoreBaseline(checkpoint.stallBaseline)
+    this.stallDiagnosis = null
+    this.lastTickIdle = false
+    this.manualControl.cancel()
+    this.victoryMetOnDay = new Map(checkpoint.victoryMetOnDay ?? [])
+    if (checkpoint.learning) {
+      this.decisionEngine.restoreLearningState(checkpoint.learning)
+    }
+    if (checkpoint.script && this.decisionEngine instanceof ScriptedPlayer) {
+      this.decisionEngine.restoreCursor(checkpoint.script)
+    }
+
+    console.log(`⏪ SimulationOrchestrator: Restored checkpoint from day ${checkpoint.day} (tick ${checkpoint.tickCount})`)
+  }
+
+  /**
+   * The persona's knowledge at the end of each played day - recorded in the report
+   */
+  getLearningCurve(): LearningCurvePoint[] {
+    return this.decisionEngine.getLearningCurve()
+  }
+
+  /**
+   * Script steps the game refused - empty unless the run replays a script
+   */
+  getScriptErrors(): ScriptStepError[] {
+    return this.decisionEngine instanceof ScriptedPlayer ? this.decisionEngine.getErrors() : []
+  }
+
+  /**
+   * Let a person make the decisions - the tick stops at each check-in with a pending decision
+   */
+  setManualMode(enabled: boolean): void {
+    this.manualControl.setEnabled(enabled, this.gameState)
+  }
+
+  /**
+   * Play a person's choice for the pending check-in - a refused choice leaves it pending with the errors
+   */
+  resolveDecision(choice: DecisionChoice): { executedActions: GameAction[], events: GameEvent[], pendingDecision: PendingDecision | null } {
+    return this.withOwnSystems(() => this.playChoice(choice))
+  }
+
+  private playChoice(choice: DecisionChoice): { executedActions: GameAction[], events: GameEvent[], pendingDecision: PendingDecision | null } {
+    const resolution = this.manualControl.resolve(choice, this.stateManager.getState(), this.parameters, this.gameDataStore)
+    if ('errors' in resolution) {
+      return { executedActions: [], events: [], pendingDecision: this.manualControl.getPending() }
+    }
+
+    // A person's own choice replaces the rest of the AI's planned session
+    if (choice.kind !== 'ai') {
+      this.decisionEngine.endSession()
+    }
+
+    const { executedActions, actionEvents } = this.executeActions(resolution.actions)
+    const levelEvents = this.applyLevelUps()
+    this.decisionEngine.recordExperience(executedActions, this.stateManager.getState())
+    this.lastTickIdle = false
+    return { executedActions, events: [...actionEvents, ...levelEvents], pendingDecision: null }
+  }
+
+  /**
+   * Every manual choice as a script - empty if nobody took control
+   */
+  getManualScript(): ScriptStep[] {
+    return this.manualControl.toScript()
+  }
+
+  /**
+   * What the AI weighed at each check-in - recorded in the report for "why not" questions
+   */
+  getDecisionTraces(): DecisionTrace[] {
+    return this.decisionEngine.getDecisionTraces()
+  }
+
+  /**
+   * Each victory condition and the day it was first met - recorded in the report
+   */
+  getVictoryResults(): VictoryConditionResult[] {
+    return this.victoryConditions.map(condition => ({
+      condition: { ...condition },
+      label: VictoryConditionEvaluator.describe(condition),
+      met: this.victoryMetOnDay.has(condition.id),
+      metOnDay: this.victoryMetOnDay.get(condition.id) ?? null
+    }))
+  }
+
   /**
    * Set simulation speed
    */
@@ -395,7 +647,51 @@ export class SimulationOrchestrator {
    */
   private calculateDeltaTime(): number {
     const state = this.stateManager.getState()
-    return 1 * state.time.speed
+    const step = 1 * state.time.speed
+    
+    if (!this.timeSkipping || !this.lastTickIdle) {
+      return step
+    }
+    
+    // The AI found nothing to do - wait for a completion, its next check-in or the end of the session
+    const now = state.time.totalMinutes
+    const candidates: Array<NextEvent | null> = [
+      NextEventScheduler.findNextCompletion(state, this.processManager, this.gameDataStore)
+    ]
+    if (this.aiWaiting) {
+      const checkin = this.decisionEngine.getNextCheckinTime(state, MAX_TIME_SKIP_MINUTES)
+      candidates.push(checkin === null ? null : { time: checkin, source: 'checkin' })
+    }
+    const session = this.sessionScheduler?.getCurrentSession(now)
+    if (session) {
+      candidates.push({ time: session.end, source: 'session_end' })
+    }
+    
+    const next = NextEventScheduler.planSkip(now, candidates)
+    if (next.time - now <= step) {
+      return step
+    }
+    
+    console.log(`⏩ Skipping ${next.time - now} idle minutes to next ${next.source}`)
+    return next.time - now
+  }
+
+  /**
+   * Turn XP earned since the last check into hero levels - announced on the event bus and in the tick's events
+   */
+  private applyLevelUps(): GameEvent[] {
+    const levelUp = HeroProgression.applyExperience(this.gameState)
+    if (!levelUp) return []
+
+    this.eventBus.emit('level_up', levelUp)
+    console.log(`⬆️ Hero level ${levelUp.oldLevel} → ${levelUp.newLevel} (${levelUp.totalXp} XP)`)
+    return [{
+      timestamp: this.gameState.time.totalMinutes,
+      type: 'level_up',
+      description: `Hero reached level ${levelUp.newLevel}`,
+      data: levelUp,
+      importance: 'medium'
+    }]
   }
 
   /**
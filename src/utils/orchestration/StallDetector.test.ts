@@ -0,0 +1,51 @@
+// StallDetector tests
+// Stalls are judged on the progress vector, and switched-off metrics never count
+
+import { describe, it, expect } from 'vitest'
+import { StallDetector } from '@/utils/orchestration/StallDetector'
+import { createTestGameState } from '@/tests/fixtures'
+
+describe('StallDetector - Progress Vector', () => {
+  const gameDataStore = { getItemById: () => null }
+
+  it('should count hero levels as progress and diagnose a real stall', () => {
+    const detector = new StallDetector({ mode: 'bottleneck', bottleneckThreshold: 2 })
+    const gameState = createTestGameState()
+    const rejections = [{
+      totalMinutes: 100,
+      actionType: 'plant',
+      target: 'carrot',
+      reason: 'resources' as const,
+      resource: 'energy',
+      needed: 10,
+      detail: 'Needs 10 energy, has 2'
+    }]
+
+    expect(detector.check(gameState, () => rejections, gameDataStore)).toBeNull()
+
+    // Two days with no plots or gold, but a level gained - still progress
+    gameState.time.day = 3
+    gameState.progression.heroLevel = 4
+    expect(detector.check(gameState, () => rejections, gameDataStore)).toBeNull()
+
+    gameState.time.day = 5
+    gameState.resources.energy.current = 2
+    const diagnosis = detector.check(gameState, () => rejections, gameDataStore)
+
+    expect(diagnosis?.windowDays).toBe(2)
+    expect(diagnosis?.starvedResources[0]).toMatchObject({ resource: 'energy', needed: 10, rejections: 1 })
+    expect(diagnosis?.rejectedActions[0]).toMatchObject({ actionType: 'plant', count: 1 })
+    expect(diagnosis?.summary).toContain('starved of energy')
+  })
+
+  it('should never stall when every threshold is switched off', () => {
+    const stallThresholds = { farmPlots: 0, heroLevel: 0, gold: 0, materials: 0, helpers: 0, gear: 0, upgrades: 0, adventures: 0 }
+    const detector = new StallDetector({ mode: 'bottleneck', bottleneckThreshold: 1, stallThresholds })
+    const gameState = createTestGameState()
+
+    for (let day = 1; day <= 5; day++) {
+      gameState.time.day = day
+      expect(detector.check(gameState, () => [], gameDataStore)).toBeNull()
+    }
+  })
+})
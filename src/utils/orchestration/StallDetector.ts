@@ -0,0 +1,246 @@
+// StallDetector - Progress-vector bottleneck detection
+// Flags a run as stuck when no watched metric gains enough over the window, and explains why
+
+import { prerequisiteService } from '../validation'
+import { PrerequisiteSystem } from '../systems/support/PrerequisiteSystem'
+import type {
+  GameState,
+  QuickSetup,
+  ActionRejection,
+  ProgressMetric,
+  ProgressVector,
+  StallDiagnosis
+} from '@/types'
+
+export const DEFAULT_STALL_WINDOW_DAYS = 3
+
+/**
+ * Minimum gain per window that counts as progress - 0 ignores the metric, all 0 never stalls
+ * Plots and gold match the old fixed rule (2 plots or 100 gold in 3 days)
+ */
+export const DEFAULT_STALL_THRESHOLDS: Record<ProgressMetric, number> = {
+  farmPlots: 2,
+  heroLevel: 1,
+  gold: 100,
+  materials: 20,
+  helpers: 1,
+  gear: 1,
+  upgrades: 1,
+  adventures: 1
+}
+
+/**
+ * Where the current window started - saved in checkpoints
+ */
+export interface StallBaseline {
+  day: number
+  vector: ProgressVector
+}
+
+/**
+ * Watches the progress vector between checks and diagnoses stalls
+ */
+export class StallDetector {
+  private readonly windowDays: number
+  private readonly thresholds: Record<ProgressMetric, number>
+  private baseline?: StallBaseline
+
+  constructor(duration?: QuickSetup['duration']) {
+    this.windowDays = Math.max(1, duration?.bottleneckThreshold ?? DEFAULT_STALL_WINDOW_DAYS)
+    this.thresholds = { ...DEFAULT_STALL_THRESHOLDS, ...(duration?.stallThresholds || {}) }
+  }
+
+  /**
+   * Snapshot of every watched metric
+   */
+  static measure(gameState: GameState): ProgressVector {
+    const inventory = gameState.inventory
+    const weaponLevels = Array.from(inventory.weapons.values()).reduce((sum, weapon) => sum + (weapon.level || 1), 0)
+
+    return {
+      farmPlots: gameState.progression.farmPlots,
+      heroLevel: gameState.progression.heroLevel,
+      gold: gameState.resources.gold,
+      materials: Array.from(gameState.resources.materials.values()).reduce((sum, amount) => sum + amount, 0),
+      helpers: gameState.helpers?.gnomes?.length || 0,
+      gear: inventory.tools.size + inventory.armor.size + weaponLevels,
+      upgrades: gameState.progression.unlockedUpgrades.length + gameState.progression.builtStructures.size,
+      adventures: gameState.progression.completedAdventures.length
+    }
+  }
+
+  /**
+   * Check the window - returns a diagnosis when the run has stalled, null otherwise
+   * rejectionsSince supplies the AI's rejected actions from a point in time
+   */
+  check(
+    gameState: GameState,
+    rejectionsSince: (totalMinutes: number) => ActionRejection[],
+    gameDataStore: any
+  ): StallDiagnosis | null {
+    const day = gameState.time.day
+
+    // Nothing is watched - no window can fall short
+    if (!Object.values(this.thresholds).some(threshold => threshold > 0)) {
+      return null
+    }
+
+    if (!this.baseline) {
+      this.baseline = { day, vector: StallDetector.measure(gameState) }
+      return null
+    }
+
+    if (day - this.baseline.day < this.windowDays) {
+      return null
+    }
+
+    const current = StallDetector.measure(gameState)
+    const progress = (Object.keys(this.thresholds) as ProgressMetric[]).map(metric => ({
+      metric,
+      gained: current[metric] - this.baseline!.vector[metric],
+      threshold: this.thresholds[metric]
+    }))
+
+    if (progress.some(entry => entry.threshold > 0 && entry.gained >= entry.threshold)) {
+      this.baseline = { day, vector: current }
+      return null
+    }
+
+    const windowStart = (this.baseline.day - 1) * 24 * 60
+    return this.diagnose(gameState, progress, rejectionsSince(windowStart), gameDataStore)
+  }
+
+  getBaseline(): StallBaseline | undefined {
+    return this.baseline ? { day: this.baseline.day, vector: { ...this.baseline.vector } } : undefined
+  }
+
+  restoreBaseline(baseline: StallBaseline | undefined): void {
+    this.baseline = baseline ? { day: baseline.day, vector: { ...baseline.vector } } : undefined
+  }
+
+  /**
+   * Starved resources, blocking prerequisites and rejected actions over the window
+   */
+  private diagnose(
+    gameState: GameState,
+    progress: StallDiagnosis['progress'],
+    rejections: ActionRejection[],
+    gameDataStore: any
+  ): StallDiagnosis {
+    const starvedResources = this.findStarvedResources(gameState, rejections)
+    const blockingPrerequisites = this.findBlockingPrerequisites(gameState, rejections, gameDataStore)
+
+    const grouped = new Map<string, StallDiagnosis['rejectedActions'][number]>()
+    for (const rejection of rejections) {
+      const key = `${rejection.actionType}:${rejection.target}:${rejection.reason}`
+      const entry = grouped.get(key)
+      if (entry) {
+        entry.count++
+        entry.detail = rejection.detail
+      } else {
+        grouped.set(key, {
+          actionType: rejection.actionType,
+          target: rejection.target,
+          reason: rejection.reason,
+          detail: rejection.detail,
+          count: 1
+        })
+      }
+    }
+    const rejectedActions = Array.from(grouped.values()).sort((a, b) => b.count - a.count).slice(0, 10)
+
+    const causes: string[] = []
+    if (starvedResources.length > 0) {
+      causes.push(`starved of ${starvedResources.map(entry => entry.resource).join(', ')}`)
+    }
+    if (blockingPrerequisites.length > 0) {
+      causes.push(`blocked on ${blockingPrerequisites[0].missingPrerequisites.join(', ') || blockingPrerequisites[0].itemId}`)
+    }
+    if (rejectedActions.length > 0) {
+      causes.push(`${rejections.length} actions rejected`)
+    }
+
+    return {
+      day: gameState.time.day,
+      windowDays: this.windowDays,
+      progress,
+      starvedResources,
+      blockingPrerequisites,
+      rejectedActions,
+      summary: `No progress in ${this.windowDays} days` + (causes.length > 0 ? `: ${causes.join('; ')}` : '')
+    }
+  }
+
+  private findStarvedResources(gameState: GameState, rejections: ActionRejection[]): StallDiagnosis['starvedResources'] {
+    const starved = new Map<string, StallDiagnosis['starvedResources'][number]>()
+
+    for (const rejection of rejections) {
+      if (rejection.reason !== 'resources' || !rejection.resource) continue
+      const entry = starved.get(rejection.resource) ?? {
+        resource: rejection.resource,
+        available: this.getAmount(gameState, rejection.resource),
+        needed: 0,
+        rejections: 0
+      }
+      entry.needed = Math.max(entry.needed, rejection.needed ?? 0)
+      entry.rejections++
+      starved.set(rejection.resource, entry)
+    }
+
+    // Empty energy stalls everything even when the AI stopped proposing actions
+    const energy = gameState.resources.energy
+    if (!starved.has('energy') && energy.current < energy.max * 0.1) {
+      starved.set('energy', { resource: 'energy', available: energy.current, needed: Math.ceil(energy.max * 0.1), rejections: 0 })
+    }
+
+    return Array.from(starved.values()).sort((a, b) => b.rejections - a.rejections)
+  }
+
+  /**
+   * Prerequisites behind rejected actions, plus whatever gates the next farm stage
+   */
+  private findBlockingPrerequisites(
+    gameState: GameState,
+    rejections: ActionRejection[],
+    gameDataStore: any
+  ): StallDiagnosis['blockingPrerequisites'] {
+    const blocking = new Map<string, StallDiagnosis['blockingPrerequisites'][number]>()
+
+    const check = (itemId: string, fallbackMissing: string[] = []) => {
+      if (blocking.has(itemId)) return
+      const item = gameDataStore?.getItemById?.(itemId)
+      if (item) {
+        const result = prerequisiteService.checkPrerequisitesDetailed(item, gameState, gameDataStore)
+        if (!result.satisfied) {
+          blocking.set(itemId, { itemId, missingPrerequisites: result.missingPrerequisites, reasons: result.reasons })
+        }
+      } else if (fallbackMissing.length > 0) {
+        blocking.set(itemId, { itemId, missingPrerequisites: fallbackMissing, reasons: [] })
+      }
+    }
+
+    for (const rejection of rejections) {
+      if (rejection.reason === 'prerequisites') {
+        check(rejection.target, rejection.missingPrerequisites)
+      }
+    }
+
+    const nextStage = PrerequisiteSystem.getFarmStageFromPlots(gameState.progression.farmPlots) + 1
+    check(`farm_stage_${nextStage}`)
+
+    return Array.from(blocking.values()).slice(0, 5)
+  }
+
+  private getAmount(gameState: GameState, resource: string): number {
+    switch (resource) {
+      case 'energy':
+        return gameState.resources.energy.current
+      case 'gold':
+        return gameState.resources.gold
+      case 'water':
+        return gameState.resources.water.current
+      default:
+        return gameState.resources.materials.get(resource) || 0
+    }
+  }
+}
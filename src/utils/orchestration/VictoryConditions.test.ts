@@ -0,0 +1,45 @@
+// VictoryConditions tests
+// Declarative win conditions resolved from the run's duration settings
+
+import { describe, it, expect } from 'vitest'
+import { VictoryConditionEvaluator } from '@/utils/orchestration/VictoryConditions'
+import { createTestGameState } from '@/tests/fixtures'
+
+describe('VictoryConditionEvaluator - Declarative Win Conditions', () => {
+  const gameDataStore = {
+    getItemById: (id: string) => id === 'frost_peaks_short' ? { id, boss: 'Frost Wyrm' } : null,
+    getSpecializedDataByFile: () => [{ id: 'late_to_endgame', to_phase: 'Endgame', prerequisite: 'great_estate_deed' }]
+  }
+
+  it('should keep the classic farm goal when no conditions are configured', () => {
+    const conditions = VictoryConditionEvaluator.resolve({ mode: 'completion' })
+    const gameState = createTestGameState()
+
+    gameState.resources.gold = 10000
+    expect(conditions.some(condition => VictoryConditionEvaluator.isMet(condition, gameState, gameDataStore))).toBe(false)
+
+    gameState.progression.farmPlots = 50
+    expect(conditions.some(condition => VictoryConditionEvaluator.isMet(condition, gameState, gameDataStore))).toBe(true)
+  })
+
+  it('should check weapons, bosses and phases against game data', () => {
+    const gameState = createTestGameState()
+    gameState.progression.completedCleanups = new Set()
+
+    const weapon = { id: 'w', type: 'own_item' as const, target: 'sword_3' }
+    const boss = { id: 'b', type: 'defeat_boss' as const, target: 'frost wyrm' }
+    const phase = { id: 'p', type: 'phase' as const, target: 'Endgame' }
+
+    expect(VictoryConditionEvaluator.isMet(weapon, gameState, gameDataStore)).toBe(false)
+    gameState.inventory.weapons.set('sword', { id: 'sword_3', durability: 100, maxDurability: 100, isEquipped: false, level: 3 })
+    expect(VictoryConditionEvaluator.isMet(weapon, gameState, gameDataStore)).toBe(true)
+
+    expect(VictoryConditionEvaluator.isMet(boss, gameState, gameDataStore)).toBe(false)
+    gameState.progression.completedAdventures.push('frost_peaks_short')
+    expect(VictoryConditionEvaluator.isMet(boss, gameState, gameDataStore)).toBe(true)
+
+    expect(VictoryConditionEvaluator.isMet(phase, gameState, gameDataStore)).toBe(false)
+    gameState.progression.unlockedUpgrades.push('great_estate_deed')
+    expect(VictoryConditionEvaluator.isMet(phase, gameState, gameDataStore)).toBe(true)
+  })
+})
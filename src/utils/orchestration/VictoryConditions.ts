@@ -0,0 +1,158 @@
+// VictoryConditions - Declarative win conditions for a simulation run
+// Evaluates the QuickSetup.duration.victoryConditions list against the live GameState
+
+import { PrerequisiteSystem } from '../systems/support/PrerequisiteSystem'
+import type { GameState, QuickSetup, VictoryCondition, VictoryConditionType } from '@/types'
+
+/**
+ * Condition types with the labels and inputs the setup screen offers
+ */
+export const VICTORY_CONDITION_TYPES: Array<{
+  value: VictoryConditionType
+  label: string
+  input: 'value' | 'target'
+  placeholder: string
+}> = [
+  { value: 'farm_plots', label: 'Farm plots', input: 'value', placeholder: '90' },
+  { value: 'gold', label: 'Gold', input: 'value', placeholder: '10000' },
+  { value: 'hero_level', label: 'Hero level', input: 'value', placeholder: '10' },
+  { value: 'farm_stage', label: 'Farm stage', input: 'value', placeholder: '5' },
+  { value: 'own_item', label: 'Own item', input: 'target', placeholder: 'sword_3' },
+  { value: 'defeat_boss', label: 'Defeat boss', input: 'target', placeholder: 'Frost Wyrm' },
+  { value: 'phase', label: 'Unlock phase', input: 'target', placeholder: 'Endgame' }
+]
+
+/**
+ * Checks declarative victory conditions - pure functions of GameState and CSV data
+ */
+export class VictoryConditionEvaluator {
+  /**
+   * The original hard-coded goal: a 90-plot farm, or 10k gold on 50+ plots
+   */
+  static readonly DEFAULT_CONDITIONS: VictoryCondition[] = [
+    { id: 'classic_plots', type: 'farm_plots', value: 90 },
+    { id: 'classic_gold', type: 'gold', value: 10000, minPlots: 50 }
+  ]
+
+  /**
+   * Conditions a run is judged against - the defaults when none are configured
+   */
+  static resolve(duration: QuickSetup['duration'] | undefined): VictoryCondition[] {
+    const conditions = duration?.victoryConditions
+    return conditions && conditions.length > 0 ? conditions : this.DEFAULT_CONDITIONS
+  }
+
+  /**
+   * Check whether a single condition holds in the current state
+   */
+  static isMet(condition: VictoryCondition, gameState: GameState, gameDataStore: any): boolean {
+    const progression = gameState.progression
+    const value = condition.value ?? 0
+    const target = (condition.target || '').trim()
+
+    switch (condition.type) {
+      case 'farm_plots':
+        return progression.farmPlots >= value
+      case 'gold':
+        return gameState.resources.gold >= value && progression.farmPlots >= (condition.minPlots ?? 0)
+      case 'hero_level':
+        return progression.heroLevel >= value
+      case 'farm_stage':
+        // farmStage is only set at start - plots are the live measure of land expansion
+        return Math.max(progression.farmStage, PrerequisiteSystem.getFarmStageFromPlots(progression.farmPlots)) >= value
+      case 'own_item':
+        return target !== '' && this.ownsItem(target, gameState)
+      case 'defeat_boss':
+        return target !== '' && this.hasDefeatedBoss(target, gameState, gameDataStore)
+      case 'phase':
+        return target !== '' && this.hasUnlockedPhase(target, gameState, gameDataStore)
+      default:
+        return false
+    }
+  }
+
+  /**
+   * Human-readable condition, used in reports and the setup screen
+   */
+  static describe(condition: VictoryCondition): string {
+    switch (condition.type) {
+      case 'farm_plots':
+        return `${condition.value ?? 0} farm plots`
+      case 'gold':
+        return condition.minPlots
+          ? `${condition.value ?? 0} gold with ${condition.minPlots}+ plots`
+          : `${condition.value ?? 0} gold`
+      case 'hero_level':
+        return `Hero level ${condition.value ?? 0}`
+      case 'farm_stage':
+        return `Reach farm_stage_${condition.value ?? 0}`
+      case 'own_item':
+        return `Own ${condition.target || '?'}`
+      case 'defeat_boss':
+        return `Defeat ${condition.target || '?'}`
+      case 'phase':
+        return `Unlock phase ${condition.target || '?'}`
+      default:
+        return condition.type
+    }
+  }
+
+  /**
+   * Validation message for an incomplete condition, or null if it can be evaluated
+   */
+  static validate(condition: VictoryCondition): string | null {
+    const type = VICTORY_CONDITION_TYPES.find(option => option.value === condition.type)
+    if (!type) {
+      return `Unknown victory condition type: ${condition.type}`
+    }
+    if (type.input === 'value' && (condition.value === undefined || condition.value < 1)) {
+      return `Victory condition "${type.label}" needs a value of at least 1`
+    }
+    if (type.input === 'target' && !condition.target?.trim()) {
+      return `Victory condition "${type.label}" needs a target`
+    }
+    return null
+  }
+
+  /**
+   * Weapons are keyed by type with the crafted id inside, so check both
+   */
+  private static ownsItem(itemId: string, gameState: GameState): boolean {
+    const inventory = gameState.inventory
+    const owned = (items: Map<string, { id: string }>) =>
+      items.has(itemId) || Array.from(items.values()).some(item => item.id === itemId)
+
+    return owned(inventory.weapons) ||
+           owned(inventory.tools) ||
+           owned(inventory.armor) ||
+           gameState.progression.unlockedUpgrades.includes(itemId) ||
+           gameState.progression.builtStructures.has(itemId)
+  }
+
+  /**
+   * A boss counts as defeated once any route it guards has been completed
+   */
+  private static hasDefeatedBoss(boss: string, gameState: GameState, gameDataStore: any): boolean {
+    const wanted = boss.toLowerCase()
+    return gameState.progression.completedAdventures.some(adventureId => {
+      const adventure = gameDataStore?.getItemById?.(adventureId)
+      return (adventure?.boss || '').toLowerCase() === wanted
+    })
+  }
+
+  /**
+   * A phase is unlocked when the prerequisites of its transition in phase_transitions.csv are met
+   */
+  private static hasUnlockedPhase(phase: string, gameState: GameState, gameDataStore: any): boolean {
+    const wanted = phase.toLowerCase()
+    const transitions: Record<string, any>[] = gameDataStore?.getSpecializedDataByFile?.('phase_transitions.csv') || []
+    const transition = transitions.find(row => (row.to_phase || '').toLowerCase() === wanted)
+
+    if (!transition) {
+      // Not in the CSV - fall back to the orchestrator's own phase label
+      return gameState.progression.currentPhase.toLowerCase() === wanted
+    }
+
+    return PrerequisiteSystem.checkPrerequisites(transition, gameState, gameDataStore)
+  }
+}
@@ -4,6 +4,25 @@
 // Main orchestrator
 export { SimulationOrchestrator } from './SimulationOrchestrator'
 
+// Victory conditions
+export { VictoryConditionEvaluator, VICTORY_CONDITION_TYPES } from './VictoryConditions'
+
+// Stall detection
+export { StallDetector, DEFAULT_STALL_THRESHOLDS, DEFAULT_STALL_WINDOW_DAYS } from './StallDetector'
+export type { StallBaseline } from './StallDetector'
+
+// Calendar play sessions
+export { SessionScheduler, DEFAULT_PERSONA_SCHEDULE, WEEKDAY_NAMES } from './SessionScheduler'
+export type { SessionWindow } from './SessionScheduler'
+
+// Event-driven time skipping
+export { NextEventScheduler, MAX_TIME_SKIP_MINUTES } from './NextEventScheduler'
+export type { NextEvent, NextEventSource } from './NextEventScheduler'
+
+// Human-in-the-loop check-ins
+export { ManualControl } from './ManualControl'
+export type { ManualResolution } from './ManualControl'
+
 // Configuration management
 export { ConfigurationManager } from './ConfigurationManager'
 
@@ -12,10 +12,19 @@ import type {
   ValidationResult,
   StateChanges,
   ProcessEvent,
-  IProcessHandler
+  IProcessHandler,
+  HelperTrainingProcessData
 } from './types/ProcessTypes'
 import { ProcessRegistry } from './ProcessRegistry'
 
+/**
+ * Serializable process manager state for simulation checkpoints
+ */
+export interface ProcessManagerCheckpoint {
+  nextProcessId: number
+  handles: ProcessHandle[]
+}
+
 // Import process handlers
 import { CropGrowthHandler } from './handlers/CropGrowthHandler'
 import { AdventureHandler } from './handlers/AdventureHandler'
@@ -251,6 +260,34 @@ export class ProcessManager {
     return this.registry.getActiveProcessesByType(type)
   }
   
+  /**
+   * Earliest time a timed process (adventure, seed catching, helper training) finishes - null if none
+   * Crops, crafting and mining progress with system state, so FarmSystem, ForgeSystem and MineSystem report those
+   */
+  getNextCompletionTime(gameState: GameState): number | null {
+    let next = Infinity
+    
+    for (const handle of this.registry.getActiveProcesses()) {
+      switch (handle.type) {
+        case 'adventure': {
+          const adventure = gameState.processes.adventure
+          if (adventure && !adventure.isComplete) next = Math.min(next, adventure.startedAt + adventure.duration)
+          break
+        }
+        case 'seed_catching': {
+          const seedCatch = gameState.processes.seedCatching
+          if (seedCatch) next = Math.min(next, seedCatch.startedAt + seedCatch.duration)
+          break
+        }
+        case 'helper_training':
+          next = Math.min(next, handle.startTime + (handle.data as HelperTrainingProcessData).duration)
+          break
+      }
+    }
+    
+    return Number.isFinite(next) ? Math.ceil(next) : null
+  }
+  
   /**
    * Check if a process type has active instances
    */
@@ -272,6 +309,27 @@ export class ProcessManager {
     return this.registry.getStats()
   }
   
+  /**
+   * Active handles plus the id counter - what a checkpoint needs to resume processes
+   */
+  getCheckpointState(): ProcessManagerCheckpoint {
+    return {
+      nextProcessId: this.nextProcessId,
+      handles: this.registry.getActiveProcesses().map(handle => ({ ...handle }))
+    }
+  }
+  
+  /**
+   * Replace all active processes with those saved in a checkpoint
+   */
+  restoreCheckpointState(checkpoint: ProcessManagerCheckpoint): void {
+    this.registry.clearActiveProcesses()
+    for (const handle of checkpoint.handles) {
+      this.registry.addActiveProcess({ ...handle })
+    }
+    this.nextProcessId = checkpoint.nextProcessId
+  }
+  
   /**
    * Merge state changes from multiple processes
    */
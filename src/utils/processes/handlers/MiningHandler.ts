@@ -89,9 +89,8 @@ export class MiningHandler implements IProcessHandler {
     
     const events: ProcessEvent[] = []
     
-    // Add material discovery events if depth increased significantly
-    const depthIncrease = miningState.depth - previousDepth
-    if (depthIncrease >= 500) { // Reached new tier
+    // Add material discovery events when the hero enters a new depth tier
+    if (MineSystem.getDepthTier(miningState.depth) !== MineSystem.getDepthTier(previousDepth)) {
       events.push({
         timestamp: gameState.time.totalMinutes,
         type: 'mining_tier_reached',
@@ -2,6 +2,7 @@
 // Exports for the unified process management system
 
 export { ProcessManager } from './ProcessManager'
+export type { ProcessManagerCheckpoint } from './ProcessManager'
 export { ProcessRegistry } from './ProcessRegistry'
 
 // Export types
@@ -0,0 +1,84 @@
+// SeededRandom - Deterministic PRNG for reproducible simulation runs
+// mulberry32: 32-bit state, fast, and good enough for gameplay rolls
+
+/**
+ * Seedable pseudo-random number generator
+ * Drop-in replacement for Math.random() with a resumable state
+ */
+export class SeededRandom {
+  private readonly initialSeed: number
+  private state: number
+
+  constructor(seed: number = SeededRandom.generateSeed()) {
+    this.initialSeed = SeededRandom.normalizeSeed(seed)
+    this.state = this.initialSeed
+  }
+
+  /**
+   * Generate a fresh seed for runs that did not specify one
+   */
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0
+  }
+
+  /**
+   * Coerce any number into a 32-bit unsigned seed
+   */
+  static normalizeSeed(seed: number): number {
+    return Number.isFinite(seed) ? Math.floor(seed) >>> 0 : 0
+  }
+
+  /**
+   * The seed this generator was created with
+   */
+  get seed(): number {
+    return this.initialSeed
+  }
+
+  /**
+   * Next float in [0, 1) - same contract as Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000
+  }
+
+  /**
+   * Integer in [min, max] inclusive
+   */
+  nextInt(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min
+  }
+
+  /**
+   * True with the given probability (0-1)
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability
+  }
+
+  /**
+   * Uniformly pick one element; undefined for an empty array
+   */
+  pick<T>(items: readonly T[]): T | undefined {
+    if (items.length === 0) return undefined
+    return items[Math.floor(this.next() * items.length)]
+  }
+
+  /**
+   * Current internal state, for checkpointing
+   */
+  getState(): number {
+    return this.state
+  }
+
+  /**
+   * Resume from a state previously returned by getState()
+   */
+  setState(state: number): void {
+    this.state = SeededRandom.normalizeSeed(state)
+  }
+}
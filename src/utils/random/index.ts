@@ -0,0 +1,4 @@
+// Random Module Index
+// Seeded randomness shared by the simulation systems
+
+export { SeededRandom } from './SeededRandom'
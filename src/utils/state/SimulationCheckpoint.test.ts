@@ -0,0 +1,49 @@
+// SimulationCheckpoint tests
+// Checkpoints carry Maps, Sets and process handles through JSON and back
+
+import { describe, it, expect } from 'vitest'
+import type { GameState } from '@/types'
+import { MapSerializer } from '@/utils/MapSerializer'
+import { ProcessManager } from '@/utils/processes'
+import { createTestGameState } from '@/tests/fixtures'
+
+describe('Checkpoints - Save and Restore', () => {
+  it('should keep Maps and Sets in game state through a JSON round trip', () => {
+    const gameState = createTestGameState()
+    gameState.progression.builtStructures.add('tower')
+
+    const json = JSON.stringify(MapSerializer.serializeMapsInObject(gameState))
+    const restored: GameState = MapSerializer.deserializeMapsInObject(JSON.parse(json))
+
+    expect(restored.resources.seeds).toBeInstanceOf(Map)
+    expect(restored.resources.seeds.get('carrot')).toBe(5)
+    expect(restored.progression.builtStructures).toBeInstanceOf(Set)
+    expect(restored.progression.builtStructures.has('tower')).toBe(true)
+    expect(restored.time).toEqual(gameState.time)
+  })
+
+  it('should restore process handles and keep ids unique', () => {
+    const source = new ProcessManager()
+    const checkpoint = {
+      nextProcessId: 5,
+      handles: [{
+        id: 'crafting_4',
+        type: 'crafting' as const,
+        data: { itemId: 'hoe' } as any,
+        startTime: 10,
+        lastUpdate: 20,
+        progress: 0.5,
+        state: 'running' as const
+      }]
+    }
+
+    source.restoreCheckpointState(checkpoint)
+    expect(source.getProcess('crafting_4')?.progress).toBe(0.5)
+    expect(source.getCheckpointState()).toEqual(checkpoint)
+
+    const restored = new ProcessManager()
+    restored.restoreCheckpointState(JSON.parse(JSON.stringify(source.getCheckpointState())))
+    expect(restored.hasActiveProcess('crafting')).toBe(true)
+    expect(restored.getCheckpointState().nextProcessId).toBe(5)
+  })
+})
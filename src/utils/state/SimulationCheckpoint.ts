@@ -0,0 +1,72 @@
+// SimulationCheckpoint - Full resumable simulation state
+// Everything a fresh SimulationOrchestrator needs to continue a run exactly where another stopped
+
+import { MapSerializer, type SerializedSimulationConfig } from '../MapSerializer'
+import type { ProcessManagerCheckpoint } from '../processes'
+import type { EnemyRoll } from '../systems/core/AdventureSystem'
+import type { StallBaseline } from '../orchestration/StallDetector'
+import type { LearningState } from '../ai/LearningModel'
+import type { ScriptCursor } from '../ai/ScriptedPlayer'
+
+export const CHECKPOINT_VERSION = 1
+
+/**
+ * Serializable checkpoint of a running simulation
+ * Maps and Sets inside gameState and processes use MapSerializer's tagged form, so the whole object is JSON-safe
+ */
+export interface SimulationCheckpoint {
+  version: number
+  createdAt: string
+  day: number                     // Game day at capture, for labels
+  config: SerializedSimulationConfig
+  tickCount: number
+  gameState: any                  // Serialized GameState
+  rngState: number
+  processes: any                  // Serialized ProcessManagerCheckpoint
+  enemyRolls: Array<[string, EnemyRoll]>
+  lastCheckinTime: number
+  stallBaseline?: StallBaseline   // Start of the stall detector's current window
+  victoryMetOnDay?: Array<[string, number]>   // Victory condition id -> day first met
+  learning?: LearningState        // Persona experience, so resumed runs keep what they learned
+  script?: ScriptCursor           // Replay position, when the run replays a script
+}
+
+/**
+ * Reads and writes checkpoint files
+ */
+export class CheckpointSerializer {
+  /**
+   * Checkpoint as a JSON string, ready to download
+   */
+  static toJSON(checkpoint: SimulationCheckpoint): string {
+    return JSON.stringify(checkpoint, null, 2)
+  }
+
+  /**
+   * Parse and sanity-check a checkpoint file
+   */
+  static fromJSON(json: string): SimulationCheckpoint {
+    let checkpoint: SimulationCheckpoint
+    try {
+      checkpoint = JSON.parse(json)
+    } catch (error) {
+      throw new Error(`Checkpoint is not valid JSON: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    if (!checkpoint || typeof checkpoint !== 'object' || !checkpoint.gameState || !checkpoint.config) {
+      throw new Error('Not a simulation checkpoint: missing game state or configuration')
+    }
+    if (checkpoint.version !== CHECKPOINT_VERSION) {
+      throw new Error(`Unsupported checkpoint version ${checkpoint.version} (expected ${CHECKPOINT_VERSION})`)
+    }
+
+    return checkpoint
+  }
+
+  /**
+   * Process manager state with Maps restored
+   */
+  static deserializeProcesses(checkpoint: SimulationCheckpoint): ProcessManagerCheckpoint {
+    return MapSerializer.deserializeMapsInObject(checkpoint.processes)
+  }
+}
@@ -0,0 +1,31 @@
+// SnapshotRingBuffer tests
+// The scrubber's snapshot window - hourly captures, rewinding and a bounded history
+
+import { describe, it, expect } from 'vitest'
+import { SnapshotRingBuffer } from '@/utils/state/SnapshotRingBuffer'
+import { createTestGameState } from '@/tests/fixtures'
+
+describe('SnapshotRingBuffer - Time Travel', () => {
+  it('should capture hourly, rewind and drop the oldest snapshot when full', () => {
+    const buffer = new SnapshotRingBuffer(3, 60)
+    const gameState = createTestGameState()
+
+    for (let minutes = 0; minutes <= 240; minutes += 30) {
+      gameState.time.totalMinutes = minutes
+      gameState.resources.gold = minutes
+      buffer.maybeCapture(gameState)
+    }
+
+    // Captured at 0, 60, 120, 180, 240 - only the last three remain
+    expect(buffer.getIndex().map(entry => entry.totalMinutes)).toEqual([120, 180, 240])
+
+    const past = buffer.get(200)
+    expect(past?.entry.totalMinutes).toBe(180)
+    expect(past?.gameState.resources.gold).toBe(180)
+    expect(past?.gameState.resources.seeds).toBeInstanceOf(Map)
+    expect(buffer.get(60)).toBeNull()
+
+    buffer.truncateAfter(180)
+    expect(buffer.getIndex().map(entry => entry.totalMinutes)).toEqual([120, 180])
+  })
+})
@@ -0,0 +1,152 @@
+// SnapshotRingBuffer - Periodic GameState history for time travel
+// Keeps the most recent snapshots in a fixed ring; sections that did not change share the previous snapshot's string
+
+import { MapSerializer } from '../MapSerializer'
+import type { GameState } from '../../types'
+
+export const DEFAULT_SNAPSHOT_CAPACITY = 24 * 40      // 40 days of hourly snapshots
+export const DEFAULT_SNAPSHOT_INTERVAL_MINUTES = 60
+
+export type SnapshotReason = 'interval' | 'bottleneck' | 'complete' | 'restore'
+
+/**
+ * Lightweight description of a stored snapshot - what the scrubber lists
+ */
+export interface SnapshotIndexEntry {
+  totalMinutes: number
+  day: number
+  hour: number
+  minute: number
+  reason: SnapshotReason
+}
+
+interface StoredSnapshot {
+  entry: SnapshotIndexEntry
+  sections: Record<string, string>   // One JSON string per top-level GameState key
+}
+
+/**
+ * Fixed-capacity ring of compressed GameState snapshots
+ */
+export class SnapshotRingBuffer {
+  private ring: Array<StoredSnapshot | undefined>
+  private head = 0       // Index of the oldest snapshot
+  private size = 0
+  private readonly intervalMinutes: number
+
+  constructor(capacity = DEFAULT_SNAPSHOT_CAPACITY, intervalMinutes = DEFAULT_SNAPSHOT_INTERVAL_MINUTES) {
+    if (capacity < 1) {
+      throw new Error('SnapshotRingBuffer needs a capacity of at least one')
+    }
+    this.ring = new Array(capacity)
+    this.intervalMinutes = intervalMinutes
+  }
+
+  /**
+   * Capture if a full interval has passed since the last snapshot
+   */
+  maybeCapture(gameState: Readonly<GameState>): SnapshotIndexEntry | null {
+    const latest = this.latest()
+    if (latest && gameState.time.totalMinutes < latest.entry.totalMinutes + this.intervalMinutes) {
+      return null
+    }
+    return this.capture(gameState, 'interval')
+  }
+
+  /**
+   * Capture unconditionally - used for bottlenecks, completion and restores
+   */
+  capture(gameState: Readonly<GameState>, reason: SnapshotReason): SnapshotIndexEntry {
+    const previous = this.latest()
+    const sections: Record<string, string> = {}
+
+    for (const [key, value] of Object.entries(gameState)) {
+      const json = JSON.stringify(MapSerializer.serializeMapsInObject(value))
+      // Reuse the previous string when nothing changed so quiet hours cost no extra memory
+      sections[key] = previous && previous.sections[key] === json ? previous.sections[key] : json
+    }
+
+    const entry: SnapshotIndexEntry = {
+      totalMinutes: gameState.time.totalMinutes,
+      day: gameState.time.day,
+      hour: gameState.time.hour,
+      minute: gameState.time.minute,
+      reason
+    }
+
+    // Same-minute captures (interval then bottleneck) replace rather than duplicate
+    if (previous && previous.entry.totalMinutes === entry.totalMinutes) {
+      previous.entry = entry
+      previous.sections = sections
+      return entry
+    }
+
+    const tail = (this.head + this.size) % this.ring.length
+    this.ring[tail] = { entry, sections }
+    if (this.size < this.ring.length) {
+      this.size++
+    } else {
+      this.head = (this.head + 1) % this.ring.length
+    }
+
+    return entry
+  }
+
+  /**
+   * Snapshots in chronological order
+   */
+  getIndex(): SnapshotIndexEntry[] {
+    return this.stored().map(snapshot => ({ ...snapshot.entry }))
+  }
+
+  /**
+   * The latest snapshot taken at or before totalMinutes
+   */
+  get(totalMinutes: number): { entry: SnapshotIndexEntry; gameState: GameState } | null {
+    const match = this.stored().filter(snapshot => snapshot.entry.totalMinutes <= totalMinutes).pop()
+    if (!match) return null
+
+    const gameState: any = {}
+    for (const [key, json] of Object.entries(match.sections)) {
+      gameState[key] = MapSerializer.deserializeMapsInObject(JSON.parse(json))
+    }
+    return { entry: { ...match.entry }, gameState }
+  }
+
+  /**
+   * Forget snapshots after a point in time - history diverges once a checkpoint is restored
+   */
+  truncateAfter(totalMinutes: number): void {
+    const kept = this.stored().filter(snapshot => snapshot.entry.totalMinutes <= totalMinutes)
+    this.clear()
+    kept.forEach((snapshot, index) => { this.ring[index] = snapshot })
+    this.size = kept.length
+  }
+
+  clear(): void {
+    this.ring = new Array(this.ring.length)
+    this.head = 0
+    this.size = 0
+  }
+
+  /**
+   * Approximate characters held, counting shared section strings once
+   */
+  approximateSize(): number {
+    const unique = new Set<string>()
+    this.stored().forEach(snapshot => Object.values(snapshot.sections).forEach(json => unique.add(json)))
+    return Array.from(unique).reduce((total, json) => total + json.length, 0)
+  }
+
+  private stored(): StoredSnapshot[] {
+    const snapshots: StoredSnapshot[] = []
+    for (let i = 0; i < this.size; i++) {
+      snapshots.push(this.ring[(this.head + i) % this.ring.length]!)
+    }
+    return snapshots
+  }
+
+  private latest(): StoredSnapshot | undefined {
+    return this.size > 0 ? this.ring[(this.head + this.size - 1) % this.ring.length] : undefined
+  }
+}
@@ -5,6 +5,10 @@ export { StateManager } from '../orchestration/StateManager'
 export { ResourceManager } from './ResourceManager'
 export { StateValidator } from './StateValidator'
 export { StateSnapshot } from './StateSnapshot'
+export { CheckpointSerializer, CHECKPOINT_VERSION } from './SimulationCheckpoint'
+export type { SimulationCheckpoint } from './SimulationCheckpoint'
+export { SnapshotRingBuffer, DEFAULT_SNAPSHOT_CAPACITY, DEFAULT_SNAPSHOT_INTERVAL_MINUTES } from './SnapshotRingBuffer'
+export type { SnapshotIndexEntry, SnapshotReason } from './SnapshotRingBuffer'
 
 // Types
 export type {
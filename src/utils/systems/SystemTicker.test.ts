@@ -0,0 +1,40 @@
+// SystemTicker tests
+// Every tick grows crops, finishes crafts and runs the mine - the orchestrator and the lookahead planner both step the world through it
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import type { CropState, CraftingState } from '@/types'
+import { ConfigurationManager } from '@/utils/orchestration/ConfigurationManager'
+import { BalanceTables } from '@/utils/systems/support/BalanceTables'
+import { SystemTicker } from '@/utils/systems/SystemTicker'
+import { gameData } from '@/tests/fixtures'
+
+beforeAll(() => BalanceTables.load(gameData))
+
+describe('SystemTicker - Tick Loop', () => {
+  it('grows crops, completes crafts and descends the mine as time passes', () => {
+    const gameState = ConfigurationManager.initializeGameState()
+    gameState.resources.energy.current = 100
+    const crop: CropState = {
+      plotId: 'plot_1', cropId: 'carrot', plantedAt: 0, growthTimeRequired: 6, waterLevel: 1, isWithered: false,
+      readyToHarvest: false, growthProgress: 0, growthStage: 0, maxStages: 3, droughtTime: 0
+    }
+    const craft: CraftingState = { itemId: 'hoe', startedAt: 0, duration: 10, progress: 0, heat: 0, isComplete: false }
+    gameState.processes.crops = [crop]
+    gameState.processes.crafting = [craft]
+    gameState.processes.mining = { depth: 0, energyDrain: 0, isActive: true, timeAtDepth: 0 }
+
+    gameState.time.totalMinutes = 5
+    SystemTicker.tick(gameState, 5, gameData)
+    expect(crop.growthProgress).toBeGreaterThan(0)
+    expect(crop.readyToHarvest).toBe(false)
+    expect(craft.progress).toBe(0.5)
+    expect(gameState.processes.mining.depth).toBeGreaterThan(0)
+
+    gameState.time.totalMinutes = 10
+    SystemTicker.tick(gameState, 5, gameData)
+    expect(crop.readyToHarvest).toBe(true)
+    expect(craft.isComplete).toBe(true)
+    expect(gameState.inventory.tools.has('hoe')).toBe(true)
+    expect(gameState.resources.energy.current).toBeLessThan(100)
+  })
+})
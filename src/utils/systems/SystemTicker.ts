@@ -0,0 +1,66 @@
+// SystemTicker - Per-tick passive system updates
+// One place for what happens to the world as time passes, shared by the orchestrator and the lookahead planner's forward model
+
+import { FarmSystem } from './core/FarmSystem'
+import { TowerSystem } from './core/TowerSystem'
+import { ForgeSystem } from './core/ForgeSystem'
+import { MineSystem } from './core/MineSystem'
+import { SeedSystem } from './support/SeedSystem'
+import { SupportSystemManager } from './support/SupportSystemManager'
+import type { GameState } from '@/types'
+
+/**
+ * Advances every time-driven system by deltaTime minutes - each system fails on its own
+ */
+export class SystemTicker {
+  static tick(gameState: GameState, deltaTime: number, gameDataStore?: any): void {
+    try {
+      // Apply all support system effects
+      SupportSystemManager.applyEffects(gameState, deltaTime)
+    } catch (error) {
+      console.error('Error in SupportSystemManager.applyEffects:', error)
+    }
+
+    try {
+      // Farm system auto-pump generation
+      FarmSystem.processAutoPumpGeneration(gameState, deltaTime)
+    } catch (error) {
+      console.error('Error in FarmSystem.processAutoPumpGeneration:', error)
+    }
+
+    // Crops, crafts and mining live in game state, not in ProcessManager handles - they advance here
+    // Crops grow from their crops.csv rows, so they wait without a game data store
+    try {
+      if (gameDataStore) FarmSystem.processCropGrowth(gameState, deltaTime, gameDataStore)
+    } catch (error) {
+      console.error('Error in FarmSystem.processCropGrowth:', error)
+    }
+
+    try {
+      ForgeSystem.processCrafting(gameState, deltaTime, gameDataStore)
+    } catch (error) {
+      console.error('Error in ForgeSystem.processCrafting:', error)
+    }
+
+    try {
+      MineSystem.processMining(gameState, deltaTime)
+    } catch (error) {
+      console.error('Error in MineSystem.processMining:', error)
+    }
+
+    try {
+      // Tower system tick - CRITICAL: Process manual seed catching
+      TowerSystem.tick(deltaTime, gameState)
+    } catch (error) {
+      console.error('Error in TowerSystem.tick:', error)
+    }
+
+    try {
+      // Tower and seed system coordination - Auto-catcher processing
+      const towerReach = TowerSystem.getCurrentTowerReach(gameState)
+      SeedSystem.processAutoCatcher(gameState, deltaTime, towerReach)
+    } catch (error) {
+      console.error('Error in SeedSystem.processAutoCatcher:', error)
+    }
+  }
+}
@@ -8,6 +8,8 @@ import type { ActionResult } from '../GameSystem'
 import { CSVDataParser } from '../../CSVDataParser'
 import { BossQuirkHandler, type BossPenalties } from '../../combat/BossQuirks'
 import { ArmorEffectHandler, type ArmorEffectResult } from '../../combat/ArmorEffects'
+import { SeededRandom } from '../../random'
+import { HeroProgression } from '../support/HeroProgression'
 
 // ============================================================================
 // COMBAT SYSTEM INTERFACES (from CombatSystem.ts)
@@ -112,7 +114,7 @@ export interface RouteConfig {
 // ROUTE ENEMY ROLL INTERFACES (from RouteEnemyRollSystem)
 // ============================================================================
 
-interface EnemyRoll {
+export interface EnemyRoll {
   timestamp: number
   enemies: Array<{
     type: string
@@ -138,6 +140,17 @@ interface RouteEnemyCompositions {
  * Includes RouteEnemyRollSystem functionality for persistent enemy rolls
  */
 export class AdventureSystem {
+  /** Source for wave, loot and enemy roll randomness */
+  private static rng: SeededRandom = new SeededRandom()
+
+  /**
+   * Use a seeded PRNG for combat - also drives armor effect procs
+   */
+  static setRandom(rng: SeededRandom): void {
+    AdventureSystem.rng = rng
+    ArmorEffectHandler.setRandom(rng)
+  }
+
   // ============================================================================
   // ROUTE ENEMY ROLL SYSTEM (merged from RouteEnemyRollSystem.ts)
   // ============================================================================
@@ -627,8 +640,8 @@ export class AdventureSystem {
     const combatLog: string[] = []
     const events: string[] = []
     
-    // Calculate hero HP: 100 + (Level × 20)
-    const maxHP = 100 + (heroLevel * 20)
+    // Hero HP comes from xp_progression.csv total_hp
+    const maxHP = HeroProgression.maxHP(heroLevel)
     let currentHP = maxHP
     
     combatLog.push(`🛡️ Hero Level ${heroLevel} - Starting HP: ${currentHP}`)
@@ -818,10 +831,10 @@ export class AdventureSystem {
     // Wave size increases with route difficulty and wave number
     const baseWaveSize = routeKey === 'meadow_path' ? 1 : 2
     const maxWaveSize = Math.min(5, baseWaveSize + Math.floor(waveNumber / 3))
-    const waveSize = Math.floor(Math.random() * maxWaveSize) + 1
+    const waveSize = Math.floor(AdventureSystem.rng.next() * maxWaveSize) + 1
     
     for (let i = 0; i < waveSize; i++) {
-      const enemyType = availableTypes[Math.floor(Math.random() * availableTypes.length)]
+      const enemyType = availableTypes[Math.floor(AdventureSystem.rng.next() * availableTypes.length)]
       const baseStats = this.ENEMY_STATS[enemyType]
       
       enemies.push({
@@ -898,7 +911,7 @@ export class AdventureSystem {
       }
       
       // Enemy defeated - award gold and XP
-      waveGold += Math.floor(Math.random() * 5) + 2 // 2-6 gold per enemy
+      waveGold += Math.floor(AdventureSystem.rng.next() * 5) + 2 // 2-6 gold per enemy
       waveXP += 2 // 2 XP per enemy
     }
     
@@ -1100,13 +1113,13 @@ export class AdventureSystem {
     
     // Add some random loot
     for (const item of possibleLoot) {
-      if (Math.random() < 0.7) { // 70% chance for each item
+      if (AdventureSystem.rng.next() < 0.7) { // 70% chance for each item
         loot.push(item)
       }
     }
     
     // Chance for armor drop from boss
-    if (Math.random() < 0.3) { // 30% chance
+    if (AdventureSystem.rng.next() < 0.3) { // 30% chance
       loot.push('Random Armor Piece')
     }
     
@@ -1158,7 +1171,7 @@ export class AdventureSystem {
       timestamp: Date.now(),
       enemies: [],
       totalEnemies: 0,
-      rollSeed: Math.floor(Math.random() * 1000000)
+      rollSeed: Math.floor(AdventureSystem.rng.next() * 1000000)
     }
 
     // Calculate difficulty multiplier
@@ -1184,11 +1197,11 @@ export class AdventureSystem {
       // Roll enemy count based on weight and difficulty
       let count = 0
       if (adjustedMax > 0) {
-        const baseCount = Math.floor(Math.random() * (adjustedMax - adjustedMin + 1)) + adjustedMin
+        const baseCount = Math.floor(AdventureSystem.rng.next() * (adjustedMax - adjustedMin + 1)) + adjustedMin
         
         // Apply weight influence (higher weight = higher chance of max count)
         const weightInfluence = weight / 100
-        const bonusChance = Math.random() < weightInfluence
+        const bonusChance = AdventureSystem.rng.next() < weightInfluence
         count = bonusChance ? Math.min(baseCount + 1, adjustedMax) : baseCount
       }
       
@@ -1346,6 +1359,20 @@ export class AdventureSystem {
     console.log(`🔄 Restored ${this.activeRolls.size} enemy rolls from save data`)
   }
 
+  /**
+   * Drop every cached roll - a new run must not inherit the previous run's enemies
+   */
+  static resetEnemyRolls(): void {
+    this.activeRolls.clear()
+  }
+
+  /**
+   * Replace the cached rolls with ones saved in a checkpoint
+   */
+  static restoreEnemyRolls(rolls: Map<string, EnemyRoll>): void {
+    this.activeRolls = new Map(rolls)
+  }
+
   /**
    * Clean up old rolls (older than 24 hours)
    */
@@ -1392,7 +1419,7 @@ export class AdventureSystem {
         percentage: 100
       }],
       totalEnemies: count,
-      rollSeed: Math.floor(Math.random() * 1000000)
+      rollSeed: Math.floor(AdventureSystem.rng.next() * 1000000)
     }
   }
 
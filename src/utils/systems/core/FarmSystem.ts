@@ -12,124 +12,7 @@ import {
   createFailureResult,
   createTickResult
 } from '../GameSystem'
-
-/**
- * Water retention upgrade configuration
- */
-export const WATER_RETENTION = {
-  base: {
-    waterPerPlot: 1,
-    durationMinutes: 30,  // Base water lasts 30 minutes
-    drainRate: 1/30       // 1 water per 30 minutes
-  },
-  
-  upgrades: {
-    mulch_beds: {
-      cost: 300,
-      prereq: 'water_tank_ii',
-      effect: {
-        durationMultiplier: 1.25,  // 25% longer = 37.5 minutes
-        description: 'Plots retain water 25% longer'
-      }
-    },
-    
-    irrigation_channels: {
-      cost: 1500,
-      prereq: ['mulch_beds', 'homestead'],
-      effect: {
-        durationMultiplier: 1.50,  // 50% longer = 45 minutes
-        description: 'Plots retain water 50% longer'
-      }
-    },
-    
-    crystal_irrigation: {
-      cost: 8000,
-      prereq: ['irrigation_channels', 'manor_grounds'],
-      effect: {
-        durationMultiplier: 1.75,  // 75% longer = 52.5 minutes
-        description: 'Plots retain water 75% longer'
-      }
-    }
-  }
-}
-
-/**
- * Auto-pump system configuration
- */
-export const AUTO_PUMP_SYSTEMS = {
-  auto_pump_i: {
-    cost: 200,
-    prereq: 'water_tank_ii',
-    materials: { copper: 5 },
-    effect: {
-      offlineRate: 0.10,  // 10% of cap per hour
-      description: 'Generates water while offline'
-    }
-  },
-  
-  auto_pump_ii: {
-    cost: 1000,
-    prereq: ['auto_pump_i', 'water_tank_iii'],
-    materials: { iron: 10 },
-    effect: {
-      offlineRate: 0.20,  // 20% of cap per hour
-      description: 'Improved offline water generation'
-    }
-  },
-  
-  auto_pump_iii: {
-    cost: 5000,
-    prereq: ['auto_pump_ii', 'reservoir'],
-    materials: { silver: 5 },
-    effect: {
-      offlineRate: 0.35,  // 35% of cap per hour
-      description: 'Advanced offline water generation'
-    }
-  },
-  
-  crystal_pump: {
-    cost: 25000,
-    prereq: ['auto_pump_iii', 'crystal_reservoir'],
-    materials: { crystal: 3 },
-    effect: {
-      offlineRate: 0.50,  // 50% of cap per hour
-      description: 'Maximum offline water generation'
-    }
-  }
-}
-
-/**
- * Watering tool efficiency configuration
- */
-export const WATERING_TOOLS = {
-  hands: {
-    plotsPerAction: 1,
-    timePerAction: 2,  // seconds
-    available: 'always'
-  },
-  
-  watering_can_ii: {
-    plotsPerAction: 2,
-    timePerAction: 3,  // seconds
-    craftCost: { copper: 5, wood: 3 },
-    available: 'craft'
-  },
-  
-  sprinkler_can: {
-    plotsPerAction: 4,
-    timePerAction: 4,  // seconds
-    craftCost: { silver: 3, pine_resin: 1 },
-    available: 'craft'
-  },
-  
-  rain_bringer: {
-    plotsPerAction: 8,
-    timePerAction: 5,  // seconds
-    craftCost: { crystal: 1, frozen_heart: 1 },
-    specialEffect: 'plots_stay_wet_50_longer',
-    available: 'craft'
-  }
-}
+import { BalanceTables } from '../support/BalanceTables'
 
 /**
  * Complete farm management system - implements GameSystem contract
@@ -751,6 +634,30 @@ export class FarmSystem {
     }
   }
 
+  /**
+   * Earliest time a growing crop becomes ready to harvest, or dries below the growth-rate threshold
+   * @param gameState Current game state
+   * @param gameDataStore Data store for crop information
+   * @returns Total minutes of the next crop event, or null when nothing is growing
+   */
+  static getNextCropEventTime(gameState: GameState, gameDataStore: any): number | null {
+    const drainPerMinute = this.getBaseDrainRate() / this.getRetentionMultiplier(gameState) / 60
+    let next = Infinity
+
+    for (const crop of gameState.processes.crops) {
+      if (!crop.cropId || crop.readyToHarvest) continue
+
+      const growthTime = parseInt(gameDataStore?.getItemById?.(crop.cropId)?.time) || 10
+      const isWatered = crop.waterLevel > 0.3
+      const minutesToReady = (1 - (crop.growthProgress || 0)) * growthTime / (isWatered ? 1.0 : 0.25)
+      const minutesToDry = isWatered && drainPerMinute > 0 ? (crop.waterLevel - 0.3) / drainPerMinute : Infinity
+
+      next = Math.min(next, Math.min(minutesToReady, minutesToDry))
+    }
+
+    return Number.isFinite(next) ? gameState.time.totalMinutes + Math.ceil(next) : null
+  }
+
   /**
    * Parse growth stages from crop notes field
    * @param notes Notes field from CSV (e.g., "Growth Stages 3 + Gain Energy On Harvest")
@@ -808,25 +715,30 @@ export class FarmSystem {
   }
 
   /**
-   * Get water retention multiplier based on unlocked upgrades
+   * Get water retention multiplier based on unlocked upgrades (water_retention.csv)
    */
   static getRetentionMultiplier(gameState: GameState): number {
     const upgrades = gameState.progression.unlockedUpgrades
+    const [base, ...tiers] = BalanceTables.waterRetention
     
-    // Check upgrades in order (higher tier overrides lower)
-    if (upgrades.includes('crystal_irrigation')) {
-      return WATER_RETENTION.upgrades.crystal_irrigation.effect.durationMultiplier
-    }
-    if (upgrades.includes('irrigation_channels')) {
-      return WATER_RETENTION.upgrades.irrigation_channels.effect.durationMultiplier
-    }
-    if (upgrades.includes('mulch_beds')) {
-      return WATER_RETENTION.upgrades.mulch_beds.effect.durationMultiplier
+    // Check upgrades from the best down (higher tier overrides lower)
+    for (const tier of [...tiers].reverse()) {
+      if (upgrades.includes(tier.id)) {
+        return tier.durationMinutes / base.durationMinutes
+      }
     }
     
     return 1.0 // Base retention (no upgrades)
   }
 
+  /**
+   * Base drain rate - a full plot dries out over the bare-soil row of water_retention.csv
+   */
+  static getBaseDrainRate(): number {
+    const base = BalanceTables.waterRetention[0]
+    return base ? 1 / base.durationMinutes : 0
+  }
+
   /**
    * Process water drainage for crops with retention upgrades
    */
@@ -834,7 +746,7 @@ export class FarmSystem {
     if (!crop.cropId) return
     
     const retentionMultiplier = this.getRetentionMultiplier(gameState)
-    const baseDrainRate = WATER_RETENTION.base.drainRate
+    const baseDrainRate = this.getBaseDrainRate()
     
     // Apply retention multiplier to reduce drain rate
     const actualDrainRate = baseDrainRate / retentionMultiplier
@@ -922,7 +834,7 @@ export class FarmSystem {
       return { generated: 0, message: '', pumpLevel: null }
     }
     
-    const pumpRate = AUTO_PUMP_SYSTEMS[pumpLevel].effect.offlineRate
+    const pumpRate = BalanceTables.findAutoPump(pumpLevel)?.offlineRate ?? 0
     const waterGenerated = waterCapacity * pumpRate * hoursOffline
     const actualGenerated = Math.min(waterGenerated, waterCapacity)
     
@@ -936,24 +848,12 @@ export class FarmSystem {
   /**
    * Get the highest level auto-pump that the player owns
    */
-  static getHighestPumpLevel(gameState: GameState): keyof typeof AUTO_PUMP_SYSTEMS | null {
+  static getHighestPumpLevel(gameState: GameState): string | null {
     const upgrades = gameState.progression.unlockedUpgrades
     
     // Check in descending order of quality
-    const pumpOrder: (keyof typeof AUTO_PUMP_SYSTEMS)[] = [
-      'crystal_pump',
-      'auto_pump_iii', 
-      'auto_pump_ii',
-      'auto_pump_i'
-    ]
-    
-    for (const pump of pumpOrder) {
-      if (upgrades.includes(pump)) {
-        return pump
-      }
-    }
-    
-    return null
+    const pump = [...BalanceTables.autoPumps].reverse().find(tier => upgrades.includes(tier.id))
+    return pump?.id ?? null
   }
 
   /**
@@ -965,16 +865,10 @@ export class FarmSystem {
     toolEfficiency: number
   } {
     const tools = gameState.inventory.tools
-    let toolData = WATERING_TOOLS.hands // Default to hands
+    const [hands, ...wateringTools] = BalanceTables.wateringTools
     
-    // Check for equipped watering tools (best tool wins)
-    const toolOrder = ['rain_bringer', 'sprinkler_can', 'watering_can_ii'] as const
-    for (const toolName of toolOrder) {
-      if (tools.has(toolName) && tools.get(toolName)?.isEquipped) {
-        toolData = WATERING_TOOLS[toolName]
-        break
-      }
-    }
+    // Check for equipped watering tools (best tool wins, bare hands otherwise)
+    const toolData = [...wateringTools].reverse().find(tool => tools.get(tool.id)?.isEquipped) ?? hands
     
     // Calculate base efficiency from tool
     const plotsPerMinute = (60 / toolData.timePerAction) * toolData.plotsPerAction
@@ -988,7 +882,7 @@ export class FarmSystem {
     for (const helper of watererHelpers) {
       // Assume level 1 helpers for now, or add level to GnomeState type
       const helperLevel = 1 
-      helperPlots += 5 + helperLevel // 5-15 plots/min based on level
+      helperPlots += BalanceTables.helperScaling.waterer?.formula(helperLevel) ?? 0 // 5-15 plots/min based on level
     }
     
     const totalPlotsPerMinute = plotsPerMinute + helperPlots
@@ -997,7 +891,7 @@ export class FarmSystem {
     return {
       totalPlotsPerMinute,
       waterConsumed,
-      toolEfficiency: plotsPerMinute / WATERING_TOOLS.hands.plotsPerAction // Efficiency relative to hands
+      toolEfficiency: plotsPerMinute / hands.plotsPerAction // Efficiency relative to hands
     }
   }
 
@@ -1015,7 +909,7 @@ export class FarmSystem {
     }
     
     // Convert offline rate to per-minute rate
-    const pumpRate = AUTO_PUMP_SYSTEMS[pumpLevel].effect.offlineRate
+    const pumpRate = BalanceTables.findAutoPump(pumpLevel)?.offlineRate ?? 0
     const waterPerMinute = (gameState.resources.water.max * pumpRate) / 60
     const waterGenerated = waterPerMinute * deltaTime
     
@@ -6,11 +6,22 @@ import type { GameState, GameAction, AllParameters, CraftingState, ToolState, We
 import type { ActionResult } from '../GameSystem'
 import { CSVDataParser } from '../../CSVDataParser'
 import { PrerequisiteSystem } from '../support/PrerequisiteSystem'
+import { SeededRandom } from '../../random'
 
 /**
  * Forge system for crafting and heat management
  */
 export class ForgeSystem {
+  /** Source for crafting success and heat rolls */
+  private static rng: SeededRandom = new SeededRandom()
+
+  /**
+   * Use a seeded PRNG for crafting outcomes
+   */
+  static setRandom(rng: SeededRandom): void {
+    ForgeSystem.rng = rng
+  }
+
   /**
    * Evaluates forge-specific actions (Phase 6E Implementation)
    */
@@ -122,6 +133,15 @@ export class ForgeSystem {
     }
   }
 
+  /**
+   * Earliest time an item in the crafting queue finishes - null when the forge is idle
+   */
+  static getNextCraftCompletionTime(gameState: GameState): number | null {
+    const pending = (gameState.processes.crafting || []).filter(craft => !craft.isComplete)
+    if (pending.length === 0) return null
+    return Math.min(...pending.map(craft => craft.startedAt + craft.duration))
+  }
+
   /**
    * Get craftable items based on available recipes and materials
    */
@@ -231,7 +251,7 @@ export class ForgeSystem {
     const heatBonus = (heat / 100) * 0.4 // Up to 40% bonus
     const successRate = baseSuccessRate + heatBonus
     
-    return Math.random() < successRate
+    return ForgeSystem.rng.next() < successRate
   }
 
   /**
@@ -411,7 +431,7 @@ export class ForgeSystem {
   private static completeCraft(gameState: GameState, craft: CraftingState, craftData: any): void {
     // Check forge heat success rate
     const heatSuccessRate = this.calculateHeatSuccessRate(craft.heat)
-    const isSuccessful = Math.random() < heatSuccessRate
+    const isSuccessful = ForgeSystem.rng.next() < heatSuccessRate
 
     if (!isSuccessful) {
       // Failed craft - lose some materials but not all
@@ -430,7 +450,7 @@ export class ForgeSystem {
 
     // Check for Master Craft bonus (10% chance for double output)
     if (gameState.progression.unlockedUpgrades.includes('master_craft')) {
-      if (Math.random() < 0.1) {
+      if (ForgeSystem.rng.next() < 0.1) {
         console.log(`Master Craft triggered! Double output for ${craftData.name}`)
         // Add the item again
         if (craftData.type === 'farm_tool' || craftData.type === 'mining_tool') {
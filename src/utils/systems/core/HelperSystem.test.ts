@@ -0,0 +1,57 @@
+// HelperSystem tests
+// Gnome housing, bottleneck roles and training as the AI plans them
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import type { CropState, GnomeState } from '@/types'
+import { createPresetPersonas } from '@/stores/personas'
+import { ConfigurationManager } from '@/utils/orchestration/ConfigurationManager'
+import { BalanceTables } from '@/utils/systems/support/BalanceTables'
+import { HelperSystem } from '@/utils/systems/core/HelperSystem'
+import { gameData, createTestGameState } from '@/tests/fixtures'
+
+beforeAll(() => BalanceTables.load(gameData))
+
+describe('HelperSystem - Helper Management', () => {
+  it('should house gnomes, give them the bottleneck role and then train them', () => {
+    const persona = createPresetPersonas().get('casual')!
+    const parameters = ConfigurationManager.createDefaultParameters()
+    const gameState = createTestGameState()
+    const gnome = (id: string, isAssigned: boolean): GnomeState => ({ id, name: id, role: '', efficiency: 1, isAssigned, currentTask: null, experience: 0 })
+    const crop = (plotId: string): CropState => ({
+      plotId,
+      cropId: 'carrot',
+      plantedAt: 0,
+      growthTimeRequired: 6,
+      waterLevel: 1,
+      isWithered: false,
+      readyToHarvest: false,
+      growthProgress: 0,
+      growthStage: 0,
+      maxStages: 3,
+      droughtTime: 0
+    })
+
+    gameState.automation = { ...gameState.automation, wateringThreshold: 0.3 }
+    gameState.progression.farmPlots = 4
+    gameState.processes.crops = ['plot_0', 'plot_1', 'plot_2', 'plot_3'].map(crop)
+    for (const material of ['stone', 'copper', 'iron', 'wood']) {
+      gameState.resources.materials.set(material, 100)
+    }
+    gameState.resources.water.current = 2   // Water is the bottleneck
+    gameState.resources.gold = 1000
+    gameState.helpers.gnomes.push(gnome('housed_gnome', true), gnome('waiting_gnome', false))
+
+    const actions = HelperSystem.evaluateActions(gameState, parameters, gameData, persona)
+    expect(actions.map(action => [action.type, action.target, action.role])).toEqual([
+      ['build', 'gnome_hut', undefined],
+      ['assign_role', 'housed_gnome', 'pump_operator']
+    ])
+
+    expect(HelperSystem.execute(actions[1], gameState).success).toBe(true)
+    const training = HelperSystem.evaluateActions(gameState, parameters, gameData, persona).find(action => action.type === 'train_helper')!
+    expect(training.goldCost).toBe(100)
+    expect(HelperSystem.execute(training, gameState).success).toBe(true)
+    expect(HelperSystem.getGnomeLevel(gameState.helpers.gnomes[0])).toBe(2)
+    expect(gameState.resources.gold).toBe(900)
+  })
+})
@@ -9,11 +9,15 @@ import type {
   SystemEffects, 
   SystemModifier,
   GameAction,
-  HelperEfficiency 
+  HelperEfficiency,
+  AllParameters,
+  SimplePersona
 } from '@/types'
 import type { ActionResult } from '../GameSystem'
+import { prerequisiteService } from '../../validation/PrerequisiteService'
 import { SeedSystem } from '../support/SeedSystem'
 import { FarmSystem } from './FarmSystem'
+import { BalanceTables } from '../support/BalanceTables'
 
 export interface HelperScaling {
   base: number
@@ -38,79 +42,21 @@ export interface HousingValidationResult {
 }
 
 /**
- * Available gnome housing structures
+ * Gnome training - levels come from experience, each level costs more gold than the last
  */
-export const GNOME_HOUSING: HousingStructure[] = [
-  { name: 'gnome_hut', capacity: 1, cost: 500, prerequisite: 'first_gnome' },
-  { name: 'gnome_house', capacity: 2, cost: 2000, prerequisite: 'homestead' },
-  { name: 'gnome_lodge', capacity: 3, cost: 10000, prerequisite: 'manor_grounds' },
-  { name: 'gnome_hall', capacity: 4, cost: 50000, prerequisite: 'great_estate' },
-  { name: 'gnome_village', capacity: 5, cost: 250000, prerequisite: 'gnome_hall' }
-]
+export const GNOME_TRAINING = {
+  experiencePerLevel: 100,
+  maxLevel: 10,          // helpers.csv max_level
+  baseCost: 100,         // Gold to train a level 1 gnome
+  costGrowth: 1.8        // Cost multiplier per level
+}
 
 /**
- * Helper level scaling formulas - Phase 8M implementation
+ * How persona traits steer helper management
  */
-export const HELPER_SCALING: Record<string, HelperScaling> = {
-  waterer: {
-    base: 5,           // plots/minute
-    perLevel: 1,       // additional plots per level
-    formula: (level: number) => 5 + level  // 5-15 at L0-L10
-  },
-  
-  pump_operator: {
-    base: 20,          // water/hour
-    perLevel: 5,
-    formula: (level: number) => 20 + (level * 5)  // 20-70 at L0-L10
-  },
-  
-  sower: {
-    base: 3,
-    perLevel: 1,
-    formula: (level: number) => 3 + level  // 3-13 at L0-L10
-  },
-  
-  harvester: {
-    base: 4,
-    perLevel: 1,
-    formula: (level: number) => 4 + level  // 4-14 at L0-L10
-  },
-  
-  miners_friend: {
-    base: 0.15,        // 15% energy reduction
-    perLevel: 0.03,    // 3% per level
-    formula: (level: number) => 0.15 + (level * 0.03)  // 15-45% at L0-L10
-  },
-  
-  adventure_fighter: {
-    base: 5,           // damage
-    perLevel: 2,
-    formula: (level: number) => 5 + (level * 2)  // 5-25 damage at L0-L10
-  },
-  
-  adventure_support: {
-    base: 1,           // HP per 30 sec
-    perLevel: 0.2,     // Increases healing rate
-    formula: (level: number) => 1 + (level * 0.2)  // 1-3 HP/30s at L0-L10
-  },
-  
-  seed_catcher: {
-    base: 0.10,        // 10% catch bonus
-    perLevel: 0.02,
-    formula: (level: number) => 0.10 + (level * 0.02)  // 10-30% at L0-L10
-  },
-  
-  forager: {
-    base: 5,           // wood/hour from stumps
-    perLevel: 2,
-    formula: (level: number) => 5 + (level * 2)  // 5-25 wood/hour at L0-L10
-  },
-  
-  refiner: {
-    base: 0.05,        // 5% speed bonus
-    perLevel: 0.01,
-    formula: (level: number) => 0.05 + (level * 0.01)  // 5-15% at L0-L10
-  }
+const HELPER_MANAGEMENT = {
+  dualRoleOptimization: 0.5,   // Personas below this never bother with dual roles
+  minRoleNeed: 0.05            // Below this a role is not worth a gnome
 }
 
 export class HelperSystem {
@@ -127,7 +73,7 @@ export class HelperSystem {
         return this.validateHelperAssignment(action, state)
       
       case 'build':
-        if (action.target && action.target.includes('gnome_')) {
+        if (action.target && this.getHousingStructure(action.target)) {
           return this.validateHousingConstruction(action, state)
         }
         return { valid: true }
@@ -184,14 +130,20 @@ export class HelperSystem {
    * Validate helper assignment action
    */
   private static validateHelperAssignment(action: GameAction, state: GameState): ValidationResult {
-    if (!action.target) {
-      return { valid: false, reason: 'Missing target helper role' }
+    const gnome = state.helpers.gnomes.find(g => g.id === action.target)
+    if (!gnome) {
+      return { valid: false, reason: 'Missing target gnome' }
     }
 
-    if (!this.getAvailableRoles().includes(action.target)) {
+    const roles = this.getAvailableRoles()
+    if (!action.role || !roles.includes(action.role) || (action.secondaryRole && !roles.includes(action.secondaryRole))) {
       return { valid: false, reason: 'Invalid role' }
     }
 
+    if (action.secondaryRole && !this.hasMasterAcademy(state)) {
+      return { valid: false, reason: 'Dual roles need the Master Academy', requirements: ['master_academy'] }
+    }
+
     const housingValidation = this.validateGnomeHousing(state)
     if (housingValidation.needsMoreHousing) {
       return { 
@@ -212,7 +164,7 @@ export class HelperSystem {
       return { valid: false, reason: 'Missing structure type' }
     }
 
-    const structure = GNOME_HOUSING.find(h => h.name === action.target)
+    const structure = BalanceTables.gnomeHousing.find(h => h.name === action.target)
     if (!structure) {
       return { valid: false, reason: 'Invalid housing structure' }
     }
@@ -225,9 +177,7 @@ export class HelperSystem {
       }
     }
 
-    // Check prerequisites using PrerequisiteSystem would go here
-    // For now, simplified check
-    if (structure.prerequisite && !state.progression.unlockedUpgrades.includes(structure.prerequisite)) {
+    if (!this.isHousingUnlocked(structure, state)) {
       return { 
         valid: false, 
         reason: `Missing prerequisite: ${structure.prerequisite}`,
@@ -399,14 +349,13 @@ export class HelperSystem {
         continue
       }
 
-      // Get gnome level for scaling calculations (assume level 1 for now)
-      const gnomeLevel = 1
+      const gnomeLevel = this.getGnomeLevel(gnome)
 
       // Process primary role with level-based scaling
       this.processHelperRole(gameState, gnome, gnome.role, gnomeLevel, deltaMinutes, gameDataStore, 1.0)
 
       // Handle dual-role if Master Academy is unlocked
-      if (gameState.progression.unlockedUpgrades.includes('master_academy')) {
+      if (this.hasMasterAcademy(gameState)) {
         const secondaryRole = this.getSecondaryRole(gnome)
         if (secondaryRole && secondaryRole !== gnome.role) {
           // Process secondary role at 75% efficiency
@@ -484,7 +433,7 @@ export class HelperSystem {
     if (!gameState.processes?.crops) return
 
     // Calculate plots to water using level scaling formula
-    const scaling = HELPER_SCALING.waterer
+    const scaling = BalanceTables.helperScaling.waterer
     const plotsPerMinute = scaling.formula(gnomeLevel) * efficiencyMultiplier
     const plotsToWater = Math.floor(plotsPerMinute * deltaMinutes)
 
@@ -524,7 +473,7 @@ export class HelperSystem {
     deltaMinutes: number, 
     efficiencyMultiplier: number
   ): void {
-    const scaling = HELPER_SCALING.pump_operator
+    const scaling = BalanceTables.helperScaling.pump_operator
     const waterPerHour = scaling.formula(gnomeLevel) * efficiencyMultiplier
     const waterGenerated = Math.floor((waterPerHour * deltaMinutes) / 60)
 
@@ -553,7 +502,7 @@ export class HelperSystem {
     if (!gameState.processes?.crops) return
 
     // CRITICAL FIX: Use plots per minute, not seeds per minute
-    const scaling = HELPER_SCALING.sower
+    const scaling = BalanceTables.helperScaling.sower
     const plotsPerMinute = scaling.formula(gnomeLevel) * efficiencyMultiplier  // 3-13 plots/minute
     const plotsToPlant = Math.floor(plotsPerMinute * deltaMinutes)
 
@@ -637,7 +586,7 @@ export class HelperSystem {
   ): void {
     if (!gameState.processes?.crops) return
 
-    const scaling = HELPER_SCALING.harvester
+    const scaling = BalanceTables.helperScaling.harvester
     const plotsPerMinute = scaling.formula(gnomeLevel) * efficiencyMultiplier
     const plotsToHarvest = Math.floor(plotsPerMinute * deltaMinutes)
 
@@ -686,9 +635,9 @@ export class HelperSystem {
   ): void {
     if (!gameState.processes?.mining) return
 
-    // Calculate energy drain reduction using level scaling
-    const scaling = HELPER_SCALING.miners_friend
-    const drainReduction = scaling.formula(gnomeLevel) * efficiencyMultiplier
+    // Calculate energy drain reduction using level scaling (helper_roles.csv lists it as a negative effect)
+    const scaling = BalanceTables.helperScaling.miners_friend
+    const drainReduction = -scaling.formula(gnomeLevel) * efficiencyMultiplier
 
     // Apply reduction to current mining operation
     if (gameState.processes.mining.energyDrain) {
@@ -709,7 +658,7 @@ export class HelperSystem {
     efficiencyMultiplier: number
   ): void {
     // Calculate bonus rate using level scaling
-    const scaling = HELPER_SCALING.seed_catcher
+    const scaling = BalanceTables.helperScaling.seed_catcher
     const bonusRate = scaling.formula(gnomeLevel) * efficiencyMultiplier
     
     // Helper provides additional manual catching efficiency
@@ -743,7 +692,7 @@ export class HelperSystem {
     deltaMinutes: number, 
     efficiencyMultiplier: number
   ): void {
-    const scaling = HELPER_SCALING.forager
+    const scaling = BalanceTables.helperScaling.forager
     const woodPerHour = scaling.formula(gnomeLevel) * efficiencyMultiplier
     const woodGenerated = Math.floor((woodPerHour * deltaMinutes) / 60)
 
@@ -774,7 +723,7 @@ export class HelperSystem {
     if (!gameState.processes?.crafting || gameState.processes.crafting.length === 0) return
 
     // Calculate speed bonus using level scaling
-    const scaling = HELPER_SCALING.refiner
+    const scaling = BalanceTables.helperScaling.refiner
     const speedBonus = scaling.formula(gnomeLevel) * efficiencyMultiplier
 
     const currentCraft = gameState.processes.crafting[0]
@@ -800,14 +749,14 @@ export class HelperSystem {
     if (!gameState.processes?.adventure) return
 
     // Calculate damage using level scaling
-    const scaling = HELPER_SCALING.adventure_fighter
+    const scaling = BalanceTables.helperScaling.adventure_fighter
     const helperDamage = Math.floor(scaling.formula(gnomeLevel) * efficiencyMultiplier)
     gnome.currentTask = `combat_assist_${helperDamage}_damage`
   }
 
   /**
    * Adventure Support Helper: Assists in combat healing
-   * Level scaling: 1 + (level * 0.2) HP per 30 sec (1-3 HP/30s at L0-L10)
+   * Level scaling: 1 + (level * 0.5) HP per 30 sec (1-6 HP/30s at L0-L10)
    */
   private static processAdventureSupportHelper(
     gameState: GameState, 
@@ -819,7 +768,7 @@ export class HelperSystem {
     if (!gameState.processes?.adventure) return
 
     // Calculate healing using level scaling (convert to per minute rate)
-    const scaling = HELPER_SCALING.adventure_support
+    const scaling = BalanceTables.helperScaling.adventure_support
     const healPerThirtySeconds = scaling.formula(gnomeLevel) * efficiencyMultiplier
     const healRate = (healPerThirtySeconds * 2) // Convert to per minute
     const healingAmount = Math.floor(healRate * deltaMinutes)
@@ -874,7 +823,7 @@ export class HelperSystem {
     gameState: GameState
   ): boolean {
     // Check if Master Academy is unlocked
-    if (!gameState.progression.unlockedUpgrades.includes('master_academy')) {
+    if (!this.hasMasterAcademy(gameState)) {
       return false
     }
 
@@ -889,7 +838,7 @@ export class HelperSystem {
     }
 
     // Check if roles are valid
-    const validRoles = Object.keys(HELPER_SCALING)
+    const validRoles = Object.keys(BalanceTables.helperScaling)
     if (!validRoles.includes(primaryRole) || !validRoles.includes(secondaryRole)) {
       return false
     }
@@ -905,14 +854,14 @@ export class HelperSystem {
    * Get all available helper roles
    */
   static getAvailableRoles(): string[] {
-    return Object.keys(HELPER_SCALING)
+    return Object.keys(BalanceTables.helperScaling)
   }
 
   /**
    * Calculate helper effectiveness at specific level
    */
   static calculateHelperEffectiveness(role: string, level: number): number {
-    const scaling = HELPER_SCALING[role]
+    const scaling = BalanceTables.helperScaling[role]
     if (!scaling) return 0
     
     return scaling.formula(level)
@@ -1021,7 +970,7 @@ export class HelperSystem {
     let totalCapacity = 0
     
     // Check each housing structure in game state
-    for (const structure of GNOME_HOUSING) {
+    for (const structure of BalanceTables.gnomeHousing) {
       // Check if this housing structure is built
       // (In a full implementation, this would check gameState.buildings or similar)
       // For now, we'll check if it's in the unlocked upgrades as a proxy
@@ -1041,7 +990,7 @@ export class HelperSystem {
   static getBuiltHousingStructures(gameState: GameState): string[] {
     const builtStructures: string[] = []
     
-    for (const structure of GNOME_HOUSING) {
+    for (const structure of BalanceTables.gnomeHousing) {
       if (gameState.progression.unlockedUpgrades.includes(structure.name)) {
         builtStructures.push(structure.name)
       }
@@ -1123,14 +1072,10 @@ export class HelperSystem {
    * @returns Next housing structure that can be built, or null if none
    */
   static getNextHousingStructure(gameState: GameState): HousingStructure | null {
-    for (const structure of GNOME_HOUSING) {
+    for (const structure of BalanceTables.gnomeHousing) {
       // Check if not already built
-      if (!gameState.progression.unlockedUpgrades.includes(structure.name)) {
-        // Check if prerequisite is met
-        if (structure.prerequisite === 'first_gnome' || 
-            gameState.progression.unlockedUpgrades.includes(structure.prerequisite)) {
-          return structure
-        }
+      if (!gameState.progression.unlockedUpgrades.includes(structure.name) && this.isHousingUnlocked(structure, gameState)) {
+        return structure
       }
     }
     return null
@@ -1172,7 +1117,7 @@ export class HelperSystem {
    * @returns Housing structure data or null if not found
    */
   static getHousingStructure(structureName: string): HousingStructure | null {
-    return GNOME_HOUSING.find(structure => structure.name === structureName) || null
+    return BalanceTables.gnomeHousing.find(structure => structure.name === structureName) || null
   }
 
   /**
@@ -1191,11 +1136,9 @@ export class HelperSystem {
     let housingNeeded = validation.inactiveGnomes
 
     // Find the most cost-effective housing structures to build
-    for (const structure of GNOME_HOUSING) {
+    for (const structure of BalanceTables.gnomeHousing) {
       if (!gameState.progression.unlockedUpgrades.includes(structure.name) && housingNeeded > 0) {
-        // Check if prerequisite is met
-        if (structure.prerequisite === 'first_gnome' || 
-            gameState.progression.unlockedUpgrades.includes(structure.prerequisite)) {
+        if (this.isHousingUnlocked(structure, gameState)) {
           totalCost += structure.cost
           housingNeeded -= structure.capacity
         }
@@ -1205,6 +1148,224 @@ export class HelperSystem {
     return totalCost
   }
 
+  // =============================================================================
+  // AI HELPER MANAGEMENT
+  // =============================================================================
+
+  /**
+   * Helper decisions for the AI - housing, roles from the current bottleneck, dual roles and training.
+   * Persona traits set the pace: optimization drives re-assignment and dual roles,
+   * efficiency how little gold is kept back before training, riskTolerance the same for housing.
+   */
+  static evaluateActions(gameState: GameState, parameters: AllParameters, gameDataStore: any, persona?: SimplePersona): GameAction[] {
+    const actions: GameAction[] = []
+    const gnomes = gameState.helpers?.gnomes ?? []
+    if (gnomes.length === 0) return actions
+
+    const helperParams = parameters?.helpers
+    const optimization = persona?.optimization ?? 0.5
+    const efficiency = persona?.efficiency ?? 0.5
+    const riskTolerance = persona?.riskTolerance ?? 0.5
+    const screen = gameState.location.currentScreen
+    const gold = gameState.resources.gold
+
+    // 1. Housing - rescued gnomes without a bed do nothing
+    const capacity = this.calculateHousingCapacity(gameState)
+    const nextHousing = this.getNextHousingStructure(gameState)
+    const wantsHousing = gnomes.length > capacity || helperParams?.acquisition?.buildHousingAhead === true
+    if (nextHousing && wantsHousing && gold >= nextHousing.cost * (2 - riskTolerance)) {
+      actions.push({
+        id: `build_${nextHousing.name}_${Date.now()}`,
+        type: 'build',
+        screen: 'farm',
+        target: nextHousing.name,
+        duration: 5,
+        energyCost: 0,
+        goldCost: nextHousing.cost,
+        prerequisites: [],
+        expectedRewards: {},
+        score: 850
+      })
+    }
+
+    // 2. Roles - idle gnomes take the biggest bottleneck, busy ones move when it shifts far enough
+    const needs = this.getRoleNeeds(gameState)
+    const housed = gnomes.filter(gnome => gnome.isAssigned)
+    const covered = new Set(housed.map(gnome => gnome.role).filter(role => role in needs))
+    const bestOpenRole = (exclude: string) => Object.entries(needs)
+      .filter(([role, need]) => role !== exclude && !covered.has(role) && need >= HELPER_MANAGEMENT.minRoleNeed)
+      .sort((a, b) => b[1] - a[1])[0]
+
+    for (const gnome of housed) {
+      const currentNeed = needs[gnome.role] ?? -1
+      const best = bestOpenRole(gnome.role)
+      if (!best) continue
+
+      const [role, need] = best
+      const idle = currentNeed < 0
+      if (!idle && need - currentNeed <= 1 - optimization) continue
+
+      covered.add(role)
+      actions.push({
+        id: `assign_role_${gnome.id}_${role}_${Date.now()}`,
+        type: 'assign_role',
+        screen,
+        target: gnome.id,
+        role,
+        duration: 1,
+        energyCost: 0,
+        goldCost: 0,
+        prerequisites: [],
+        expectedRewards: {},
+        score: Math.round((idle ? 150 : 60) + need * 200)
+      })
+    }
+
+    // 3. Dual roles - optimizers put a second bottleneck on gnomes that already work
+    if (this.hasMasterAcademy(gameState) && optimization >= HELPER_MANAGEMENT.dualRoleOptimization) {
+      for (const gnome of housed) {
+        if (!(gnome.role in needs) || gnome.currentTask?.startsWith('dual_role_')) continue
+        const best = bestOpenRole(gnome.role)
+        if (!best) continue
+
+        covered.add(best[0])
+        actions.push({
+          id: `assign_role_${gnome.id}_${gnome.role}_${best[0]}_${Date.now()}`,
+          type: 'assign_role',
+          screen,
+          target: gnome.id,
+          role: gnome.role,
+          secondaryRole: best[0],
+          duration: 1,
+          energyCost: 0,
+          goldCost: 0,
+          prerequisites: [],
+          expectedRewards: {},
+          score: Math.round(50 + best[1] * 150)
+        })
+      }
+    }
+
+    // 4. Training - the gnome on the biggest bottleneck first, keeping back more gold the less efficient the persona
+    const training = helperParams?.training
+    if (training?.enableTraining !== false) {
+      const stopAtLevel = Math.min(training?.stopAtLevel ?? GNOME_TRAINING.maxLevel, GNOME_TRAINING.maxLevel)
+      const trainee = housed
+        .filter(gnome => gnome.role in needs && this.getGnomeLevel(gnome) < stopAtLevel)
+        .sort((a, b) => needs[b.role] - needs[a.role])[0]
+
+      if (trainee) {
+        const cost = this.getTrainingCost(trainee)
+        if (gold >= cost * (1 + 3 * (1 - efficiency))) {
+          actions.push({
+            id: `train_helper_${trainee.id}_${Date.now()}`,
+            type: 'train_helper',
+            screen,
+            target: trainee.id,
+            duration: 5,
+            energyCost: 0,
+            goldCost: cost,
+            prerequisites: [],
+            expectedRewards: {},
+            score: Math.round(40 + needs[trainee.role] * 100)
+          })
+        }
+      }
+    }
+
+    return actions
+  }
+
+  /**
+   * How badly the farm needs each role right now, 0-1 - the bottleneck gets the gnome
+   */
+  static getRoleNeeds(gameState: GameState): Record<string, number> {
+    const { resources, progression, processes, automation } = gameState
+    const clamp = (value: number) => Math.max(0, Math.min(1, value))
+    const plots = Math.max(1, progression.farmPlots)
+    const crops = processes.crops
+    const growing = crops.filter(crop => crop.cropId && !crop.readyToHarvest)
+    const totalSeeds = Array.from(resources.seeds.values()).reduce((sum, count) => sum + count, 0)
+    const lowMaterials = ['stone', 'copper', 'iron'].filter(material => (resources.materials.get(material) || 0) < 10)
+
+    return {
+      waterer: growing.length > 0 ? growing.filter(crop => crop.waterLevel < automation.wateringThreshold).length / growing.length : 0,
+      pump_operator: clamp(1 - resources.water.current / Math.max(1, resources.water.max)),
+      harvester: clamp(crops.filter(crop => crop.readyToHarvest).length * 2 / plots),
+      sower: totalSeeds > 0 ? clamp((plots - crops.length) / plots) : 0,
+      miners_friend: lowMaterials.length / 3,
+      seed_catcher: clamp(1 - totalSeeds / (plots * 2)),
+      forager: clamp(1 - (resources.materials.get('wood') || 0) / 50),
+      refiner: 0.1,
+      adventure_fighter: 0.1,
+      adventure_support: 0.1
+    }
+  }
+
+  /**
+   * Gnome level from training experience - level 1 untrained
+   */
+  static getGnomeLevel(gnome: GnomeState): number {
+    return Math.min(GNOME_TRAINING.maxLevel, 1 + Math.floor((gnome.experience || 0) / GNOME_TRAINING.experiencePerLevel))
+  }
+
+  /**
+   * Gold to train a gnome one level up
+   */
+  static getTrainingCost(gnome: GnomeState): number {
+    return Math.round(GNOME_TRAINING.baseCost * Math.pow(GNOME_TRAINING.costGrowth, this.getGnomeLevel(gnome) - 1))
+  }
+
+  /**
+   * Build a housing structure outright and move waiting gnomes in
+   */
+  static buildHousing(structure: HousingStructure, state: GameState): ActionResult {
+    if (state.resources.gold < structure.cost) {
+      return {
+        success: false,
+        stateChanges: {},
+        events: [],
+        error: `Insufficient gold for ${structure.name} (need ${structure.cost})`
+      }
+    }
+
+    state.resources.gold -= structure.cost
+    state.progression.unlockedUpgrades.push(structure.name)
+    state.progression.builtStructures.add(structure.name)
+    state.helpers.housingCapacity = this.calculateHousingCapacity(state)
+    this.validateGnomeHousing(state)
+
+    return {
+      success: true,
+      stateChanges: {
+        'resources.gold': state.resources.gold,
+        'helpers.gnomes': state.helpers.gnomes
+      },
+      events: [{
+        type: 'helper',
+        description: `Built ${structure.name} (housing for ${state.helpers.housingCapacity} gnomes)`,
+        importance: 'medium' as const
+      }]
+    }
+  }
+
+  /**
+   * Master Academy counts whether it came in as an upgrade or was built from its blueprint
+   */
+  private static hasMasterAcademy(state: GameState): boolean {
+    return state.progression.unlockedUpgrades.includes('master_academy') || state.progression.builtStructures.has('master_academy')
+  }
+
+  /**
+   * Whether a housing structure's prerequisite is met - the hut only needs a rescued gnome
+   */
+  private static isHousingUnlocked(structure: HousingStructure, state: GameState): boolean {
+    if (structure.prerequisite === 'first_gnome') {
+      return state.helpers.gnomes.length > 0
+    }
+    return prerequisiteService.hasPrerequisite(structure.prerequisite, state).satisfied
+  }
+
   /**
    * Standard execute method for ActionRouter integration
    */
@@ -1213,7 +1374,7 @@ export class HelperSystem {
       if (action.type === 'assign_role') {
         // Assign helper to a role
         const gnomeId = action.target
-        const helperRole = (action as any).role || 'farming'
+        const helperRole = action.role || 'farming'
         
         // Find the gnome to assign
         const gnome = state.helpers.gnomes.find(g => g.id === gnomeId)
@@ -1242,6 +1403,31 @@ export class HelperSystem {
           }
         }
         
+        if (action.secondaryRole) {
+          if (!this.setDualRole(gnome, helperRole, action.secondaryRole, state)) {
+            return {
+              success: false,
+              stateChanges: {},
+              events: [{
+                type: 'error',
+                description: `Cannot give ${gnome.name} a dual role`,
+                importance: 'medium' as const
+              }]
+            }
+          }
+          return {
+            success: true,
+            stateChanges: {
+              'helpers.gnomes': state.helpers.gnomes
+            },
+            events: [{
+              type: 'helper',
+              description: `Assigned ${gnome.name} to ${helperRole} and ${action.secondaryRole}`,
+              importance: 'medium' as const
+            }]
+          }
+        }
+        
         // Assign the role
         gnome.role = helperRole
         gnome.isAssigned = true
@@ -1261,15 +1447,30 @@ export class HelperSystem {
       }
 
       if (action.type === 'train_helper') {
-        // Train a helper to improve efficiency
+        // Train a gnome up one level
+        const gnome = state.helpers.gnomes.find(g => g.id === action.target)
+        const cost = gnome ? this.getTrainingCost(gnome) : 0
+        if (!gnome || state.resources.gold < cost || this.getGnomeLevel(gnome) >= GNOME_TRAINING.maxLevel) {
+          return {
+            success: false,
+            stateChanges: {},
+            events: [],
+            error: gnome ? `Cannot train ${gnome.name} (needs ${cost} gold, below level ${GNOME_TRAINING.maxLevel})` : `Gnome with ID ${action.target} not found`
+          }
+        }
+
+        state.resources.gold -= cost
+        gnome.experience = (gnome.experience || 0) + GNOME_TRAINING.experiencePerLevel
+
         return {
           success: true,
           stateChanges: {
-            'resources.gold': state.resources.gold - (action.goldCost || 100)
+            'resources.gold': state.resources.gold,
+            'helpers.gnomes': state.helpers.gnomes
           },
           events: [{
             type: 'helper',
-            description: 'Trained helper to improve efficiency',
+            description: `Trained ${gnome.name} to level ${this.getGnomeLevel(gnome)}`,
             importance: 'medium' as const
           }]
         }
@@ -0,0 +1,40 @@
+// MineSystem tests
+// Energy drain, drops and shortcuts from the mining.csv depth rows
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import { setSystemsRandom } from '@/utils/systems/systemRegistry'
+import { SeededRandom } from '@/utils/random'
+import { BalanceTables } from '@/utils/systems/support/BalanceTables'
+import { MineSystem } from '@/utils/systems/core/MineSystem'
+import { gameData, createTestGameState } from '@/tests/fixtures'
+
+beforeAll(() => BalanceTables.load(gameData))
+
+describe('MineSystem - mining.csv Depths', () => {
+  it('drains energy and drops materials per the depth row and sells shortcuts the hero has earned', () => {
+    setSystemsRandom(new SeededRandom(7))
+    const gameState = createTestGameState()
+    gameState.location.currentScreen = 'mine'
+    gameState.processes.mining = { depth: 0, energyDrain: 0, isActive: true, timeAtDepth: 0 }
+
+    MineSystem.processMining(gameState, 1)
+    expect(gameState.resources.energy.current).toBe(98)
+    expect(gameState.processes.mining.depth).toBe(MineSystem.DESCENT_METERS_PER_MINUTE)
+    expect(gameState.resources.materials.get('raw_stone')).toBeGreaterThanOrEqual(16)
+    expect(gameState.resources.materials.get('raw_stone')).toBeLessThanOrEqual(24)
+    expect(MineSystem.getDepthAt(600)).toMatchObject({ name: 'Copper Vein', energyPerMinute: 4 })
+
+    // Reaching the Copper Vein opens its shortcut, and only that one
+    gameState.processes.mining.deepestDepth = 600
+    gameState.resources.gold = 200
+    const shortcuts = MineSystem.evaluateActions(gameState, {} as any, {}).filter(action => action.type === 'buy_shortcut')
+    expect(shortcuts.map(action => action.target)).toEqual(['depth_2'])
+    expect(MineSystem.getShortcutBlocker(gameState, 'depth_3')).toContain('Reach 1000m')
+
+    expect(MineSystem.execute(shortcuts[0], gameState).success).toBe(true)
+    expect(gameState.resources.gold).toBe(100)
+    gameState.processes.mining.isActive = false
+    expect(MineSystem.startMining(gameState)).toBe(true)
+    expect(gameState.processes.mining).toMatchObject({ depth: 500, deepestDepth: 600, shortcuts: ['depth_2'] })
+  })
+})
@@ -2,18 +2,35 @@
  * MiningSystem - Phase 8F + 8O Implementation
  * 
  * Handles mining mechanics including:
- * - Exponential energy drain by depth with pickaxe efficiency (0/15/30/45/60%)
- * - Material bonuses by pickaxe tier (0/10/20/30/50%)
+ * - Energy drain, material drops and shortcuts per depth tier from mining.csv
+ * - Pickaxe efficiency (0/15/30/45/60%) and material bonuses (0/10/20/30/50%)
  * - Abyss Seeker special effect (2x obsidian drops)
- * - Depth progression and material drops by tier
+ * - Depth progression and shortcut purchases
  * - Tool sharpening and temporary efficiency boosts
  */
 
-import { CSVDataParser } from '../../CSVDataParser'
-import type { GameState, GameAction, MiningState } from '@/types'
+import type { GameState, GameAction, MiningState, AllParameters } from '@/types'
 import type { ActionResult } from '../GameSystem'
+import { SeededRandom } from '../../random'
+import { BalanceTables, type MiningDepth } from '../support/BalanceTables'
 
 export class MineSystem {
+  /** Meters the hero descends per minute of mining */
+  static readonly DESCENT_METERS_PER_MINUTE = 10
+
+  /** mining.csv lists drops per 30 seconds */
+  static readonly DROP_INTERVAL_MINUTES = 0.5
+
+  /** Source for material drop rolls */
+  private static rng: SeededRandom = new SeededRandom()
+
+  /**
+   * Use a seeded PRNG for material drops
+   */
+  static setRandom(rng: SeededRandom): void {
+    MineSystem.rng = rng
+  }
+
   /**
    * Process ongoing mining operations
    * Handles energy drain, depth progression, and material drops
@@ -25,9 +42,8 @@ export class MineSystem {
 
     const mining = gameState.processes.mining
 
-    // Calculate base energy drain: 2^(depth/500) per minute
-    const depthTier = Math.floor(mining.depth / 500) + 1
-    const baseEnergyDrain = Math.pow(2, depthTier - 1) // 1, 2, 4, 8, 16...
+    // Base energy drain per minute comes from the depth's mining.csv row
+    const baseEnergyDrain = this.getDepthAt(mining.depth)?.energyPerMinute ?? 0
 
     // Apply pickaxe efficiency
     const pickaxeEfficiency = this.getPickaxeEfficiency(gameState)
@@ -41,13 +57,13 @@ export class MineSystem {
     gameState.resources.energy.current -= finalEnergyDrain
     mining.energyDrain = finalEnergyDrain / deltaMinutes // Store per-minute rate
 
-    // Progress depth (10 meters per minute)
-    const depthProgress = 10 * deltaMinutes
-    mining.depth += depthProgress
+    // Descend - the bottom of the deepest tier is as far as the mine goes
+    mining.depth = Math.min(this.getFloorDepth(), mining.depth + this.DESCENT_METERS_PER_MINUTE * deltaMinutes)
+    mining.deepestDepth = Math.max(mining.deepestDepth ?? 0, mining.depth)
     mining.timeAtDepth += deltaMinutes
 
     // Drop materials every 30 seconds (0.5 minutes)
-    const materialDropInterval = 0.5
+    const materialDropInterval = this.DROP_INTERVAL_MINUTES
     const timeSinceLastDrop = mining.timeAtDepth % materialDropInterval
     
     if (timeSinceLastDrop < deltaMinutes) {
@@ -68,59 +84,53 @@ export class MineSystem {
     }
   }
 
+  /**
+   * Next time mining changes pace - the next depth tier, or running out of energy at the current drain
+   * Returns null when not mining
+   */
+  static getNextMiningEventTime(gameState: GameState): number | null {
+    const mining = gameState.processes.mining
+    if (!mining || !mining.isActive) return null
+
+    const depth = this.getDepthAt(mining.depth)
+    const minutesToTier = depth && mining.depth < depth.bottom ? (depth.bottom - mining.depth) / this.DESCENT_METERS_PER_MINUTE : Infinity
+    const minutesToEmpty = mining.energyDrain > 0 ? gameState.resources.energy.current / mining.energyDrain : Infinity
+    const minutes = Math.min(minutesToTier, minutesToEmpty)
+    if (!Number.isFinite(minutes)) return null
+
+    return gameState.time.totalMinutes + Math.max(1, Math.ceil(minutes))
+  }
+
   /**
    * Drop materials based on current depth tier
-   * Materials are added as raw_[material] requiring refinement
+   * Every material the depth's mining.csv row lists is rolled in its range and added as raw_[material] requiring refinement
    * Applies pickaxe material bonuses and special effects
    */
   static dropMaterials(gameState: GameState, depth: number): void {
-    const depthTier = Math.floor(depth / 500) + 1
-    
-    // Material types by depth tier (0-indexed for array access)
-    const materialsByTier = [
-      ['stone'],                    // 0-500m (tier 1)
-      ['copper', 'stone'],          // 500-1000m (tier 2)
-      ['iron', 'copper'],           // 1000-1500m (tier 3)
-      ['iron'],                     // 1500-2000m (tier 4)
-      ['silver', 'iron'],           // 2000-2500m (tier 5)
-      ['silver'],                   // 2500-3000m (tier 6)
-      ['crystal', 'silver'],        // 3000-3500m (tier 7)
-      ['crystal'],                  // 3500-4000m (tier 8)
-      ['mythril', 'crystal'],       // 4000-4500m (tier 9)
-      ['obsidian', 'mythril']       // 4500-5000m (tier 10)
-    ]
-
-    const tierIndex = Math.min(depthTier - 1, materialsByTier.length - 1)
-    const availableMaterials = materialsByTier[tierIndex]
-    
-    if (!availableMaterials || availableMaterials.length === 0) {
+    const tier = this.getDepthAt(depth)
+    if (!tier || tier.drops.length === 0) {
       return
     }
 
-    // Select random material from tier
-    const material = availableMaterials[Math.floor(Math.random() * availableMaterials.length)]
-    
-    // Calculate base quantity based on depth tier (deeper = more materials)
-    const baseQuantity = Math.floor(Math.random() * 3) + 1 // 1-3 base
-    const tierBonus = Math.floor(depthTier / 2) // +0, +1, +2, +3, +4...
-    let quantity = baseQuantity + tierBonus
-
-    // Apply pickaxe material bonus
     const materialBonus = this.getMaterialBonus(gameState)
-    quantity = Math.floor(quantity * (1 + materialBonus))
+    const mined: string[] = []
 
-    // Apply special pickaxe effects
-    quantity = this.applySpecialEffect(gameState, material, quantity)
+    for (const drop of tier.drops) {
+      let quantity = drop.min + Math.floor(MineSystem.rng.next() * (drop.max - drop.min + 1))
+
+      // Apply pickaxe material bonus
+      quantity = Math.floor(quantity * (1 + materialBonus))
+
+      // Apply special pickaxe effects
+      quantity = this.applySpecialEffect(gameState, drop.material, quantity)
+
+      const current = gameState.resources.materials.get(drop.material) || 0
+      gameState.resources.materials.set(drop.material, current + quantity)
+      mined.push(`+${quantity} ${drop.material}`)
+    }
 
-    // Add as raw material requiring refinement
-    const rawMaterialName = `raw_${material}`
-    const normalizedName = CSVDataParser.normalizeMaterialName(rawMaterialName)
-    
-    const current = gameState.resources.materials.get(normalizedName) || 0
-    gameState.resources.materials.set(normalizedName, current + quantity)
-    
     const bonusText = materialBonus > 0 ? ` (+${Math.floor(materialBonus * 100)}% pickaxe bonus)` : ''
-    console.log(`Mined: +${quantity} ${rawMaterialName} at depth ${depth}m${bonusText}`)
+    console.log(`Mined: ${mined.join(', ')} at depth ${depth}m${bonusText}`)
   }
 
   /**
@@ -137,16 +147,19 @@ export class MineSystem {
       return false
     }
 
-    // Initialize mining state
+    // Initialize mining state - the deepest point and shortcuts carry over from earlier runs
+    const previous = gameState.processes.mining
     const miningState: MiningState = {
-      depth: 0,
+      depth: this.getStartDepth(previous),
       energyDrain: 1, // Will be calculated in processMining
       isActive: true,
-      timeAtDepth: 0
+      timeAtDepth: 0,
+      deepestDepth: previous?.deepestDepth ?? 0,
+      shortcuts: previous?.shortcuts ?? []
     }
 
     gameState.processes.mining = miningState
-    console.log('Started mining operation')
+    console.log(`Started mining operation at ${miningState.depth}m`)
     return true
   }
 
@@ -219,7 +232,7 @@ export class MineSystem {
     const abyssSeeker = gameState.inventory.tools.get('abyss_seeker')
     if (abyssSeeker && abyssSeeker.durability > 0) {
       // Abyss Seeker special effect: double obsidian drops
-      if (material === 'obsidian') {
+      if (material === 'raw_obsidian') {
         console.log(`🌟 Abyss Seeker special effect: Double obsidian! ${quantity} → ${quantity * 2}`)
         return quantity * 2
       }
@@ -277,65 +290,140 @@ export class MineSystem {
   }
 
   /**
-   * Get mining depth tier for display/logic purposes
+   * mining.csv row covering a depth - past the bottom row the deepest one
+   */
+  static getDepthAt(depth: number): MiningDepth | undefined {
+    const depths = BalanceTables.miningDepths
+    return depths.find(tier => depth >= tier.top && depth < tier.bottom) ?? depths[depths.length - 1]
+  }
+
+  /**
+   * Get mining depth tier for display/logic purposes - 1 for the shallowest row
    */
   static getDepthTier(depth: number): number {
-    return Math.floor(depth / 500) + 1
+    const tier = this.getDepthAt(depth)
+    return tier ? BalanceTables.miningDepths.indexOf(tier) + 1 : 1
   }
 
   /**
    * Get depth tier name for display
    */
   static getDepthTierName(depth: number): string {
-    const tier = this.getDepthTier(depth)
-    const tierNames = [
-      'Surface Layer',      // Tier 1: 0-500m
-      'Copper Veins',       // Tier 2: 500-1000m
-      'Iron Seams',         // Tier 3: 1000-1500m
-      'Deep Iron',          // Tier 4: 1500-2000m
-      'Silver Pockets',     // Tier 5: 2000-2500m
-      'Silver Lodes',       // Tier 6: 2500-3000m
-      'Crystal Caves',      // Tier 7: 3000-3500m
-      'Crystal Core',       // Tier 8: 3500-4000m
-      'Mythril Veins',      // Tier 9: 4000-4500m
-      'The Abyss'           // Tier 10: 4500-5000m
-    ]
-
-    return tierNames[Math.min(tier - 1, tierNames.length - 1)] || 'Unknown Depths'
+    return this.getDepthAt(depth)?.name ?? 'Unknown Depths'
   }
 
   /**
-   * Get expected materials for a depth tier
+   * Raw materials a depth drops
    */
   static getExpectedMaterials(depth: number): string[] {
-    const depthTier = this.getDepthTier(depth)
-    
-    const materialsByTier = [
-      ['Raw Stone'],                           // Tier 1
-      ['Raw Copper', 'Raw Stone'],             // Tier 2
-      ['Raw Iron', 'Raw Copper'],              // Tier 3
-      ['Raw Iron'],                            // Tier 4
-      ['Raw Silver', 'Raw Iron'],              // Tier 5
-      ['Raw Silver'],                          // Tier 6
-      ['Raw Crystal', 'Raw Silver'],           // Tier 7
-      ['Raw Crystal'],                         // Tier 8
-      ['Raw Mythril', 'Raw Crystal'],          // Tier 9
-      ['Raw Obsidian', 'Raw Mythril']          // Tier 10
-    ]
-
-    const tierIndex = Math.min(depthTier - 1, materialsByTier.length - 1)
-    return materialsByTier[tierIndex] || []
+    return this.getDepthAt(depth)?.drops.map(drop => drop.material) ?? []
   }
 
   /**
    * Calculate estimated energy drain per minute at depth
    */
   static calculateEnergyDrain(depth: number, pickaxeEfficiency: number = 0): number {
-    const depthTier = Math.floor(depth / 500) + 1
-    const baseEnergyDrain = Math.pow(2, depthTier - 1)
+    const baseEnergyDrain = this.getDepthAt(depth)?.energyPerMinute ?? 0
     return baseEnergyDrain * (1 - pickaxeEfficiency)
   }
 
+  /**
+   * Bottom of the deepest tier
+   */
+  static getFloorDepth(): number {
+    const depths = BalanceTables.miningDepths
+    return depths.length > 0 ? depths[depths.length - 1].bottom : 0
+  }
+
+  /**
+   * Where a run starts - the deepest shortcut owned, else the surface
+   */
+  static getStartDepth(mining: MiningState | null | undefined): number {
+    const starts = (mining?.shortcuts ?? []).map(id => BalanceTables.findMiningDepth(id)?.top ?? 0)
+    return Math.max(0, ...starts)
+  }
+
+  /**
+   * Base energy spent walking down from the surface to a depth
+   */
+  static getDescentEnergy(depth: number): number {
+    return BalanceTables.miningDepths.reduce((total, tier) => {
+      const meters = Math.max(0, Math.min(depth, tier.bottom) - tier.top)
+      return total + (meters / this.DESCENT_METERS_PER_MINUTE) * tier.energyPerMinute
+    }, 0)
+  }
+
+  /**
+   * Why a shortcut can't be bought - null when it can
+   * A shortcut opens once the hero has reached its depth and owns the shortcut it builds on; the surface needs none
+   */
+  static getShortcutBlocker(gameState: GameState, depthId: string): string | null {
+    const depth = BalanceTables.findMiningDepth(depthId)
+    if (!depth?.shortcut) return `No shortcut to ${depthId}`
+
+    const mining = gameState.processes.mining
+    const owned = mining?.shortcuts ?? []
+    if (owned.includes(depth.id)) return `Already own the shortcut to ${depth.name}`
+    if ((mining?.deepestDepth ?? 0) < depth.top) return `Reach ${depth.top}m before buying the shortcut to ${depth.name}`
+
+    const prerequisite = depth.shortcut.prerequisite ? BalanceTables.findMiningDepth(depth.shortcut.prerequisite) : undefined
+    if (prerequisite?.shortcut && !owned.includes(prerequisite.id)) return `Needs the shortcut to ${prerequisite.name} first`
+
+    if (gameState.resources.gold < depth.shortcut.gold) return `Need ${depth.shortcut.gold} gold for the shortcut to ${depth.name}`
+    if (gameState.resources.energy.current < depth.shortcut.energy) return `Need ${depth.shortcut.energy} energy for the shortcut to ${depth.name}`
+    return null
+  }
+
+  /**
+   * Evaluate mine screen actions - a mining run when materials are low, and every shortcut the hero can buy
+   * A shortcut scores by how much descent energy it saves each run against its energy price
+   */
+  static evaluateActions(gameState: GameState, _parameters: AllParameters, _gameDataStore: any): GameAction[] {
+    const actions: GameAction[] = []
+    
+    // Basic mining action if we need materials
+    const materials = gameState.resources.materials
+    const commonMaterials = ['stone', 'copper', 'iron']
+    const hasLowMaterials = commonMaterials.some(mat => (materials.get(mat) || 0) < 10)
+    
+    if (hasLowMaterials && gameState.resources.energy.current > 30) {
+      actions.push({
+        id: `mine_${Date.now()}`,
+        type: 'mine',
+        screen: 'mine',
+        duration: 5,
+        energyCost: 15,
+        goldCost: 0,
+        prerequisites: [],
+        expectedRewards: { materials: { stone: 3, copper: 2 } }
+      })
+    }
+
+    const currentStart = this.getDescentEnergy(this.getStartDepth(gameState.processes.mining))
+    for (const depth of BalanceTables.miningDepths) {
+      if (!depth.shortcut || this.getShortcutBlocker(gameState, depth.id)) continue
+
+      const saved = this.getDescentEnergy(depth.top) - currentStart
+      if (saved <= 0) continue
+
+      actions.push({
+        id: `buy_shortcut_${depth.id}_${Date.now()}`,
+        type: 'buy_shortcut',
+        screen: 'mine',
+        target: depth.id,
+        description: `Shortcut to ${depth.name} (${depth.top}m)`,
+        duration: 1,
+        energyCost: depth.shortcut.energy,
+        goldCost: depth.shortcut.gold,
+        prerequisites: [],
+        expectedRewards: {},
+        score: Math.round(20 + 40 * Math.min(1, saved / Math.max(1, depth.shortcut.energy)))
+      })
+    }
+    
+    return actions
+  }
+
   /**
    * Standard execute method for ActionRouter integration
    */
@@ -352,16 +440,17 @@ export class MineSystem {
           }
         }
 
-        // Activate mining
+        // Activate mining - from the deepest shortcut owned
+        const startDepth = this.getStartDepth(state.processes.mining)
         state.processes.mining.isActive = true
-        state.processes.mining.depth = 0
+        state.processes.mining.depth = startDepth
         state.processes.mining.timeAtDepth = 0
 
         return {
           success: true,
           stateChanges: {
             'processes.mining.isActive': true,
-            'processes.mining.depth': 0
+            'processes.mining.depth': startDepth
           },
           events: [{
             type: 'mining',
@@ -371,6 +460,10 @@ export class MineSystem {
         }
       }
 
+      if (action.type === 'buy_shortcut') {
+        return this.executeShortcutAction(action, state)
+      }
+
       return {
         success: false,
         stateChanges: {},
@@ -386,4 +479,35 @@ export class MineSystem {
       }
     }
   }
+
+  /**
+   * Buy a shortcut - pays its gold and energy, and later runs start at its depth
+   */
+  private static executeShortcutAction(action: GameAction, state: GameState): ActionResult {
+    const depthId = action.target ?? ''
+    const blocker = this.getShortcutBlocker(state, depthId)
+    const depth = BalanceTables.findMiningDepth(depthId)
+    const mining = state.processes.mining
+    if (blocker || !depth?.shortcut || !mining) {
+      return { success: false, stateChanges: {}, events: [], error: blocker ?? `No shortcut to ${depthId}` }
+    }
+
+    state.resources.gold -= depth.shortcut.gold
+    state.resources.energy.current -= depth.shortcut.energy
+    mining.shortcuts = [...(mining.shortcuts ?? []), depth.id]
+    console.log(`⛏️ Bought the shortcut to ${depth.name} - runs now start at ${this.getStartDepth(mining)}m`)
+
+    return {
+      success: true,
+      stateChanges: {
+        'processes.mining.shortcuts': mining.shortcuts
+      },
+      events: [{
+        type: 'mining_shortcut',
+        description: `Bought the shortcut to ${depth.name} (${depth.top}m)`,
+        data: { depthId: depth.id, depth: depth.top, gold: depth.shortcut.gold, energy: depth.shortcut.energy },
+        importance: 'medium' as const
+      }]
+    }
+  }
 }
@@ -2,7 +2,8 @@
 // Tower navigation, seed catching, and reach upgrade system implementing GameSystem interface
 
 import type { GameState, GameAction, AllParameters, SimulationConfig } from '@/types'
-import { SeedSystem, MANUAL_CATCHING, AUTO_CATCHERS } from '../support/SeedSystem'
+import { SeedSystem, MANUAL_CATCHING } from '../support/SeedSystem'
+import { BalanceTables } from '../support/BalanceTables'
 import { 
   type ActionResult, 
   type SystemTickResult, 
@@ -12,11 +13,22 @@ import {
   createFailureResult,
   createTickResult
 } from '../GameSystem'
+import { SeededRandom } from '../../random'
 
 /**
  * Tower system for seed catching and reach upgrades - implements GameSystem contract
  */
 export class TowerSystem {
+  /** Source for manual catch seed selection */
+  private static rng: SeededRandom = new SeededRandom()
+
+  /**
+   * Use a seeded PRNG for seed selection
+   */
+  static setRandom(rng: SeededRandom): void {
+    TowerSystem.rng = rng
+  }
+
   // =============================================================================
   // GAMESYSTEM INTERFACE IMPLEMENTATION
   // =============================================================================
@@ -92,10 +104,9 @@ export class TowerSystem {
     if (state.resources.gold >= 1000) {
       const currentAutoCatcher = this.getAutoCatcherTier(state)
       const nextTier = this.getNextAutoCatcherTier(currentAutoCatcher)
+      const tierData = nextTier ? BalanceTables.findAutoCatcher(nextTier) : undefined
       
-      if (nextTier) {
-        const tierData = AUTO_CATCHERS[nextTier]
-        
+      if (nextTier && tierData) {
         actions.push({
           id: `upgrade_autocatcher_${nextTier}_${Date.now()}`,
           type: 'purchase',
@@ -458,31 +469,18 @@ export class TowerSystem {
   /**
    * Get highest owned auto-catcher tier
    */
-  static getAutoCatcherTier(gameState: GameState): keyof typeof AUTO_CATCHERS | null {
-    const tiers = ['tier_iii', 'tier_ii', 'tier_i'] as const
-    
-    for (const tier of tiers) {
-      if (gameState.progression.builtStructures.has(tier)) {
-        return tier
-      }
-    }
-    
-    return null
+  static getAutoCatcherTier(gameState: GameState): string | null {
+    const tier = [...BalanceTables.autoCatchers].reverse().find(catcher => gameState.progression.builtStructures.has(catcher.id))
+    return tier?.id ?? null
   }
 
   /**
    * Get next auto-catcher tier to upgrade to
    */
-  static getNextAutoCatcherTier(currentTier: keyof typeof AUTO_CATCHERS | null): keyof typeof AUTO_CATCHERS | null {
-    if (!currentTier) return 'tier_i'
-    
-    const tierProgression = {
-      'tier_i': 'tier_ii',
-      'tier_ii': 'tier_iii',
-      'tier_iii': null
-    } as const
-    
-    return tierProgression[currentTier] || null
+  static getNextAutoCatcherTier(currentTier: string | null): string | null {
+    const tiers = BalanceTables.autoCatchers
+    const next = currentTier ? tiers.findIndex(tier => tier.id === currentTier) + 1 : 0
+    return tiers[next]?.id ?? null
   }
 
   /**
@@ -514,7 +512,7 @@ export class TowerSystem {
     
     for (let i = 0; i < count; i++) {
       if (availableSeeds.length > 0) {
-        const randomIndex = Math.floor(Math.random() * availableSeeds.length)
+        const randomIndex = Math.floor(TowerSystem.rng.next() * availableSeeds.length)
         selectedSeeds.push(availableSeeds[randomIndex])
       }
     }
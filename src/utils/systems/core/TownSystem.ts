@@ -3,6 +3,8 @@
 
 import type { GameState, GameAction, AllParameters, SimulationConfig } from '@/types'
 import { SeedSystem } from '../support/SeedSystem'
+import { HelperSystem } from './HelperSystem'
+import { BalanceTables } from '../support/BalanceTables'
 import { 
   type ActionResult, 
   type SystemTickResult, 
@@ -516,6 +518,12 @@ export class TownSystem {
       return createFailureResult('No blueprint specified for building')
     }
 
+    // Gnome housing is built straight from gold
+    const housing = HelperSystem.getHousingStructure(blueprintId)
+    if (housing) {
+      return HelperSystem.buildHousing(housing, state)
+    }
+
     const blueprint = state.inventory.blueprints.get(blueprintId)
     if (!blueprint || !blueprint.purchased) {
       return createFailureResult('Blueprint not available or not purchased')
@@ -606,6 +614,13 @@ export class TownSystem {
       return { canExecute: false, reason: 'No blueprint specified' }
     }
 
+    const housing = HelperSystem.getHousingStructure(blueprintId)
+    if (housing) {
+      return state.resources.gold >= housing.cost
+        ? { canExecute: true }
+        : { canExecute: false, reason: 'Not enough gold', missingResources: { gold: housing.cost - state.resources.gold } }
+    }
+
     const blueprint = state.inventory.blueprints.get(blueprintId)
     if (!blueprint || !blueprint.purchased) {
       return { canExecute: false, reason: 'Blueprint not available' }
@@ -638,18 +653,10 @@ export class TownSystem {
   // =============================================================================
 
   /**
-   * Get material price for selling
+   * Get material price for selling - the material trader's sell_<material> row
    */
   private static getMaterialPrice(materialType: string): number {
-    const prices: Record<string, number> = {
-      'wood': 2,
-      'stone': 3,
-      'copper': 5,
-      'iron': 8,
-      'silver': 15,
-      'crystal': 50
-    }
-    return prices[materialType] || 1
+    return BalanceTables.materialPrice(materialType)
   }
 
   /**
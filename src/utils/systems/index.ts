@@ -15,9 +15,12 @@ export { OfflineProgressionSystem } from './support/OfflineProgressionSystem'
 export { PrerequisiteSystem } from './support/PrerequisiteSystem'
 export { SeedSystem } from './support/SeedSystem'
 export { SupportSystemManager } from './support/SupportSystemManager'
+export { BalanceTables, BALANCE_TABLE_SCHEMAS } from './support/BalanceTables'
+export { HeroProgression } from './support/HeroProgression'
 
 // System Infrastructure
 export { GameSystem } from './GameSystem'
+export { SystemTicker } from './SystemTicker'
 export { 
   CORE_SYSTEMS, 
   SUPPORT_SYSTEMS, 
@@ -26,6 +29,7 @@ export {
   getCoreSystemNames,
   getSupportSystemNames,
   getAllSystemNames,
+  setSystemsRandom,
   hasSystem,
   SYSTEM_METADATA,
   getConsolidatedSystems
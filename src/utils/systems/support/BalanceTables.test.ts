@@ -0,0 +1,44 @@
+// BalanceTables tests
+// Tuning tables read from the shipped CSVs, and the load errors for missing or broken files
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import { HelperSystem } from '@/utils/systems/core/HelperSystem'
+import { BalanceTables } from '@/utils/systems/support/BalanceTables'
+import { FarmSystem } from '@/utils/systems/core/FarmSystem'
+import { SeedSystem } from '@/utils/systems/support/SeedSystem'
+import { BossQuirkHandler } from '@/utils/combat/BossQuirks'
+import { gameData, createTestGameState } from '@/tests/fixtures'
+
+beforeAll(() => BalanceTables.load(gameData))
+
+describe('BalanceTables - CSV Tuning Tables', () => {
+  it('reads the system tables from game data and fails the load when a file is missing or lacks a column', () => {
+    const gameState = createTestGameState()
+    gameState.progression.unlockedUpgrades = ['mulch_beds', 'irrigation_channels']
+
+    expect(FarmSystem.getRetentionMultiplier(gameState)).toBe(1.5)
+    expect(FarmSystem.getBaseDrainRate()).toBe(1 / 30)
+    expect(SeedSystem.getSeedPool(3, 'tier_i').availableSeeds).toEqual(['carrot', 'radish'])
+    expect(HelperSystem.calculateHelperEffectiveness('miners_friend', 10)).toBeCloseTo(-0.45)
+    expect(BalanceTables.materialPrice('iron')).toBe(10)
+    expect(BossQuirkHandler.calculatePenalties('Sky Serpent', new Map(), null, 100).unavoidableDamage).toBe(20)
+    expect(BossQuirkHandler.calculatePenalties('Sky Serpent', new Map([['bow', {}]]), null, 100).unavoidableDamage).toBe(0)
+    expect(BossQuirkHandler.calculatePenalties('Lava Titan', new Map(), { defense: 5, effect: 'Regeneration' }, 100).unavoidableDamage).toBe(0)
+
+    // An edited wind level takes effect on the next load, a missing or broken file fails the load and names the file
+    const edited = (filename: string, rows: Record<string, string>[]) => ({
+      ...gameData,
+      getSpecializedDataByFile: (file: string) => file === filename ? rows : gameData.getSpecializedDataByFile(file)
+    })
+    BalanceTables.load(edited('wind_levels.csv', [{ id: '1', name: 'Calm', reach: '1', seed_levels: '0;1', difficulty: '2' }]))
+    expect(SeedSystem.getCurrentWindLevel(1)).toMatchObject({ name: 'Calm', difficulty: 2, seedPool: [0, 1] })
+    expect(() => BalanceTables.load(edited('wind_levels.csv', [{ id: '1', name: 'Broken' }])))
+      .toThrow('wind_levels.csv is missing reach, seed_levels, difficulty')
+    expect(() => BalanceTables.load(edited('helper_roles.csv', []))).toThrow('helper_roles.csv is missing or empty')
+    expect(HelperSystem.calculateHelperEffectiveness('adventure_support', 10)).toBe(0)
+
+    BalanceTables.load(gameData)
+    expect(SeedSystem.getCurrentWindLevel(1)).toMatchObject({ name: 'Ground', difficulty: 1 })
+    expect(HelperSystem.calculateHelperEffectiveness('adventure_support', 10)).toBeCloseTo(6)
+  })
+})
@@ -0,0 +1,415 @@
+// BalanceTables - CSV-backed tuning tables for the simulation systems
+// Water, wind, auto-catchers, gnome housing, helper scaling, armor effects, boss challenges, hero levels, mining depths and material prices come from game data so they can be edited in the Configuration view
+
+import type { HelperScaling, HousingStructure } from '../core/HelperSystem'
+import type { ArmorEffectData } from '../../combat/ArmorEffects'
+import type { BossChallenge } from '../../combat/BossQuirks'
+import { parseMaterials, parseNumber, parsePrerequisites } from '../../csvLoader'
+import { CSVDataParser } from '../../CSVDataParser'
+
+export interface WaterRetentionTier {
+  id: string
+  name: string
+  cost: number
+  prerequisites: string[]
+  durationMinutes: number   // How long a full plot stays wet
+  description: string
+}
+
+export interface AutoPumpTier {
+  id: string
+  name: string
+  cost: number
+  prerequisites: string[]
+  materials: Record<string, number>
+  offlineRate: number       // Share of water capacity generated per hour
+  description: string
+}
+
+export interface WateringTool {
+  id: string
+  name: string
+  plotsPerAction: number
+  timePerAction: number     // Seconds
+  materials: Record<string, number>
+  specialEffect?: string
+  available: string
+}
+
+export interface WindLevel {
+  level: number
+  name: string
+  reach: number
+  seedLevels: number[]
+  difficulty: number
+}
+
+export interface AutoCatcherTier {
+  id: string
+  name: string
+  cost: number
+  prerequisites: string[]
+  materials: Record<string, number>
+  rate: number              // Seeds per minute
+  poolReduction: number     // Tiers below the highest reach the catcher can pull from
+  description: string
+}
+
+export interface MaterialDrop {
+  material: string          // Normalized, e.g. raw_copper
+  min: number
+  max: number
+}
+
+export interface MiningShortcut {
+  prerequisite: string | null   // Depth whose shortcut must be owned first - a depth without one needs nothing
+  gold: number
+  energy: number
+}
+
+export interface MiningDepth {
+  id: string
+  name: string
+  top: number               // Meters below the surface
+  bottom: number
+  prerequisites: string[]
+  energyPerMinute: number
+  drops: MaterialDrop[]     // Every listed material is rolled each 30 seconds
+  shortcut: MiningShortcut | null
+}
+
+export interface HeroLevel {
+  level: number
+  xpRequired: number        // Total XP needed to reach this level
+  totalHP: number
+  phase: string
+}
+
+/**
+ * Columns each balance file must carry - a file missing one fails the load
+ */
+export const BALANCE_TABLE_SCHEMAS: Record<string, string[]> = {
+  'water_retention.csv': ['id', 'name', 'cost', 'prerequisite', 'duration_minutes', 'description'],
+  'auto_pumps.csv': ['id', 'name', 'cost', 'prerequisite', 'materials', 'offline_rate', 'description'],
+  'watering_tools.csv': ['id', 'name', 'plots_per_action', 'seconds_per_action', 'materials', 'special_effect', 'available'],
+  'wind_levels.csv': ['id', 'name', 'reach', 'seed_levels', 'difficulty'],
+  'auto_catchers.csv': ['id', 'name', 'cost', 'prerequisite', 'materials', 'rate', 'pool_reduction', 'description'],
+  'gnome_housing.csv': ['id', 'name', 'capacity', 'cost', 'prerequisite'],
+  'helper_roles.csv': ['role', 'baseEffect', 'effectPerLevel', 'description'],
+  'armor_effects.csv': ['effect', 'chance', 'damage_reduction', 'reflect_percent', 'heal_amount', 'gold_multiplier', 'max_triggers_per_wave'],
+  'boss_challenges.csv': ['boss', 'description', 'implementation', 'encourages', 'bonus_damage', 'duration_multiplier', 'unavoidable_damage', 'counter_weapon', 'counter_armor'],
+  'xp_progression.csv': ['level', 'xp_required', 'total_hp', 'typical_phase']
+}
+
+/**
+ * Tables the systems read, rebuilt from the game data store at the start of every run - empty until then
+ */
+export class BalanceTables {
+  private static retention: WaterRetentionTier[] = []
+  private static pumps: AutoPumpTier[] = []
+  private static tools: WateringTool[] = []
+  private static wind = new Map<number, WindLevel>()
+  private static catchers: AutoCatcherTier[] = []
+  private static seedTiersByCrop = new Map<string, number>()
+  private static housing: HousingStructure[] = []
+  private static helpers: Record<string, HelperScaling> = {}
+  private static armor: Record<string, ArmorEffectData> = {}
+  private static bosses: Record<string, BossChallenge> = {}
+  private static prices = new Map<string, number>()
+  private static levels: HeroLevel[] = []
+  private static depths: MiningDepth[] = []
+
+  /**
+   * Empty every table, as before the first load
+   */
+  static reset(): void {
+    BalanceTables.retention = []
+    BalanceTables.pumps = []
+    BalanceTables.tools = []
+    BalanceTables.wind = new Map()
+    BalanceTables.catchers = []
+    BalanceTables.seedTiersByCrop = new Map()
+    BalanceTables.housing = []
+    BalanceTables.helpers = {}
+    BalanceTables.armor = {}
+    BalanceTables.bosses = {}
+    BalanceTables.prices = new Map()
+    BalanceTables.levels = []
+    BalanceTables.depths = []
+  }
+
+  /**
+   * Rebuild every table from the store - throws listing every file that is missing or malformed, after loading the rest
+   */
+  static load(gameDataStore: any): void {
+    BalanceTables.reset()
+    const problems: string[] = []
+    const rows = (filename: string) => BalanceTables.rowsOf(gameDataStore, filename, problems)
+
+    const retention = rows('water_retention.csv')
+    if (retention) {
+      BalanceTables.retention = retention.map(row => ({
+        id: row.id,
+        name: row.name,
+        cost: parseNumber(row.cost) ?? 0,
+        prerequisites: parsePrerequisites(row.prerequisite),
+        durationMinutes: parseNumber(row.duration_minutes) ?? 30,
+        description: row.description
+      }))
+    }
+
+    const pumps = rows('auto_pumps.csv')
+    if (pumps) {
+      BalanceTables.pumps = pumps.map(row => ({
+        id: row.id,
+        name: row.name,
+        cost: parseNumber(row.cost) ?? 0,
+        prerequisites: parsePrerequisites(row.prerequisite),
+        materials: parseMaterials(row.materials) ?? {},
+        offlineRate: parseNumber(row.offline_rate) ?? 0,
+        description: row.description
+      }))
+    }
+
+    const tools = rows('watering_tools.csv')
+    if (tools) {
+      BalanceTables.tools = tools.map(row => ({
+        id: row.id,
+        name: row.name,
+        plotsPerAction: parseNumber(row.plots_per_action) ?? 1,
+        timePerAction: parseNumber(row.seconds_per_action) ?? 1,
+        materials: parseMaterials(row.materials) ?? {},
+        specialEffect: row.special_effect || undefined,
+        available: row.available
+      }))
+    }
+
+    const wind = rows('wind_levels.csv')
+    if (wind) {
+      BalanceTables.wind = new Map(wind.map(row => {
+        const level = parseNumber(row.id) ?? 0
+        return [level, {
+          level,
+          name: row.name,
+          reach: parseNumber(row.reach) ?? level,
+          seedLevels: parsePrerequisites(row.seed_levels).map(Number).filter(Number.isFinite),
+          difficulty: parseNumber(row.difficulty) ?? 1
+        }]
+      }))
+    }
+
+    const catchers = rows('auto_catchers.csv')
+    if (catchers) {
+      BalanceTables.catchers = catchers.map(row => ({
+        id: row.id,
+        name: row.name,
+        cost: parseNumber(row.cost) ?? 0,
+        prerequisites: parsePrerequisites(row.prerequisite),
+        materials: parseMaterials(row.materials) ?? {},
+        rate: parseNumber(row.rate) ?? 0,
+        poolReduction: parseNumber(row.pool_reduction) ?? 0,
+        description: row.description
+      }))
+    }
+
+    const housing = rows('gnome_housing.csv')
+    if (housing) {
+      BalanceTables.housing = housing.map(row => ({
+        name: row.id,
+        capacity: parseNumber(row.capacity) ?? 0,
+        cost: parseNumber(row.cost) ?? 0,
+        prerequisite: row.prerequisite
+      }))
+    }
+
+    // helper_roles.csv lists percentage roles in percent - "(%)" in the description - and reductions as negatives
+    const helpers = rows('helper_roles.csv')
+    if (helpers) {
+      BalanceTables.helpers = Object.fromEntries(helpers.map(row => {
+        const unit = row.description.includes('(%)') ? 100 : 1
+        const base = (parseNumber(row.baseEffect) ?? 0) / unit
+        const perLevel = (parseNumber(row.effectPerLevel) ?? 0) / unit
+        return [row.role, { base, perLevel, formula: (level: number) => base + level * perLevel }]
+      }))
+    }
+
+    const armor = rows('armor_effects.csv')
+    if (armor) {
+      BalanceTables.armor = {
+        none: {},
+        ...Object.fromEntries(armor.map(row => [row.effect, {
+          chance: parseNumber(row.chance),
+          damageReduction: parseNumber(row.damage_reduction),
+          reflectPercent: parseNumber(row.reflect_percent),
+          healAmount: parseNumber(row.heal_amount),
+          goldMultiplier: parseNumber(row.gold_multiplier),
+          maxTriggersPerWave: parseNumber(row.max_triggers_per_wave)
+        }]))
+      }
+    }
+
+    const bosses = rows('boss_challenges.csv')
+    if (bosses) {
+      BalanceTables.bosses = Object.fromEntries(bosses.map(row => [row.boss, {
+        description: row.description,
+        implementation: row.implementation,
+        encourages: row.encourages,
+        bonusDamage: parseNumber(row.bonus_damage) ?? 0,
+        durationMultiplier: parseNumber(row.duration_multiplier) ?? 1,
+        unavoidableDamage: parseNumber(row.unavoidable_damage) ?? 0,
+        counterWeapon: row.counter_weapon || undefined,
+        counterArmor: row.counter_armor || undefined
+      }]))
+    }
+
+    const levels = rows('xp_progression.csv')
+    if (levels) {
+      BalanceTables.levels = BalanceTables.toHeroLevels(levels)
+    }
+
+    // Seed tiers, mining depths and sale prices live in unified files - crops.csv seedLevel, mining.csv, town_material_trader.csv sell_<material>
+    const items: any[] = gameDataStore?.allItems ?? gameDataStore?.items ?? []
+    const crops = items.filter(item => item.sourceFile === 'crops.csv' && item.seedLevel !== undefined)
+    if (crops.length > 0) {
+      BalanceTables.seedTiersByCrop = new Map(crops.map(item => [item.id, item.seedLevel]))
+    } else {
+      problems.push('crops.csv has no seedLevel rows')
+    }
+    const depths = items.filter(item => item.sourceFile === 'mining.csv' && item.depthRange)
+    if (depths.length > 0) {
+      BalanceTables.depths = depths.map(BalanceTables.toMiningDepth).sort((a, b) => a.top - b.top)
+    } else {
+      problems.push('mining.csv has no depth_range rows')
+    }
+    const sales = items.filter(item => item.sourceFile === 'town_material_trader.csv' && item.id.startsWith('sell_') && item.sellPricePerUnit !== undefined)
+    if (sales.length > 0) {
+      BalanceTables.prices = new Map(sales.map(item => [item.id.slice('sell_'.length), item.sellPricePerUnit]))
+    } else {
+      problems.push('town_material_trader.csv has no sell_<material> rows')
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`BalanceTables: ${problems.join('; ')}`)
+    }
+  }
+
+  /** Bare soil first, then the retention upgrades from worst to best */
+  static get waterRetention(): readonly WaterRetentionTier[] { return BalanceTables.retention }
+
+  /** Pumps from worst to best */
+  static get autoPumps(): readonly AutoPumpTier[] { return BalanceTables.pumps }
+
+  /** Bare hands first, then watering tools from worst to best */
+  static get wateringTools(): readonly WateringTool[] { return BalanceTables.tools }
+
+  static get windLevels(): ReadonlyMap<number, WindLevel> { return BalanceTables.wind }
+
+  /** Auto-catchers from worst to best */
+  static get autoCatchers(): readonly AutoCatcherTier[] { return BalanceTables.catchers }
+
+  /** Seed tier per crop id */
+  static get seedTiers(): ReadonlyMap<string, number> { return BalanceTables.seedTiersByCrop }
+
+  static get gnomeHousing(): readonly HousingStructure[] { return BalanceTables.housing }
+
+  static get helperScaling(): Readonly<Record<string, HelperScaling>> { return BalanceTables.helpers }
+
+  static get armorEffects(): Readonly<Record<string, ArmorEffectData>> { return BalanceTables.armor }
+
+  static get bossChallenges(): Readonly<Record<string, BossChallenge>> { return BalanceTables.bosses }
+
+  /** Hero levels from level 1 up */
+  static get heroLevels(): readonly HeroLevel[] { return BalanceTables.levels }
+
+  /** Mining depths from the surface down */
+  static get miningDepths(): readonly MiningDepth[] { return BalanceTables.depths }
+
+  /**
+   * Hero levels straight from a store, without touching the loaded tables - null if the store has no usable xp_progression.csv
+   */
+  static readHeroLevels(gameDataStore: any): HeroLevel[] | null {
+    const levels = BalanceTables.rowsOf(gameDataStore, 'xp_progression.csv', [])
+    return levels ? BalanceTables.toHeroLevels(levels) : null
+  }
+
+  private static toHeroLevels(rows: Record<string, string>[]): HeroLevel[] {
+    return rows
+      .map(row => ({
+        level: parseNumber(row.level) ?? 0,
+        xpRequired: parseNumber(row.xp_required) ?? 0,
+        totalHP: parseNumber(row.total_hp) ?? 0,
+        phase: row.typical_phase
+      }))
+      .filter(level => level.level > 0)
+      .sort((a, b) => a.level - b.level)
+  }
+
+  /**
+   * Gold the material trader pays per unit - 1 for anything it does not list
+   */
+  static materialPrice(material: string): number {
+    return BalanceTables.prices.get(material) ?? 1
+  }
+
+  static findWateringTool(id: string): WateringTool | undefined {
+    return BalanceTables.tools.find(tool => tool.id === id)
+  }
+
+  static findAutoCatcher(id: string): AutoCatcherTier | undefined {
+    return BalanceTables.catchers.find(tier => tier.id === id)
+  }
+
+  static findAutoPump(id: string): AutoPumpTier | undefined {
+    return BalanceTables.pumps.find(tier => tier.id === id)
+  }
+
+  static findMiningDepth(id: string): MiningDepth | undefined {
+    return BalanceTables.depths.find(depth => depth.id === id)
+  }
+
+  // mining.csv row - depth_range reads "-500 to -1000", drops "Raw Copper x6-8;Raw Stone x4-6"
+  private static toMiningDepth(item: any): MiningDepth {
+    const [top, bottom] = String(item.depthRange)
+      .split(/\s+to\s+/)
+      .map(bound => Math.abs(parseNumber(bound) ?? 0))
+      .sort((a, b) => a - b)
+    const drops = String(item.rawMaterialsPer30Sec ?? '')
+      .split(';')
+      .map(entry => entry.trim().match(/^(.+?)\s*x\s*(\d+)(?:\s*-\s*(\d+))?$/i))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => ({
+        material: CSVDataParser.normalizeMaterialName(match[1]),
+        min: Number(match[2]),
+        max: Number(match[3] ?? match[2])
+      }))
+    const hasShortcut = item.shortcutGold !== undefined || item.shortcutEnergy !== undefined
+
+    return {
+      id: item.id,
+      name: item.name,
+      top: top ?? 0,
+      bottom: bottom ?? top ?? 0,
+      prerequisites: item.prerequisites ?? [],
+      energyPerMinute: item.baseEnergyPerMin ?? 0,
+      drops,
+      shortcut: hasShortcut
+        ? { prerequisite: item.shortcutPrerequisite ?? null, gold: item.shortcutGold ?? 0, energy: item.shortcutEnergy ?? 0 }
+        : null
+    }
+  }
+
+  // A specialized file's rows, or null with the reason added to problems when it is empty or missing a required column
+  private static rowsOf(gameDataStore: any, filename: string, problems: string[]): Record<string, string>[] | null {
+    const data: Record<string, string>[] = gameDataStore?.getSpecializedDataByFile?.(filename) ?? []
+    if (data.length === 0) {
+      problems.push(`${filename} is missing or empty`)
+      return null
+    }
+    const missing = BALANCE_TABLE_SCHEMAS[filename].filter(column => !(column in data[0]))
+    if (missing.length > 0) {
+      problems.push(`${filename} is missing ${missing.join(', ')}`)
+      return null
+    }
+    return data
+  }
+}
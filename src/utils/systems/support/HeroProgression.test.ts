@@ -0,0 +1,32 @@
+// HeroProgression tests
+// Levels and HP from xp_progression.csv, and the HP a hero has without it
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import { BalanceTables } from '@/utils/systems/support/BalanceTables'
+import { HeroProgression } from '@/utils/systems/support/HeroProgression'
+import { gameData, createTestGameState } from '@/tests/fixtures'
+
+beforeAll(() => BalanceTables.load(gameData))
+
+describe('HeroProgression - XP Curve', () => {
+  it('reads levels and HP from xp_progression.csv and only ever raises the hero level', () => {
+    expect(HeroProgression.levelFor(0)).toBe(1)
+    expect(HeroProgression.levelFor(299)).toBe(2)
+    expect(HeroProgression.levelFor(300)).toBe(3)
+    expect(HeroProgression.maxHP(1)).toBe(120)
+    expect(HeroProgression.maxHP(HeroProgression.maxLevel + 5)).toBe(400)
+    expect(HeroProgression.progress(350)).toEqual({ level: 3, xpIntoLevel: 50, xpToNextLevel: 250 })
+
+    const gameState = createTestGameState()
+    gameState.progression.heroLevel = 1
+    gameState.progression.experience = 650
+    expect(HeroProgression.applyExperience(gameState)).toEqual({ oldLevel: 1, newLevel: 4, xp: 600, totalXp: 650 })
+    expect(gameState.progression.heroLevel).toBe(4)
+    expect(HeroProgression.applyExperience(gameState)).toBeNull()
+
+    // Without xp_progression.csv the hero keeps the old 100 + 20 per level
+    BalanceTables.reset()
+    expect(HeroProgression.maxHP(5)).toBe(200)
+    BalanceTables.load(gameData)
+  })
+})
@@ -0,0 +1,94 @@
+// HeroProgression - Hero level, XP and HP from xp_progression.csv
+// Every level threshold and max HP in the simulation is worked out here, so combat, level-ups and reports agree with the CSV
+
+import type { GameState } from '@/types'
+import { BalanceTables, type HeroLevel } from './BalanceTables'
+
+/**
+ * A level gained - xp is the threshold of the new level, totalXp what the hero has earned
+ */
+export interface LevelUp {
+  oldLevel: number
+  newLevel: number
+  xp: number
+  totalXp: number
+}
+
+export interface LevelProgress {
+  level: number
+  xpIntoLevel: number
+  xpToNextLevel: number | null   // null at the top of the table
+}
+
+export class HeroProgression {
+  /** Highest level the table defines */
+  static get maxLevel(): number {
+    const levels = BalanceTables.heroLevels
+    return levels.length > 0 ? levels[levels.length - 1].level : 1
+  }
+
+  /** The loaded curve, level 1 first */
+  static curve(): readonly HeroLevel[] {
+    return BalanceTables.heroLevels
+  }
+
+  /**
+   * Level a hero with this much total XP has reached
+   */
+  static levelFor(experience: number): number {
+    let level = 1
+    for (const row of BalanceTables.heroLevels) {
+      if (experience >= row.xpRequired) level = Math.max(level, row.level)
+    }
+    return level
+  }
+
+  /**
+   * Total XP a level needs - Infinity past the table
+   */
+  static xpForLevel(level: number): number {
+    if (level <= 1) return 0
+    return BalanceTables.heroLevels.find(row => row.level === level)?.xpRequired ?? Infinity
+  }
+
+  /**
+   * Max HP at a level - levels past the table keep the last row's HP, and without a table it is 100 + 20 per level
+   */
+  static maxHP(level: number): number {
+    const levels = BalanceTables.heroLevels
+    let row = levels[0]
+    for (const candidate of levels) {
+      if (candidate.level <= level) row = candidate
+    }
+    return row?.totalHP ?? 100 + level * 20
+  }
+
+  static progress(experience: number): LevelProgress {
+    const level = HeroProgression.levelFor(experience)
+    const next = HeroProgression.xpForLevel(level + 1)
+    return {
+      level,
+      xpIntoLevel: experience - HeroProgression.xpForLevel(level),
+      xpToNextLevel: Number.isFinite(next) ? next - experience : null
+    }
+  }
+
+  /**
+   * Raise heroLevel to what the hero's XP has earned - never lowers it
+   * Returns the level-up, or null when the level did not change
+   */
+  static applyExperience(gameState: GameState): LevelUp | null {
+    const { progression } = gameState
+    const newLevel = HeroProgression.levelFor(progression.experience)
+    if (newLevel <= progression.heroLevel) return null
+
+    const levelUp: LevelUp = {
+      oldLevel: progression.heroLevel,
+      newLevel,
+      xp: HeroProgression.xpForLevel(newLevel),
+      totalXp: progression.experience
+    }
+    progression.heroLevel = newLevel
+    return levelUp
+  }
+}
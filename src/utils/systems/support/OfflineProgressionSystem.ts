@@ -22,6 +22,7 @@ import { MineSystem } from '../core/MineSystem'
 import { ForgeSystem } from '../core/ForgeSystem'
 import { HelperSystem } from '../core/HelperSystem'
 import { CSVDataParser } from '../../CSVDataParser'
+import { SeededRandom } from '../../random'
 
 interface OfflineResults {
   time: number
@@ -75,6 +76,16 @@ interface OfflineSummary {
 }
 
 export class OfflineProgressionSystem {
+  /** Source for offline seed collection picks */
+  private static rng: SeededRandom = new SeededRandom()
+
+  /**
+   * Use a seeded PRNG for offline rewards
+   */
+  static setRandom(rng: SeededRandom): void {
+    OfflineProgressionSystem.rng = rng
+  }
+
   // =============================================================================
   // SUPPORT SYSTEM INTERFACE IMPLEMENTATION
   // =============================================================================
@@ -142,10 +153,23 @@ export class OfflineProgressionSystem {
   // EXISTING OFFLINE PROGRESSION METHODS
   // =============================================================================
 
+  /**
+   * Progress while the player is away between two play sessions
+   * The mine keeps digging over the gap - crafting is left out, ForgeSystem finishes crafts from the clock on the next tick
+   */
+  static applyBetweenSessions(gameState: GameState, offlineMinutes: number): OfflineResults {
+    return this.calculate(gameState, offlineMinutes, { includeCrafting: false })
+  }
+
   /**
    * Calculate all offline progression and apply to game state
    */
-  static calculate(gameState: GameState, offlineMinutes: number): OfflineResults {
+  static calculate(
+    gameState: GameState,
+    offlineMinutes: number,
+    options: { includeCrafting?: boolean } = {}
+  ): OfflineResults {
+    const includeCrafting = options.includeCrafting ?? true
     console.log(`⏰ OfflineProgression: Calculating ${offlineMinutes} minutes offline...`)
     
     const results: OfflineResults = {
@@ -170,7 +194,9 @@ export class OfflineProgressionSystem {
     results.cropsGrown = this.processCropGrowth(gameState, offlineMinutes)
     results.cropsHarvested = this.processAutoHarvest(gameState, results.cropsGrown)
     results.seedsCaught = this.processSeedCollection(gameState, offlineMinutes)
-    results.craftingCompleted = this.processCraftingQueue(gameState, offlineMinutes)
+    if (includeCrafting) {
+      results.craftingCompleted = this.processCraftingQueue(gameState, offlineMinutes)
+    }
     results.miningProgress = this.processMiningProgress(gameState, offlineMinutes)
     results.helperActions = this.processHelperActions(gameState, offlineMinutes)
     
@@ -370,7 +396,7 @@ export class OfflineProgressionSystem {
       const availableSeedTypes = this.getAvailableSeedTypes(gameState)
       
       for (let i = 0; i < seedsGenerated; i++) {
-        const seedType = availableSeedTypes[Math.floor(Math.random() * availableSeedTypes.length)]
+        const seedType = availableSeedTypes[Math.floor(OfflineProgressionSystem.rng.next() * availableSeedTypes.length)]
         
         // Add seed to inventory
         const currentSeeds = gameState.resources.seeds.get(seedType) || 0
@@ -2,24 +2,8 @@
 // Complete seed catching mechanics with wind levels and auto-catchers
 
 import type { GameState } from '@/types'
-
-/**
- * Wind level configuration with reach requirements and seed pools
- */
-export const WIND_LEVELS = {
-  // Level: { name, reachRequired, seedLevels, catchDifficulty }
-  1: { name: 'Ground', reach: 1, seedLevels: [0], difficulty: 1.0 },
-  2: { name: 'Breeze', reach: 2, seedLevels: [0, 1], difficulty: 1.1 },
-  3: { name: 'Gust', reach: 3, seedLevels: [0, 1, 2], difficulty: 1.2 },
-  4: { name: 'Gale', reach: 4, seedLevels: [1, 2, 3], difficulty: 1.3 },
-  5: { name: 'Jet Stream', reach: 5, seedLevels: [2, 3, 4], difficulty: 1.5 },
-  6: { name: 'Cloud Layer', reach: 6, seedLevels: [3, 4, 5], difficulty: 1.7 },
-  7: { name: 'Stratosphere', reach: 7, seedLevels: [4, 5, 6], difficulty: 2.0 },
-  8: { name: 'Mesosphere', reach: 8, seedLevels: [5, 6, 7], difficulty: 2.3 },
-  9: { name: 'Thermosphere', reach: 9, seedLevels: [6, 7, 8], difficulty: 2.6 },
-  10: { name: 'Exosphere', reach: 10, seedLevels: [7, 8, 9], difficulty: 3.0 },
-  11: { name: 'Low Orbit', reach: 11, seedLevels: [8, 9], difficulty: 3.5 }
-} as const
+import { SeededRandom } from '../../random'
+import { BalanceTables } from './BalanceTables'
 
 /**
  * Manual catching configuration
@@ -42,7 +26,7 @@ export const MANUAL_CATCHING = {
     seedsPerMinute: number
     seedPool: number[]
   } {
-    const level = WIND_LEVELS[windLevel as keyof typeof WIND_LEVELS]
+    const level = BalanceTables.windLevels.get(windLevel)
     if (!level) return { seedsPerMinute: 0, seedPool: [] }
     
     const net = this.nets[netType]
@@ -57,36 +41,6 @@ export const MANUAL_CATCHING = {
   }
 }
 
-/**
- * Auto-catcher system configuration
- */
-export const AUTO_CATCHERS = {
-  tier_i: {
-    cost: 1000,
-    materials: { iron: 10 },
-    rate: 0.1,  // 1 seed per 10 minutes
-    poolReduction: 2,  // highest reach - 2
-    description: 'Basic passive seed collection'
-  },
-  
-  tier_ii: {
-    cost: 5000,
-    materials: { silver: 5 },
-    rate: 0.2,  // 1 seed per 5 minutes
-    poolReduction: 2,  // highest reach - 2
-    description: 'Improved passive collection'
-  },
-  
-  tier_iii: {
-    cost: 30000,
-    materials: { crystal: 3 },
-    prereq: 'reach_5',
-    rate: 0.5,  // 1 seed per 2 minutes
-    poolReduction: 1,  // highest reach - 1
-    description: 'Advanced passive collection'
-  }
-}
-
 /**
  * Seed distribution strategies by game phase
  */
@@ -122,56 +76,24 @@ export const SEED_STRATEGY = {
   }
 }
 
-/**
- * Seed type to tier mapping (simplified for Phase 8N)
- */
-export const SEED_TIER_MAP = {
-  // Tier 0 (Ground level)
-  'turnip': 0,
-  'carrot': 0,
-  'radish': 0,
-  
-  // Tier 1 (Low reach)
-  'potato': 1,
-  'cabbage': 1,
-  'corn': 1,
-  
-  // Tier 2 (Medium reach)  
-  'tomato': 2,
-  'strawberry': 2,
-  'spinach': 2,
-  
-  // Tier 3 (High reach)
-  'onion': 3,
-  'garlic': 3,
-  'cucumber': 3,
-  
-  // Tier 4 (Very high reach)
-  'leek': 4,
-  'wheat': 4,
-  'asparagus': 4,
-  
-  // Tier 5+ (Extreme reach)
-  'cauliflower': 5,
-  'caisim': 5,
-  'pumpkin': 6,
-  'watermelon': 7,
-  'honeydew': 7,
-  'pineapple': 8,
-  'beetroot': 8,
-  'eggplant': 8,
-  'soybean': 9,
-  'yam': 9
-} as const
-
 /**
  * Seed catching and distribution system for Phase 8N
  */
 export class SeedSystem {
+  /** Source for catching rolls and seed picks */
+  private static rng: SeededRandom = new SeededRandom()
+
+  /**
+   * Use a seeded PRNG for seed catching
+   */
+  static setRandom(rng: SeededRandom): void {
+    SeedSystem.rng = rng
+  }
+
   /**
    * Get available seed pool based on tower reach and auto-catcher
    */
-  static getSeedPool(highestReach: number, autoCatcherTier?: keyof typeof AUTO_CATCHERS): {
+  static getSeedPool(highestReach: number, autoCatcherTier?: string): {
     availableSeeds: string[]
     effectiveReach: number
     tierRange: number[]
@@ -180,21 +102,16 @@ export class SeedSystem {
     
     // Apply auto-catcher reduction
     if (autoCatcherTier) {
-      const reduction = AUTO_CATCHERS[autoCatcherTier].poolReduction
+      const reduction = BalanceTables.findAutoCatcher(autoCatcherTier)?.poolReduction ?? 0
       effectiveReach = Math.max(1, highestReach - reduction)
     }
     
     // Get seed levels available at this reach
-    const windLevel = Math.min(effectiveReach, 11)
-    const tierRange = WIND_LEVELS[windLevel as keyof typeof WIND_LEVELS]?.seedLevels || [0]
+    const windLevel = Math.min(effectiveReach, BalanceTables.windLevels.size)
+    const tierRange = BalanceTables.windLevels.get(windLevel)?.seedLevels || [0]
     
     // Find seeds matching these tiers
-    const availableSeeds: string[] = []
-    for (const [seedType, tier] of Object.entries(SEED_TIER_MAP)) {
-      if (tierRange.includes(tier)) {
-        availableSeeds.push(seedType)
-      }
-    }
+    const availableSeeds = this.getSeedsFromTierRange(tierRange)
     
     return {
       availableSeeds,
@@ -240,7 +157,7 @@ export class SeedSystem {
       
       for (let i = 0; i < seedsGained; i++) {
         if (seedPool.length > 0) {
-          const randomSeed = seedPool[Math.floor(Math.random() * seedPool.length)]
+          const randomSeed = seedPool[Math.floor(SeedSystem.rng.next() * seedPool.length)]
           seedTypes.push(randomSeed)
           
           // Add to inventory
@@ -268,7 +185,7 @@ export class SeedSystem {
   ): {
     seedsGained: number
     seedType: string | null
-    autoCatcherTier: keyof typeof AUTO_CATCHERS | null
+    autoCatcherTier: string | null
   } {
     const autoCatcherTier = this.getHighestAutoCatcherTier(gameState)
     
@@ -276,15 +193,15 @@ export class SeedSystem {
       return { seedsGained: 0, seedType: null, autoCatcherTier: null }
     }
     
-    const catcher = AUTO_CATCHERS[autoCatcherTier]
-    const seedsGainedFloat = deltaTime * catcher.rate
+    const catcher = BalanceTables.findAutoCatcher(autoCatcherTier)
+    const seedsGainedFloat = deltaTime * (catcher?.rate ?? 0)
     const seedsGained = Math.floor(seedsGainedFloat)
     
     if (seedsGained > 0) {
       const seedPool = this.getSeedPool(highestReach, autoCatcherTier)
       
       if (seedPool.availableSeeds.length > 0) {
-        const randomSeed = seedPool.availableSeeds[Math.floor(Math.random() * seedPool.availableSeeds.length)]
+        const randomSeed = seedPool.availableSeeds[Math.floor(SeedSystem.rng.next() * seedPool.availableSeeds.length)]
         
         // Add to inventory
         const current = gameState.resources.seeds.get(randomSeed) || 0
@@ -329,7 +246,7 @@ export class SeedSystem {
         seed,
         count,
         energyValue: this.getSeedEnergyValue(seed),
-        tier: SEED_TIER_MAP[seed as keyof typeof SEED_TIER_MAP] || 0
+        tier: BalanceTables.seedTiers.get(seed) || 0
       }))
     
     if (seedArray.length === 0) {
@@ -349,17 +266,17 @@ export class SeedSystem {
     const lowTier = seedArray.slice(highTierCount + midTierCount)
     
     // Weighted random selection
-    const roll = Math.random()
+    const roll = SeedSystem.rng.next()
     const dist = strategy.distribution
     
     if (roll < dist.highestTier && highTier.length > 0) {
-      const selected = highTier[Math.floor(Math.random() * highTier.length)]
+      const selected = highTier[Math.floor(SeedSystem.rng.next() * highTier.length)]
       return { selectedSeed: selected.seed, strategy: strategyName, distribution: dist }
     } else if (roll < dist.highestTier + dist.midTier && midTier.length > 0) {
-      const selected = midTier[Math.floor(Math.random() * midTier.length)]
+      const selected = midTier[Math.floor(SeedSystem.rng.next() * midTier.length)]
       return { selectedSeed: selected.seed, strategy: strategyName, distribution: dist }
     } else if (lowTier.length > 0) {
-      const selected = lowTier[Math.floor(Math.random() * lowTier.length)]
+      const selected = lowTier[Math.floor(SeedSystem.rng.next() * lowTier.length)]
       return { selectedSeed: selected.seed, strategy: strategyName, distribution: dist }
     }
     
@@ -376,8 +293,8 @@ export class SeedSystem {
     difficulty: number
     seedPool: number[]
   } {
-    const level = Math.min(towerReach, 11)
-    const windData = WIND_LEVELS[level as keyof typeof WIND_LEVELS] || WIND_LEVELS[1]
+    const level = Math.min(towerReach, BalanceTables.windLevels.size)
+    const windData = BalanceTables.windLevels.get(level) || BalanceTables.windLevels.get(1)!
     
     return {
       level,
@@ -402,14 +319,11 @@ export class SeedSystem {
   /**
    * Get highest owned auto-catcher tier
    */
-  private static getHighestAutoCatcherTier(gameState: GameState): keyof typeof AUTO_CATCHERS | null {
+  private static getHighestAutoCatcherTier(gameState: GameState): string | null {
     const upgrades = gameState.progression.unlockedUpgrades
     
-    if (upgrades.includes('tier_iii')) return 'tier_iii'
-    if (upgrades.includes('tier_ii')) return 'tier_ii'
-    if (upgrades.includes('tier_i')) return 'tier_i'
-    
-    return null
+    const tier = [...BalanceTables.autoCatchers].reverse().find(catcher => upgrades.includes(catcher.id))
+    return tier?.id ?? null
   }
 
   /**
@@ -418,7 +332,7 @@ export class SeedSystem {
   private static getSeedsFromTierRange(tierRange: number[]): string[] {
     const seeds: string[] = []
     
-    for (const [seedType, tier] of Object.entries(SEED_TIER_MAP)) {
+    for (const [seedType, tier] of BalanceTables.seedTiers) {
       if (tierRange.includes(tier)) {
         seeds.push(seedType)
       }
@@ -484,7 +398,7 @@ export class SeedSystem {
     
     for (const [seedType, count] of seedCounts) {
       if (count > 0) {
-        const tier = SEED_TIER_MAP[seedType as keyof typeof SEED_TIER_MAP] || 0
+        const tier = BalanceTables.seedTiers.get(seedType) || 0
         weightedTierSum += tier * count
         totalWeightedSeeds += count
       }
@@ -500,7 +414,7 @@ export class SeedSystem {
     
     // Get auto-catcher rate
     const autoCatcherTier = this.getHighestAutoCatcherTier(gameState)
-    const autoCatcherRate = autoCatcherTier ? AUTO_CATCHERS[autoCatcherTier].rate * 60 : 0 // Convert to per hour
+    const autoCatcherRate = autoCatcherTier ? (BalanceTables.findAutoCatcher(autoCatcherTier)?.rate ?? 0) * 60 : 0 // Convert to per hour
     
     // Get optimal seed for planting
     const optimalResult = this.selectSeedForPlanting(gameState, gameState.resources.seeds)
@@ -49,8 +49,7 @@ export class SupportSystemManager {
     // Apply helper system effects
     HelperSystem.apply(state, deltaTime)
     
-    // Apply offline progression if needed
-    OfflineProgressionSystem.apply(state, deltaTime)
+    // Offline progression only runs for offline gaps (handleOfflineTime) - long skipped ticks are still online
     
     // Prerequisites don't apply effects, they only validate
     PrerequisiteSystem.apply(state, deltaTime)
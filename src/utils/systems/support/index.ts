@@ -3,3 +3,7 @@ export { OfflineProgressionSystem } from './OfflineProgressionSystem'
 export { PrerequisiteSystem } from './PrerequisiteSystem'
 export { SeedSystem } from './SeedSystem'
 export { SupportSystemManager } from './SupportSystemManager'
+export { BalanceTables, BALANCE_TABLE_SCHEMAS } from './BalanceTables'
+export type { WaterRetentionTier, AutoPumpTier, WateringTool, WindLevel, AutoCatcherTier, HeroLevel, MiningDepth, MiningShortcut, MaterialDrop } from './BalanceTables'
+export { HeroProgression } from './HeroProgression'
+export type { LevelUp, LevelProgress } from './HeroProgression'
@@ -11,6 +11,7 @@ import { HelperSystem } from './core/HelperSystem'
 import { OfflineProgressionSystem } from './support/OfflineProgressionSystem'
 import { PrerequisiteSystem } from './support/PrerequisiteSystem'
 import { SeedSystem } from './support/SeedSystem'
+import type { SeededRandom } from '../random'
 
 /**
  * Core game systems - main gameplay mechanics
@@ -56,6 +57,17 @@ export function getSystem(systemName: SystemType) {
   return ALL_SYSTEMS[systemName]
 }
 
+/**
+ * Hand one PRNG to every system that rolls dice, so a run is reproducible from its seed
+ */
+export function setSystemsRandom(rng: SeededRandom): void {
+  for (const system of Object.values(ALL_SYSTEMS)) {
+    if ('setRandom' in system) {
+      system.setRandom(rng)
+    }
+  }
+}
+
 /**
  * Get all core system names
  */
@@ -0,0 +1,22 @@
+// Worker Game Data Store
+// Rebuilds the game data store API the simulation needs from CSV data posted by the main thread
+
+/**
+ * Plain-object stand-in for the Pinia game data store
+ */
+export function createWorkerGameDataStore(gameData: any) {
+  return {
+    itemsByGameFeature: gameData.itemsByGameFeature || {},
+    itemsByCategory: gameData.itemsByCategory || {},
+    allItems: gameData.allItems || [],
+    getItemById: (id: string) => {
+      const item = gameData.itemsById?.[id] || null
+      if (!item) {
+        console.warn(`⚠️ Worker: Item not found: ${id}`)
+      }
+      return item
+    },
+    getItemsByType: (type: string) => (gameData.allItems || []).filter((item: any) => item.type === type),
+    getSpecializedDataByFile: (filename: string) => gameData.specializedData?.[filename] || []
+  }
+}
@@ -0,0 +1,48 @@
+// Simulation Pool Worker
+// Runs queued simulations headlessly, one job at a time, for SimulationPool
+
+import { HeadlessRunner } from '../utils/headless/HeadlessRunner'
+import { MapSerializer } from '../utils/MapSerializer'
+import { createWorkerGameDataStore } from './gameDataStore'
+import type {
+  PoolWorkerInputMessage,
+  PoolWorkerOutputMessage
+} from '../types/worker-messages'
+
+/**
+ * Sends a message to the pool
+ */
+function postMessage(message: PoolWorkerOutputMessage) {
+  self.postMessage(message)
+}
+
+/**
+ * Runs one job to completion and posts its SimulationResult
+ */
+function handleRunJob(jobId: string, serializedConfig: any, gameData: any) {
+  try {
+    const config = MapSerializer.deserialize(serializedConfig)
+    const runner = new HeadlessRunner(config, createWorkerGameDataStore(gameData), {
+      onProgress: progress => postMessage({ type: 'jobProgress', data: { jobId, progress } }),
+      progressIntervalTicks: 500
+    })
+    
+    const result = runner.run()
+    postMessage({ type: 'jobComplete', data: { jobId, result } })
+  } catch (error) {
+    console.error(`❌ Pool worker: Job ${jobId} failed:`, error)
+    postMessage({
+      type: 'jobError',
+      data: { jobId, message: error instanceof Error ? error.message : String(error) }
+    })
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<PoolWorkerInputMessage>) => {
+  const message = event.data
+  if (message.type === 'runJob') {
+    handleRunJob(message.data.jobId, message.data.config, message.data.gameData)
+  }
+})
+
+console.log('🏊 Pool worker ready')
@@ -9,10 +9,17 @@ import type {
   WorkerState,
   SimulationStats
 } from '../types/worker-messages'
+import type { SimulationCheckpoint } from '../utils/state/SimulationCheckpoint'
+import { SnapshotRingBuffer } from '../utils/state/SnapshotRingBuffer'
+import { createWorkerGameDataStore } from './gameDataStore'
+import type { VictoryConditionResult } from '../types/reports'
 import type { 
   GameState,
-  SerializedGameState
+  SerializedGameState,
+  StallDiagnosis,
+  PendingDecision
 } from '../types/game-state'
+import type { DecisionChoice, ScriptStep } from '../types/simulation'
 
 // Worker state
 let workerState: WorkerState = {
@@ -27,6 +34,12 @@ let workerState: WorkerState = {
 
 let tickInterval: number | null = null
 
+// Manual mode - the loop holds at a check-in until the main thread decides
+let awaitingDecision: PendingDecision | null = null
+
+// Hourly GameState history for the Live Monitor's time-travel scrubber
+const snapshotBuffer = new SnapshotRingBuffer()
+
 /**
  * Sends a message to the main thread
  */
@@ -66,6 +79,26 @@ function handleMessage(event: MessageEvent<WorkerInputMessage>) {
         handleGetState()
         break
         
+      case 'checkpoint':
+        handleCheckpoint()
+        break
+        
+      case 'restore':
+        handleRestore(message.data.checkpoint)
+        break
+        
+      case 'getSnapshot':
+        handleGetSnapshot(message.data.totalMinutes)
+        break
+        
+      case 'setManualMode':
+        handleSetManualMode(message.data.enabled)
+        break
+        
+      case 'decide':
+        handleDecide(message.data.choice)
+        break
+        
       default:
         throw new Error(`Unknown message type: ${(message as any).type}`)
     }
@@ -136,19 +169,7 @@ function handleInitialize(serializedConfig: any, serializedParameters?: any, gam
       )
     }
     
-    const gameDataStore = {
-      itemsByGameFeature: gameData.itemsByGameFeature || {},
-      itemsByCategory: gameData.itemsByCategory || {},
-      allItems: gameData.allItems || [],
-      getItemById: (id: string) => {
-        const item = gameData.itemsById?.[id] || null
-        if (!item) {
-          console.warn(`⚠️ Worker: Item not found: ${id}`)
-        }
-        return item
-      },
-      getSpecializedDataByFile: (filename: string) => gameData.specializedData?.[filename] || []
-    }
+    const gameDataStore = createWorkerGameDataStore(gameData)
     
     console.log('✅ Worker: Game data store created successfully', {
       totalItems: gameData.allItems.length,
@@ -159,6 +180,7 @@ function handleInitialize(serializedConfig: any, serializedParameters?: any, gam
     // Create simulation engine with game data
     console.log('🔧 Worker: Creating SimulationOrchestrator with validated CSV data...')
     workerState.engine = new SimulationOrchestrator(config, gameDataStore)
+    snapshotBuffer.clear()
     workerState.initialized = true
     workerState.errorCount = 0
     
@@ -214,6 +236,12 @@ function handleStart(speed?: number) {
     workerState.engine.setSpeed(speed)
   }
   
+  // A held check-in still needs its answer
+  if (awaitingDecision) {
+    postMessage({ type: 'decisionRequest', data: { decision: awaitingDecision } })
+    return
+  }
+  
   // Start the simulation loop
   startSimulationLoop()
 }
@@ -257,6 +285,7 @@ function handleStop() {
   if (workerState.engine) {
     const gameState = workerState.engine.getGameState()
     const serializedState = serializeGameState(gameState)
+    const snapshot = snapshotBuffer.capture(gameState, 'complete')
     
     postMessage({
       type: 'complete',
@@ -264,7 +293,10 @@ function handleStop() {
         reason: 'manual',
         finalState: serializedState,
         stats: calculateStats(),
-        summary: `Simulation stopped manually after ${workerState.engine.getStats().daysPassed} days`
+        summary: `Simulation stopped manually after ${workerState.engine.getStats().daysPassed} days`,
+        seed: workerState.engine.getSeed(),
+        snapshot,
+        replayScript: getReplayScript()
       }
     })
   }
@@ -288,6 +320,135 @@ function handleGetState() {
   }
 }
 
+/**
+ * Captures a resumable checkpoint of the running engine
+ */
+function handleCheckpoint() {
+  if (!workerState.engine) {
+    handleError(new Error('Engine not initialized'), false)
+    return
+  }
+  
+  const checkpoint: SimulationCheckpoint = workerState.engine.createCheckpoint()
+  console.log(`💾 Worker: Checkpoint captured on day ${checkpoint.day}`)
+  
+  postMessage({
+    type: 'checkpoint',
+    data: { checkpoint }
+  })
+}
+
+/**
+ * Restores a checkpoint into the engine - the engine keeps its own config, so this also forks
+ */
+function handleRestore(checkpoint: SimulationCheckpoint) {
+  if (!workerState.initialized || !workerState.engine) {
+    handleError(new Error('Engine not initialized'), false)
+    return
+  }
+  
+  // Never restore underneath a running loop
+  handlePause()
+  awaitingDecision = null
+  
+  workerState.engine.restoreCheckpoint(checkpoint)
+  console.log(`⏪ Worker: Restored checkpoint from day ${checkpoint.day}`)
+  
+  // History after the checkpoint belongs to a timeline that no longer exists
+  const gameState = workerState.engine.getGameState()
+  snapshotBuffer.truncateAfter(gameState.time.totalMinutes)
+  snapshotBuffer.capture(gameState, 'restore')
+  
+  postMessage({
+    type: 'restored',
+    data: {
+      gameState: serializeGameState(gameState),
+      stats: calculateStats(),
+      snapshots: snapshotBuffer.getIndex()
+    }
+  })
+}
+
+/**
+ * Sends a past snapshot for the time-travel scrubber
+ */
+function handleGetSnapshot(totalMinutes: number) {
+  const snapshot = snapshotBuffer.get(totalMinutes)
+  if (!snapshot) {
+    handleError(new Error(`No snapshot at or before minute ${totalMinutes}`), false)
+    return
+  }
+  
+  postMessage({
+    type: 'snapshot',
+    data: {
+      entry: snapshot.entry,
+      gameState: serializeGameState(snapshot.gameState)
+    }
+  })
+}
+
+/**
+ * Switches manual mode - turning it off hands a held check-in back to the AI
+ */
+function handleSetManualMode(enabled: boolean) {
+  if (!workerState.engine) {
+    handleError(new Error('Engine not initialized'), false)
+    return
+  }
+  
+  workerState.engine.setManualMode(enabled)
+  console.log(`🕹️ Worker: Manual mode ${enabled ? 'on' : 'off'}`)
+  
+  if (!enabled && awaitingDecision) {
+    awaitingDecision = null
+    startSimulationLoop()
+  }
+}
+
+/**
+ * Plays a person's choice for the held check-in, then lets the loop carry on
+ */
+function handleDecide(choice: DecisionChoice) {
+  if (!workerState.engine || !awaitingDecision) {
+    handleError(new Error('No check-in is waiting for a decision'), false)
+    return
+  }
+  
+  const result = workerState.engine.resolveDecision(choice)
+  if (result.pendingDecision) {
+    // Refused - ask again with the validator's errors
+    awaitingDecision = result.pendingDecision
+    postMessage({ type: 'decisionRequest', data: { decision: result.pendingDecision } })
+    return
+  }
+  
+  awaitingDecision = null
+  const gameState = workerState.engine.getGameState()
+  postMessage({
+    type: 'tick',
+    data: {
+      gameState: serializeGameState(gameState),
+      executedActions: result.executedActions,
+      events: result.events,
+      deltaTime: 0,
+      tickCount: workerState.engine.getStats().tickCount,
+      isComplete: false,
+      isStuck: false
+    }
+  })
+  
+  startSimulationLoop()
+}
+
+/**
+ * Every manual choice so far, or undefined when nobody took control
+ */
+function getReplayScript(): ScriptStep[] | undefined {
+  const script: ScriptStep[] = workerState.engine?.getManualScript() ?? []
+  return script.length > 0 ? script : undefined
+}
+
 /**
  * Calculates the correct tick delay for different simulation speeds
  * Phase 8L: Fixed speed calibration - 1 tick = 0.5 minutes of game time
@@ -365,6 +526,7 @@ function startSimulationLoop() {
       
       // Serialize game state for transmission
       const serializedState = serializeGameState(tickResult.gameState)
+      const snapshot = snapshotBuffer.maybeCapture(tickResult.gameState) ?? undefined
       
       // Validate serialization
       if (!serializedState.time || !serializedState.resources) {
@@ -385,7 +547,8 @@ function startSimulationLoop() {
           deltaTime: tickResult.deltaTime || 1,
           tickCount: stats.tickCount,
           isComplete: tickResult.isComplete || false,
-          isStuck: tickResult.isStuck || false
+          isStuck: tickResult.isStuck || false,
+          snapshot
         }
       })
       
@@ -396,7 +559,14 @@ function startSimulationLoop() {
       }
       
       if (tickResult.isStuck) {
-        handleCompletion('bottleneck', tickResult.gameState)
+        handleCompletion('bottleneck', tickResult.gameState, tickResult.stallDiagnosis)
+        return
+      }
+      
+      // Manual mode - hold the loop until the main thread decides
+      if (tickResult.pendingDecision) {
+        awaitingDecision = tickResult.pendingDecision
+        postMessage({ type: 'decisionRequest', data: { decision: tickResult.pendingDecision } })
         return
       }
       
@@ -418,21 +588,28 @@ function startSimulationLoop() {
 /**
  * Handles simulation completion
  */
-function handleCompletion(reason: 'victory' | 'bottleneck', gameState: GameState) {
+function handleCompletion(reason: 'victory' | 'bottleneck', gameState: GameState, stallDiagnosis?: StallDiagnosis) {
   console.log(`🏁 Worker: Simulation complete (${reason})`)
   
   workerState.running = false
   
   const serializedState = serializeGameState(gameState)
   const stats = calculateStats()
+  const snapshot = snapshotBuffer.capture(gameState, reason === 'bottleneck' ? 'bottleneck' : 'complete')
   
   let summary = ''
   switch (reason) {
-    case 'victory':
-      summary = `Victory achieved after ${stats.daysPassed} days!`
+    case 'victory': {
+      const results: VictoryConditionResult[] = workerState.engine?.getVictoryResults() ?? []
+      const met = results.filter(result => result.met)
+      summary = `Victory achieved after ${stats.daysPassed} days!` +
+        (met.length > 0 ? ` (${met.map(result => result.label).join(', ')})` : '')
       break
+    }
     case 'bottleneck':
-      summary = `Bottleneck detected after ${stats.daysPassed} days - simulation stuck`
+      summary = stallDiagnosis
+        ? `Bottleneck detected after ${stats.daysPassed} days - ${stallDiagnosis.summary}`
+        : `Bottleneck detected after ${stats.daysPassed} days - simulation stuck`
       break
   }
   
@@ -442,7 +619,11 @@ function handleCompletion(reason: 'victory' | 'bottleneck', gameState: GameState
       reason,
       finalState: serializedState,
       stats,
-      summary
+      summary,
+      seed: workerState.engine?.getSeed() ?? 0,
+      snapshot,
+      stallDiagnosis,
+      replayScript: getReplayScript()
     }
   })
 }